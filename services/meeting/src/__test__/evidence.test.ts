@@ -0,0 +1,73 @@
+import {
+  findQuoteSegments,
+  isQuoteInText,
+  normalizeForMatch,
+  wordSimilarity,
+} from '../utils/evidence';
+
+describe('normalizeForMatch', () => {
+  it('should lowercase, strip punctuation and collapse whitespace', () => {
+    expect(normalizeForMatch("  Let's ship it —  on FRIDAY!  ")).toBe('let s ship it on friday');
+  });
+
+  it('should keep letters of other scripts', () => {
+    expect(normalizeForMatch('Très bien, ça marche.')).toBe('très bien ça marche');
+  });
+});
+
+describe('isQuoteInText', () => {
+  const text = 'Okay. We will ship the release on Friday, after the planning meeting.';
+
+  it('should match a quote regardless of case and punctuation', () => {
+    expect(isQuoteInText('we will SHIP the release on friday', text)).toBe(true);
+  });
+
+  it('should match parts skipped with an ellipsis in order', () => {
+    expect(isQuoteInText('We will ship ... after the planning meeting', text)).toBe(true);
+    expect(isQuoteInText('after the planning meeting … We will ship', text)).toBe(false);
+  });
+
+  it('should only match whole words', () => {
+    expect(isQuoteInText('the plan', text)).toBe(false);
+  });
+
+  it('should not match an empty quote', () => {
+    expect(isQuoteInText('...', text)).toBe(false);
+  });
+});
+
+describe('findQuoteSegments', () => {
+  const segments = [
+    { text: 'Good morning everyone.' },
+    { text: 'Let us review the budget' },
+    { text: 'for the third quarter.' },
+    { text: 'Any questions?' },
+  ];
+
+  it('should return the segment a quote is in', () => {
+    expect(findQuoteSegments('any questions', segments)).toEqual([3]);
+  });
+
+  it('should return every segment a quote runs across', () => {
+    expect(findQuoteSegments('review the budget for the third quarter', segments)).toEqual([1, 2]);
+  });
+
+  it('should return null when the quote is not in the segments', () => {
+    expect(findQuoteSegments('the fourth quarter', segments)).toBeNull();
+  });
+});
+
+describe('wordSimilarity', () => {
+  it('should be 1 for the same words in any order and case', () => {
+    expect(wordSimilarity('Send the report', 'report: send THE')).toBe(1);
+  });
+
+  it('should be the share of distinct words in common', () => {
+    // {send, the, report} vs {send, the, invoice} - 2 shared of 4 distinct
+    expect(wordSimilarity('send the report', 'send the invoice')).toBe(0.5);
+  });
+
+  it('should be 0 when either text has no words', () => {
+    expect(wordSimilarity('', 'send the report')).toBe(0);
+  });
+});
@@ -0,0 +1,55 @@
+import { IActionItem } from '../models/Meeting';
+import { ExtractionService } from '../services/extractionService';
+
+const item = (id: string, description: string, fields: Partial<IActionItem> = {}): IActionItem => ({
+  id,
+  description,
+  priority: 'medium',
+  status: 'pending',
+  ...fields,
+});
+
+describe('ExtractionService.mergeUserActionItems', () => {
+  const service = new ExtractionService();
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should keep an action item added by hand when extraction is re-run', () => {
+    const added = item('a', 'Book the venue for the offsite', { manual: true });
+    const merged = service.mergeUserActionItems(
+      [added, item('b', 'Send the report')],
+      [item('c', 'Send the quarterly report')]
+    );
+
+    expect(merged.map((i) => i.id)).toEqual(['a', 'c']);
+  });
+
+  it('should drop extracted items that repeat an edited one in other words', () => {
+    const edited = item('a', 'Send the budget report to finance', {
+      editedAt: new Date(),
+      status: 'completed',
+    });
+    const merged = service.mergeUserActionItems(
+      [edited],
+      [item('b', 'Send budget report to the finance team'), item('c', 'Book the venue')]
+    );
+
+    expect(merged.map((i) => i.id)).toEqual(['a', 'c']);
+  });
+
+  it('should not bring back an extracted item the user deleted', () => {
+    const merged = service.mergeUserActionItems(
+      [],
+      [item('b', 'Send the budget report'), item('c', 'Book the venue')],
+      [{ description: 'Send the budget report to finance', dismissedAt: new Date() }]
+    );
+
+    expect(merged.map((i) => i.id)).toEqual(['c']);
+  });
+});
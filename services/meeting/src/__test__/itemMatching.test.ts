@@ -0,0 +1,45 @@
+import { matchByDescription } from '../utils/itemMatching';
+
+describe('matchByDescription', () => {
+  it('should pair items describing the same thing and list the rest', () => {
+    const expected = [
+      { description: 'Send the budget report to finance' },
+      { description: 'Book the offsite venue' },
+    ];
+    const extracted = [
+      { description: 'Book a venue for the offsite' },
+      { description: 'Update the roadmap' },
+    ];
+
+    const result = matchByDescription(expected, extracted, 0.5);
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0].left).toBe(expected[1]);
+    expect(result.matches[0].right).toBe(extracted[0]);
+    expect(result.onlyLeft).toEqual([expected[0]]);
+    expect(result.onlyRight).toEqual([extracted[1]]);
+  });
+
+  it('should give each item its most similar partner first', () => {
+    const left = [{ description: 'send the report' }, { description: 'send the final report' }];
+    const right = [{ description: 'send the final report' }];
+
+    const result = matchByDescription(left, right, 0.5);
+
+    // The loose match must not take the exact one's partner
+    expect(result.matches).toEqual([{ left: left[1], right: right[0], similarity: 1 }]);
+    expect(result.onlyLeft).toEqual([left[0]]);
+  });
+
+  it('should not pair items below the threshold', () => {
+    const result = matchByDescription(
+      [{ description: 'send the report' }],
+      [{ description: 'send the invoice' }],
+      0.6
+    );
+
+    expect(result.matches).toEqual([]);
+    expect(result.onlyLeft).toHaveLength(1);
+    expect(result.onlyRight).toHaveLength(1);
+  });
+});
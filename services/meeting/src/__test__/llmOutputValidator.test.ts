@@ -0,0 +1,151 @@
+import {
+  actionItemsOutputSchema,
+  decisionsOutputSchema,
+  followUpDetectionsOutputSchema,
+  sentimentOutputSchema,
+  summaryOutputSchema,
+  timelineOutputSchema,
+  translationOutputSchema,
+} from '../validators/llmOutputValidator';
+
+describe('actionItemsOutputSchema', () => {
+  const item = { description: ' Send the report ', priority: 'HIGH', dueDate: '2026-03-01' };
+
+  it('should accept a bare array or the list wrapped in an object', () => {
+    expect(actionItemsOutputSchema.parse([item])).toHaveLength(1);
+    expect(actionItemsOutputSchema.parse({ actionItems: [item] })).toHaveLength(1);
+  });
+
+  it('should read an empty object as nothing found', () => {
+    expect(actionItemsOutputSchema.parse({})).toEqual([]);
+  });
+
+  it('should normalize priority and blank fields', () => {
+    const [parsed] = actionItemsOutputSchema.parse([{ ...item, assignedTo: '  ', dueDate: null }]);
+
+    expect(parsed).toMatchObject({
+      description: 'Send the report',
+      priority: 'high',
+      assignedTo: undefined,
+      dueDate: undefined,
+    });
+  });
+
+  it('should reject invalid dates and priorities', () => {
+    expect(actionItemsOutputSchema.safeParse([{ ...item, dueDate: 'next week' }]).success).toBe(
+      false
+    );
+    expect(actionItemsOutputSchema.safeParse([{ ...item, priority: 'urgent' }]).success).toBe(
+      false
+    );
+  });
+
+  it('should name the expected key when the wrapper is wrong', () => {
+    const result = actionItemsOutputSchema.safeParse({ items: [item] });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].message).toContain('"actionItems"');
+  });
+});
+
+describe('decisionsOutputSchema', () => {
+  it('should accept a single source segment or a list', () => {
+    const parsed = decisionsOutputSchema.parse({
+      decisions: [
+        { description: 'Delay the launch', impact: 'medium', sourceSegments: 4 },
+        { description: 'Hire a contractor', impact: 'low', sourceSegments: [1, 2] },
+      ],
+    });
+
+    expect(parsed.map((decision) => decision.sourceSegments)).toEqual([4, [1, 2]]);
+  });
+});
+
+describe('sentimentOutputSchema', () => {
+  it('should clamp numbers that are out of range and default the lists', () => {
+    const parsed = sentimentOutputSchema.parse({
+      overall: 'Positive',
+      score: 1.4,
+      emotions: { joy: 2, frustration: -0.5, stress: 0.2, engagement: 0.9 },
+      burnoutIndicators: { score: 140 },
+    });
+
+    expect(parsed.overall).toBe('positive');
+    expect(parsed.score).toBe(1);
+    expect(parsed.emotions).toEqual({ joy: 1, frustration: 0, stress: 0.2, engagement: 0.9 });
+    expect(parsed.burnoutIndicators).toEqual({ score: 100, factors: [], recommendations: [] });
+    expect(parsed.participants).toEqual([]);
+  });
+
+  it('should reject a missing emotion', () => {
+    expect(
+      sentimentOutputSchema.safeParse({
+        overall: 'neutral',
+        score: 0,
+        emotions: { joy: 0.5 },
+        burnoutIndicators: { score: 10 },
+      }).success
+    ).toBe(false);
+  });
+});
+
+describe('followUpDetectionsOutputSchema', () => {
+  const schema = followUpDetectionsOutputSchema(['c1', 'c2']);
+
+  it('should only accept the listed commitment IDs', () => {
+    const detection = { mentioned: true, status: 'completed', confidence: 0.8 };
+
+    expect(schema.safeParse([{ ...detection, commitmentId: 'c2' }]).success).toBe(true);
+    expect(schema.safeParse([{ ...detection, commitmentId: 'c3' }]).success).toBe(false);
+  });
+});
+
+describe('summaryOutputSchema', () => {
+  it('should accept open questions as bare strings and default the topic fields', () => {
+    const parsed = summaryOutputSchema.parse({
+      tldr: 'We agreed to delay the launch.',
+      topics: [{ title: 'Launch date' }],
+      openQuestions: ['Who owns QA?', { question: 'When is the audit?', askedBy: 'Jane' }],
+    });
+
+    expect(parsed.topics).toEqual([{ title: 'Launch date', summary: '', keyPoints: [] }]);
+    expect(parsed.openQuestions).toEqual([
+      { question: 'Who owns QA?', askedBy: undefined },
+      { question: 'When is the audit?', askedBy: 'Jane' },
+    ]);
+  });
+
+  it('should require a TL;DR', () => {
+    expect(summaryOutputSchema.safeParse({ tldr: ' ', topics: [] }).success).toBe(false);
+  });
+});
+
+describe('timelineOutputSchema', () => {
+  const moment = { type: 'Decision', title: 'Launch delayed', startSegment: 2, importance: 'high' };
+
+  it('should normalize the type and default the speakers', () => {
+    const [parsed] = timelineOutputSchema(5).parse({ moments: [moment] });
+
+    expect(parsed).toMatchObject({ type: 'decision', speakers: [] });
+  });
+
+  it('should reject unknown types and segments outside the transcript', () => {
+    expect(timelineOutputSchema(5).safeParse([{ ...moment, type: 'joke' }]).success).toBe(false);
+    expect(timelineOutputSchema(5).safeParse([{ ...moment, endSegment: 5 }]).success).toBe(false);
+  });
+});
+
+describe('translationOutputSchema', () => {
+  it('should only accept the indices of the batch', () => {
+    const schema = translationOutputSchema([3, 4]);
+
+    expect(schema.safeParse({ segments: [{ index: 3, text: 'Bonjour' }] }).success).toBe(true);
+    expect(schema.safeParse({ segments: [{ index: 0, text: 'Bonjour' }] }).success).toBe(false);
+  });
+
+  it('should reject an empty translation', () => {
+    const schema = translationOutputSchema([3]);
+
+    expect(schema.safeParse({ segments: [{ index: 3, text: '  ' }] }).success).toBe(false);
+  });
+});
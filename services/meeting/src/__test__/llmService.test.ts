@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { LLMService } from '../services/llmService';
+import { FakeLLMProvider, FakeLLMResponder } from '../services/fakeLLMProvider';
+import { config } from '../config/config';
+
+const schema = z.object({ answer: z.number() });
+
+const request = {
+  model: 'test-model',
+  messages: [{ role: 'user' as const, content: 'Answer with a number' }],
+};
+
+// Answers in turn, repeating the last one
+const answering = (...answers: string[]): FakeLLMResponder => {
+  let call = 0;
+  return () => answers[Math.min(call++, answers.length - 1)];
+};
+
+describe('LLMService.completeJson', () => {
+  let provider: FakeLLMProvider;
+
+  const useAnswers = (...answers: string[]) => {
+    provider = new FakeLLMProvider(answering(...answers));
+    LLMService.setProvider(provider);
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    LLMService.setProvider(null);
+    jest.restoreAllMocks();
+  });
+
+  it('should return a valid answer without repairs', async () => {
+    useAnswers('{"answer": 42}');
+
+    const result = await LLMService.completeJson('extraction', request, schema);
+
+    expect(result.data).toEqual({ answer: 42 });
+    expect(result.repairs).toBe(0);
+    expect(result.model).toBe('test-model');
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0].json).toBe(true);
+  });
+
+  it('should send validation errors back and use the repaired answer', async () => {
+    useAnswers('{"answer": "forty-two"}', '{"answer": 42}');
+
+    const result = await LLMService.completeJson('extraction', request, schema);
+
+    expect(result.data).toEqual({ answer: 42 });
+    expect(result.repairs).toBe(1);
+
+    const repair = provider.requests[1].messages;
+    expect(repair).toHaveLength(3);
+    expect(repair[1]).toEqual({ role: 'assistant', content: '{"answer": "forty-two"}' });
+    expect(repair[2].role).toBe('user');
+    expect(repair[2].content).toContain('- answer:');
+  });
+
+  it('should repair answers that are not JSON', async () => {
+    useAnswers('Sure! Here is the answer: 42', '{"answer": 42}');
+
+    const result = await LLMService.completeJson('extraction', request, schema);
+
+    expect(result.repairs).toBe(1);
+    expect(provider.requests[1].messages[2].content).toContain('Not valid JSON');
+  });
+
+  it('should count the tokens of every attempt', async () => {
+    useAnswers('{"answer": "x"}', '{"answer": 1}');
+
+    const result = await LLMService.completeJson('extraction', request, schema);
+    const single = await LLMService.completeJson('extraction', request, schema);
+
+    expect(result.tokensUsed.input).toBeGreaterThan(single.tokensUsed.input);
+  });
+
+  it('should fail once the repair attempts are used up', async () => {
+    useAnswers('{"answer": null}');
+
+    await expect(LLMService.completeJson('extraction', request, schema)).rejects.toThrow(
+      `Invalid extraction output after ${config.llm.maxRepairAttempts} repair attempt(s)`
+    );
+    expect(provider.requests).toHaveLength(config.llm.maxRepairAttempts + 1);
+  });
+});
@@ -0,0 +1,7 @@
+// config/config.ts exits without these - tests never connect, so placeholders are enough
+process.env.MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/meeting-test';
+process.env.REDIS_HOST = process.env.REDIS_HOST || 'localhost';
+process.env.REDIS_PORT = process.env.REDIS_PORT || '6379';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+process.env.OPENAI_API_KEY = process.env.OPENAI_API_KEY || 'test-key';
+process.env.LLM_PROVIDER = 'fake';
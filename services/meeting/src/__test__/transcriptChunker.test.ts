@@ -0,0 +1,94 @@
+import {
+  chunkByTokens,
+  describeChunking,
+  estimateTokens,
+  splitSentences,
+} from '../utils/transcriptChunker';
+
+// 4 characters per token - a unit of `tokens` tokens
+const unit = (tokens: number) => ({ text: 'x'.repeat(tokens * 4) });
+
+describe('estimateTokens', () => {
+  it('should round up to whole tokens', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('splitSentences', () => {
+  it('should split on sentence punctuation and line breaks', () => {
+    expect(splitSentences('Hello there. How are you?\nFine!  "Great."').map((s) => s.text)).toEqual(
+      ['Hello there.', 'How are you?', 'Fine!', '"Great."']
+    );
+  });
+
+  it('should keep a trailing sentence without punctuation', () => {
+    expect(splitSentences('One. Two').map((s) => s.text)).toEqual(['One.', 'Two']);
+  });
+});
+
+describe('chunkByTokens', () => {
+  it('should return one chunk when everything fits', () => {
+    expect(chunkByTokens([unit(10), unit(10)], 100, 10)).toEqual([
+      { index: 0, start: 0, end: 1, tokens: 20 },
+    ]);
+  });
+
+  it('should split on unit boundaries and repeat the overlap', () => {
+    const units = [unit(10), unit(10), unit(10), unit(10), unit(10)];
+
+    const chunks = chunkByTokens(units, 30, 10);
+
+    expect(chunks.map(({ start, end }) => [start, end])).toEqual([
+      [0, 2],
+      [2, 4],
+    ]);
+  });
+
+  it('should never split a unit longer than the limit', () => {
+    const chunks = chunkByTokens([unit(5), unit(50), unit(5)], 20, 0);
+
+    expect(chunks.map(({ start, end, tokens }) => [start, end, tokens])).toEqual([
+      [0, 0, 5],
+      [1, 1, 50],
+      [2, 2, 5],
+    ]);
+  });
+
+  it('should always move forward even when the overlap covers the whole chunk', () => {
+    const chunks = chunkByTokens([unit(10), unit(10), unit(10)], 10, 100);
+
+    expect(chunks.map(({ start }) => start)).toEqual([0, 1, 2]);
+  });
+
+  it('should return no chunks for no units', () => {
+    expect(chunkByTokens([], 100)).toEqual([]);
+  });
+});
+
+describe('describeChunking', () => {
+  it('should report map-reduce with its overlap for several chunks', () => {
+    const units = [unit(10), unit(10), unit(10)];
+    const chunks = chunkByTokens(units, 20, 5);
+
+    expect(describeChunking(chunks, units, 20, 5, 'segment')).toEqual({
+      strategy: 'map-reduce',
+      unit: 'segment',
+      chunks: 2,
+      transcriptTokens: 30,
+      maxChunkTokens: 20,
+      overlapTokens: 5,
+    });
+  });
+
+  it('should report a single call without overlap', () => {
+    const units = [unit(10)];
+
+    expect(describeChunking(chunkByTokens(units, 20, 5), units, 20, 5, 'sentence')).toMatchObject({
+      strategy: 'single',
+      chunks: 1,
+      overlapTokens: 0,
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { detectTranscriptFormat, parseTranscript } from '../utils/transcriptParser';
+
+describe('detectTranscriptFormat', () => {
+  it('should detect each export format from its first line', () => {
+    expect(detectTranscriptFormat('WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nHi')).toBe('vtt');
+    expect(detectTranscriptFormat('1\n00:00:01,000 --> 00:00:02,000\nHi')).toBe('srt');
+    expect(detectTranscriptFormat('0:0:1.0 --> 0:0:2.0\nJane\nHi')).toBe('teams');
+    expect(detectTranscriptFormat('[Jane Doe] 14:23:05\nHi')).toBe('zoom');
+    expect(detectTranscriptFormat('Jane Doe   0:03\nHi')).toBe('teams');
+    expect(detectTranscriptFormat('Jane: Hi there')).toBe('text');
+  });
+
+  it('should ignore a byte order mark', () => {
+    expect(detectTranscriptFormat('﻿WEBVTT\n')).toBe('vtt');
+  });
+});
+
+describe('parseTranscript', () => {
+  it('should parse WebVTT cues with voice tags and markup', () => {
+    const vtt = [
+      'WEBVTT',
+      '',
+      'NOTE exported from the meeting tool',
+      '',
+      '00:00:01.000 --> 00:00:04.500',
+      '<v Jane Doe>Let us <b>start</b> with the budget.</v>',
+      '',
+      '00:01:02.250 --> 00:01:05.000',
+      '<v.loud John Smith>Sounds good &amp; quick.</v>',
+    ].join('\n');
+
+    const result = parseTranscript(vtt);
+
+    expect(result.format).toBe('vtt');
+    expect(result.segments).toEqual([
+      { text: 'Let us start with the budget.', speaker: 'Jane Doe', timestamp: 1 },
+      { text: 'Sounds good & quick.', speaker: 'John Smith', timestamp: 62.25 },
+    ]);
+    expect(result.duration).toBe(65);
+  });
+
+  it('should parse SRT cues with a speaker prefix', () => {
+    const srt = [
+      '1',
+      '00:00:01,000 --> 00:00:03,000',
+      'Jane: Welcome everyone.',
+      '',
+      '2',
+      '00:00:03,500 --> 00:00:06,000',
+      '{\\an8}Thanks for joining.',
+    ].join('\r\n');
+
+    const result = parseTranscript(srt);
+
+    expect(result.format).toBe('srt');
+    expect(result.segments).toEqual([
+      { text: 'Welcome everyone.', speaker: 'Jane', timestamp: 1 },
+      { text: 'Thanks for joining.', speaker: undefined, timestamp: 3.5 },
+    ]);
+    expect(result.duration).toBe(6);
+  });
+
+  it('should take the speaker from the line after the timing in Teams cues', () => {
+    const teams = ['0:0:1.0 --> 0:0:3.0', 'Jane Doe', 'Good morning.'].join('\n');
+
+    expect(parseTranscript(teams).segments).toEqual([
+      { text: 'Good morning.', speaker: 'Jane Doe', timestamp: 1 },
+    ]);
+  });
+
+  it('should make Zoom wall-clock times relative to the first speaker', () => {
+    const zoom = [
+      '[Jane Doe] 14:23:05',
+      'Shall we begin?',
+      '[John Smith] 14:23:20',
+      'Yes.',
+      'I have the numbers.',
+    ].join('\n');
+
+    const result = parseTranscript(zoom);
+
+    expect(result.format).toBe('zoom');
+    expect(result.segments).toEqual([
+      { text: 'Shall we begin?', speaker: 'Jane Doe', timestamp: 0 },
+      { text: 'Yes. I have the numbers.', speaker: 'John Smith', timestamp: 15 },
+    ]);
+  });
+
+  it('should continue the previous segment for plain lines without a speaker', () => {
+    const text = ['Jane: We ship on Friday.', 'If QA signs off.', 'John: Agreed.'].join('\n');
+
+    const result = parseTranscript(text);
+
+    expect(result.format).toBe('text');
+    expect(result.segments.map((segment) => [segment.speaker, segment.text])).toEqual([
+      ['Jane', 'We ship on Friday. If QA signs off.'],
+      ['John', 'Agreed.'],
+    ]);
+    // Times the file doesn't carry are estimated from the words spoken before
+    expect(result.segments[0].timestamp).toBe(0);
+    expect(result.segments[1].timestamp).toBeGreaterThan(0);
+  });
+
+  it('should read optional time prefixes of plain lines', () => {
+    const result = parseTranscript('[00:01:02] Jane: Hello\n00:02:00 John: Hi');
+
+    expect(result.segments.map((segment) => segment.timestamp)).toEqual([62, 120]);
+  });
+
+  it('should use the given format over detection', () => {
+    expect(parseTranscript('WEBVTT', 'text').format).toBe('text');
+  });
+});
@@ -0,0 +1,93 @@
+import { stitchChunks } from '../utils/transcriptStitching';
+
+const segment = (timestamp: number, text: string) => ({ text, timestamp, confidence: 0.9 });
+
+describe('stitchChunks', () => {
+  it('should shift timestamps by each chunk offset', () => {
+    const result = stitchChunks(
+      [
+        { offset: 0, overlap: 0 },
+        { offset: 300, overlap: 0 },
+      ],
+      [[segment(0, 'Welcome everyone.')], [segment(10, 'Next item.')]]
+    );
+
+    expect(result.map((s) => [s.timestamp, s.text])).toEqual([
+      [0, 'Welcome everyone.'],
+      [310, 'Next item.'],
+    ]);
+  });
+
+  it('should keep the later chunk copy of an utterance cut off at the boundary', () => {
+    const result = stitchChunks(
+      [
+        { offset: 0, overlap: 0 },
+        { offset: 295, overlap: 5 },
+      ],
+      [
+        [segment(280, "Let's look at the budget."), segment(297, 'the quarterly numbers')],
+        [segment(2, 'the quarterly numbers look strong this quarter'), segment(9, 'next item')],
+      ]
+    );
+
+    expect(result.map((s) => [s.timestamp, s.text])).toEqual([
+      [280, "Let's look at the budget."],
+      [297, 'the quarterly numbers look strong this quarter'],
+      [304, 'next item'],
+    ]);
+  });
+
+  it('should trim words repeated from an utterance that started before the overlap', () => {
+    const result = stitchChunks(
+      [
+        { offset: 0, overlap: 0 },
+        { offset: 295, overlap: 5 },
+      ],
+      [[segment(290, 'We need to ship the')], [segment(0, 'ship the release by Friday.')]]
+    );
+
+    expect(result.map((s) => s.text)).toEqual(['We need to ship the', 'release by Friday.']);
+  });
+
+  it('should drop a first segment that only repeats the previous one', () => {
+    const result = stitchChunks(
+      [
+        { offset: 0, overlap: 0 },
+        { offset: 295, overlap: 5 },
+      ],
+      [
+        [segment(290, 'That is settled then.')],
+        [segment(0, 'settled then'), segment(6, 'Moving on.')],
+      ]
+    );
+
+    expect(result.map((s) => s.text)).toEqual(['That is settled then.', 'Moving on.']);
+  });
+
+  it('should not trim a single word shared by chance', () => {
+    const result = stitchChunks(
+      [
+        { offset: 0, overlap: 0 },
+        { offset: 295, overlap: 5 },
+      ],
+      [[segment(290, 'Okay')], [segment(1, 'Okay so the next topic')]]
+    );
+
+    expect(result.map((s) => s.text)).toEqual(['Okay', 'Okay so the next topic']);
+  });
+
+  it('should keep the earlier copy when the later chunk heard nothing in the overlap', () => {
+    const result = stitchChunks(
+      [
+        { offset: 0, overlap: 0 },
+        { offset: 295, overlap: 5 },
+      ],
+      [[segment(297, 'Final words.')], [segment(20, 'After a pause.')]]
+    );
+
+    expect(result.map((s) => [s.timestamp, s.text])).toEqual([
+      [297, 'Final words.'],
+      [315, 'After a pause.'],
+    ]);
+  });
+});
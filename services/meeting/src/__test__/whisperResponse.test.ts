@@ -0,0 +1,30 @@
+import { parseWhisperResponse } from '../utils/whisperResponse';
+
+describe('parseWhisperResponse', () => {
+  const response = (segment: Record<string, unknown>) => ({
+    text: ' Hello everyone. ',
+    language: 'en',
+    duration: 4,
+    segments: [{ text: ' Hello everyone. ', start: 0.5, ...segment }],
+  });
+
+  it('should derive confidence from the average token log-probability', () => {
+    const parsed = parseWhisperResponse(response({ avg_logprob: -0.5, no_speech_prob: 0.01 }));
+
+    expect(parsed.segments[0].confidence).toBeCloseTo(0.607, 3);
+  });
+
+  it('should not read speech presence as transcription quality', () => {
+    const parsed = parseWhisperResponse(response({ avg_logprob: -1.5, no_speech_prob: 0 }));
+
+    expect(parsed.segments[0].confidence).toBeLessThan(0.6);
+  });
+
+  it('should trim the text and fall back when no log-probability is given', () => {
+    const parsed = parseWhisperResponse(response({}));
+
+    expect(parsed.text).toBe('Hello everyone.');
+    expect(parsed.segments[0]).toMatchObject({ text: 'Hello everyone.', timestamp: 0.5 });
+    expect(parsed.segments[0].confidence).toBe(0.95);
+  });
+});
@@ -75,12 +75,93 @@ export const config = {
     apiKey: process.env.OPENAI_API_KEY!,
     model: process.env.WHISPER_MODEL || 'whisper-1',
     useMock: process.env.USE_MOCK_TRANSCRIPTION === 'true',
+    language: process.env.WHISPER_LANGUAGE || undefined, // ISO 639-1 - unset = auto-detect
+  },
+
+  // Transcription Engine (meetings may override the provider)
+  transcription: {
+    provider: (process.env.TRANSCRIPTION_PROVIDER ||
+      (process.env.USE_MOCK_TRANSCRIPTION === 'true' ? 'mock' : 'openai')) as
+      | 'openai'
+      | 'local'
+      | 'mock',
+    // Self-hosted whisper.cpp (/inference) or faster-whisper (/v1/audio/transcriptions) endpoint
+    localUrl: process.env.TRANSCRIPTION_LOCAL_URL,
+    localApiKey: process.env.TRANSCRIPTION_LOCAL_API_KEY,
+    localModel: process.env.TRANSCRIPTION_LOCAL_MODEL || 'large-v3',
+    // Segments below this confidence (0-1) are listed for review
+    reviewThreshold: parseFloat(process.env.TRANSCRIPT_REVIEW_THRESHOLD || '0.6'),
+    // Job timeout (seconds) - defaults to real time for the longest recording accepted
+    timeout: parseInt(
+      process.env.TRANSCRIPTION_TIMEOUT || process.env.MAX_AUDIO_DURATION || '14400'
+    ),
   },
 
   // Audio Processing Limits
   audio: {
-    maxSizeMB: parseInt(process.env.MAX_AUDIO_SIZE_MB || '10'),
-    maxDuration: parseInt(process.env.MAX_AUDIO_DURATION || '600'), // seconds
+    maxSizeMB: parseInt(process.env.MAX_AUDIO_SIZE_MB || '500'),
+    maxDuration: parseInt(process.env.MAX_AUDIO_DURATION || '14400'), // seconds
+    // Pre-processing: mono 16kHz loudness-normalized audio is sent for transcription
+    normalize: process.env.AUDIO_NORMALIZE !== 'false',
+    trimSilence: process.env.AUDIO_TRIM_SILENCE === 'true',
+    // Long recordings are transcribed in overlapping chunks
+    chunkDuration: parseInt(process.env.AUDIO_CHUNK_DURATION || '300'), // seconds
+    chunkOverlap: parseInt(process.env.AUDIO_CHUNK_OVERLAP || '5'), // seconds
+    chunkConcurrency: parseInt(process.env.AUDIO_CHUNK_CONCURRENCY || '3'), // Whisper calls per job
+    // Longest clip GET /:id/clip will cut
+    maxClipSeconds: parseInt(process.env.AUDIO_MAX_CLIP_SECONDS || '300'),
+  },
+
+  // Analysis LLM (extraction, sentiment, follow-up, timeline, translation, summary)
+  llm: {
+    provider: (process.env.LLM_PROVIDER || 'openai') as
+      | 'openai'
+      | 'azure'
+      | 'anthropic'
+      | 'local'
+      | 'fake',
+    model: process.env.LLM_MODEL, // Every stage - unset = the provider's default model
+    // Per-stage overrides, e.g. a cheaper model for translation
+    models: {
+      extraction: process.env.LLM_MODEL_EXTRACTION,
+      sentiment: process.env.LLM_MODEL_SENTIMENT,
+      'follow-up': process.env.LLM_MODEL_FOLLOW_UP,
+      timeline: process.env.LLM_MODEL_TIMELINE,
+      translation: process.env.LLM_MODEL_TRANSLATION,
+      summary: process.env.LLM_MODEL_SUMMARY,
+    },
+    azure: {
+      endpoint: process.env.AZURE_OPENAI_ENDPOINT, // https://<resource>.openai.azure.com
+      apiKey: process.env.AZURE_OPENAI_API_KEY,
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-06-01',
+      deployment: process.env.AZURE_OPENAI_DEPLOYMENT, // Default model (deployment name)
+    },
+    anthropic: {
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      url: process.env.ANTHROPIC_API_URL || 'https://api.anthropic.com',
+      model: process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-latest',
+    },
+    // Re-prompts with the validation errors before a stage gives up on an invalid answer
+    maxRepairAttempts: parseInt(process.env.LLM_MAX_REPAIR_ATTEMPTS || '2'),
+    // Long transcripts are analysed in chunks (map-reduce) - sized for the smallest model in use
+    chunking: {
+      maxTokens: parseInt(process.env.LLM_CHUNK_MAX_TOKENS || '12000'),
+      overlapTokens: parseInt(process.env.LLM_CHUNK_OVERLAP_TOKENS || '300'),
+    },
+    // OpenAI-compatible server - Ollama (http://localhost:11434/v1) or llama.cpp (http://localhost:8080/v1)
+    local: {
+      url: process.env.LLM_LOCAL_URL || 'http://localhost:11434/v1',
+      apiKey: process.env.LLM_LOCAL_API_KEY,
+      model: process.env.LLM_LOCAL_MODEL || 'llama3.1',
+    },
+  },
+
+  // Speaker Diarization
+  diarization: {
+    provider: (process.env.DIARIZATION_PROVIDER || 'local') as 'local' | 'http' | 'none',
+    url: process.env.DIARIZATION_URL, // http provider endpoint
+    apiKey: process.env.DIARIZATION_API_KEY,
+    maxSpeakers: parseInt(process.env.DIARIZATION_MAX_SPEAKERS || '8'),
   },
 
   // Rate Limiting & Cost Control
@@ -89,6 +170,59 @@ export const config = {
     maxPerDay: parseInt(process.env.MAX_TRANSCRIPTIONS_PER_DAY || '10'),
     warnThreshold: parseFloat(process.env.WARN_COST_THRESHOLD || '1.0'),
   },
+
+  // Queue Workers (jobs processed in parallel per queue)
+  queues: {
+    concurrency: {
+      transcription: parseInt(
+        process.env.TRANSCRIPTION_CONCURRENCY || process.env.MAX_CONCURRENT_WHISPER || '3'
+      ),
+      extraction: parseInt(process.env.EXTRACTION_CONCURRENCY || '2'),
+      sentiment: parseInt(process.env.SENTIMENT_CONCURRENCY || '2'),
+      followUp: parseInt(process.env.FOLLOW_UP_CONCURRENCY || '1'),
+      timeline: parseInt(process.env.TIMELINE_CONCURRENCY || '2'),
+      translation: parseInt(process.env.TRANSLATION_CONCURRENCY || '1'),
+      summary: parseInt(process.env.SUMMARY_CONCURRENCY || '2'),
+      backfill: 1, // Backfills throttle themselves - one tick at a time
+      promptExperiment: parseInt(process.env.PROMPT_EXPERIMENT_CONCURRENCY || '1'),
+    },
+  },
+
+  // Transcript Translation (comma separated ISO 639-1 codes)
+  translation: {
+    targetLanguages: (process.env.TRANSLATION_TARGET_LANGUAGES || 'en')
+      .split(',')
+      .map((language) => language.trim().toLowerCase())
+      .filter(Boolean),
+    batchSize: parseInt(process.env.TRANSLATION_BATCH_SIZE || '40'), // Segments per GPT call
+  },
+
+  // Meeting Summaries - defaults for projects without summary settings
+  summary: {
+    length: (process.env.SUMMARY_LENGTH || 'standard') as 'brief' | 'standard' | 'detailed',
+    style: (process.env.SUMMARY_STYLE || 'narrative') as 'narrative' | 'bullets',
+  },
+
+  // Action Item / Decision Extraction
+  extraction: {
+    // Items whose supporting quote isn't in the transcript: 'flag' keeps them unverified, 'drop' removes them
+    ungroundedItems: (process.env.EXTRACTION_UNGROUNDED_ITEMS === 'drop' ? 'drop' : 'flag') as
+      | 'flag'
+      | 'drop',
+  },
+
+  // Bulk Reprocessing
+  backfill: {
+    defaultRatePerMinute: parseInt(process.env.BACKFILL_RATE_PER_MINUTE || '10'),
+  },
+
+  // Admin Access (comma separated emails allowed to use /api/v1/admin)
+  admin: {
+    emails: (process.env.ADMIN_EMAILS || '')
+      .split(',')
+      .map((email) => email.trim().toLowerCase())
+      .filter(Boolean),
+  },
 };
 
 // Log configuration on startup (hide sensitive data)
@@ -107,6 +241,10 @@ console.log('🤖 OpenAI Configuration:');
 console.log(`   API Key: ${config.openai.apiKey ? '✓ Present' : '✗ Missing'}`);
 console.log(`   Model: ${config.openai.model}`);
 console.log(`   Mode: ${config.openai.useMock ? '🎭 MOCK (Free)' : '🤖 REAL (Paid)'}`);
+console.log(`   Transcription Provider: ${config.transcription.provider}`);
+console.log(
+  `   LLM Provider: ${config.llm.provider}${config.llm.model ? ` (${config.llm.model})` : ''}`
+);
 console.log('');
 console.log('🎵 Audio Limits:');
 console.log(`   Max Size: ${config.audio.maxSizeMB}MB`);
@@ -116,6 +254,11 @@ console.log('⚡ Rate Limits:');
 console.log(`   Concurrent: ${config.limits.maxConcurrent}`);
 console.log(`   Per Day: ${config.limits.maxPerDay}`);
 console.log(`   Cost Warning: $${config.limits.warnThreshold}`);
+console.log('');
+console.log('🧵 Queue Concurrency:');
+Object.entries(config.queues.concurrency).forEach(([queue, concurrency]) => {
+  console.log(`   ${queue}: ${concurrency}`);
+});
 console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
 
 // Export helper functions
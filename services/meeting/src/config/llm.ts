@@ -0,0 +1,37 @@
+import { LLMTokenUsage } from '../types/llm';
+
+/**
+ * Price per 1K tokens (USD) by model name prefix - the longest matching prefix wins
+ * so "gpt-4o-mini-2024-07-18" is priced as gpt-4o-mini, not gpt-4o or gpt-4
+ */
+export const LLM_PRICING: Record<string, { input: number; output: number }> = {
+  'gpt-4': { input: 0.03, output: 0.06 },
+  'gpt-4-turbo': { input: 0.01, output: 0.03 },
+  'gpt-4-0125-preview': { input: 0.01, output: 0.03 }, // What gpt-4-turbo-preview answers as
+  'gpt-4-1106-preview': { input: 0.01, output: 0.03 },
+  'gpt-4o': { input: 0.0025, output: 0.01 },
+  'gpt-4o-mini': { input: 0.00015, output: 0.0006 },
+  'gpt-4.1': { input: 0.002, output: 0.008 },
+  'gpt-4.1-mini': { input: 0.0004, output: 0.0016 },
+  'gpt-3.5-turbo': { input: 0.0005, output: 0.0015 },
+  'claude-3-5-haiku': { input: 0.0008, output: 0.004 },
+  'claude-3-5-sonnet': { input: 0.003, output: 0.015 },
+  'claude-3-7-sonnet': { input: 0.003, output: 0.015 },
+  'claude-sonnet-4': { input: 0.003, output: 0.015 },
+  'claude-opus-4': { input: 0.015, output: 0.075 },
+};
+
+// Unknown hosted models are priced like GPT-4 so estimates err on the high side
+const FALLBACK_PRICING = LLM_PRICING['gpt-4'];
+
+/**
+ * Cost of a completion from token usage and the model's price
+ */
+export const calculateTokenCost = (model: string, tokensUsed: LLMTokenUsage): number => {
+  const prefix = Object.keys(LLM_PRICING)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  const pricing = prefix ? LLM_PRICING[prefix] : FALLBACK_PRICING;
+
+  return (tokensUsed.input * pricing.input + tokensUsed.output * pricing.output) / 1000;
+};
@@ -14,7 +14,7 @@ export const openai = new OpenAI({
  */
 export const WHISPER_CONFIG = {
   model: config.openai.model,
-  language: 'en', // Optional: auto-detect if not specified
+  language: config.openai.language, // Auto-detected (per chunk) if not specified
   response_format: 'verbose_json' as const, // Returns timestamps and metadata
   temperature: 0, // Deterministic output
 };
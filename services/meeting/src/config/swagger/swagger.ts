@@ -42,6 +42,18 @@ const options: swaggerJsdoc.Options = {
         name: 'Meetings',
         description: 'Meeting management endpoints',
       },
+      {
+        name: 'Glossary',
+        description: 'Per-project transcription vocabulary',
+      },
+      {
+        name: 'Summaries',
+        description: 'Per-project meeting summary length and style',
+      },
+      {
+        name: 'Admin',
+        description: 'Operational endpoints (admins only)',
+      },
       {
         name: 'Health',
         description: 'Service health check',
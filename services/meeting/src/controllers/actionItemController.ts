@@ -143,6 +143,7 @@ export const updateActionItem = async (req: Request, res: Response) => {
     if (dueDate !== undefined) {
       actionItem.dueDate = dueDate ? new Date(dueDate) : undefined;
     }
+    actionItem.editedAt = new Date();
 
     await meeting.save();
 
@@ -191,6 +192,7 @@ export const completeActionItem = async (req: Request, res: Response) => {
     }
 
     actionItem.status = 'completed';
+    actionItem.editedAt = new Date();
     await meeting.save();
 
     res.json({
@@ -228,7 +230,14 @@ export const deleteActionItem = async (req: Request, res: Response) => {
       });
     }
 
-    // Remove action item
+    // Remove action item - an extracted one is remembered so reprocessing doesn't bring it back
+    const removed = meeting.actionItems.find((item) => item.id === itemId);
+    if (removed && !removed.manual) {
+      meeting.dismissedActionItems = [
+        ...(meeting.dismissedActionItems || []),
+        { description: removed.description, evidence: removed.evidence, dismissedAt: new Date() },
+      ];
+    }
     meeting.actionItems = meeting.actionItems.filter((item) => item.id !== itemId);
     await meeting.save();
 
@@ -283,6 +292,7 @@ export const addActionItem = async (req: Request, res: Response) => {
       dueDate: dueDate ? new Date(dueDate) : undefined,
       status: 'pending' as const,
       extractedAt: new Date(),
+      manual: true, // Kept when extraction is re-run
     };
 
     meeting.actionItems.push(newActionItem);
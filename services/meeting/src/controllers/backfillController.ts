@@ -0,0 +1,174 @@
+import z from 'zod';
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/authenticate';
+import { BackfillService } from '../services/backfillService';
+import { backfillParamsSchema, backfillRequestSchema } from '../validators/backfillValidator';
+
+const backfillService = new BackfillService();
+
+/**
+ * Map service errors to HTTP responses
+ */
+const handleBackfillError = (res: Response, error: unknown, fallbackMessage: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.issues,
+    });
+  }
+
+  if (error instanceof Error) {
+    if (error.message === 'Backfill not found') {
+      return res.status(404).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    // Invalid state transition, e.g. pausing a completed backfill
+    if (error.message.startsWith('Backfill is ')) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    if (error.message === 'No meetings match the backfill filters') {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+  });
+};
+
+/**
+ * POST /api/v1/admin/backfills - Estimate (dryRun) or start a backfill
+ */
+export const createBackfill = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { dryRun, ...request } = backfillRequestSchema.parse(req.body);
+
+    if (dryRun) {
+      const estimate = await backfillService.estimateBackfill(request);
+      return res.status(200).json({
+        success: true,
+        data: { dryRun: true, ...estimate },
+      });
+    }
+
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+
+    const backfill = await backfillService.createBackfill(request, userId);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Backfill started',
+      data: { backfill: backfillService.formatBackfill(backfill) },
+    });
+  } catch (error) {
+    return handleBackfillError(res, error, 'Failed to create backfill');
+  }
+};
+
+/**
+ * GET /api/v1/admin/backfills - List recent backfills
+ */
+export const listBackfills = async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const backfills = await backfillService.listBackfills();
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        backfills: backfills.map((backfill) => backfillService.formatBackfill(backfill)),
+      },
+    });
+  } catch (error) {
+    return handleBackfillError(res, error, 'Failed to list backfills');
+  }
+};
+
+/**
+ * GET /api/v1/admin/backfills/:id - Backfill progress
+ */
+export const getBackfill = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = backfillParamsSchema.parse(req.params);
+    const backfill = await backfillService.getBackfill(id);
+
+    return res.status(200).json({
+      success: true,
+      data: { backfill: backfillService.formatBackfill(backfill) },
+    });
+  } catch (error) {
+    return handleBackfillError(res, error, 'Failed to fetch backfill');
+  }
+};
+
+/**
+ * POST /api/v1/admin/backfills/:id/pause
+ */
+export const pauseBackfill = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = backfillParamsSchema.parse(req.params);
+    const backfill = await backfillService.pauseBackfill(id);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Backfill paused',
+      data: { backfill: backfillService.formatBackfill(backfill) },
+    });
+  } catch (error) {
+    return handleBackfillError(res, error, 'Failed to pause backfill');
+  }
+};
+
+/**
+ * POST /api/v1/admin/backfills/:id/resume
+ */
+export const resumeBackfill = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = backfillParamsSchema.parse(req.params);
+    const backfill = await backfillService.resumeBackfill(id);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Backfill resumed',
+      data: { backfill: backfillService.formatBackfill(backfill) },
+    });
+  } catch (error) {
+    return handleBackfillError(res, error, 'Failed to resume backfill');
+  }
+};
+
+/**
+ * POST /api/v1/admin/backfills/:id/cancel
+ */
+export const cancelBackfill = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = backfillParamsSchema.parse(req.params);
+    const backfill = await backfillService.cancelBackfill(id);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Backfill cancelled',
+      data: { backfill: backfillService.formatBackfill(backfill) },
+    });
+  } catch (error) {
+    return handleBackfillError(res, error, 'Failed to cancel backfill');
+  }
+};
@@ -0,0 +1,128 @@
+import z from 'zod';
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/authenticate';
+import { DeadLetterService } from '../services/deadLetterService';
+import {
+  deadLetterParamsSchema,
+  deadLetterQuerySchema,
+  retryDeadLetterSchema,
+} from '../validators/deadLetterValidator';
+
+const deadLetterService = new DeadLetterService();
+
+/**
+ * Map service errors to HTTP responses
+ */
+const handleDeadLetterError = (res: Response, error: unknown, fallbackMessage: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.issues,
+    });
+  }
+
+  if (error instanceof Error) {
+    if (['Queue not found', 'Job not found', 'Meeting not found'].includes(error.message)) {
+      return res.status(404).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    if (
+      error.message === 'Job is not in the dead-letter queue' ||
+      error.message === 'Meeting is cancelled'
+    ) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    if (error.message === 'Overrides are only supported for pipeline jobs') {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+  });
+};
+
+/**
+ * GET /api/v1/admin/dead-letters - Permanently failed jobs across all queues
+ */
+export const listDeadLetters = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { queue, limit } = deadLetterQuerySchema.parse(req.query);
+    const jobs = await deadLetterService.listDeadLetters(queue, limit);
+
+    return res.status(200).json({
+      success: true,
+      data: { jobs, total: jobs.length },
+    });
+  } catch (error) {
+    return handleDeadLetterError(res, error, 'Failed to list dead-letter jobs');
+  }
+};
+
+/**
+ * GET /api/v1/admin/dead-letters/:queue/:jobId - Failed job with payload and attempt history
+ */
+export const getDeadLetter = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { queue, jobId } = deadLetterParamsSchema.parse(req.params);
+    const job = await deadLetterService.getDeadLetter(queue, jobId);
+
+    return res.status(200).json({
+      success: true,
+      data: { job },
+    });
+  } catch (error) {
+    return handleDeadLetterError(res, error, 'Failed to fetch dead-letter job');
+  }
+};
+
+/**
+ * POST /api/v1/admin/dead-letters/:queue/:jobId/retry - Retry, optionally with overrides
+ */
+export const retryDeadLetter = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { queue, jobId } = deadLetterParamsSchema.parse(req.params);
+    const { overrides } = retryDeadLetterSchema.parse(req.body || {});
+
+    await deadLetterService.retryDeadLetter(queue, jobId, overrides);
+
+    return res.status(202).json({
+      success: true,
+      message: 'Job queued for retry',
+      data: { queue, jobId, overrides },
+    });
+  } catch (error) {
+    return handleDeadLetterError(res, error, 'Failed to retry dead-letter job');
+  }
+};
+
+/**
+ * DELETE /api/v1/admin/dead-letters/:queue/:jobId - Discard a failed job
+ */
+export const discardDeadLetter = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { queue, jobId } = deadLetterParamsSchema.parse(req.params);
+
+    await deadLetterService.discardDeadLetter(queue, jobId);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Job discarded',
+    });
+  } catch (error) {
+    return handleDeadLetterError(res, error, 'Failed to discard dead-letter job');
+  }
+};
@@ -0,0 +1,195 @@
+import z from 'zod';
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/authenticate';
+import { GlossaryService } from '../services/glossaryService';
+import {
+  glossaryParamsSchema,
+  glossaryTermParamsSchema,
+  glossaryTermSchema,
+  replaceGlossarySchema,
+  updateGlossaryTermSchema,
+} from '../validators/glossaryValidator';
+
+const glossaryService = new GlossaryService();
+
+/**
+ * Map service errors to HTTP responses
+ */
+const handleGlossaryError = (res: Response, error: unknown, fallbackMessage: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.issues,
+    });
+  }
+
+  if (error instanceof Error) {
+    if (error.message === 'Glossary not found' || error.message === 'Term not found') {
+      return res.status(404).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    if (error.message.startsWith('Term already exists')) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+  });
+};
+
+/**
+ * GET /api/v1/projects/:projectId/glossary - Project glossary (empty if none yet)
+ */
+export const getGlossary = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { projectId } = glossaryParamsSchema.parse(req.params);
+    const glossary = await glossaryService.getGlossary(projectId);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        glossary: glossary ? glossaryService.formatGlossary(glossary) : { projectId, terms: [] },
+      },
+    });
+  } catch (error) {
+    return handleGlossaryError(res, error, 'Failed to fetch glossary');
+  }
+};
+
+/**
+ * PUT /api/v1/projects/:projectId/glossary - Replace all terms
+ */
+export const replaceGlossary = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { projectId } = glossaryParamsSchema.parse(req.params);
+    const { terms } = replaceGlossarySchema.parse(req.body);
+
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+
+    const glossary = await glossaryService.replaceGlossary(projectId, terms, userId);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Glossary saved',
+      data: { glossary: glossaryService.formatGlossary(glossary) },
+    });
+  } catch (error) {
+    return handleGlossaryError(res, error, 'Failed to save glossary');
+  }
+};
+
+/**
+ * DELETE /api/v1/projects/:projectId/glossary - Remove the glossary
+ */
+export const deleteGlossary = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { projectId } = glossaryParamsSchema.parse(req.params);
+    await glossaryService.deleteGlossary(projectId);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Glossary deleted',
+    });
+  } catch (error) {
+    return handleGlossaryError(res, error, 'Failed to delete glossary');
+  }
+};
+
+/**
+ * POST /api/v1/projects/:projectId/glossary/terms - Add a term
+ */
+export const addGlossaryTerm = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { projectId } = glossaryParamsSchema.parse(req.params);
+    const term = glossaryTermSchema.parse(req.body);
+
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+
+    const glossary = await glossaryService.addTerm(projectId, term, userId);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Term added',
+      data: { glossary: glossaryService.formatGlossary(glossary) },
+    });
+  } catch (error) {
+    return handleGlossaryError(res, error, 'Failed to add glossary term');
+  }
+};
+
+/**
+ * PATCH /api/v1/projects/:projectId/glossary/terms/:termId - Update a term
+ */
+export const updateGlossaryTerm = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { projectId, termId } = glossaryTermParamsSchema.parse(req.params);
+    const updates = updateGlossaryTermSchema.parse(req.body);
+
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+
+    const glossary = await glossaryService.updateTerm(projectId, termId, updates, userId);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Term updated',
+      data: { glossary: glossaryService.formatGlossary(glossary) },
+    });
+  } catch (error) {
+    return handleGlossaryError(res, error, 'Failed to update glossary term');
+  }
+};
+
+/**
+ * DELETE /api/v1/projects/:projectId/glossary/terms/:termId - Remove a term
+ */
+export const deleteGlossaryTerm = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { projectId, termId } = glossaryTermParamsSchema.parse(req.params);
+
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+
+    const glossary = await glossaryService.deleteTerm(projectId, termId, userId);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Term deleted',
+      data: { glossary: glossaryService.formatGlossary(glossary) },
+    });
+  } catch (error) {
+    return handleGlossaryError(res, error, 'Failed to delete glossary term');
+  }
+};
@@ -20,20 +20,31 @@ export const getMeetingStatus = async (req: Request, res: Response): Promise<voi
       return;
     }
 
-    // Get pipeline status from orchestrator
-    const pipelineStatus = await JobOrchestrator.getPipelineStatus(meetingId);
+    // Get pipeline status from orchestrator (persisted per-stage state)
+    const pipelineStatus = await JobOrchestrator.getPipelineStatus(meeting);
+
+    // Calculate overall progress from the required stages
+    const requiredStages = Object.values<any>(pipelineStatus).filter((stage) => stage?.required);
+    const stageProgress =
+      requiredStages.length > 0
+        ? Math.round(
+            requiredStages.reduce((sum, stage) => sum + (stage.progress || 0), 0) /
+              requiredStages.length
+          )
+        : 0;
 
-    // Calculate overall progress based on pipeline
     let overallProgress = 0;
     let statusMessage = '';
 
-    if (meeting.status === 'completed' || meeting.status === 'transcribed') {
+    if (meeting.status === 'completed') {
       overallProgress = 100;
       statusMessage = 'All processing completed';
     } else if (meeting.status === 'processing') {
-      // Base progress on transcription job
-      overallProgress = pipelineStatus.transcription?.progress || 50;
+      overallProgress = stageProgress;
       statusMessage = 'Transcription in progress';
+    } else if (meeting.status === 'transcribed') {
+      overallProgress = stageProgress;
+      statusMessage = 'Analyzing transcript';
     } else if (meeting.status === 'pending') {
       overallProgress = 0;
       statusMessage = 'Waiting in queue';
@@ -73,25 +84,11 @@ export const getMeetingStatus = async (req: Request, res: Response): Promise<voi
  */
 export const getQueueStats = async (req: Request, res: Response): Promise<void> => {
   try {
-    // Import transcriptionQueue dynamically to avoid circular deps
-    const { transcriptionQueue } = await import('../queue/transcriptionQueue');
-    const { extractionQueue } = await import('../queue/extractionQueue');
-    const { sentimentQueue } = await import('../queue/sentimentQueue');
-
-    // Get queue stats
-    const transcriptionStats = await transcriptionQueue.getStats();
-    const extractionStats = await extractionQueue.getStats();
-    const sentimentStats = await sentimentQueue.getStats();
+    const stats = await JobOrchestrator.getQueueStats();
 
     res.status(200).json({
       success: true,
-      data: {
-        transcription: transcriptionStats,
-        // TODO (Day 12+): Add other queue stats
-        extraction: extractionStats,
-        sentiment: sentimentStats,
-        // timeline: await timelineQueue.getStats(),
-      },
+      data: stats,
     });
   } catch (error: any) {
     console.error('Get queue stats error:', error);
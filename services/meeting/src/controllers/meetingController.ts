@@ -1,10 +1,16 @@
 import z from 'zod';
 import { AuthenticatedRequest } from '../middleware/authenticate';
 import { MeetingService } from '../services/meetingService';
+import { AudioProcessor } from '../processor/audioProcessor';
 import {
   createMeetingSchema,
+  importMeetingSchema,
   getMeetingParamsSchema,
+  clipQuerySchema,
   listMeetingsQuerySchema,
+  reprocessMeetingSchema,
+  transcriptLanguageQuerySchema,
+  mapSpeakersSchema,
 } from '../validators/meetingValidator';
 import { Response } from 'express';
 
@@ -49,6 +55,76 @@ export const createMeeting = async (req: AuthenticatedRequest, res: Response) =>
   }
 };
 
+/**
+ * POST /api/meetings/import - Create a meeting from an existing transcript
+ */
+export const importMeeting = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    // Validate request body
+    const { content, scheduledAt, ...validatedData } = importMeetingSchema.parse(req.body);
+
+    // Get authenticated user ID
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const transcript = req.file ? req.file.buffer.toString('utf8') : content;
+    if (!transcript?.trim()) {
+      res.status(400).json({
+        success: false,
+        message:
+          'No transcript provided. Send a file in the "file" field or the transcript as "content".',
+      });
+      return;
+    }
+
+    const meeting = await meetingService.importMeeting(userId, {
+      ...validatedData,
+      content: transcript,
+      scheduledAt: scheduledAt ? new Date(scheduledAt) : undefined,
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Transcript imported. Analysis started.',
+      data: { meeting },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues,
+      });
+      return;
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message === 'Transcript has no content to import' ||
+        error.message === 'Invalid user ID')
+    ) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+
+    console.error('Error in importMeeting controller:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to import transcript',
+    });
+  }
+};
+
 /**
  * GET /api/meetings/:id - Get meeting by ID
  */
@@ -68,8 +144,17 @@ export const getMeetingById = async (req: AuthenticatedRequest, res: Response) =
       return;
     }
 
+    const query = transcriptLanguageQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      res.status(400).json({
+        success: false,
+        message: query.error.issues[0].message,
+      });
+      return;
+    }
+
     // Call service to get meeting
-    const meeting = await meetingService.getMeetingById(id, userId);
+    const meeting = await meetingService.getMeetingById(id, userId, query.data.lang);
 
     return res.status(200).json({
       success: true,
@@ -100,6 +185,14 @@ export const getMeetingById = async (req: AuthenticatedRequest, res: Response) =
         });
         return;
       }
+
+      if (error.message === 'Translation not available') {
+        res.status(404).json({
+          success: false,
+          message: 'Transcript is not available in the requested language',
+        });
+        return;
+      }
     }
 
     console.error('Error in getMeetingById controller:', error);
@@ -110,6 +203,389 @@ export const getMeetingById = async (req: AuthenticatedRequest, res: Response) =
   }
 };
 
+/**
+ * GET /api/meetings/:id/timeline - Get key moments of a meeting
+ */
+export const getMeetingTimeline = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    // Validate params
+    const { id } = getMeetingParamsSchema.parse(req.params);
+
+    // Get authenticated user ID
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const { timeline, duration } = await meetingService.getMeetingTimeline(id, userId);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        meetingId: id,
+        duration,
+        timeline,
+        total: timeline.length,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid meeting ID',
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Meeting not found') {
+        res.status(404).json({
+          success: false,
+          message: 'Meeting not found',
+        });
+        return;
+      }
+
+      if (error.message === 'Access denied to this meeting') {
+        res.status(403).json({
+          success: false,
+          message: 'You do not have access to this meeting',
+        });
+        return;
+      }
+    }
+
+    console.error('Error in getMeetingTimeline controller:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to fetch meeting timeline',
+    });
+  }
+};
+
+/**
+ * GET /api/meetings/:id/summary - Get the TL;DR, topic summaries and open questions of a meeting
+ */
+export const getMeetingSummary = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    // Validate params
+    const { id } = getMeetingParamsSchema.parse(req.params);
+
+    // Get authenticated user ID
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const summary = await meetingService.getMeetingSummary(id, userId);
+
+    if (!summary) {
+      res.status(404).json({
+        success: false,
+        message: 'Summary not generated yet',
+      });
+      return;
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        meetingId: id,
+        summary,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid meeting ID',
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Meeting not found') {
+        res.status(404).json({
+          success: false,
+          message: 'Meeting not found',
+        });
+        return;
+      }
+
+      if (error.message === 'Access denied to this meeting') {
+        res.status(403).json({
+          success: false,
+          message: 'You do not have access to this meeting',
+        });
+        return;
+      }
+    }
+
+    console.error('Error in getMeetingSummary controller:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to fetch meeting summary',
+    });
+  }
+};
+
+/**
+ * GET /api/meetings/:id/clip?start=&end= - Stream part of the recording as mp3
+ */
+export const getMeetingClip = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    // Validate params and query
+    const { id } = getMeetingParamsSchema.parse(req.params);
+    const { start, end } = clipQuerySchema.parse(req.query);
+
+    // Get authenticated user ID
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const clip = await meetingService.getClipSource(id, userId, start, end);
+
+    res.setHeader('Content-Type', 'audio/mpeg');
+    res.setHeader(
+      'Content-Disposition',
+      `inline; filename="meeting-${id}-${Math.floor(clip.start)}.mp3"`
+    );
+
+    await AudioProcessor.streamClip(clip.source, clip.start, clip.duration, res);
+    return;
+  } catch (error) {
+    // Once streaming has started the status is sent - all we can do is cut the response
+    if (res.headersSent) {
+      console.error('Clip streaming failed:', error);
+      res.destroy();
+      return;
+    }
+
+    // ffmpeg failed before its first byte - the error goes out as JSON, not as an mp3
+    res.removeHeader('Content-Type');
+    res.removeHeader('Content-Disposition');
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues,
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Meeting not found') {
+        res.status(404).json({
+          success: false,
+          message: 'Meeting not found',
+        });
+        return;
+      }
+
+      if (error.message === 'Access denied to this meeting') {
+        res.status(403).json({
+          success: false,
+          message: 'You do not have access to this meeting',
+        });
+        return;
+      }
+
+      if (
+        error.message === 'Meeting has no recording' ||
+        error.message === 'Clip starts after the end of the recording' ||
+        error.message.startsWith('Clip is too long')
+      ) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+    }
+
+    console.error('Error in getMeetingClip controller:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to extract clip',
+    });
+  }
+};
+
+/**
+ * POST /api/meetings/:id/reprocess - Re-run selected pipeline stages
+ */
+export const reprocessMeeting = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    // Validate params and body
+    const { id } = getMeetingParamsSchema.parse(req.params);
+    const options = reprocessMeetingSchema.parse(req.body);
+
+    // Get authenticated user ID
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const result = await meetingService.reprocessMeeting(id, userId, options);
+
+    return res.status(202).json({
+      success: true,
+      message: 'Reprocessing started',
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues,
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Meeting not found') {
+        res.status(404).json({
+          success: false,
+          message: 'Meeting not found',
+        });
+        return;
+      }
+
+      if (error.message === 'Access denied to this meeting') {
+        res.status(403).json({
+          success: false,
+          message: 'You do not have access to this meeting',
+        });
+        return;
+      }
+
+      if (
+        error.message === 'Meeting is still being processed' ||
+        error.message === 'Transcript has manual edits'
+      ) {
+        res.status(409).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+
+      if (
+        error.message === 'Meeting has no transcript' ||
+        error.message === 'Meeting has no audio file to transcribe'
+      ) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+    }
+
+    console.error('Error in reprocessMeeting controller:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to reprocess meeting',
+    });
+  }
+};
+
+/**
+ * PUT /api/meetings/:id/speakers - Map diarized speakers to participants
+ */
+export const mapSpeakers = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    // Validate params and body
+    const { id } = getMeetingParamsSchema.parse(req.params);
+    const { mappings } = mapSpeakersSchema.parse(req.body);
+
+    // Get authenticated user ID
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    const result = await meetingService.mapSpeakers(id, userId, mappings);
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        success: false,
+        message: 'Validation error',
+        errors: error.issues,
+      });
+      return;
+    }
+
+    if (error instanceof Error) {
+      if (error.message === 'Meeting not found') {
+        res.status(404).json({
+          success: false,
+          message: 'Meeting not found',
+        });
+        return;
+      }
+
+      if (error.message === 'Access denied to this meeting') {
+        res.status(403).json({
+          success: false,
+          message: 'You do not have access to this meeting',
+        });
+        return;
+      }
+
+      if (
+        error.message === 'Meeting has no speakers to map' ||
+        error.message.startsWith('Unknown speaker')
+      ) {
+        res.status(400).json({
+          success: false,
+          message: error.message,
+        });
+        return;
+      }
+    }
+
+    console.error('Error in mapSpeakers controller:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to map speakers',
+    });
+  }
+};
+
 /**
  * GET /api/meetings - List user's meetings
  */
@@ -149,4 +625,3 @@ export const listMeetings = async (req: AuthenticatedRequest, res: Response) =>
     });
   }
 };
-
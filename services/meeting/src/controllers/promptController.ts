@@ -0,0 +1,229 @@
+import z from 'zod';
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/authenticate';
+import { PromptService } from '../services/promptService';
+import { PromptExperimentService } from '../services/promptExperimentService';
+import {
+  createPromptVersionSchema,
+  promptExperimentParamsSchema,
+  promptExperimentRequestSchema,
+  promptParamsSchema,
+  promptVersionParamsSchema,
+} from '../validators/promptValidator';
+
+const promptService = new PromptService();
+const promptExperimentService = new PromptExperimentService();
+
+/**
+ * Map service errors to HTTP responses
+ */
+const handlePromptError = (res: Response, error: unknown, fallbackMessage: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.issues,
+    });
+  }
+
+  if (error instanceof Error) {
+    if (
+      error.message.startsWith('Prompt version not found') ||
+      error.message === 'Prompt experiment not found'
+    ) {
+      return res.status(404).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    if (
+      error.message === 'Prompt version already exists' ||
+      error.message.startsWith('Prompt experiment is ')
+    ) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    if (
+      error.message.startsWith('Template is missing placeholders') ||
+      error.message === 'Baseline and candidate must be different versions' ||
+      error.message === 'No meetings match the experiment filters'
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+  });
+};
+
+/**
+ * GET /api/v1/admin/prompts/:name/versions - Versions of a prompt
+ */
+export const listPromptVersions = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { name } = promptParamsSchema.parse(req.params);
+    const versions = await promptService.listVersions(name);
+
+    return res.status(200).json({
+      success: true,
+      data: { versions },
+    });
+  } catch (error) {
+    return handlePromptError(res, error, 'Failed to list prompt versions');
+  }
+};
+
+/**
+ * GET /api/v1/admin/prompts/:name/versions/:version - Template of one version
+ */
+export const getPromptVersion = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { name, version } = promptVersionParamsSchema.parse(req.params);
+    const prompt = await promptService.resolve(name, version);
+
+    return res.status(200).json({
+      success: true,
+      data: { prompt },
+    });
+  } catch (error) {
+    return handlePromptError(res, error, 'Failed to fetch prompt version');
+  }
+};
+
+/**
+ * POST /api/v1/admin/prompts/:name/versions - Add a version
+ */
+export const createPromptVersion = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { name } = promptParamsSchema.parse(req.params);
+    const data = createPromptVersionSchema.parse(req.body);
+
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+
+    const version = await promptService.createVersion(name, data, userId);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Prompt version created',
+      data: { version },
+    });
+  } catch (error) {
+    return handlePromptError(res, error, 'Failed to create prompt version');
+  }
+};
+
+/**
+ * POST /api/v1/admin/prompts/:name/versions/:version/activate - Use a version in the pipeline
+ */
+export const activatePromptVersion = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { name, version } = promptVersionParamsSchema.parse(req.params);
+    const activated = await promptService.activateVersion(name, version);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Prompt version activated',
+      data: { version: activated },
+    });
+  } catch (error) {
+    return handlePromptError(res, error, 'Failed to activate prompt version');
+  }
+};
+
+/**
+ * POST /api/v1/admin/prompt-experiments - Compare two prompt versions on a sample of meetings
+ */
+export const createPromptExperiment = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const request = promptExperimentRequestSchema.parse(req.body);
+
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+
+    const experiment = await promptExperimentService.createExperiment(request, userId);
+
+    return res.status(201).json({
+      success: true,
+      message: 'Prompt experiment started',
+      data: { experiment: promptExperimentService.formatExperiment(experiment) },
+    });
+  } catch (error) {
+    return handlePromptError(res, error, 'Failed to create prompt experiment');
+  }
+};
+
+/**
+ * GET /api/v1/admin/prompt-experiments - List recent experiments
+ */
+export const listPromptExperiments = async (_req: AuthenticatedRequest, res: Response) => {
+  try {
+    const experiments = await promptExperimentService.listExperiments();
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        experiments: experiments.map((experiment) =>
+          promptExperimentService.formatExperiment(experiment)
+        ),
+      },
+    });
+  } catch (error) {
+    return handlePromptError(res, error, 'Failed to list prompt experiments');
+  }
+};
+
+/**
+ * GET /api/v1/admin/prompt-experiments/:id - Progress, outputs and comparison report
+ */
+export const getPromptExperiment = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = promptExperimentParamsSchema.parse(req.params);
+    const experiment = await promptExperimentService.getExperiment(id);
+
+    return res.status(200).json({
+      success: true,
+      data: { experiment: promptExperimentService.formatExperiment(experiment) },
+    });
+  } catch (error) {
+    return handlePromptError(res, error, 'Failed to fetch prompt experiment');
+  }
+};
+
+/**
+ * POST /api/v1/admin/prompt-experiments/:id/cancel
+ */
+export const cancelPromptExperiment = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = promptExperimentParamsSchema.parse(req.params);
+    const experiment = await promptExperimentService.cancelExperiment(id);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Prompt experiment cancelled',
+      data: { experiment: promptExperimentService.formatExperiment(experiment) },
+    });
+  } catch (error) {
+    return handlePromptError(res, error, 'Failed to cancel prompt experiment');
+  }
+};
@@ -1,10 +1,13 @@
 import { Request, Response } from 'express';
 import { Meeting } from '../models/Meeting';
 import { ExportService } from '../services/exportService';
+import { TranslationService } from '../services/translationService';
+import { transcriptLanguageQuerySchema } from '../validators/meetingValidator';
 import { SearchService } from '../services/searchService';
 
 const searchService = new SearchService();
 const exportService = new ExportService();
+const translationService = new TranslationService();
 /**
  * Search meetings with filters
  * GET /api/v1/meetings/search
@@ -119,7 +122,25 @@ export const exportMeetingToPDF = async (req: Request, res: Response) => {
       });
     }
 
-    const pdfBuffer = await exportService.exportToPDF(meeting);
+    const query = transcriptLanguageQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({
+        success: false,
+        error: query.error.issues[0].message,
+      });
+    }
+
+    let transcript;
+    try {
+      transcript = translationService.getTranscript(meeting, query.data.lang);
+    } catch {
+      return res.status(404).json({
+        success: false,
+        error: 'Transcript is not available in the requested language',
+      });
+    }
+
+    const pdfBuffer = await exportService.exportToPDF(meeting, transcript);
 
     res.setHeader('Content-Type', 'application/pdf');
     res.setHeader('Content-Disposition', `attachment; filename="${meeting.title}.pdf"`);
@@ -150,7 +171,25 @@ export const exportMeetingToMarkdown = async (req: Request, res: Response) => {
       });
     }
 
-    const markdown = exportService.exportToMarkdown(meeting);
+    const query = transcriptLanguageQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({
+        success: false,
+        error: query.error.issues[0].message,
+      });
+    }
+
+    let transcript;
+    try {
+      transcript = translationService.getTranscript(meeting, query.data.lang);
+    } catch {
+      return res.status(404).json({
+        success: false,
+        error: 'Transcript is not available in the requested language',
+      });
+    }
+
+    const markdown = exportService.exportToMarkdown(meeting, transcript);
 
     res.setHeader('Content-Type', 'text/markdown');
     res.setHeader('Content-Disposition', `attachment; filename="${meeting.title}.md"`);
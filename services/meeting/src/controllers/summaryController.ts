@@ -0,0 +1,99 @@
+import z from 'zod';
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/authenticate';
+import { SummarySettingsService } from '../services/summarySettingsService';
+import { summarySettingsParamsSchema, summarySettingsSchema } from '../validators/summaryValidator';
+
+const summarySettingsService = new SummarySettingsService();
+
+/**
+ * Map service errors to HTTP responses
+ */
+const handleSummaryError = (res: Response, error: unknown, fallbackMessage: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.issues,
+    });
+  }
+
+  if (error instanceof Error && error.message === 'Summary settings not found') {
+    return res.status(404).json({
+      success: false,
+      message: error.message,
+    });
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+  });
+};
+
+/**
+ * GET /api/v1/projects/:projectId/summary-settings - Project settings (the defaults if none yet)
+ */
+export const getSummarySettings = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { projectId } = summarySettingsParamsSchema.parse(req.params);
+    const settings = await summarySettingsService.getSettings(projectId);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        settings: settings
+          ? summarySettingsService.formatSettings(settings)
+          : { projectId, ...summarySettingsService.getDefaults(), isDefault: true },
+      },
+    });
+  } catch (error) {
+    return handleSummaryError(res, error, 'Failed to fetch summary settings');
+  }
+};
+
+/**
+ * PUT /api/v1/projects/:projectId/summary-settings - Replace the settings
+ */
+export const saveSummarySettings = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { projectId } = summarySettingsParamsSchema.parse(req.params);
+    const preferences = summarySettingsSchema.parse(req.body);
+
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+
+    const settings = await summarySettingsService.saveSettings(projectId, preferences, userId);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Summary settings saved',
+      data: { settings: summarySettingsService.formatSettings(settings) },
+    });
+  } catch (error) {
+    return handleSummaryError(res, error, 'Failed to save summary settings');
+  }
+};
+
+/**
+ * DELETE /api/v1/projects/:projectId/summary-settings - Go back to the defaults
+ */
+export const deleteSummarySettings = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { projectId } = summarySettingsParamsSchema.parse(req.params);
+    await summarySettingsService.deleteSettings(projectId);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Summary settings deleted',
+    });
+  } catch (error) {
+    return handleSummaryError(res, error, 'Failed to delete summary settings');
+  }
+};
@@ -0,0 +1,270 @@
+import z from 'zod';
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/authenticate';
+import { TranscriptEditService } from '../services/transcriptEditService';
+import {
+  editSegmentSchema,
+  getMeetingParamsSchema,
+  mergeSegmentsSchema,
+  reviewQueueQuerySchema,
+  splitSegmentSchema,
+  transcriptRevisionParamsSchema,
+  transcriptSegmentParamsSchema,
+  verifySegmentsSchema,
+} from '../validators/meetingValidator';
+
+const transcriptEditService = new TranscriptEditService();
+
+/**
+ * Map service errors to HTTP responses
+ */
+const handleTranscriptError = (res: Response, error: unknown, fallbackMessage: string) => {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      message: 'Validation error',
+      errors: error.issues,
+    });
+  }
+
+  if (error instanceof Error) {
+    if (
+      error.message === 'Meeting not found' ||
+      error.message === 'Segment not found' ||
+      error.message === 'Revision not found'
+    ) {
+      return res.status(404).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    if (error.message === 'Access denied to this meeting') {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this meeting',
+      });
+    }
+
+    if (
+      error.message === 'Meeting is still being processed' ||
+      error.message === 'Transcript was changed by another edit' ||
+      error.message === 'Revision already reverted' ||
+      error.message === 'Revision conflicts with later edits'
+    ) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+      });
+    }
+
+    if (
+      error.message === 'Invalid meeting ID' ||
+      error.message === 'Meeting has no transcript' ||
+      error.message.startsWith('Split ')
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+  }
+
+  console.error(`${fallbackMessage}:`, error);
+  return res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+  });
+};
+
+/**
+ * PATCH /api/meetings/:id/transcript/segments/:index - Edit segment text/speaker
+ */
+export const editTranscriptSegment = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id, index } = transcriptSegmentParamsSchema.parse(req.params);
+    const changes = editSegmentSchema.parse(req.body);
+
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+
+    const result = await transcriptEditService.editSegment(id, userId, index, changes);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Segment updated',
+      data: result,
+    });
+  } catch (error) {
+    return handleTranscriptError(res, error, 'Failed to edit transcript segment');
+  }
+};
+
+/**
+ * PATCH /api/meetings/:id/transcript/segments/:index/merge - Merge with following segments
+ */
+export const mergeTranscriptSegments = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id, index } = transcriptSegmentParamsSchema.parse(req.params);
+    const { count } = mergeSegmentsSchema.parse(req.body ?? {});
+
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+
+    const result = await transcriptEditService.mergeSegments(id, userId, index, count);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Segments merged',
+      data: result,
+    });
+  } catch (error) {
+    return handleTranscriptError(res, error, 'Failed to merge transcript segments');
+  }
+};
+
+/**
+ * PATCH /api/meetings/:id/transcript/segments/:index/split - Split a segment in two
+ */
+export const splitTranscriptSegment = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id, index } = transcriptSegmentParamsSchema.parse(req.params);
+    const split = splitSegmentSchema.parse(req.body);
+
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+
+    const result = await transcriptEditService.splitSegment(id, userId, index, split);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Segment split',
+      data: result,
+    });
+  } catch (error) {
+    return handleTranscriptError(res, error, 'Failed to split transcript segment');
+  }
+};
+
+/**
+ * GET /api/meetings/:id/transcript/revisions - Edit history, newest first
+ */
+export const getTranscriptRevisions = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = getMeetingParamsSchema.parse(req.params);
+
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+
+    const revisions = await transcriptEditService.listRevisions(id, userId);
+
+    return res.status(200).json({
+      success: true,
+      data: { revisions, total: revisions.length },
+    });
+  } catch (error) {
+    return handleTranscriptError(res, error, 'Failed to fetch transcript revisions');
+  }
+};
+
+/**
+ * POST /api/meetings/:id/transcript/revisions/:revision/revert - Undo a revision
+ */
+export const revertTranscriptRevision = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id, revision } = transcriptRevisionParamsSchema.parse(req.params);
+
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+
+    const result = await transcriptEditService.revertRevision(id, userId, revision);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Revision reverted',
+      data: result,
+    });
+  } catch (error) {
+    return handleTranscriptError(res, error, 'Failed to revert transcript revision');
+  }
+};
+
+/**
+ * GET /api/meetings/:id/transcript/review - Low-confidence segments to check
+ */
+export const getTranscriptReview = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = getMeetingParamsSchema.parse(req.params);
+    const options = reviewQueueQuerySchema.parse(req.query);
+
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+
+    const review = await transcriptEditService.getReviewQueue(id, userId, options);
+
+    return res.status(200).json({
+      success: true,
+      data: review,
+    });
+  } catch (error) {
+    return handleTranscriptError(res, error, 'Failed to fetch transcript review queue');
+  }
+};
+
+/**
+ * POST /api/meetings/:id/transcript/review/verify - Mark segments as verified
+ */
+export const verifyTranscriptSegments = async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { id } = getMeetingParamsSchema.parse(req.params);
+    const { indexes } = verifySegmentsSchema.parse(req.body);
+
+    const userId = req.user?.userId;
+    if (!userId) {
+      return res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+    }
+
+    const result = await transcriptEditService.verifySegments(id, userId, indexes);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Segments verified',
+      data: result,
+    });
+  } catch (error) {
+    return handleTranscriptError(res, error, 'Failed to verify transcript segments');
+  }
+};
@@ -2,12 +2,13 @@ import { Response } from 'express';
 import { getMaxFileSizeMB } from '../utils/fileValidation';
 import { UploadService } from '../services/uploadService';
 import { AuthenticatedRequest } from '../middleware/authenticate';
+import { TRANSCRIPTION_PROVIDER_NAMES } from '../types/transcription';
 
 /**
  * FLOW 2: Upload file and create new meeting
  * POST /api/meetings/upload
  * Body: multipart/form-data with 'file' field
- * Optional: title (string)
+ * Optional: title (string), transcriptionProvider (openai | local | mock)
  */
 const uploadService = new UploadService();
 
@@ -23,14 +24,26 @@ export const uploadFile = async (req: AuthenticatedRequest, res: Response): Prom
     }
 
     // Get optional fields from body
-    const { title } = req.body;
+    const { title, transcriptionProvider } = req.body;
     const userId = req.user?.userId; // From auth middleware (if implemented)
 
+    if (
+      transcriptionProvider &&
+      !(TRANSCRIPTION_PROVIDER_NAMES as readonly string[]).includes(transcriptionProvider)
+    ) {
+      res.status(400).json({
+        success: false,
+        message: `transcriptionProvider must be one of: ${TRANSCRIPTION_PROVIDER_NAMES.join(', ')}`,
+      });
+      return;
+    }
+
     // Call service layer
     const result = await uploadService.uploadFileToCloud({
       file: req.file,
       title,
       userId,
+      transcriptionProvider,
     });
 
     // Send success response
@@ -7,6 +7,11 @@ import uploadRoutes from './routes/uploadRoutes';
 import queueRoutes from './routes/queueRoutes';
 import searchRoutes from './routes/searchRoutes';
 import commitmentRoutes from './routes/commitmentRoutes';
+import backfillRoutes from './routes/backfillRoutes';
+import deadLetterRoutes from './routes/deadLetterRoutes';
+import glossaryRoutes from './routes/glossaryRoutes';
+import summaryRoutes from './routes/summaryRoutes';
+import promptRoutes from './routes/promptRoutes';
 import swaggerUi from 'swagger-ui-express';
 import { swaggerSpec } from './config/swagger/swagger';
 import { connectDatabase } from './config/db';
@@ -20,7 +25,7 @@ console.log(' meeting service port:', PORT);
 // Middleware
 app.use(helmet());
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '5mb' })); // Imported transcripts can be sent as JSON
 app.use(express.urlencoded({ extended: true }));
 
 connectDatabase();
@@ -59,6 +64,11 @@ app.use('/api/v1/meeting', uploadRoutes);
 app.use('/api/v1/queue', queueRoutes);
 app.use('/api/v1/', searchRoutes);
 app.use('/api/v1/', commitmentRoutes);
+app.use('/api/v1/', glossaryRoutes);
+app.use('/api/v1/', summaryRoutes);
+app.use('/api/v1/admin', backfillRoutes);
+app.use('/api/v1/admin', deadLetterRoutes);
+app.use('/api/v1/admin', promptRoutes);
 
 console.log('✅ Configuration loaded successfully');
 console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
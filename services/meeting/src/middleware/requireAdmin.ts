@@ -0,0 +1,31 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from './authenticate';
+import { config } from '../config/config';
+
+/**
+ * Whether the authenticated user is an admin (email listed in ADMIN_EMAILS)
+ */
+export const isAdmin = (user: AuthenticatedRequest['user']): boolean => {
+  const email = user?.email?.toLowerCase();
+  return !!email && config.admin.emails.includes(email);
+};
+
+/**
+ * Allow only admins (emails listed in ADMIN_EMAILS)
+ * Must run after authenticate
+ */
+export const requireAdmin = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!isAdmin(req.user)) {
+    res.status(403).json({
+      success: false,
+      message: 'Admin access required',
+    });
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,54 @@
+import { Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { AuthenticatedRequest } from './authenticate';
+import { isAdmin } from './requireAdmin';
+import { Meeting } from '../models/Meeting';
+
+/**
+ * Allow only admins and members of the :projectId project - users who created or take
+ * part in one of its meetings. Project settings change what every meeting of the project
+ * gets, so they are not open to any authenticated user.
+ * Must run after authenticate
+ */
+export const requireProjectAccess = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (isAdmin(req.user)) {
+      next();
+      return;
+    }
+
+    const userId = req.user?.userId;
+    const { projectId } = req.params;
+
+    const isMember =
+      !!userId &&
+      mongoose.Types.ObjectId.isValid(userId) &&
+      !!(await Meeting.exists({
+        projectId,
+        $or: [
+          { createdBy: new mongoose.Types.ObjectId(userId) },
+          { 'participants.userId': new mongoose.Types.ObjectId(userId) },
+        ],
+      }));
+
+    if (!isMember) {
+      res.status(403).json({
+        success: false,
+        message: 'You do not have access to this project',
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error('❌ Project access check failed:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to check project access',
+    });
+  }
+};
@@ -1,5 +1,10 @@
 import multer from 'multer';
-import { fileFilter, getMaxFileSizeMB } from '../utils/fileValidation';
+import {
+  fileFilter,
+  getMaxFileSizeMB,
+  transcriptFileFilter,
+  MAX_TRANSCRIPT_FILE_SIZE,
+} from '../utils/fileValidation';
 
 // Configure multer to store files in memory
 const storage = multer.memoryStorage();
@@ -13,6 +18,15 @@ export const upload = multer({
   },
 });
 
+// Transcript files to import - small text files, kept in memory as well
+export const transcriptUpload = multer({
+  storage: storage,
+  fileFilter: transcriptFileFilter,
+  limits: {
+    fileSize: MAX_TRANSCRIPT_FILE_SIZE,
+  },
+});
+
 // Error handling middleware for multer errors
 export const handleMulterError = (err: any, _req: any, res: any, next: any) => {
   if (err instanceof multer.MulterError) {
@@ -0,0 +1,104 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ProcessingStageName, PROCESSING_STAGE_NAMES } from './Meeting';
+
+// Meeting selection - same fields as SearchService filters
+export interface IBackfillFilters {
+  query?: string;
+  status?: string[];
+  projectId?: string;
+  createdBy?: string;
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+export interface IBackfillFailure {
+  meetingId: mongoose.Types.ObjectId;
+  error: string;
+  at: Date;
+}
+
+export type BackfillStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+
+// A bulk reprocessing run over many meetings
+export interface IBackfill extends Document {
+  _id: mongoose.Types.ObjectId;
+  stages: ProcessingStageName[];
+  filters: IBackfillFilters;
+  preserveEditedActionItems: boolean;
+  ratePerMinute: number; // Meetings queued per minute
+
+  status: BackfillStatus;
+
+  // Progress
+  total: number; // Meetings matched when the backfill was created
+  processed: number; // queued + skipped + failed
+  queued: number;
+  skipped: number; // Meeting was already being processed
+  failed: number;
+  failures: IBackfillFailure[]; // Most recent failures only
+  lastMeetingId?: mongoose.Types.ObjectId; // Cursor - meetings are walked in _id order
+
+  estimatedCost: number; // USD, from the dry run
+
+  createdBy: string; // User ID, or 'cli'
+  startedAt: Date;
+  pausedAt?: Date;
+  completedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BackfillSchema = new Schema<IBackfill>(
+  {
+    stages: {
+      type: [{ type: String, enum: PROCESSING_STAGE_NAMES }],
+      required: true,
+    },
+    filters: {
+      query: String,
+      status: [String],
+      projectId: String,
+      createdBy: String,
+      dateFrom: Date,
+      dateTo: Date,
+    },
+    preserveEditedActionItems: { type: Boolean, default: true },
+    ratePerMinute: { type: Number, required: true, min: 1 },
+
+    status: {
+      type: String,
+      enum: ['running', 'paused', 'completed', 'cancelled'],
+      default: 'running',
+    },
+
+    total: { type: Number, default: 0 },
+    processed: { type: Number, default: 0 },
+    queued: { type: Number, default: 0 },
+    skipped: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 },
+    failures: [
+      {
+        meetingId: { type: Schema.Types.ObjectId, ref: 'Meeting' },
+        error: String,
+        at: Date,
+        _id: false,
+      },
+    ],
+    lastMeetingId: { type: Schema.Types.ObjectId, ref: 'Meeting' },
+
+    estimatedCost: { type: Number, default: 0 },
+
+    createdBy: { type: String, required: true },
+    startedAt: { type: Date, default: Date.now },
+    pausedAt: Date,
+    completedAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+BackfillSchema.index({ status: 1, createdAt: -1 });
+
+export const Backfill = mongoose.model<IBackfill>('Backfill', BackfillSchema);
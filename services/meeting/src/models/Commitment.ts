@@ -7,6 +7,7 @@ export interface IFollowUp {
   notes?: string;
   status: 'mentioned' | 'updated' | 'completed';
   detectedBy: 'gpt-4' | 'manual';
+  promptVersion?: string; // Version of the follow-up prompt that detected it
 }
 
 // Main Commitment Interface
@@ -37,7 +38,8 @@ export interface ICommitment extends Document {
     meetingId: mongoose.Types.ObjectId,
     status: 'mentioned' | 'updated' | 'completed',
     notes?: string,
-    detectedBy?: 'gpt-4' | 'manual'
+    detectedBy?: 'gpt-4' | 'manual',
+    promptVersion?: string
   ): Promise<this>;
 
   // Virtual property
@@ -137,6 +139,7 @@ const CommitmentSchema = new Schema<ICommitment, ICommitmentModel>(
           enum: ['gpt-4', 'manual'],
           default: 'gpt-4',
         },
+        promptVersion: String,
       },
     ],
 
@@ -189,7 +192,8 @@ CommitmentSchema.methods.addFollowUp = async function (
   meetingId: mongoose.Types.ObjectId,
   status: 'mentioned' | 'updated' | 'completed',
   notes?: string,
-  detectedBy: 'gpt-4' | 'manual' = 'gpt-4'
+  detectedBy: 'gpt-4' | 'manual' = 'gpt-4',
+  promptVersion?: string
 ) {
   this.followUps.push({
     meetingId,
@@ -197,6 +201,7 @@ CommitmentSchema.methods.addFollowUp = async function (
     status,
     notes,
     detectedBy,
+    promptVersion,
   });
 
   this.lastMentionedAt = new Date();
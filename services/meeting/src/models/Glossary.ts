@@ -0,0 +1,44 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const GLOSSARY_TERM_KINDS = ['term', 'acronym', 'person'] as const;
+export type GlossaryTermKind = (typeof GLOSSARY_TERM_KINDS)[number];
+
+// A word the transcript should spell one way
+export interface IGlossaryTerm {
+  _id: mongoose.Types.ObjectId;
+  term: string; // Preferred spelling, e.g. "Kubernetes"
+  variants: string[]; // Known mis-transcriptions, e.g. ["cooper netties", "kubernetis"]
+  kind: GlossaryTermKind; // 'person' = speaker/participant name
+  description?: string;
+}
+
+// Custom vocabulary of one project - used as a transcription hint and to correct transcripts
+export interface IGlossary extends Document {
+  _id: mongoose.Types.ObjectId;
+  projectId: string;
+  terms: mongoose.Types.DocumentArray<IGlossaryTerm>;
+  updatedBy?: string; // User ID
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GlossaryTermSchema = new Schema<IGlossaryTerm>({
+  term: { type: String, required: true, trim: true, maxlength: 100 },
+  variants: [{ type: String, trim: true, maxlength: 100 }],
+  kind: { type: String, enum: GLOSSARY_TERM_KINDS, default: 'term' },
+  description: { type: String, trim: true, maxlength: 300 },
+});
+
+const GlossarySchema = new Schema<IGlossary>(
+  {
+    projectId: { type: String, required: true, trim: true, unique: true },
+    terms: [GlossaryTermSchema],
+    updatedBy: String,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const Glossary = mongoose.model<IGlossary>('Glossary', GlossarySchema);
@@ -1,4 +1,11 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import {
+  TRANSCRIPT_IMPORT_FORMATS,
+  TRANSCRIPTION_PROVIDER_NAMES,
+  TranscriptImportFormat,
+  TranscriptionProviderName,
+} from '../types/transcription';
+import { SUMMARY_LENGTHS, SUMMARY_STYLES, SummaryLength, SummaryStyle } from './SummarySettings';
 
 // Interfaces for subdocuments
 export interface IActionItem {
@@ -9,6 +16,18 @@ export interface IActionItem {
   dueDate?: Date;
   status: 'pending' | 'in-progress' | 'completed'; // ← UPDATED (added 'in-progress')
   extractedAt?: Date; // ← ADD THIS
+  editedAt?: Date; // Set when a user edits the item - kept on reprocessing
+  manual?: boolean; // Added by a user rather than extracted - kept on reprocessing
+  source?: ISourceTimestamp; // Where in the recording it was said
+  evidence?: IEvidence;
+  promptVersion?: string; // Version of the prompt that extracted it
+}
+
+// Extracted action item a user deleted - not brought back by reprocessing
+export interface IDismissedActionItem {
+  description: string;
+  evidence?: IEvidence;
+  dismissedAt: Date;
 }
 
 // 2. UPDATE IDecision interface (line ~12)
@@ -20,6 +39,22 @@ export interface IDecision {
   context?: string; // ← ADD THIS
   timestamp: Date;
   extractedAt?: Date; // ← ADD THIS
+  source?: ISourceTimestamp; // Where in the recording it was made
+  evidence?: IEvidence;
+  promptVersion?: string; // Version of the prompt that extracted it
+}
+
+// Transcript quote an extracted item is based on
+export interface IEvidence {
+  quote: string; // Empty when the model gave none
+  segmentIndexes: number[]; // Transcript segments the quote spans
+  verified: boolean; // false = the quote wasn't found in the transcript
+}
+
+// Span of the recording an extracted item came from - links to GET /:id/clip
+export interface ISourceTimestamp {
+  startTime: number; // Seconds from start
+  endTime: number;
 }
 
 // 3. UPDATE IParticipant interface (line ~18)
@@ -51,6 +86,7 @@ export interface ISentimentAnalysis {
     recommendations: string[];
   };
   analyzedAt?: Date; // ← ADD THIS
+  promptVersion?: string;
 }
 
 // ← ADD THIS: Transcript segment interface
@@ -60,14 +96,160 @@ export interface ITranscriptSegment {
   timestamp: number; // Seconds from start
   confidence?: number; // 0-1
   sentiment?: 'positive' | 'negative' | 'neutral';
+  language?: string; // ISO 639-1 - meetings may switch language
+  review?: ISegmentReview;
+}
+
+// Outcome of reviewing a low-confidence segment
+export interface ISegmentReview {
+  status: 'verified' | 'corrected'; // verified = text was right, corrected = text was edited
+  reviewedBy: string; // User ID
+  reviewedAt: Date;
+}
+
+// Diarized speaker and the participant a user mapped it to
+export interface ITranscriptSpeaker {
+  label: string; // "Speaker 1" - as used in segment.speaker
+  participantName?: string;
+  speakingTime: number; // Seconds
+  segmentCount: number;
 }
 
 // ← ADD THIS: Enhanced transcript structure
 export interface ITranscript {
   segments: ITranscriptSegment[];
   fullText: string;
-  language: string;
+  language: string; // Primary language (ISO 639-1)
+  languages?: string[]; // Every detected language, primary first
+  duration: number; // Seconds
+  speakers?: ITranscriptSpeaker[];
+  importedFrom?: TranscriptImportFormat; // Imported from a transcript file instead of transcribed
+  humanCorrected?: boolean; // Edited by a user - see TranscriptRevision
+  revision?: number; // Latest TranscriptRevision applied
+  editedAt?: Date;
+  editedBy?: string; // User ID
+}
+
+// Transcript translated into another language - segment-aligned with the original
+export interface ITranscriptTranslation {
+  language: string; // Target (ISO 639-1)
+  sourceLanguage: string;
+  segments: ITranscriptSegment[]; // Same timestamps and speakers as transcript.segments
+  fullText: string;
+  untranslatedSegments?: number[]; // Indices the LLM left out twice - kept in the source language
+  model?: string;
+  translatedAt: Date;
+}
+
+// Timeline: key moments located in the audio
+export interface ITimelineMoment {
+  id: string;
+  type: 'topic_shift' | 'decision' | 'escalation';
+  title: string;
+  summary?: string;
+  startTime: number; // Seconds from start
+  endTime: number; // Seconds from start
+  speakers?: string[];
+  importance: 'high' | 'medium' | 'low';
+  extractedAt?: Date;
+}
+
+// Summary: one agenda topic, in the order it came up
+export interface ISummaryTopic {
+  title: string;
+  summary: string;
+  keyPoints: string[];
+  source?: ISourceTimestamp; // Only when summarised from segments
+}
+
+// Question raised in the meeting and still unanswered at its end
+export interface IOpenQuestion {
+  question: string;
+  askedBy?: string;
+}
+
+// Human-readable summary - the first thing the exports show
+export interface IMeetingSummary {
+  tldr: string; // Executive summary
+  topics: ISummaryTopic[];
+  openQuestions: IOpenQuestion[];
+  length: SummaryLength; // Preferences it was written with (project summary settings)
+  style: SummaryStyle;
+  model?: string;
+  generatedAt: Date;
+}
+
+// Pipeline stages tracked on the meeting (see orchestration/pipeline.ts)
+export const PROCESSING_STAGE_NAMES = [
+  'transcription',
+  'extraction',
+  'sentiment',
+  'follow-up',
+  'timeline',
+  'translation',
+  'summary',
+] as const;
+
+export type ProcessingStageName = (typeof PROCESSING_STAGE_NAMES)[number];
+
+export type ProcessingStageState =
+  | 'pending' // Waiting on dependencies
+  | 'queued'
+  | 'running'
+  | 'retrying' // Last attempt failed, Bull will retry
+  | 'completed'
+  | 'failed' // Retries exhausted
+  | 'skipped' // A dependency failed
+  | 'cancelled';
+
+// Per-stage pipeline state - survives Bull's job retention
+export interface IProcessingStage {
+  state: ProcessingStageState;
+  attempts: number;
+  jobId?: string;
+  queuedAt?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  cost?: number; // USD
+  model?: string;
+  tokensUsed?: {
+    input: number;
+    output: number;
+  };
+  chunking?: ITranscriptChunking; // LLM stages - how the transcript was split across calls
+  repairs?: number; // LLM stages - answers re-prompted because they failed validation
+  promptVersions?: Record<string, string>; // LLM stages - prompt name → version used
+  stale?: boolean; // Completed on a transcript that was edited since - reprocess to update
+  error?: string;
+}
+
+// How a long transcript was split for an LLM stage
+export interface ITranscriptChunking {
+  strategy: 'single' | 'map-reduce'; // map-reduce = analysed per chunk, then merged
+  unit: 'segment' | 'sentence'; // Chunk boundaries - sentences when there are no segments
+  chunks: number;
+  transcriptTokens: number; // Estimated
+  maxChunkTokens: number;
+  overlapTokens: number;
+}
+
+// Audio file details as reported by ffprobe
+export interface IAudioInfo {
   duration: number; // Seconds
+  format: string;
+  sizeMB: number;
+  bitrate?: number;
+  sampleRate?: number; // Hz
+  channels?: number;
+}
+
+// Audio normalization applied before transcription
+export interface IAudioNormalization {
+  original: IAudioInfo;
+  normalized?: IAudioInfo; // Missing when normalization is disabled
+  trimmedStart: number; // Leading silence removed (seconds) - already added back to timestamps
+  trimmedEnd: number; // Trailing silence removed (seconds)
+  processedAt: Date;
 }
 
 // ← ADD THIS: Processing metadata
@@ -77,6 +259,8 @@ export interface IProcessing {
   cost?: number; // USD
   model?: string; // whisper-1, gpt-4, etc.
   error?: string;
+  audio?: IAudioNormalization;
+  stages?: Partial<Record<ProcessingStageName, IProcessingStage>>;
 }
 
 // Main Meeting Interface
@@ -88,14 +272,18 @@ export interface IMeeting extends Document {
 
   // ← UPDATED: Enhanced transcript (now optional object instead of string)
   transcript?: ITranscript;
+  translations?: ITranscriptTranslation[];
 
   // ← ADD THIS: Processing metadata
   processing?: IProcessing;
 
   // Standard fields
   actionItems: IActionItem[];
+  dismissedActionItems?: IDismissedActionItem[];
   decisions: IDecision[];
   participants: IParticipant[];
+  timeline?: ITimelineMoment[];
+  summary?: IMeetingSummary;
 
   // ← UPDATED: Added 'transcribed', 'processing', 'failed' statuses
   status:
@@ -111,6 +299,7 @@ export interface IMeeting extends Document {
   sentiment?: ISentimentAnalysis;
   relatedMeetings?: mongoose.Types.ObjectId[];
   projectId?: string;
+  transcriptionProvider?: TranscriptionProviderName; // Overrides TRANSCRIPTION_PROVIDER
 
   // Metadata
   createdBy: mongoose.Types.ObjectId;
@@ -122,6 +311,130 @@ export interface IMeeting extends Document {
   updatedAt: Date;
 }
 
+// Pipeline stage subdocument
+const ProcessingStageSchema = new Schema<IProcessingStage>(
+  {
+    state: {
+      type: String,
+      enum: [
+        'pending',
+        'queued',
+        'running',
+        'retrying',
+        'completed',
+        'failed',
+        'skipped',
+        'cancelled',
+      ],
+      default: 'pending',
+    },
+    attempts: { type: Number, default: 0 },
+    jobId: String,
+    queuedAt: Date,
+    startedAt: Date,
+    completedAt: Date,
+    cost: Number,
+    model: String,
+    tokensUsed: {
+      input: Number,
+      output: Number,
+    },
+    chunking: {
+      strategy: { type: String, enum: ['single', 'map-reduce'] },
+      unit: { type: String, enum: ['segment', 'sentence'] },
+      chunks: Number,
+      transcriptTokens: Number,
+      maxChunkTokens: Number,
+      overlapTokens: Number,
+    },
+    repairs: Number,
+    promptVersions: { type: Map, of: String },
+    stale: Boolean,
+    error: String,
+  },
+  { _id: false }
+);
+
+// Audio info subdocument
+const AudioInfoSchema = new Schema<IAudioInfo>(
+  {
+    duration: Number,
+    format: String,
+    sizeMB: Number,
+    bitrate: Number,
+    sampleRate: Number,
+    channels: Number,
+  },
+  { _id: false }
+);
+
+// Transcript speaker subdocument
+const TranscriptSpeakerSchema = new Schema<ITranscriptSpeaker>(
+  {
+    label: { type: String, required: true },
+    participantName: String,
+    speakingTime: { type: Number, default: 0 },
+    segmentCount: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+// Source span of an action item or decision
+const SourceTimestampSchema = new Schema<ISourceTimestamp>(
+  {
+    startTime: { type: Number, required: true },
+    endTime: { type: Number, required: true },
+  },
+  { _id: false }
+);
+
+// Supporting quote of an action item or decision
+const EvidenceSchema = new Schema<IEvidence>(
+  {
+    quote: { type: String, default: '' }, // Empty when the model gave no quote
+    segmentIndexes: { type: [Number], default: [] },
+    verified: { type: Boolean, required: true },
+  },
+  { _id: false }
+);
+
+// Transcript segment subdocument (original and translated transcripts)
+const SegmentReviewSchema = new Schema<ISegmentReview>(
+  {
+    status: { type: String, enum: ['verified', 'corrected'], required: true },
+    reviewedBy: { type: String, required: true },
+    reviewedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
+export const TranscriptSegmentSchema = new Schema<ITranscriptSegment>({
+  text: { type: String, required: true },
+  speaker: String,
+  timestamp: { type: Number, required: true },
+  confidence: Number,
+  sentiment: {
+    type: String,
+    enum: ['positive', 'negative', 'neutral'],
+  },
+  language: String,
+  review: SegmentReviewSchema,
+});
+
+// Transcript translation subdocument
+const TranscriptTranslationSchema = new Schema<ITranscriptTranslation>(
+  {
+    language: { type: String, required: true },
+    sourceLanguage: String,
+    segments: [TranscriptSegmentSchema],
+    fullText: String,
+    untranslatedSegments: { type: [Number], default: undefined },
+    model: String,
+    translatedAt: { type: Date, default: Date.now },
+  },
+  { _id: false }
+);
+
 // Mongoose Schema
 const MeetingSchema = new Schema<IMeeting>(
   {
@@ -143,21 +456,17 @@ const MeetingSchema = new Schema<IMeeting>(
 
     // ← UPDATED: Enhanced transcript structure
     transcript: {
-      segments: [
-        {
-          text: { type: String, required: true },
-          speaker: String,
-          timestamp: { type: Number, required: true },
-          confidence: Number,
-          sentiment: {
-            type: String,
-            enum: ['positive', 'negative', 'neutral'],
-          },
-        },
-      ],
+      segments: [TranscriptSegmentSchema],
       fullText: String,
       language: String,
+      languages: [String],
       duration: Number,
+      speakers: [TranscriptSpeakerSchema],
+      importedFrom: { type: String, enum: TRANSCRIPT_IMPORT_FORMATS },
+      humanCorrected: Boolean,
+      revision: Number,
+      editedAt: Date,
+      editedBy: String,
     },
 
     // ← ADD THIS: Processing metadata
@@ -167,6 +476,22 @@ const MeetingSchema = new Schema<IMeeting>(
       cost: Number,
       model: String,
       error: String,
+      audio: {
+        original: AudioInfoSchema,
+        normalized: AudioInfoSchema,
+        trimmedStart: Number,
+        trimmedEnd: Number,
+        processedAt: Date,
+      },
+      stages: {
+        transcription: ProcessingStageSchema,
+        extraction: ProcessingStageSchema,
+        sentiment: ProcessingStageSchema,
+        'follow-up': ProcessingStageSchema,
+        timeline: ProcessingStageSchema,
+        translation: ProcessingStageSchema,
+        summary: ProcessingStageSchema,
+      },
     },
 
     actionItems: [
@@ -187,6 +512,20 @@ const MeetingSchema = new Schema<IMeeting>(
           default: 'pending',
         },
         extractedAt: Date, // ← ADD THIS
+        editedAt: Date,
+        manual: Boolean,
+        source: SourceTimestampSchema,
+        evidence: EvidenceSchema,
+        promptVersion: String,
+      },
+    ],
+
+    dismissedActionItems: [
+      {
+        description: { type: String, required: true },
+        evidence: EvidenceSchema,
+        dismissedAt: { type: Date, default: Date.now },
+        _id: false,
       },
     ],
 
@@ -204,6 +543,9 @@ const MeetingSchema = new Schema<IMeeting>(
         context: String, // ← ADD THIS
         timestamp: { type: Date, default: Date.now },
         extractedAt: Date, // ← ADD THIS
+        source: SourceTimestampSchema,
+        evidence: EvidenceSchema,
+        promptVersion: String,
       },
     ],
 
@@ -229,6 +571,48 @@ const MeetingSchema = new Schema<IMeeting>(
       },
     ],
 
+    translations: [TranscriptTranslationSchema],
+
+    timeline: [
+      {
+        id: { type: String, required: true },
+        type: {
+          type: String,
+          enum: ['topic_shift', 'decision', 'escalation'],
+          required: true,
+        },
+        title: { type: String, required: true },
+        summary: String,
+        startTime: { type: Number, required: true },
+        endTime: { type: Number, required: true },
+        speakers: [String],
+        importance: {
+          type: String,
+          enum: ['high', 'medium', 'low'],
+          default: 'medium',
+        },
+        extractedAt: Date,
+      },
+    ],
+
+    summary: {
+      tldr: String,
+      topics: [
+        {
+          title: { type: String, required: true },
+          summary: String,
+          keyPoints: [String],
+          source: SourceTimestampSchema,
+          _id: false,
+        },
+      ],
+      openQuestions: [{ question: { type: String, required: true }, askedBy: String, _id: false }],
+      length: { type: String, enum: SUMMARY_LENGTHS },
+      style: { type: String, enum: SUMMARY_STYLES },
+      model: String,
+      generatedAt: Date,
+    },
+
     // ← UPDATED: Added new statuses
     status: {
       type: String,
@@ -267,6 +651,7 @@ const MeetingSchema = new Schema<IMeeting>(
         recommendations: [String],
       },
       analyzedAt: Date, // ← ADD THIS
+      promptVersion: String,
     },
 
     relatedMeetings: [
@@ -281,6 +666,11 @@ const MeetingSchema = new Schema<IMeeting>(
       trim: true,
     },
 
+    transcriptionProvider: {
+      type: String,
+      enum: TRANSCRIPTION_PROVIDER_NAMES,
+    },
+
     // Metadata
     createdBy: {
       type: Schema.Types.ObjectId,
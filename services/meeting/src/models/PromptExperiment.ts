@@ -0,0 +1,131 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IBackfillFilters } from './Backfill';
+import { PROMPT_NAMES, PromptName } from './PromptVersion';
+
+// What one prompt version produced for one meeting - only the fields compared in the report
+export interface IPromptExperimentOutput {
+  items?: Array<{ description: string; verified?: boolean }>; // action-items, decisions
+  sentiment?: { overall: string; score: number; burnoutScore: number };
+  detections?: Array<{ commitmentId: string; status: string }>; // follow-up
+  cost: number; // USD
+  tokensUsed: { input: number; output: number };
+  repairs: number;
+}
+
+export interface IPromptExperimentRun {
+  meetingId: mongoose.Types.ObjectId;
+  baseline: IPromptExperimentOutput;
+  candidate: IPromptExperimentOutput;
+  at: Date;
+}
+
+export interface IPromptExperimentFailure {
+  meetingId: mongoose.Types.ObjectId;
+  error: string;
+  at: Date;
+}
+
+export type PromptExperimentStatus = 'running' | 'completed' | 'cancelled';
+
+// Two versions of a prompt run side by side on a sample of meetings - results are never stored on the meetings
+export interface IPromptExperiment extends Document {
+  _id: mongoose.Types.ObjectId;
+  prompt: PromptName;
+  baseline: string; // Version compared against, usually the active one
+  candidate: string;
+  filters: IBackfillFilters; // Meetings the sample was drawn from
+  meetingIds: mongoose.Types.ObjectId[]; // The sample
+
+  status: PromptExperimentStatus;
+
+  // Progress
+  total: number;
+  processed: number; // runs + failed
+  failed: number;
+  runs: IPromptExperimentRun[];
+  failures: IPromptExperimentFailure[];
+
+  createdBy: string; // User ID
+  startedAt: Date;
+  completedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PromptExperimentOutputSchema = new Schema<IPromptExperimentOutput>(
+  {
+    items: [{ description: String, verified: Boolean, _id: false }],
+    sentiment: {
+      overall: String,
+      score: Number,
+      burnoutScore: Number,
+    },
+    detections: [{ commitmentId: String, status: String, _id: false }],
+    cost: Number,
+    tokensUsed: {
+      input: Number,
+      output: Number,
+    },
+    repairs: Number,
+  },
+  { _id: false }
+);
+
+const PromptExperimentSchema = new Schema<IPromptExperiment>(
+  {
+    prompt: { type: String, enum: PROMPT_NAMES, required: true },
+    baseline: { type: String, required: true },
+    candidate: { type: String, required: true },
+    filters: {
+      query: String,
+      status: [String],
+      projectId: String,
+      createdBy: String,
+      dateFrom: Date,
+      dateTo: Date,
+    },
+    meetingIds: [{ type: Schema.Types.ObjectId, ref: 'Meeting' }],
+
+    status: {
+      type: String,
+      enum: ['running', 'completed', 'cancelled'],
+      default: 'running',
+    },
+
+    total: { type: Number, default: 0 },
+    processed: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 },
+    runs: [
+      {
+        meetingId: { type: Schema.Types.ObjectId, ref: 'Meeting' },
+        baseline: PromptExperimentOutputSchema,
+        candidate: PromptExperimentOutputSchema,
+        at: Date,
+        _id: false,
+      },
+    ],
+    failures: [
+      {
+        meetingId: { type: Schema.Types.ObjectId, ref: 'Meeting' },
+        error: String,
+        at: Date,
+        _id: false,
+      },
+    ],
+
+    createdBy: { type: String, required: true },
+    startedAt: { type: Date, default: Date.now },
+    completedAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+PromptExperimentSchema.index({ status: 1, createdAt: -1 });
+
+export const PromptExperiment = mongoose.model<IPromptExperiment>(
+  'PromptExperiment',
+  PromptExperimentSchema
+);
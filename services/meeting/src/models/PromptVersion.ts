@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const PROMPT_NAMES = ['action-items', 'decisions', 'sentiment', 'follow-up'] as const;
+export type PromptName = (typeof PROMPT_NAMES)[number];
+
+// Prompt version used for each prompt of a run, e.g. { 'action-items': 'v2', decisions: 'v1' }
+export type PromptVersions = Partial<Record<PromptName, string>>;
+
+// A prompt template added over the API - the built-in templates live in src/prompts
+export interface IPromptVersion extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: PromptName;
+  version: string; // e.g. "v2" - unique per prompt
+  template: string; // Same {placeholders} as the built-in template
+  description?: string; // What changed and why
+  active: boolean; // Used by the pipeline - at most one per prompt, else the built-in one
+  createdBy: string; // User ID
+  activatedAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PromptVersionSchema = new Schema<IPromptVersion>(
+  {
+    name: { type: String, enum: PROMPT_NAMES, required: true },
+    version: { type: String, required: true, trim: true, maxlength: 50 },
+    template: { type: String, required: true, maxlength: 20000 },
+    description: { type: String, trim: true, maxlength: 1000 },
+    active: { type: Boolean, default: false },
+    createdBy: { type: String, required: true },
+    activatedAt: Date,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+PromptVersionSchema.index({ name: 1, version: 1 }, { unique: true });
+PromptVersionSchema.index({ name: 1, active: 1 });
+
+export const PromptVersion = mongoose.model<IPromptVersion>('PromptVersion', PromptVersionSchema);
@@ -0,0 +1,43 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export const SUMMARY_LENGTHS = ['brief', 'standard', 'detailed'] as const;
+export type SummaryLength = (typeof SUMMARY_LENGTHS)[number];
+
+// narrative = prose paragraphs, bullets = one-line topic summaries with the detail in key points
+export const SUMMARY_STYLES = ['narrative', 'bullets'] as const;
+export type SummaryStyle = (typeof SUMMARY_STYLES)[number];
+
+// How summaries are written
+export interface ISummaryPreferences {
+  length: SummaryLength;
+  style: SummaryStyle;
+  instructions?: string; // Extra guidance for the model, e.g. "Call out budget impact"
+}
+
+// Summary preferences of one project - projects without settings use SUMMARY_LENGTH / SUMMARY_STYLE
+export interface ISummarySettings extends Document, ISummaryPreferences {
+  _id: mongoose.Types.ObjectId;
+  projectId: string;
+  updatedBy?: string; // User ID
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SummarySettingsSchema = new Schema<ISummarySettings>(
+  {
+    projectId: { type: String, required: true, trim: true, unique: true },
+    length: { type: String, enum: SUMMARY_LENGTHS, required: true },
+    style: { type: String, enum: SUMMARY_STYLES, required: true },
+    instructions: { type: String, trim: true, maxlength: 500 },
+    updatedBy: String,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const SummarySettings = mongoose.model<ISummarySettings>(
+  'SummarySettings',
+  SummarySettingsSchema
+);
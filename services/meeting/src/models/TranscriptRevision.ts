@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ITranscriptSegment, TranscriptSegmentSchema } from './Meeting';
+
+export const TRANSCRIPT_REVISION_ACTIONS = ['edit', 'merge', 'split', 'revert'] as const;
+export type TranscriptRevisionAction = (typeof TRANSCRIPT_REVISION_ACTIONS)[number];
+
+// One manual change to a meeting transcript, stored as a diff:
+// the `before` segments starting at `index` were replaced by the `after` segments
+export interface ITranscriptRevision extends Document {
+  _id: mongoose.Types.ObjectId;
+  meetingId: mongoose.Types.ObjectId;
+  revision: number; // 1, 2, 3... per meeting
+  action: TranscriptRevisionAction;
+  index: number;
+  before: ITranscriptSegment[];
+  after: ITranscriptSegment[];
+  revertOf?: number; // Revision undone by this one
+  revertedBy?: number; // Revision that undid this one
+  userId: string;
+
+  createdAt: Date;
+}
+
+const TranscriptRevisionSchema = new Schema<ITranscriptRevision>(
+  {
+    meetingId: { type: Schema.Types.ObjectId, ref: 'Meeting', required: true },
+    revision: { type: Number, required: true },
+    action: { type: String, enum: TRANSCRIPT_REVISION_ACTIONS, required: true },
+    index: { type: Number, required: true },
+    before: [TranscriptSegmentSchema],
+    after: [TranscriptSegmentSchema],
+    revertOf: Number,
+    revertedBy: Number,
+    userId: { type: String, required: true },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+TranscriptRevisionSchema.index({ meetingId: 1, revision: -1 }, { unique: true });
+
+export const TranscriptRevision = mongoose.model<ITranscriptRevision>(
+  'TranscriptRevision',
+  TranscriptRevisionSchema
+);
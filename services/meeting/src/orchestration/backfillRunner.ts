@@ -0,0 +1,72 @@
+import { FilterQuery } from 'mongoose';
+import { Backfill, IBackfill, IBackfillFilters } from '../models/Backfill';
+import { IMeeting, Meeting } from '../models/Meeting';
+import { SearchService } from '../services/searchService';
+import { backfillQueue } from '../queue/backfillQueue';
+
+const searchService = new SearchService();
+
+/**
+ * Backfill Runner
+ * Walks a backfill's meetings one at a time in _id order. Each meeting is a
+ * backfill job; when it finishes the next one is queued with a delay that
+ * enforces the backfill's rate. Pausing simply stops the chain.
+ */
+export class BackfillRunner {
+  /**
+   * Meetings covered by a backfill - SearchService filters, limited to
+   * meetings with a stored transcript to reprocess against
+   */
+  static buildMeetingQuery(filters: IBackfillFilters): FilterQuery<IMeeting> {
+    return {
+      ...searchService.buildSearchQuery(filters),
+      'transcript.fullText': { $exists: true, $ne: '' },
+    };
+  }
+
+  /**
+   * Delay between two meetings of a backfill
+   */
+  static getInterval(backfill: IBackfill): number {
+    return Math.ceil(60_000 / backfill.ratePerMinute);
+  }
+
+  /**
+   * Whether one of the backfill's jobs is waiting or running - it schedules the
+   * next meeting when it finishes
+   */
+  static async hasPendingJob(backfillId: string): Promise<boolean> {
+    const jobs = await backfillQueue.getQueue().getJobs(['active', 'waiting', 'delayed']);
+    return jobs.some((job) => job?.data.backfillId === backfillId);
+  }
+
+  /**
+   * Queue the job for the meeting after the cursor, or complete the backfill
+   * when there are none left
+   */
+  static async scheduleNext(backfill: IBackfill, delay = 0): Promise<void> {
+    const backfillId = backfill._id.toString();
+    const query = this.buildMeetingQuery(backfill.filters);
+    if (backfill.lastMeetingId) {
+      query._id = { $gt: backfill.lastMeetingId };
+    }
+
+    const next = await Meeting.findOne(query).sort({ _id: 1 }).select('_id').lean();
+
+    if (!next) {
+      await Backfill.findOneAndUpdate(
+        { _id: backfillId, status: 'running' },
+        { status: 'completed', completedAt: new Date() }
+      );
+      console.log(`🏁 Backfill ${backfillId} complete`);
+      return;
+    }
+
+    const meetingId = next._id.toString();
+    const jobId = `backfill-${backfillId}-${meetingId}`;
+
+    // A job left waiting from before a pause would otherwise block the job ID
+    await backfillQueue.removeJob(jobId);
+    await backfillQueue.addJob({ backfillId, meetingId }, { jobId, delay });
+  }
+}
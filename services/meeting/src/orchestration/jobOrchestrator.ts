@@ -1,26 +1,64 @@
-import { Meeting } from '../models/Meeting';
-import { extractionQueue } from '../queue/extractionQueue';
-import { followUpDetectionQueue } from '../queue/folloUpDetecttionQueue';
-import { sentimentQueue } from '../queue/sentimentQueue';
-import { transcriptionQueue } from '../queue/transcriptionQueue';
+import { Job } from 'bull';
+import { Meeting, IMeeting, ProcessingStageState } from '../models/Meeting';
+import { BaseQueue } from '../queue/baseQueue';
+import { StageTracker } from './stageTracker';
+import { config } from '../config/config';
+import {
+  PIPELINE_STAGES,
+  PipelineContext,
+  PipelineStage,
+  PipelineStageName,
+  getDependentStages,
+  getDownstreamStages,
+  getRootStages,
+  getStage,
+  getStageJobOptions,
+} from './pipeline';
 
 /**
  * Job Orchestrator
- * Coordinates the AI processing pipeline across independent queues
+ * Executes the pipeline definition (see pipeline.ts) across independent queues
+ * Stage state is persisted on the meeting (processing.stages, see stageTracker.ts)
  *
- * Pipeline Flow:
- * Upload → Transcription → Extraction → Sentiment → Timeline
- *
- * Each queue is independent. Orchestrator chains them together.
+ * - Root stages are queued when a file is uploaded
+ * - When a stage completes, every dependent stage whose dependencies have all
+ *   completed is queued
+ * - The meeting is marked completed once every required stage has completed
+ * - A required stage that exhausts its retries fails the meeting; optional
+ *   stages only skip their dependents
  */
 export class JobOrchestrator {
+  /**
+   * Subscribe to every stage queue's completion/failure events
+   * Called once by WorkerManager after the workers are started
+   */
+  static registerStageListeners(): void {
+    for (const stage of PIPELINE_STAGES) {
+      const queue = stage.queue.getQueue();
+
+      queue.on('completed', (job: Job) => {
+        this.onStageCompleted(stage.name, job).catch((error) => {
+          console.error(`❌ Failed to handle ${stage.label} completion:`, error);
+        });
+      });
+
+      queue.on('failed', (job: Job, error: Error) => {
+        this.onStageFailed(stage.name, job, error).catch((dbError) => {
+          console.error(`❌ Failed to handle ${stage.label} failure:`, dbError);
+        });
+      });
+    }
+
+    console.log(`🔗 Pipeline listeners registered for ${PIPELINE_STAGES.length} stages`);
+  }
+
   /**
    * Start the full AI processing pipeline for a meeting
    * Called when file is uploaded
    */
   static async startPipeline(
     meetingId: string,
-    fileUrl: string, // ← Cloudinary URL
+    fileUrl: string, // ← Local path of the downloaded recording
     fileSize: number, // ← File size in bytes
     userId: string
   ): Promise<void> {
@@ -28,17 +66,62 @@ export class JobOrchestrator {
     console.log(`📁 File URL: ${fileUrl}`);
 
     try {
-      // Queue transcription job with fileUrl
-      const transcriptionJob = await transcriptionQueue.addJob({
+      const meeting = await Meeting.findById(meetingId);
+      if (!meeting) {
+        throw new Error(`Meeting ${meetingId} not found`);
+      }
+
+      await StageTracker.initialize(
         meetingId,
-        fileUrl, // ← Cloudinary URL
-        fileSize, // ← File size
-        userId,
-        createdAt: new Date(),
+        PIPELINE_STAGES.map((stage) => stage.name)
+      );
+
+      for (const stage of getRootStages()) {
+        await this.enqueueStage(stage, meeting, { userId, fileUrl, fileSize });
+      }
+
+      console.log(`📊 Remaining stages will be triggered automatically as dependencies complete\n`);
+    } catch (error: any) {
+      console.error(`❌ Failed to start pipeline for meeting ${meetingId}:`, error.message);
+
+      await Meeting.findByIdAndUpdate(meetingId, {
+        status: 'failed',
+        'processing.error': `Pipeline start failed: ${error.message}`,
       });
 
-      console.log(`✅ Pipeline Step 1/4: Transcription queued (Job: ${transcriptionJob.id})`);
-      console.log(`📊 Remaining steps will be triggered automatically after transcription\n`);
+      throw error;
+    }
+  }
+
+  /**
+   * Start the pipeline for a meeting whose transcript was imported
+   * Transcription is recorded as completed at no cost; the stages after it are queued
+   */
+  static async startFromTranscript(meetingId: string, userId: string): Promise<void> {
+    console.log(`\n📄 Starting AI pipeline for imported transcript: ${meetingId}`);
+
+    try {
+      const meeting = await Meeting.findById(meetingId);
+      if (!meeting) {
+        throw new Error(`Meeting ${meetingId} not found`);
+      }
+      if (!meeting.transcript?.fullText) {
+        throw new Error('Meeting has no transcript');
+      }
+
+      await StageTracker.initialize(
+        meetingId,
+        PIPELINE_STAGES.map((stage) => stage.name)
+      );
+      await StageTracker.completed(meetingId, 'transcription', { cost: 0, model: 'import' });
+
+      for (const stage of getDependentStages('transcription')) {
+        if (stage.dependsOn.every((dep) => dep === 'transcription')) {
+          await this.enqueueStage(stage, meeting, { userId });
+        }
+      }
+
+      console.log(`📊 Remaining stages will be triggered automatically as dependencies complete\n`);
     } catch (error: any) {
       console.error(`❌ Failed to start pipeline for meeting ${meetingId}:`, error.message);
 
@@ -52,140 +135,285 @@ export class JobOrchestrator {
   }
 
   /**
-   * Called by TranscriptionWorker when transcription completes
-   * Triggers next steps in the pipeline (Day 12+)
+   * Re-run selected stages of an already processed meeting
+   * Stages run against the stored transcript unless transcription itself is requested.
+   * A requested stage that depends on another requested stage waits for it to complete.
    */
-  static async onTranscriptionComplete(
+  static async reprocessStages(
     meetingId: string,
-    transcriptData: {
-      fullText: string;
-      segments: any[];
-      duration: number;
-      language: string;
-    },
-    userId?: string // ← ADD userId parameter
+    stageNames: PipelineStageName[],
+    context: PipelineContext
+  ): Promise<PipelineStageName[]> {
+    console.log(`\n🔁 Reprocessing meeting ${meetingId}: ${stageNames.join(', ')}`);
+
+    const meeting = await Meeting.findById(meetingId);
+    if (!meeting) {
+      throw new Error('Meeting not found');
+    }
+
+    const states = StageTracker.getStates(meeting);
+    const inFlight = PIPELINE_STAGES.filter((stage) =>
+      ['queued', 'running', 'retrying'].includes(states[stage.name] || '')
+    );
+    if (inFlight.length > 0) {
+      throw new Error('Meeting is still being processed');
+    }
+
+    // Translations are aligned with the transcript's segments - a new transcript needs new ones
+    const rerunTranslation =
+      stageNames.includes('transcription') && config.translation.targetLanguages.length > 0;
+
+    // Keep pipeline order so dependencies are handled before dependents
+    const requested = PIPELINE_STAGES.filter(
+      (stage) =>
+        stageNames.includes(stage.name) || (rerunTranslation && stage.name === 'translation')
+    );
+    const requestedNames = requested.map((stage) => stage.name);
+
+    if (!requestedNames.includes('transcription') && !meeting.transcript?.fullText) {
+      throw new Error('Meeting has no transcript');
+    }
+
+    // Free the deterministic job IDs held by previous runs
+    for (const stage of requested) {
+      await stage.queue.removeMeetingJob(meetingId);
+    }
+
+    await StageTracker.initialize(meetingId, requestedNames);
+
+    if (requested.some((stage) => stage.required)) {
+      await this.reopenMeeting(meetingId, requestedNames);
+    }
+
+    for (const stage of requested) {
+      if (stage.dependsOn.some((dep) => requestedNames.includes(dep))) {
+        continue; // Queued by onStageCompleted once its dependencies finish
+      }
+      await this.enqueueStage(stage, meeting, context);
+    }
+
+    return requestedNames;
+  }
+
+  /**
+   * Put a permanently failed stage back in flight before its dead-letter job is retried
+   * Downstream stages skipped because of the failure become pending again so they
+   * are queued once the stage completes
+   */
+  static async reopenStage(
+    stageName: PipelineStageName,
+    meetingId: string,
+    jobId: string
   ): Promise<void> {
-    console.log(`\n✅ Transcription complete for meeting: ${meetingId}`);
-    console.log(`📋 Triggering extraction and sentiment analysis...`);
+    const stage = getStage(stageName);
+
+    const meeting = await Meeting.findById(meetingId);
+    if (!meeting) {
+      throw new Error('Meeting not found');
+    }
+
+    if (meeting.status === 'cancelled') {
+      throw new Error('Meeting is cancelled');
+    }
+
+    const states = StageTracker.getStates(meeting);
+    await StageTracker.initialize(
+      meetingId,
+      getDownstreamStages(stageName)
+        .filter((downstream) => states[downstream.name] === 'skipped')
+        .map((downstream) => downstream.name)
+    );
+    await StageTracker.queued(meetingId, stageName, jobId);
+
+    if (stage.required) {
+      await this.reopenMeeting(meetingId, [stageName]);
+    }
+
+    console.log(`🔁 ${stage.label} reopened for meeting ${meetingId} (Job: ${jobId})`);
+  }
+
+  /**
+   * Called when one of a stage's jobs completes
+   * Queues every dependent stage that is now ready, then checks for pipeline completion
+   */
+  static async onStageCompleted(stageName: PipelineStageName, job: Job): Promise<void> {
+    const { meetingId, userId, preserveEditedActionItems } = job.data;
+    const stage = getStage(stageName);
+
+    console.log(`\n✅ ${stage.label} complete for meeting: ${meetingId}`);
 
     try {
-      // Get meeting to extract participant names
       const meeting = await Meeting.findById(meetingId);
       if (!meeting) {
         throw new Error(`Meeting ${meetingId} not found`);
       }
 
-      // Extract participant names for sentiment analysis
-      const participantNames = meeting.participants.map((p) => p.name);
+      if (meeting.status === 'cancelled' || meeting.status === 'failed') {
+        console.log(`⏭️  Meeting ${meetingId} is ${meeting.status}, not continuing pipeline`);
+        return;
+      }
 
-      // ✅ DAY 12: Queue extraction and sentiment jobs in parallel
-      const [extractionJob, sentimentJob] = await Promise.all([
-        extractionQueue.addJob({
-          meetingId,
-          transcript: transcriptData.fullText,
-          userId,
-        }),
-        sentimentQueue.addJob({
-          meetingId,
-          transcript: transcriptData.fullText,
-          participants: participantNames,
-          userId,
-        }),
-        followUpDetectionQueue.addJob({
-          meetingId,
-          transcript: transcriptData.fullText,
-          userId,
-        }),
-      ]);
+      const states = StageTracker.getStates(meeting);
+      states[stageName] = 'completed';
 
-      console.log(`✅ Pipeline Step 2/4: Extraction queued (Job: ${extractionJob})`);
-      console.log(`✅ Pipeline Step 3/4: Sentiment queued (Job: ${sentimentJob})`);
+      for (const dependent of getDependentStages(stageName)) {
+        // Stages that already ran are left alone (e.g. when only transcription is reprocessed)
+        const pending = !states[dependent.name] || states[dependent.name] === 'pending';
+        const ready = dependent.dependsOn.every((dep) => states[dep] === 'completed');
+        if (!pending || !ready) {
+          continue;
+        }
 
-      // TODO (Day 13): Uncomment when timeline queue is ready
-      /*
-    const timelineJob = await timelineQueue.addJob({
-      meetingId,
-      transcript: transcriptData.fullText,
-      duration: transcriptData.duration,
-    });
-    console.log(`✅ Pipeline Step 4/4: Timeline queued (Job: ${timelineJob.id})`);
-    */
+        try {
+          // Job IDs are deterministic, so a stage already queued by a sibling is not duplicated
+          await this.enqueueStage(dependent, meeting, { userId, preserveEditedActionItems });
+        } catch (error: any) {
+          if (dependent.required) {
+            throw error;
+          }
+          console.warn(`⚠️ Skipping optional stage ${dependent.label}: ${error.message}`);
+          await StageTracker.settle(
+            meetingId,
+            [dependent, ...getDownstreamStages(dependent.name)].map((s) => s.name),
+            'skipped',
+            `Could not queue ${dependent.label.toLowerCase()}: ${error.message}`
+          );
+        }
+      }
 
-      console.log(`🎉 Extraction and sentiment analysis in progress!\n`);
+      await this.completeIfFinished(meetingId, states);
     } catch (error: any) {
-      console.error(`❌ Failed to trigger next pipeline steps for ${meetingId}:`, error.message);
+      console.error(`❌ Failed to continue pipeline for ${meetingId}:`, error.message);
 
-      // Don't fail the whole meeting - transcription is already done
-      // Just log the error and mark as failed
       await Meeting.findByIdAndUpdate(meetingId, {
         status: 'failed',
-        'processing.error': `Post-transcription pipeline failed: ${error.message}`,
+        'processing.error': `Pipeline failed after ${stage.label.toLowerCase()}: ${error.message}`,
       });
     }
   }
+
+  /**
+   * Called when one of a stage's jobs fails
+   * Only acts once all retries are exhausted
+   */
+  static async onStageFailed(stageName: PipelineStageName, job: Job, error: Error): Promise<void> {
+    const { meetingId } = job.data;
+    const stage = getStage(stageName);
+
+    if (job.attemptsMade < (job.opts.attempts || 1)) {
+      console.warn(
+        `🔁 ${stage.label} attempt ${job.attemptsMade}/${job.opts.attempts} failed for meeting ${meetingId}, retrying`
+      );
+      return;
+    }
+
+    console.error(`💀 ${stage.label} failed permanently for meeting ${meetingId}`);
+
+    try {
+      await StageTracker.failed(meetingId, stageName, error.message, false);
+      await StageTracker.settle(
+        meetingId,
+        getDownstreamStages(stageName).map((s) => s.name),
+        'skipped',
+        `${stage.label} failed`
+      );
+
+      if (stage.required) {
+        await Meeting.findByIdAndUpdate(meetingId, {
+          status: 'failed',
+          'processing.error': `${stage.label} failed after ${job.attemptsMade} attempts: ${error.message}`,
+          'processing.completedAt': new Date(),
+        });
+        return;
+      }
+
+      // Optional stage: record the error, dependents are simply never queued
+      await Meeting.findByIdAndUpdate(meetingId, {
+        'processing.error': `${stage.label} failed: ${error.message}`,
+      });
+    } catch (dbError) {
+      console.error('Failed to update meeting with error:', dbError);
+    }
+  }
+
   /**
    * Get overall pipeline status for a meeting
    * Used by status endpoint
+   *
+   * Reads the persisted stage state; live progress is taken from Bull while a
+   * stage is in flight. Meetings processed before stage tracking fall back to Bull.
    */
-  static async getPipelineStatus(meetingId: string): Promise<any> {
+  static async getPipelineStatus(meeting: IMeeting): Promise<any> {
+    const meetingId = meeting._id.toString();
+    const stages = meeting.processing?.stages;
+    const status: Record<string, any> = {};
+
     try {
-      // Get job statuses from all queues for THIS specific meeting
-      const [transcriptionStatus, extractionStatus, sentimentStatus, followUpDetectionStatus] =
-        await Promise.all([
-          transcriptionQueue.getJobStatus(`transcription-${meetingId}`),
-          extractionQueue.getJobStatus(`extraction-${meetingId}`),
-          sentimentQueue.getJobStatus(`sentiment-${meetingId}`),
-          followUpDetectionQueue.getJobStatus(`follow-up-${meetingId}`),
-        ]);
-
-      // TODO (Day 13): Add timeline status
-      // const timelineStatus = await timelineQueue.getJobStatus(`timeline-${meetingId}`);
+      // Nested paths always exist on a Mongoose doc, so check for recorded states
+      if (Object.keys(StageTracker.getStates(meeting)).length === 0) {
+        return await this.getLegacyPipelineStatus(meetingId);
+      }
 
-      return {
-        transcription: transcriptionStatus || { state: 'unknown', progress: 0 },
-        extraction: extractionStatus || { state: 'pending', progress: 0 },
-        sentiment: sentimentStatus || { state: 'pending', progress: 0 },
-        followUpDetection: followUpDetectionStatus || { state: 'pending', progress: 0 },
-        // timeline: timelineStatus || { state: 'pending', progress: 0 },
-      };
+      for (const stage of PIPELINE_STAGES) {
+        const stored = stages?.[stage.name];
+        const state = stored?.state || 'pending';
+        let progress = state === 'completed' ? 100 : 0;
+
+        if (state === 'queued' || state === 'running' || state === 'retrying') {
+          const job = await stage.queue.getMeetingJobStatus(meetingId);
+          progress = typeof job?.progress === 'number' ? job.progress : 0;
+        }
+
+        status[stage.name] = {
+          required: stage.required,
+          state,
+          progress,
+          attempts: stored?.attempts || 0,
+          jobId: stored?.jobId,
+          queuedAt: stored?.queuedAt,
+          startedAt: stored?.startedAt,
+          completedAt: stored?.completedAt,
+          cost: stored?.cost,
+          model: stored?.model,
+          tokensUsed: stored?.tokensUsed,
+          repairs: stored?.repairs,
+          stale: stored?.stale,
+          error: stored?.error,
+        };
+      }
+
+      return status;
     } catch (error: any) {
       console.error(`❌ Failed to get pipeline status for ${meetingId}:`, error.message);
-      return {
-        transcription: { state: 'unknown', progress: 0 },
-        extraction: { state: 'unknown', progress: 0 },
-        sentiment: { state: 'unknown', progress: 0 },
-        followUpDetection: { state: 'unknown', progress: 0 },
-        error: error.message,
-      };
+
+      PIPELINE_STAGES.forEach((stage) => {
+        status[stage.name] = { required: stage.required, state: 'unknown', progress: 0 };
+      });
+
+      return { ...status, error: error.message };
     }
   }
 
   static async getQueueStats(): Promise<any> {
     try {
-      const [transcriptionStats, extractionStats, sentimentStats, followUpDetectionStats] =
-        await Promise.all([
-          transcriptionQueue.getStats(),
-          extractionQueue.getStats(),
-          sentimentQueue.getStats(),
-          followUpDetectionQueue.getStats(),
-        ]);
+      const queues = BaseQueue.getRegisteredQueues();
+      const stats = await Promise.all(queues.map((queue) => queue.getStats()));
+
+      const result: Record<string, any> = {};
+      queues.forEach((queue, index) => {
+        result[queue.name] = stats[index];
+      });
 
       return {
-        transcription: transcriptionStats,
-        extraction: extractionStats,
-        sentiment: sentimentStats,
-        followUpDetection: followUpDetectionStats,
-        totalJobs:
-          transcriptionStats.total +
-          extractionStats.total +
-          sentimentStats.total +
-          followUpDetectionStats.total,
+        ...result,
+        totalJobs: stats.reduce((sum, stat) => sum + stat.total, 0),
       };
     } catch (error: any) {
       console.error('Failed to get queue stats:', error.message);
       throw error;
     }
   }
+
   /**
    * Cancel all pipeline jobs for a meeting
    * Useful if user cancels processing
@@ -194,33 +422,27 @@ export class JobOrchestrator {
     console.log(`🛑 Cancelling pipeline for meeting: ${meetingId}`);
 
     try {
-      // Cancel all jobs
-      const transcriptionJob = await transcriptionQueue
-        .getQueue()
-        .getJob(`transcription-${meetingId}`);
-      if (transcriptionJob) {
-        await transcriptionJob.remove();
-        console.log(`✅ Transcription job cancelled`);
-      }
-
-      // ✅ DAY 12: Cancel extraction and sentiment jobs
-      const extractionJob = await extractionQueue.getQueue().getJob(`extraction-${meetingId}`);
-      if (extractionJob) {
-        await extractionJob.remove();
-        console.log(`✅ Extraction job cancelled`);
+      for (const stage of PIPELINE_STAGES) {
+        const job = await stage.queue.getQueue().getJob(stage.queue.getJobId(meetingId));
+        if (job) {
+          await job.remove();
+          console.log(`✅ ${stage.label} job cancelled`);
+        }
       }
 
-      const sentimentJob = await sentimentQueue.getQueue().getJob(`sentiment-${meetingId}`);
-      if (sentimentJob) {
-        await sentimentJob.remove();
-        console.log(`✅ Sentiment job cancelled`);
+      const meeting = await Meeting.findById(meetingId);
+      if (meeting) {
+        const states = StageTracker.getStates(meeting);
+        await StageTracker.settle(
+          meetingId,
+          PIPELINE_STAGES.filter(
+            (stage) => !['completed', 'failed', 'skipped'].includes(states[stage.name] || '')
+          ).map((stage) => stage.name),
+          'cancelled',
+          'Pipeline cancelled by user'
+        );
       }
 
-      const followUpJob = await followUpDetectionQueue.getQueue().getJob(`follow-up-${meetingId}`);
-      if (followUpJob) {
-        await followUpJob.remove();
-        console.log(`✅ Follow-up detection job cancelled`);
-      }
       // Update meeting status
       await Meeting.findByIdAndUpdate(meetingId, {
         status: 'cancelled',
@@ -234,4 +456,79 @@ export class JobOrchestrator {
       throw error;
     }
   }
+
+  /**
+   * Queue a single stage for a meeting
+   */
+  private static async enqueueStage(
+    stage: PipelineStage,
+    meeting: IMeeting,
+    context: PipelineContext
+  ): Promise<void> {
+    const data = stage.buildJobData(meeting, context);
+    const job = await stage.queue.addJob(data, getStageJobOptions(stage));
+    await StageTracker.queued(meeting._id.toString(), stage.name, job.id.toString());
+
+    console.log(`✅ Pipeline stage queued: ${stage.label} (Job: ${job.id})`);
+  }
+
+  /**
+   * Move a meeting back into processing while required stages re-run
+   */
+  private static async reopenMeeting(
+    meetingId: string,
+    stageNames: PipelineStageName[]
+  ): Promise<void> {
+    await Meeting.findByIdAndUpdate(meetingId, {
+      status: stageNames.includes('transcription') ? 'pending' : 'transcribed',
+      $unset: { 'processing.error': '', 'processing.completedAt': '' },
+    });
+  }
+
+  /**
+   * Pipeline status straight from Bull, for meetings without processing.stages
+   * Jobs evicted by queue retention are reported as unknown
+   */
+  private static async getLegacyPipelineStatus(meetingId: string): Promise<any> {
+    const statuses = await Promise.all(
+      PIPELINE_STAGES.map((stage) => stage.queue.getMeetingJobStatus(meetingId))
+    );
+
+    const status: Record<string, any> = {};
+    PIPELINE_STAGES.forEach((stage, index) => {
+      status[stage.name] = {
+        required: stage.required,
+        ...(statuses[index] || { state: 'unknown', progress: 0 }),
+      };
+    });
+
+    return status;
+  }
+
+  /**
+   * Mark the meeting completed once every required stage has completed
+   */
+  private static async completeIfFinished(
+    meetingId: string,
+    states: Partial<Record<PipelineStageName, ProcessingStageState>>
+  ): Promise<void> {
+    const pending = PIPELINE_STAGES.filter(
+      (stage) => stage.required && states[stage.name] !== 'completed'
+    );
+
+    if (pending.length > 0) {
+      console.log(`⏳ Waiting on required stages: ${pending.map((s) => s.name).join(', ')}`);
+      return;
+    }
+
+    await Meeting.findOneAndUpdate(
+      { _id: meetingId, status: { $nin: ['completed', 'cancelled', 'failed'] } },
+      {
+        status: 'completed',
+        'processing.completedAt': new Date(),
+      }
+    );
+
+    console.log(`🎉 All required stages complete for meeting ${meetingId}\n`);
+  }
 }
@@ -0,0 +1,298 @@
+import { JobOptions } from 'bull';
+import { IMeeting, ProcessingStageName } from '../models/Meeting';
+import { JobType } from '../types/jobs';
+import { BaseQueue } from '../queue/baseQueue';
+import { extractionQueue } from '../queue/extractionQueue';
+import { followUpDetectionQueue } from '../queue/folloUpDetecttionQueue';
+import { sentimentQueue } from '../queue/sentimentQueue';
+import { summaryQueue } from '../queue/summaryQueue';
+import { timelineQueue } from '../queue/timelineQueue';
+import { transcriptionQueue } from '../queue/transcriptionQueue';
+import { translationQueue } from '../queue/translationQueue';
+import { config } from '../config/config';
+
+/**
+ * Stage names - used in status responses and persisted in processing.stages
+ */
+export type PipelineStageName = ProcessingStageName;
+
+/**
+ * Values available to a stage when building its job payload
+ * Root stages get upload details; downstream stages read from the meeting
+ */
+export interface PipelineContext {
+  userId?: string;
+  fileUrl?: string; // Local path of the downloaded recording
+  fileSize?: number;
+  preserveEditedActionItems?: boolean; // Reprocessing: keep user-edited action items
+}
+
+/**
+ * Declarative definition of a single pipeline stage
+ */
+export interface PipelineStage<T extends { meetingId: string } = any> {
+  name: PipelineStageName;
+  type: JobType;
+  label: string; // Human readable name for logs and errors
+  dependsOn: PipelineStageName[];
+  required: boolean; // Meeting is only completed when every required stage completes
+  retry: {
+    attempts: number;
+    backoffDelay: number; // ms, exponential
+  };
+  timeout: number; // ms
+  priority: number; // Lower = processed first
+  queue: BaseQueue<T>;
+  buildJobData: (meeting: IMeeting, context: PipelineContext) => T;
+}
+
+/**
+ * Read the stored transcript text or fail the stage early
+ */
+const requireTranscript = (meeting: IMeeting): string => {
+  if (!meeting.transcript?.fullText) {
+    throw new Error(`Meeting ${meeting._id} has no transcript`);
+  }
+  return meeting.transcript.fullText;
+};
+
+/**
+ * Pipeline Definition
+ *
+ * Upload → Transcription → (Extraction | Sentiment | Follow-up | Timeline | Summary | Translation)
+ *
+ * Adding a stage = adding its name to PROCESSING_STAGE_NAMES (models/Meeting.ts),
+ * its processing.stages schema path and an entry here
+ */
+export const PIPELINE_STAGES: PipelineStage[] = [
+  {
+    name: 'transcription',
+    type: JobType.TRANSCRIPTION,
+    label: 'Transcription',
+    dependsOn: [],
+    required: true,
+    retry: { attempts: 3, backoffDelay: 5000 },
+    // Normalization, chunked transcription and diarization all scale with the recording
+    timeout: Math.max(15 * 60, config.transcription.timeout) * 1000,
+    priority: 1,
+    queue: transcriptionQueue,
+    buildJobData: (meeting, context) => {
+      if (!context.fileUrl) {
+        throw new Error(`No audio file provided for meeting ${meeting._id}`);
+      }
+      return {
+        meetingId: meeting._id.toString(),
+        fileUrl: context.fileUrl,
+        fileSize: context.fileSize || 0,
+        provider: meeting.transcriptionProvider,
+        userId: context.userId,
+        preserveEditedActionItems: context.preserveEditedActionItems,
+        createdAt: new Date(),
+      };
+    },
+  },
+  {
+    name: 'extraction',
+    type: JobType.EXTRACTION,
+    label: 'Extraction',
+    dependsOn: ['transcription'],
+    required: true,
+    retry: { attempts: 3, backoffDelay: 2000 },
+    timeout: 5 * 60 * 1000,
+    priority: 2,
+    queue: extractionQueue,
+    buildJobData: (meeting, context) => ({
+      meetingId: meeting._id.toString(),
+      transcript: requireTranscript(meeting),
+      language: meeting.transcript?.language,
+      preserveEditedActionItems: context.preserveEditedActionItems,
+      userId: context.userId,
+      createdAt: new Date(),
+    }),
+  },
+  {
+    name: 'sentiment',
+    type: JobType.SENTIMENT_ANALYSIS,
+    label: 'Sentiment analysis',
+    dependsOn: ['transcription'],
+    required: true,
+    retry: { attempts: 3, backoffDelay: 2000 },
+    timeout: 5 * 60 * 1000,
+    priority: 3,
+    queue: sentimentQueue,
+    buildJobData: (meeting, context) => ({
+      meetingId: meeting._id.toString(),
+      transcript: requireTranscript(meeting),
+      participants: meeting.participants.map((p) => p.name),
+      language: meeting.transcript?.language,
+      userId: context.userId,
+      createdAt: new Date(),
+    }),
+  },
+  {
+    name: 'follow-up',
+    type: JobType.FOLLOW_UP_DETECTION,
+    label: 'Follow-up detection',
+    dependsOn: ['transcription'],
+    required: false,
+    retry: { attempts: 2, backoffDelay: 3000 },
+    timeout: 5 * 60 * 1000,
+    priority: 4,
+    queue: followUpDetectionQueue,
+    buildJobData: (meeting, context) => ({
+      meetingId: meeting._id.toString(),
+      transcript: requireTranscript(meeting),
+      userId: context.userId,
+      createdAt: new Date(),
+    }),
+  },
+  {
+    name: 'timeline',
+    type: JobType.TIMELINE_GENERATION,
+    label: 'Timeline generation',
+    dependsOn: ['transcription'],
+    required: false,
+    retry: { attempts: 3, backoffDelay: 2000 },
+    timeout: 5 * 60 * 1000,
+    priority: 3,
+    queue: timelineQueue,
+    buildJobData: (meeting, context) => ({
+      meetingId: meeting._id.toString(),
+      transcript: requireTranscript(meeting),
+      duration: meeting.transcript?.duration || 0,
+      userId: context.userId,
+      createdAt: new Date(),
+    }),
+  },
+  {
+    name: 'summary',
+    type: JobType.SUMMARY_GENERATION,
+    label: 'Summary generation',
+    dependsOn: ['transcription'],
+    required: false,
+    retry: { attempts: 3, backoffDelay: 2000 },
+    timeout: 10 * 60 * 1000, // Long transcripts take one call per part plus a merge
+    priority: 3,
+    queue: summaryQueue,
+    buildJobData: (meeting, context) => ({
+      meetingId: meeting._id.toString(),
+      transcript: requireTranscript(meeting),
+      language: meeting.transcript?.language,
+      userId: context.userId,
+      createdAt: new Date(),
+    }),
+  },
+  {
+    name: 'translation',
+    type: JobType.TRANSLATION,
+    label: 'Translation',
+    dependsOn: ['transcription'],
+    required: false,
+    retry: { attempts: 3, backoffDelay: 3000 },
+    timeout: 10 * 60 * 1000, // One GPT call per batch of segments and language
+    priority: 4,
+    queue: translationQueue,
+    buildJobData: (meeting, context) => {
+      requireTranscript(meeting);
+      return {
+        meetingId: meeting._id.toString(),
+        targetLanguages: config.translation.targetLanguages,
+        userId: context.userId,
+        createdAt: new Date(),
+      };
+    },
+  },
+];
+
+/**
+ * Get a stage definition by name
+ */
+export const getStage = (name: PipelineStageName): PipelineStage => {
+  const stage = PIPELINE_STAGES.find((s) => s.name === name);
+  if (!stage) {
+    throw new Error(`Unknown pipeline stage: ${name}`);
+  }
+  return stage;
+};
+
+/**
+ * Stages with no dependencies - queued when the pipeline starts
+ */
+export const getRootStages = (): PipelineStage[] =>
+  PIPELINE_STAGES.filter((stage) => stage.dependsOn.length === 0);
+
+/**
+ * Stages that directly depend on the given stage
+ */
+export const getDependentStages = (name: PipelineStageName): PipelineStage[] =>
+  PIPELINE_STAGES.filter((stage) => stage.dependsOn.includes(name));
+
+/**
+ * Every stage downstream of the given stage (direct and transitive dependents)
+ */
+export const getDownstreamStages = (name: PipelineStageName): PipelineStage[] => {
+  const downstream = new Map<PipelineStageName, PipelineStage>();
+
+  const collect = (current: PipelineStageName): void => {
+    getDependentStages(current).forEach((stage) => {
+      if (!downstream.has(stage.name)) {
+        downstream.set(stage.name, stage);
+        collect(stage.name);
+      }
+    });
+  };
+
+  collect(name);
+  return Array.from(downstream.values());
+};
+
+/**
+ * Bull job options derived from a stage's retry/timeout settings
+ */
+export const getStageJobOptions = (stage: PipelineStage): JobOptions => ({
+  attempts: stage.retry.attempts,
+  backoff: { type: 'exponential', delay: stage.retry.backoffDelay },
+  timeout: stage.timeout,
+  priority: stage.priority,
+});
+
+/**
+ * Validate the pipeline definition on load
+ * - every dependency must exist
+ * - required stages may only depend on required stages (otherwise they could never run)
+ * - no cycles
+ */
+const validatePipeline = (): void => {
+  const names = new Set(PIPELINE_STAGES.map((stage) => stage.name));
+
+  for (const stage of PIPELINE_STAGES) {
+    for (const dep of stage.dependsOn) {
+      if (!names.has(dep)) {
+        throw new Error(`Pipeline stage "${stage.name}" depends on unknown stage "${dep}"`);
+      }
+      if (stage.required && !getStage(dep).required) {
+        throw new Error(
+          `Required pipeline stage "${stage.name}" cannot depend on optional stage "${dep}"`
+        );
+      }
+    }
+  }
+
+  const visiting = new Set<PipelineStageName>();
+  const visited = new Set<PipelineStageName>();
+
+  const visit = (name: PipelineStageName): void => {
+    if (visited.has(name)) return;
+    if (visiting.has(name)) {
+      throw new Error(`Pipeline has a dependency cycle at stage "${name}"`);
+    }
+    visiting.add(name);
+    getStage(name).dependsOn.forEach(visit);
+    visiting.delete(name);
+    visited.add(name);
+  };
+
+  PIPELINE_STAGES.forEach((stage) => visit(stage.name));
+};
+
+validatePipeline();
@@ -0,0 +1,222 @@
+import { Job } from 'bull';
+import {
+  Meeting,
+  IMeeting,
+  ProcessingStageName,
+  ProcessingStageState,
+  IProcessingStage,
+  ITranscriptChunking,
+  PROCESSING_STAGE_NAMES,
+} from '../models/Meeting';
+
+/**
+ * Usage reported by a worker when its stage completes
+ */
+export interface StageMetrics {
+  cost?: number; // USD
+  model?: string;
+  tokensUsed?: {
+    input: number;
+    output: number;
+  };
+  chunking?: ITranscriptChunking;
+  repairs?: number;
+  promptVersions?: Record<string, string>;
+}
+
+const stagePath = (stage: ProcessingStageName, field: keyof IProcessingStage): string =>
+  `processing.stages.${stage}.${field}`;
+
+/**
+ * Stage Tracker
+ * Persists per-stage pipeline state on the meeting document (processing.stages)
+ * so status and analytics don't depend on Bull's job retention.
+ *
+ * Workers record started/completed/failed; the orchestrator records
+ * queued, skipped and cancelled.
+ */
+export class StageTracker {
+  /**
+   * Reset every given stage to pending (pipeline start, reprocessing)
+   * Their recorded costs leave the meeting total with them - the total stays the sum of
+   * the stage costs, so stages that are not re-run keep counting
+   */
+  static async initialize(meetingId: string, stages: ProcessingStageName[]): Promise<void> {
+    const meeting = await Meeting.findById(meetingId).select('processing.stages');
+    const previousCost = stages.reduce(
+      (total, stage) => total + (meeting?.processing?.stages?.[stage]?.cost || 0),
+      0
+    );
+
+    const update: Record<string, IProcessingStage> = {};
+    stages.forEach((stage) => {
+      update[`processing.stages.${stage}`] = { state: 'pending', attempts: 0 };
+    });
+
+    await Meeting.findByIdAndUpdate(meetingId, {
+      $set: update,
+      ...(previousCost && { $inc: { 'processing.cost': -previousCost } }),
+    });
+  }
+
+  /**
+   * Stage job added to its queue
+   */
+  static async queued(
+    meetingId: string,
+    stage: ProcessingStageName,
+    jobId?: string
+  ): Promise<void> {
+    await Meeting.findByIdAndUpdate(meetingId, {
+      $set: {
+        [stagePath(stage, 'state')]: 'queued',
+        [stagePath(stage, 'attempts')]: 0,
+        [stagePath(stage, 'jobId')]: jobId,
+        [stagePath(stage, 'queuedAt')]: new Date(),
+      },
+      $unset: {
+        [stagePath(stage, 'startedAt')]: '',
+        [stagePath(stage, 'completedAt')]: '',
+        [stagePath(stage, 'error')]: '',
+      },
+    });
+  }
+
+  /**
+   * Worker picked up an attempt of the stage job
+   */
+  static async started(stage: ProcessingStageName, job: Job): Promise<void> {
+    await Meeting.findByIdAndUpdate(job.data.meetingId, {
+      $set: {
+        [stagePath(stage, 'state')]: 'running',
+        [stagePath(stage, 'attempts')]: job.attemptsMade + 1,
+        [stagePath(stage, 'jobId')]: job.id?.toString(),
+        [stagePath(stage, 'startedAt')]: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Worker finished the stage successfully
+   * Its cost is added to the meeting total atomically - stages after transcription run
+   * in parallel, so adding to a value read earlier would lose other stages' costs
+   */
+  static async completed(
+    meetingId: string,
+    stage: ProcessingStageName,
+    metrics: StageMetrics = {}
+  ): Promise<void> {
+    const update: Record<string, any> = {
+      [stagePath(stage, 'state')]: 'completed',
+      [stagePath(stage, 'completedAt')]: new Date(),
+    };
+
+    if (metrics.cost !== undefined) update[stagePath(stage, 'cost')] = metrics.cost;
+    if (metrics.model) update[stagePath(stage, 'model')] = metrics.model;
+    if (metrics.tokensUsed) update[stagePath(stage, 'tokensUsed')] = metrics.tokensUsed;
+    if (metrics.chunking) update[stagePath(stage, 'chunking')] = metrics.chunking;
+    if (metrics.repairs !== undefined) update[stagePath(stage, 'repairs')] = metrics.repairs;
+    if (metrics.promptVersions) {
+      update[stagePath(stage, 'promptVersions')] = metrics.promptVersions;
+    }
+
+    await Meeting.findByIdAndUpdate(meetingId, {
+      $set: update,
+      $unset: { [stagePath(stage, 'error')]: '', [stagePath(stage, 'stale')]: '' },
+      ...(metrics.cost && { $inc: { 'processing.cost': metrics.cost } }),
+    });
+  }
+
+  /**
+   * An attempt of the stage failed
+   * `retrying` while Bull still has attempts left, `failed` once they are exhausted
+   */
+  static async failed(
+    meetingId: string,
+    stage: ProcessingStageName,
+    error: string,
+    willRetry: boolean
+  ): Promise<void> {
+    const update: Record<string, any> = {
+      [stagePath(stage, 'state')]: willRetry ? 'retrying' : 'failed',
+      [stagePath(stage, 'error')]: error,
+    };
+
+    if (!willRetry) {
+      update[stagePath(stage, 'completedAt')] = new Date();
+    }
+
+    await Meeting.findByIdAndUpdate(meetingId, { $set: update });
+  }
+
+  /**
+   * Record failure of the current attempt of a Bull job
+   */
+  static async failedAttempt(stage: ProcessingStageName, job: Job, error: string): Promise<void> {
+    const willRetry = job.attemptsMade + 1 < (job.opts.attempts || 1);
+    await this.failed(job.data.meetingId, stage, error, willRetry);
+  }
+
+  /**
+   * Move stages that never ran into a terminal state (skipped/cancelled)
+   */
+  static async settle(
+    meetingId: string,
+    stages: ProcessingStageName[],
+    state: Extract<ProcessingStageState, 'skipped' | 'cancelled'>,
+    reason: string
+  ): Promise<void> {
+    if (stages.length === 0) {
+      return;
+    }
+
+    const update: Record<string, any> = {};
+    stages.forEach((stage) => {
+      update[stagePath(stage, 'state')] = state;
+      update[stagePath(stage, 'error')] = reason;
+    });
+
+    await Meeting.findByIdAndUpdate(meetingId, { $set: update });
+  }
+
+  /**
+   * $set entries flagging completed stages whose results came from a transcript that has
+   * just been edited - they stay stale until the stage completes again
+   */
+  static staleUpdate(meeting: IMeeting, stages: ProcessingStageName[]): Record<string, true> {
+    const states = this.getStates(meeting);
+    const update: Record<string, true> = {};
+
+    stages
+      .filter((stage) => states[stage] === 'completed')
+      .forEach((stage) => {
+        update[stagePath(stage, 'stale')] = true;
+      });
+
+    return update;
+  }
+
+  /**
+   * Stages whose results are out of date with the transcript
+   */
+  static getStaleStages(meeting: IMeeting): ProcessingStageName[] {
+    return PROCESSING_STAGE_NAMES.filter((stage) => meeting.processing?.stages?.[stage]?.stale);
+  }
+
+  /**
+   * Persisted state of every stage recorded on the meeting
+   */
+  static getStates(meeting: IMeeting): Partial<Record<ProcessingStageName, ProcessingStageState>> {
+    const states: Partial<Record<ProcessingStageName, ProcessingStageState>> = {};
+    const stages = meeting.processing?.stages;
+
+    PROCESSING_STAGE_NAMES.forEach((stage) => {
+      const state = stages?.[stage]?.state;
+      if (state) {
+        states[stage] = state;
+      }
+    });
+
+    return states;
+  }
+}
@@ -1,6 +1,7 @@
 import ffmpeg from 'fluent-ffmpeg';
 import fs from 'fs';
 import path from 'path';
+import { Writable } from 'stream';
 import { config } from '../config/config';
 
 export interface AudioMetadata {
@@ -16,16 +17,37 @@ export interface AudioMetadata {
 export interface AudioChunk {
   path: string;
   index: number;
+  offset: number; // Start of the chunk in the original recording (seconds)
+  overlap: number; // Leading seconds shared with the previous chunk
   duration: number;
   size: number;
 }
 
+export interface NormalizeOptions {
+  trimSilence?: boolean; // Drop leading/trailing silence
+}
+
+export interface NormalizedAudio {
+  path: string;
+  original: AudioMetadata;
+  normalized: AudioMetadata;
+  trimmedStart: number; // Seconds of leading silence removed
+  trimmedEnd: number; // Seconds of trailing silence removed
+}
+
 export class AudioProcessor {
   private static readonly SUPPORTED_FORMATS = ['mp3', 'mp4', 'm4a', 'wav', 'webm', 'mpeg', 'mpga'];
 
   private static readonly MAX_FILE_SIZE_BYTES = config.audio.maxSizeMB * 1024 * 1024;
   private static readonly WHISPER_MAX_SIZE_BYTES = 25 * 1024 * 1024; // 25MB (OpenAI limit)
 
+  // Speech recognition target: 16kHz mono, EBU R128 loudness
+  private static readonly NORMALIZED_SAMPLE_RATE = 16000;
+  private static readonly NORMALIZED_BITRATE = '48k';
+  private static readonly LOUDNORM_FILTER = 'loudnorm=I=-16:TP=-1.5:LRA=11';
+  private static readonly SILENCE_THRESHOLD = '-50dB';
+  private static readonly MIN_SILENCE_SECONDS = 1;
+
   /**
    * Validate audio file
    */
@@ -97,6 +119,139 @@ export class AudioProcessor {
     });
   }
 
+  /**
+   * Normalize audio for transcription
+   * Extracts the audio track (video uploads), downmixes to mono, resamples to 16kHz
+   * and normalizes loudness into a compact mp3 next to the source file.
+   * Segment timestamps of the normalized file are `trimmedStart` seconds behind the original.
+   */
+  static async normalize(
+    filePath: string,
+    options: NormalizeOptions = {}
+  ): Promise<NormalizedAudio> {
+    const original = await this.getMetadata(filePath);
+    const { leading, trailing } = options.trimSilence
+      ? await this.detectSilence(filePath, original.duration)
+      : { leading: 0, trailing: 0 };
+
+    const outputDir = path.join(path.dirname(filePath), 'normalized');
+    if (!fs.existsSync(outputDir)) {
+      fs.mkdirSync(outputDir, { recursive: true });
+    }
+    const outputPath = path.join(
+      outputDir,
+      `${path.basename(filePath, path.extname(filePath))}.mp3`
+    );
+
+    console.log(
+      `🎚️  Normalizing audio: ${original.format}, ${original.channels || '?'}ch, ${original.sampleRate || '?'}Hz` +
+        (leading || trailing
+          ? ` (trimming ${leading.toFixed(1)}s / ${trailing.toFixed(1)}s of silence)`
+          : '')
+    );
+
+    await new Promise<void>((resolve, reject) => {
+      const command = ffmpeg(filePath)
+        .noVideo()
+        .audioChannels(1)
+        .audioFrequency(this.NORMALIZED_SAMPLE_RATE)
+        .audioFilters(this.LOUDNORM_FILTER)
+        .audioCodec('libmp3lame')
+        .audioBitrate(this.NORMALIZED_BITRATE);
+
+      if (leading > 0) {
+        command.setStartTime(leading);
+      }
+      if (leading > 0 || trailing > 0) {
+        command.setDuration(original.duration - leading - trailing);
+      }
+
+      command
+        .output(outputPath)
+        .on('end', () => resolve())
+        .on('error', (err) => reject(new Error(`Audio normalization failed: ${err.message}`)))
+        .run();
+    });
+
+    const normalized = await this.getMetadata(outputPath);
+    console.log(
+      `✅ Audio normalized: ${original.sizeMB.toFixed(2)}MB → ${normalized.sizeMB.toFixed(2)}MB`
+    );
+
+    return { path: outputPath, original, normalized, trimmedStart: leading, trimmedEnd: trailing };
+  }
+
+  /**
+   * Find leading and trailing silence with ffmpeg's silencedetect filter
+   * Recordings that are silent throughout are left untrimmed
+   */
+  static detectSilence(
+    filePath: string,
+    duration: number
+  ): Promise<{ leading: number; trailing: number }> {
+    return new Promise((resolve, reject) => {
+      const lines: string[] = [];
+
+      ffmpeg(filePath)
+        .noVideo()
+        .audioFilters(`silencedetect=noise=${this.SILENCE_THRESHOLD}:d=${this.MIN_SILENCE_SECONDS}`)
+        .format('null')
+        .output('-')
+        .on('stderr', (line: string) => lines.push(line))
+        .on('error', (err) => reject(new Error(`Silence detection failed: ${err.message}`)))
+        .on('end', () => {
+          const periods: { start: number; end: number }[] = [];
+
+          lines.forEach((line) => {
+            const start = line.match(/silence_start: (-?[\d.]+)/);
+            const end = line.match(/silence_end: ([\d.]+)/);
+            if (start) {
+              periods.push({ start: Math.max(0, parseFloat(start[1])), end: duration });
+            } else if (end && periods.length > 0) {
+              periods[periods.length - 1].end = parseFloat(end[1]);
+            }
+          });
+
+          const first = periods[0];
+          const last = periods[periods.length - 1];
+          const leading = first && first.start <= 0.1 ? first.end : 0;
+          const trailing = last && last.end >= duration - 0.1 ? duration - last.start : 0;
+
+          if (leading + trailing >= duration) {
+            resolve({ leading: 0, trailing: 0 });
+            return;
+          }
+
+          resolve({ leading, trailing });
+        })
+        .run();
+    });
+  }
+
+  /**
+   * Decode audio to 16-bit mono PCM samples at the given sample rate
+   */
+  static decodePcm(filePath: string, sampleRate: number): Promise<Int16Array> {
+    return new Promise((resolve, reject) => {
+      const buffers: Buffer[] = [];
+
+      const stream = ffmpeg(filePath)
+        .noVideo()
+        .audioChannels(1)
+        .audioFrequency(sampleRate)
+        .format('s16le')
+        .on('error', (err) => reject(new Error(`Audio decoding failed: ${err.message}`)))
+        .pipe();
+
+      stream.on('data', (buffer: Buffer) => buffers.push(buffer));
+      stream.on('end', () => {
+        // Copy into an aligned buffer - Buffer slices may start at an odd offset
+        const bytes = new Uint8Array(Buffer.concat(buffers));
+        resolve(new Int16Array(bytes.buffer, 0, bytes.length >> 1));
+      });
+    });
+  }
+
   /**
    * Check if file needs chunking (>25MB for Whisper API)
    */
@@ -105,21 +260,25 @@ export class AudioProcessor {
   }
 
   /**
-   * Split large audio file into chunks
-   * This is for future implementation - for now we reject large files
+   * Split long or large audio file into chunks
+   * Each chunk after the first starts `overlap` seconds early so words cut at a
+   * boundary are heard in full by one of the two chunks
    */
   static async splitIntoChunks(
     filePath: string,
-    chunkDuration: number = 300 // 5 minutes per chunk
+    chunkDuration: number = 300, // 5 minutes per chunk
+    overlap: number = 0
   ): Promise<AudioChunk[]> {
     const metadata = await this.getMetadata(filePath);
 
-    // If file is small enough, no chunking needed
-    if (!this.needsChunking(metadata.size)) {
+    // If file is short and small enough, no chunking needed
+    if (metadata.duration <= chunkDuration && !this.needsChunking(metadata.size)) {
       return [
         {
           path: filePath,
           index: 0,
+          offset: 0,
+          overlap: 0,
           duration: metadata.duration,
           size: metadata.size,
         },
@@ -129,7 +288,11 @@ export class AudioProcessor {
     // Calculate number of chunks needed
     const numChunks = Math.ceil(metadata.duration / chunkDuration);
     const chunks: AudioChunk[] = [];
-    const outputDir = path.join(path.dirname(filePath), 'chunks');
+    const outputDir = path.join(
+      path.dirname(filePath),
+      'chunks',
+      path.basename(filePath, path.extname(filePath))
+    );
 
     // Create chunks directory
     if (!fs.existsSync(outputDir)) {
@@ -140,16 +303,21 @@ export class AudioProcessor {
 
     // Split file into chunks
     for (let i = 0; i < numChunks; i++) {
-      const startTime = i * chunkDuration;
-      const outputPath = path.join(outputDir, `chunk_${i}_${path.basename(filePath)}`);
+      const chunkOverlap = i === 0 ? 0 : Math.min(overlap, chunkDuration);
+      const startTime = i * chunkDuration - chunkOverlap;
+      const duration = Math.min(chunkDuration + chunkOverlap, metadata.duration - startTime);
+      // Chunks are re-encoded as compact mono mp3 so each stays well under Whisper's limit
+      const outputPath = path.join(outputDir, `chunk_${i}.mp3`);
 
-      await this.extractChunk(filePath, outputPath, startTime, chunkDuration);
+      await this.extractChunk(filePath, outputPath, startTime, duration);
 
       const chunkStats = fs.statSync(outputPath);
       chunks.push({
         path: outputPath,
         index: i,
-        duration: Math.min(chunkDuration, metadata.duration - startTime),
+        offset: startTime,
+        overlap: chunkOverlap,
+        duration,
         size: chunkStats.size,
       });
 
@@ -171,9 +339,7 @@ export class AudioProcessor {
     duration: number
   ): Promise<void> {
     return new Promise((resolve, reject) => {
-      ffmpeg(inputPath)
-        .setStartTime(startTime)
-        .setDuration(duration)
+      this.clipCommand(inputPath, startTime, duration)
         .output(outputPath)
         .on('end', () => resolve())
         .on('error', (err) => reject(err))
@@ -181,6 +347,66 @@ export class AudioProcessor {
     });
   }
 
+  /**
+   * Stream part of a recording as mono mp3 (same encoding as chunks)
+   * ffmpeg is stopped if the output closes early, e.g. the client disconnects
+   */
+  static streamClip(
+    inputPath: string,
+    startTime: number,
+    duration: number,
+    output: Writable
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let finished = false;
+
+      const command = this.clipCommand(inputPath, startTime, duration)
+        .format('mp3')
+        .on('end', () => {
+          finished = true;
+          resolve();
+        })
+        .on('error', (err) => {
+          finished = true;
+          reject(new Error(`Clip extraction failed: ${err.message}`));
+        });
+
+      output.on('close', () => {
+        if (!finished) {
+          command.kill('SIGKILL');
+        }
+      });
+
+      command.pipe(output, { end: true });
+    });
+  }
+
+  /**
+   * ffmpeg command cutting [startTime, startTime + duration) to compact mono mp3
+   */
+  private static clipCommand(
+    inputPath: string,
+    startTime: number,
+    duration: number
+  ): ffmpeg.FfmpegCommand {
+    return ffmpeg(inputPath)
+      .setStartTime(startTime)
+      .setDuration(duration)
+      .noVideo()
+      .audioCodec('libmp3lame')
+      .audioChannels(1)
+      .audioBitrate('64k');
+  }
+
+  /**
+   * Remove a normalized intermediate file
+   */
+  static cleanupNormalized(normalized: NormalizedAudio): void {
+    if (fs.existsSync(normalized.path) && normalized.path.includes('normalized')) {
+      fs.unlinkSync(normalized.path);
+    }
+  }
+
   /**
    * Clean up chunk files
    */
@@ -0,0 +1,341 @@
+import { AudioProcessor } from './audioProcessor';
+import { DiarizationProvider, DiarizationRequest, SpeakerTurn } from '../types/diarization';
+
+const SAMPLE_RATE = 8000; // Hz - plenty for voice timbre, keeps hour-long decodes small
+const FRAME_SIZE = 256; // 32ms at 8kHz (power of two for the FFT)
+const BAND_COUNT = 16;
+const MIN_FREQUENCY = 100; // Hz
+const MIN_SEGMENT_SECONDS = 0.5; // Shorter segments inherit the previous speaker
+const MIN_SILHOUETTE = 0.15; // Below this a single speaker is assumed
+const KMEANS_ITERATIONS = 50;
+
+const HANN_WINDOW = Array.from(
+  { length: FRAME_SIZE },
+  (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1))
+);
+
+/**
+ * Speaker Clusterer
+ * Local diarization without an external service. Every transcript segment gets a
+ * spectral fingerprint (mean log energy per frequency band over its voiced frames,
+ * with loudness removed) and segments are grouped with k-means. The speaker count is
+ * the participant count when known, otherwise the k with the best silhouette score.
+ *
+ * Good enough for a handful of distinct voices - use the http provider for more.
+ */
+export class SpeakerClusterer implements DiarizationProvider {
+  readonly name = 'local';
+
+  async diarize(request: DiarizationRequest): Promise<SpeakerTurn[]> {
+    if (request.segments.length === 0) {
+      return [];
+    }
+
+    // Step 1: Fingerprint every segment long enough to carry a voice
+    const samples = await AudioProcessor.decodePcm(request.audioPath, SAMPLE_RATE);
+    const bandEdges = this.getBandEdges();
+
+    const fingerprints: { index: number; features: number[] }[] = [];
+    request.segments.forEach((segment, index) => {
+      if (segment.end - segment.start < MIN_SEGMENT_SECONDS) return;
+
+      const features = this.fingerprint(samples, segment.start, segment.end, bandEdges);
+      if (features) {
+        fingerprints.push({ index, features });
+      }
+    });
+
+    // Step 2: Group the fingerprints into speakers
+    const vectors = this.standardize(fingerprints.map((f) => f.features));
+    const assignments = this.cluster(vectors, request);
+
+    const clusterOf = new Map<number, number>();
+    fingerprints.forEach((f, n) => clusterOf.set(f.index, assignments[n]));
+
+    // Step 3: Label speakers in order of first appearance
+    const labels = new Map<number, string>();
+    let previous = assignments[0] ?? 0;
+
+    return request.segments.map((segment, index) => {
+      const cluster = clusterOf.get(index) ?? previous;
+      previous = cluster;
+
+      if (!labels.has(cluster)) {
+        labels.set(cluster, `Speaker ${labels.size + 1}`);
+      }
+
+      return {
+        start: segment.start,
+        end: segment.end,
+        speaker: labels.get(cluster) || 'Speaker 1',
+      };
+    });
+  }
+
+  /**
+   * Mean band shape of the louder half of the segment's frames
+   */
+  private fingerprint(
+    samples: Int16Array,
+    start: number,
+    end: number,
+    bandEdges: [number, number][]
+  ): number[] | null {
+    const from = Math.floor(start * SAMPLE_RATE);
+    const to = Math.min(samples.length, Math.floor(end * SAMPLE_RATE));
+
+    const frames: number[][] = [];
+    const levels: number[] = [];
+
+    for (let offset = from; offset + FRAME_SIZE <= to; offset += FRAME_SIZE) {
+      const spectrum = this.powerSpectrum(samples, offset);
+      const bands = bandEdges.map(([low, high]) => {
+        let energy = 0;
+        for (let bin = low; bin < high; bin++) {
+          energy += spectrum[bin];
+        }
+        return Math.log(energy + 1e-10);
+      });
+
+      frames.push(bands);
+      levels.push(bands.reduce((sum, value) => sum + value, 0) / BAND_COUNT);
+    }
+
+    if (frames.length === 0) {
+      return null;
+    }
+
+    const threshold = [...levels].sort((a, b) => a - b)[Math.floor(levels.length / 2)];
+    const voiced = frames.filter((_, i) => levels[i] >= threshold);
+
+    const features = new Array<number>(BAND_COUNT).fill(0);
+    voiced.forEach((bands) => {
+      const level = bands.reduce((sum, value) => sum + value, 0) / BAND_COUNT;
+      bands.forEach((value, band) => {
+        features[band] += (value - level) / voiced.length;
+      });
+    });
+
+    return features;
+  }
+
+  /**
+   * Hann-windowed power spectrum of one frame (bins 0..FRAME_SIZE/2)
+   */
+  private powerSpectrum(samples: Int16Array, offset: number): Float64Array {
+    const re = new Float64Array(FRAME_SIZE);
+    const im = new Float64Array(FRAME_SIZE);
+
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      re[i] = (samples[offset + i] / 32768) * HANN_WINDOW[i];
+    }
+
+    this.fft(re, im);
+
+    const power = new Float64Array(FRAME_SIZE / 2 + 1);
+    for (let bin = 0; bin < power.length; bin++) {
+      power[bin] = re[bin] * re[bin] + im[bin] * im[bin];
+    }
+    return power;
+  }
+
+  /**
+   * In-place iterative radix-2 FFT
+   */
+  private fft(re: Float64Array, im: Float64Array): void {
+    const n = re.length;
+
+    for (let i = 1, j = 0; i < n; i++) {
+      let bit = n >> 1;
+      for (; j & bit; bit >>= 1) {
+        j ^= bit;
+      }
+      j ^= bit;
+
+      if (i < j) {
+        [re[i], re[j]] = [re[j], re[i]];
+        [im[i], im[j]] = [im[j], im[i]];
+      }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+      const angle = (-2 * Math.PI) / size;
+
+      for (let start = 0; start < n; start += size) {
+        for (let k = 0; k < size / 2; k++) {
+          const cos = Math.cos(angle * k);
+          const sin = Math.sin(angle * k);
+          const a = start + k;
+          const b = a + size / 2;
+
+          const tRe = re[b] * cos - im[b] * sin;
+          const tIm = re[b] * sin + im[b] * cos;
+          re[b] = re[a] - tRe;
+          im[b] = im[a] - tIm;
+          re[a] += tRe;
+          im[a] += tIm;
+        }
+      }
+    }
+  }
+
+  /**
+   * Log-spaced frequency bands as [low, high) FFT bin ranges
+   */
+  private getBandEdges(): [number, number][] {
+    const binWidth = SAMPLE_RATE / FRAME_SIZE;
+    const maxBin = FRAME_SIZE / 2;
+    const ratio = Math.pow(SAMPLE_RATE / 2 / MIN_FREQUENCY, 1 / BAND_COUNT);
+
+    const edges: [number, number][] = [];
+    let low = Math.round(MIN_FREQUENCY / binWidth);
+
+    for (let band = 1; band <= BAND_COUNT; band++) {
+      const high = Math.min(
+        maxBin + 1,
+        Math.max(low + 1, Math.round((MIN_FREQUENCY * Math.pow(ratio, band)) / binWidth))
+      );
+      edges.push([low, high]);
+      low = Math.min(high, maxBin);
+    }
+
+    return edges;
+  }
+
+  /**
+   * Z-score every feature across segments
+   */
+  private standardize(vectors: number[][]): number[][] {
+    if (vectors.length === 0) {
+      return [];
+    }
+
+    const means = vectors[0].map(
+      (_, dim) => vectors.reduce((sum, v) => sum + v[dim], 0) / vectors.length
+    );
+    const stds = means.map((mean, dim) =>
+      Math.sqrt(vectors.reduce((sum, v) => sum + (v[dim] - mean) ** 2, 0) / vectors.length)
+    );
+
+    return vectors.map((v) =>
+      v.map((value, dim) => (stds[dim] > 0 ? (value - means[dim]) / stds[dim] : 0))
+    );
+  }
+
+  /**
+   * Cluster assignment per vector
+   */
+  private cluster(vectors: number[][], request: DiarizationRequest): number[] {
+    const maxK = Math.min(request.maxSpeakers, vectors.length);
+
+    if (maxK < 2) {
+      return vectors.map(() => 0);
+    }
+
+    if (request.expectedSpeakers && request.expectedSpeakers > 0) {
+      return this.kMeans(vectors, Math.min(request.expectedSpeakers, maxK));
+    }
+
+    let best = { score: MIN_SILHOUETTE, assignments: vectors.map(() => 0) };
+
+    for (let k = 2; k <= Math.min(maxK, vectors.length - 1); k++) {
+      const assignments = this.kMeans(vectors, k);
+      const score = this.silhouette(vectors, assignments, k);
+      if (score > best.score) {
+        best = { score, assignments };
+      }
+    }
+
+    return best.assignments;
+  }
+
+  /**
+   * Deterministic k-means (farthest-point initialisation)
+   */
+  private kMeans(vectors: number[][], k: number): number[] {
+    const centroids: number[][] = [vectors[0]];
+
+    while (centroids.length < k) {
+      let farthest = vectors[0];
+      let farthestDistance = -1;
+
+      vectors.forEach((vector) => {
+        const distance = Math.min(...centroids.map((c) => this.distance(vector, c)));
+        if (distance > farthestDistance) {
+          farthest = vector;
+          farthestDistance = distance;
+        }
+      });
+
+      centroids.push(farthest);
+    }
+
+    let assignments = vectors.map(() => -1);
+
+    for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+      const next = vectors.map((vector) => {
+        let nearest = 0;
+        centroids.forEach((centroid, c) => {
+          if (this.distance(vector, centroid) < this.distance(vector, centroids[nearest])) {
+            nearest = c;
+          }
+        });
+        return nearest;
+      });
+
+      if (next.every((cluster, i) => cluster === assignments[i])) {
+        break;
+      }
+      assignments = next;
+
+      centroids.forEach((centroid, c) => {
+        const members = vectors.filter((_, i) => assignments[i] === c);
+        if (members.length === 0) return; // Keep an empty cluster's centroid
+
+        centroids[c] = centroid.map(
+          (_, dim) => members.reduce((sum, member) => sum + member[dim], 0) / members.length
+        );
+      });
+    }
+
+    return assignments;
+  }
+
+  /**
+   * Mean silhouette score - how much closer segments are to their own cluster
+   */
+  private silhouette(vectors: number[][], assignments: number[], k: number): number {
+    const total = vectors.reduce((sum, vector, i) => {
+      const distances = new Array<number>(k).fill(0);
+      const counts = new Array<number>(k).fill(0);
+
+      vectors.forEach((other, j) => {
+        if (i === j) return;
+        distances[assignments[j]] += this.distance(vector, other);
+        counts[assignments[j]]++;
+      });
+
+      const own = assignments[i];
+      const a = counts[own] > 0 ? distances[own] / counts[own] : 0;
+      const b = Math.min(
+        ...distances.map((d, c) => (c === own || counts[c] === 0 ? Infinity : d / counts[c]))
+      );
+
+      if (counts[own] === 0 || !isFinite(b)) {
+        return sum; // Singleton cluster (or no other cluster) scores 0
+      }
+
+      return sum + (b - a) / Math.max(a, b);
+    }, 0);
+
+    return total / vectors.length;
+  }
+
+  private distance(a: number[], b: number[]): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) {
+      sum += (a[i] - b[i]) ** 2;
+    }
+    return Math.sqrt(sum);
+  }
+}
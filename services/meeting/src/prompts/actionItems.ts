@@ -11,19 +11,21 @@ Extract action items following these rules:
 4. Extract or infer due dates when mentioned
 5. Include context in the description
 
-Return a JSON array with this exact structure:
-[
-  {
-    "description": "Clear, actionable task description",
-    "assignedTo": "Person's name or null if not mentioned",
-    "priority": "high" | "medium" | "low",
-    "dueDate": "YYYY-MM-DD or null if not mentioned"
-  }
-]
+Return JSON with this exact structure:
+{
+  "actionItems": [
+    {
+      "description": "Clear, actionable task description",
+      "assignedTo": "Person's name or null if not mentioned",
+      "priority": "high" | "medium" | "low",
+      "dueDate": "YYYY-MM-DD or null if not mentioned"
+    }
+  ]
+}
 
 IMPORTANT:
 - Return ONLY valid JSON, no markdown, no explanation
-- If no action items found, return empty array: []
+- If no action items found, return: { "actionItems": [] }
 - Be thorough - don't miss implicit action items
 - Priority indicators: "urgent", "ASAP", "critical" = high; "when you can", "eventually" = low
-`.trim();
\ No newline at end of file
+`.trim();
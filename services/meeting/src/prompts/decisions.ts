@@ -11,20 +11,22 @@ Extract decisions following these rules:
 4. Include relevant context explaining why the decision was made
 5. Ignore minor procedural decisions unless significant
 
-Return a JSON array with this exact structure:
-[
-  {
-    "description": "Clear description of what was decided",
-    "madeBy": "Decision maker's name or null if not clear",
-    "impact": "high" | "medium" | "low",
-    "context": "Why this decision was made or relevant background"
-  }
-]
+Return JSON with this exact structure:
+{
+  "decisions": [
+    {
+      "description": "Clear description of what was decided",
+      "madeBy": "Decision maker's name or null if not clear",
+      "impact": "high" | "medium" | "low",
+      "context": "Why this decision was made or relevant background"
+    }
+  ]
+}
 
 IMPORTANT:
 - Return ONLY valid JSON, no markdown, no explanation
-- If no decisions found, return empty array: []
+- If no decisions found, return: { "decisions": [] }
 - Impact = high: affects product/company strategy, multiple teams
 - Impact = medium: affects single team or project significantly
 - Impact = low: minor process or procedural decisions
-`.trim();
\ No newline at end of file
+`.trim();
@@ -0,0 +1,20 @@
+/**
+ * Appended to extraction prompts - every item must cite the words it is based on
+ * With indexed segments the item also points back at the segments it came from
+ */
+export const buildEvidenceInstruction = (withSegments: boolean): string => {
+  const segments = withSegments
+    ? `
+The transcript lines are formatted as: [segment index] [start seconds] speaker: text
+Add a "sourceSegments" field to every item with the indices of the segments the quote comes from, e.g. [12] or [12, 13].
+Use the segment indices shown in brackets, not the start seconds.
+Do not include the "[index] [seconds] speaker:" prefix in the quote.`
+    : '';
+
+  return `
+
+EVIDENCE:
+Add a "quote" field to every item: the exact words from the transcript that support it (one or two sentences).
+Copy the quote verbatim - do not paraphrase, translate or fix grammar. Use "..." to skip words in between.
+Only return items you can support with a quote.${segments}`;
+};
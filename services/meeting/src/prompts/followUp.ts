@@ -0,0 +1,33 @@
+export const FOLLOW_UP_PROMPT = `
+You are analyzing a meeting transcript to detect follow-ups on existing commitments.
+
+ACTIVE COMMITMENTS:
+{commitments}
+
+MEETING TRANSCRIPT:
+{transcript}
+
+For each commitment, determine if it was mentioned in the transcript. Return JSON with:
+
+{
+  "detections": [
+    {
+      "commitmentId": "actual_mongodb_id",
+      "mentioned": true/false,
+      "status": "mentioned" | "updated" | "completed",
+      "notes": "Brief summary of what was discussed (1 sentence)",
+      "confidence": 0.0 to 1.0
+    }
+  ]
+}
+
+Status guidelines:
+- "mentioned": Briefly referenced or discussed
+- "updated": Progress was reported or status changed
+- "completed": Explicitly marked as done or finished
+
+Only include commitments that were actually mentioned (mentioned: true).
+If no commitments were mentioned, return: { "detections": [] }
+
+Return ONLY valid JSON, no markdown, no explanation.
+`.trim();
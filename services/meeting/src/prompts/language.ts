@@ -0,0 +1,20 @@
+import { getLanguageName } from '../utils/language';
+
+/**
+ * Appended to analysis prompts when the transcript is not in English
+ * Output text is written in the meeting's language; JSON keys and enum values stay English
+ */
+export const buildLanguageInstruction = (language?: string): string => {
+  if (!language || language === 'en') {
+    return '';
+  }
+
+  const name = getLanguageName(language);
+
+  return `
+
+LANGUAGE:
+The transcript is (mostly) in ${name}. Read it in ${name} - do not translate it first.
+Write every free-text value (descriptions, names, context, factors, recommendations) in ${name}.
+Keep JSON keys and fixed values ("high", "medium", "low", "positive", "neutral", "negative") in English.`;
+};
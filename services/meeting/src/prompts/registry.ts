@@ -0,0 +1,32 @@
+import { PromptName } from '../models/PromptVersion';
+import { ACTION_ITEMS_PROMPT } from './actionItems';
+import { DECISIONS_PROMPT } from './decisions';
+import { SENTIMENT_PROMPT } from './sentiment';
+import { FOLLOW_UP_PROMPT } from './followUp';
+
+// Version of the templates shipped with the service
+export const BUILT_IN_PROMPT_VERSION = 'v1';
+
+export const BUILT_IN_PROMPTS: Record<PromptName, string> = {
+  'action-items': ACTION_ITEMS_PROMPT,
+  decisions: DECISIONS_PROMPT,
+  sentiment: SENTIMENT_PROMPT,
+  'follow-up': FOLLOW_UP_PROMPT,
+};
+
+// Values filled in by the stage - every version of a prompt must use all of them
+export const PROMPT_PLACEHOLDERS: Record<PromptName, string[]> = {
+  'action-items': ['transcript'],
+  decisions: ['transcript'],
+  sentiment: ['transcript', 'participants'],
+  'follow-up': ['commitments', 'transcript'],
+};
+
+/**
+ * Fill in a template's {placeholders}
+ * A function replacer, so "$" in a transcript is never read as a replacement pattern
+ */
+export const renderPrompt = (template: string, values: Record<string, string>): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    key in values ? values[key] : placeholder
+  );
@@ -0,0 +1,10 @@
+/**
+ * Follow-up message when an answer failed validation - the model corrects its own answer
+ */
+export const buildRepairPrompt = (errors: string): string =>
+  `
+Your previous answer could not be used - it does not match the required JSON structure:
+${errors}
+
+Return the complete corrected JSON with the exact structure requested earlier.
+Return ONLY valid JSON, no markdown, no explanation.`.trim();
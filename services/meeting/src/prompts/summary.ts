@@ -0,0 +1,114 @@
+import { ISummaryPreferences, SummaryLength, SummaryStyle } from '../models/SummarySettings';
+
+export const SUMMARY_PROMPT = `
+You are an expert meeting assistant. Summarize the following meeting transcript for stakeholders who did not attend.
+
+PARTICIPANTS: {participants}
+
+TRANSCRIPT:
+{transcript}
+
+Summarize following these rules:
+1. "tldr": an executive summary - what the meeting was about, what was decided and what happens next
+2. "topics": one entry per agenda topic or subject discussed, in the order they came up
+3. "openQuestions": questions raised that were NOT answered or resolved by the end of the meeting, with who asked them
+4. Only state what was said in the meeting - do not speculate or add advice
+5. Skip small talk and logistics unless they matter to the outcome
+{preferences}
+Return JSON with this exact structure:
+{
+  "tldr": "Executive summary",
+  "topics": [
+    {
+      "title": "Short topic title (max 8 words)",
+      "summary": "What was discussed and concluded",
+      "keyPoints": ["Important fact, number, decision or concern"]{sources}
+    }
+  ],
+  "openQuestions": [
+    {
+      "question": "The unanswered question",
+      "askedBy": "Name or null"
+    }
+  ]
+}
+
+IMPORTANT:
+- Return ONLY valid JSON, no markdown, no explanation
+- If no questions were left open, return "openQuestions": []
+`.trim();
+
+/**
+ * Long meetings are summarised per part - this merges the parts into one executive summary
+ */
+export const SUMMARY_MERGE_PROMPT = `
+You are an expert meeting assistant. A long meeting was summarized in consecutive parts. Combine them into one summary of the whole meeting.
+
+PART SUMMARIES (in meeting order, as JSON):
+{parts}
+
+Follow these rules:
+1. "tldr": one executive summary of the whole meeting - what it was about, what was decided and what happens next
+2. "openQuestions": the questions from the parts that are still open at the END of the meeting - drop any a later part answers, and merge duplicates
+3. Only use what the parts say - do not speculate or add advice
+{preferences}
+Return JSON with this exact structure:
+{
+  "tldr": "Executive summary",
+  "openQuestions": [
+    {
+      "question": "The unanswered question",
+      "askedBy": "Name or null"
+    }
+  ]
+}
+
+IMPORTANT:
+- Return ONLY valid JSON, no markdown, no explanation
+`.trim();
+
+const LENGTH_GUIDES: Record<SummaryLength, string> = {
+  brief:
+    '- "tldr": 1-2 sentences\n- Only the main topics (at most 4), each summarized in 1 sentence with at most 2 key points',
+  standard:
+    '- "tldr": 3-4 sentences\n- Each topic summarized in 2-3 sentences with at most 4 key points',
+  detailed:
+    '- "tldr": one paragraph of 5-7 sentences\n- Every topic, each summarized in a paragraph with at most 8 key points',
+};
+
+const STYLE_GUIDES: Record<SummaryStyle, string> = {
+  narrative: '- Write in flowing prose with full sentences',
+  bullets:
+    '- Write tersely - topic summaries are a single sentence and the substance goes in the key points',
+};
+
+/**
+ * Length, style and project instructions - filled into {preferences} of both prompts
+ */
+export const buildSummaryPreferences = (preferences: ISummaryPreferences): string => {
+  const instructions = preferences.instructions
+    ? `\n\nPROJECT INSTRUCTIONS:\n${preferences.instructions}`
+    : '';
+
+  return `
+LENGTH AND STYLE:
+${LENGTH_GUIDES[preferences.length]}
+${STYLE_GUIDES[preferences.style]}${instructions}
+`;
+};
+
+/**
+ * Filled into {sources} - with indexed segments each topic points back at the ones it covers
+ */
+export const buildSummarySources = (withSegments: boolean): string =>
+  withSegments
+    ? `,
+      "startSegment": 0,
+      "endSegment": 12`
+    : '';
+
+// Explains the transcript line format when summarising from segments
+export const SUMMARY_SEGMENTS_NOTE = `
+
+The transcript lines are formatted as: [segment index] [start seconds] speaker: text
+"startSegment" and "endSegment" are the indices (in brackets) of the first and last segment of each topic.`;
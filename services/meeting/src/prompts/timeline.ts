@@ -0,0 +1,36 @@
+export const TIMELINE_PROMPT = `
+You are an expert meeting assistant. Analyze the following timestamped meeting transcript and build a timeline of its KEY MOMENTS.
+
+MEETING DURATION: {duration} seconds
+
+TRANSCRIPT SEGMENTS (format: [segment index] [start seconds] speaker: text):
+{segments}
+
+Identify key moments following these rules:
+1. "topic_shift": the conversation moves to a new subject or agenda item
+2. "decision": the group agrees on, approves or resolves something
+3. "escalation": tension rises, a blocker or risk is raised, or someone pushes back strongly
+4. Each moment spans a contiguous range of segments (startSegment to endSegment, inclusive)
+5. Determine importance (high/medium/low) based on impact on the team or project
+
+Return JSON with this exact structure:
+{
+  "moments": [
+    {
+      "type": "topic_shift" | "decision" | "escalation",
+      "title": "Short headline for the moment (max 10 words)",
+      "summary": "One sentence describing what happened",
+      "startSegment": 0,
+      "endSegment": 3,
+      "speakers": ["Names or speaker labels involved"],
+      "importance": "high" | "medium" | "low"
+    }
+  ]
+}
+
+IMPORTANT:
+- Return ONLY valid JSON, no markdown, no explanation
+- Segment indices MUST refer to the indices shown in the transcript
+- Order moments chronologically
+- If no key moments found, return: { "moments": [] }
+`.trim();
@@ -0,0 +1,24 @@
+export const TRANSLATION_PROMPT = `
+You are a professional meeting interpreter. Translate the following meeting transcript segments from {sourceLanguage} into {targetLanguage}.
+
+SEGMENTS (JSON):
+{segments}
+
+Translation rules:
+1. Translate every segment separately - never merge, split or reorder segments
+2. Keep the meaning, tone and register of the speaker (spoken, informal language stays informal)
+3. Keep names of people, products, companies and code identifiers unchanged
+4. Segments may contain other languages (code-switching) - translate those parts as well
+5. Keep numbers, dates and amounts exact
+
+Return JSON with this exact structure:
+{
+  "segments": [
+    { "index": 0, "text": "Translated text of segment 0" }
+  ]
+}
+
+IMPORTANT:
+- Return ONLY valid JSON, no markdown, no explanation
+- Return exactly one entry per input segment, with the same index
+`.trim();
@@ -0,0 +1,15 @@
+import { BackfillJobData } from '../types/jobs';
+import { config } from '../config/config';
+import { BackfillWorker } from '../worker/backfillWorker';
+import { BaseQueue } from './baseQueue';
+
+// Export singleton instance
+export const backfillQueue = new BaseQueue<BackfillJobData>({
+  name: 'backfill',
+  label: 'Backfill',
+  worker: BackfillWorker,
+  concurrency: config.queues.concurrency.backfill,
+  defaultJobOptions: {
+    attempts: 1, // Failures are recorded on the backfill and the next meeting is scheduled
+  },
+});
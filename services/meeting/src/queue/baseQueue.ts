@@ -0,0 +1,366 @@
+import Bull, { Job, JobOptions, Queue } from 'bull';
+import { config } from '../config/config';
+
+/**
+ * Worker attached to a queue
+ * Static worker classes (e.g. TranscriptionWorker) satisfy this structurally
+ */
+export interface QueueWorker<T, R = any> {
+  processJob(job: Job<T>): Promise<R>;
+  onCompleted?(job: Job<T>, result: R): void | Promise<void>;
+  onFailed?(job: Job<T>, error: Error): void | Promise<void>;
+  onProgress?(job: Job<T>, progress: number): void;
+  onStalled?(job: Job<T>): void | Promise<void>;
+}
+
+export interface BaseQueueOptions<T, R> {
+  name: string; // Bull queue name
+  label: string; // Human readable name for logs
+  jobIdPrefix?: string; // Defaults to name - job IDs are `${jobIdPrefix}-${meetingId}`
+  worker: QueueWorker<T, R>;
+  concurrency: number;
+  priority?: number; // Default job priority (lower = processed first)
+  defaultJobOptions?: JobOptions;
+}
+
+export interface QueueStats {
+  queue: string;
+  waiting: number;
+  active: number;
+  completed: number;
+  failed: number;
+  delayed: number;
+  total: number;
+}
+
+/**
+ * A job that exhausted its attempts and sits in Bull's failed set
+ */
+export interface DeadLetterJob {
+  queue: string;
+  jobId: string;
+  meetingId: string;
+  error: string;
+  data: any;
+  attemptsMade: number;
+  maxAttempts: number;
+  attemptErrors: string[]; // Stack trace of each failed attempt, oldest first
+  createdAt: Date;
+  failedAt?: Date;
+}
+
+/**
+ * Base Queue
+ * Wraps a Bull queue and its worker with consistent job IDs, logging and stats.
+ * Every instance registers itself so WorkerManager can start/stop all of them.
+ */
+export class BaseQueue<T extends { meetingId: string }, R = any> {
+  private static registry = new Map<string, BaseQueue<any>>();
+
+  readonly name: string;
+  readonly label: string;
+  private readonly jobIdPrefix: string;
+  private readonly worker: QueueWorker<T, R>;
+  private readonly concurrency: number;
+  private readonly priority?: number;
+  private queue: Queue<T>;
+
+  constructor(options: BaseQueueOptions<T, R>) {
+    if (BaseQueue.registry.has(options.name)) {
+      throw new Error(`Queue "${options.name}" is already registered`);
+    }
+
+    this.name = options.name;
+    this.label = options.label;
+    this.jobIdPrefix = options.jobIdPrefix || options.name;
+    this.worker = options.worker;
+    this.concurrency = options.concurrency;
+    this.priority = options.priority;
+
+    this.queue = new Bull<T>(options.name, {
+      redis: {
+        host: config.redis.host,
+        port: config.redis.port,
+        password: config.redis.password,
+      },
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+        removeOnComplete: 100, // Keep last 100 completed jobs
+        removeOnFail: 200, // Keep last 200 failed jobs
+        ...options.defaultJobOptions,
+      },
+    });
+
+    BaseQueue.registry.set(options.name, this);
+  }
+
+  /**
+   * All queues created in this process
+   */
+  static getRegisteredQueues(): BaseQueue<any>[] {
+    return Array.from(BaseQueue.registry.values());
+  }
+
+  /**
+   * Look up a registered queue by its Bull name
+   */
+  static getRegisteredQueue(name: string): BaseQueue<any> | undefined {
+    return BaseQueue.registry.get(name);
+  }
+
+  /**
+   * Start processing jobs and register event handlers
+   */
+  startWorker(): void {
+    console.log(`🔧 Starting ${this.label} worker (concurrency: ${this.concurrency})...`);
+
+    this.queue.process(this.concurrency, async (job: Job<T>) => {
+      return this.worker.processJob(job);
+    });
+
+    this.queue.on('completed', (job: Job<T>, result: R) => {
+      console.log(`✅ ${this.label} job ${job.id} completed for meeting ${job.data.meetingId}`);
+      this.runHandler('completed', () => this.worker.onCompleted?.(job, result));
+    });
+
+    this.queue.on('failed', (job: Job<T>, error: Error) => {
+      console.error(
+        `❌ ${this.label} job ${job?.id} failed for meeting ${job?.data.meetingId}:`,
+        error.message
+      );
+      this.runHandler('failed', () => this.worker.onFailed?.(job, error));
+    });
+
+    this.queue.on('progress', (job: Job<T>, progress: number) => {
+      this.runHandler('progress', () => this.worker.onProgress?.(job, progress));
+    });
+
+    this.queue.on('stalled', (job: Job<T>) => {
+      console.warn(`⚠️ ${this.label} job ${job.id} stalled for meeting ${job.data.meetingId}`);
+      this.runHandler('stalled', () => this.worker.onStalled?.(job));
+    });
+
+    this.queue.on('error', (error: Error) => {
+      console.error(`❌ ${this.label} queue error:`, error);
+    });
+
+    console.log(`✅ ${this.label} worker started`);
+  }
+
+  /**
+   * Run a worker's event handler - Bull ignores what listeners return, so a rejected
+   * handler would otherwise become an unhandled rejection
+   */
+  private runHandler(event: string, handler: () => void | Promise<void>): void {
+    Promise.resolve()
+      .then(handler)
+      .catch((error) => {
+        console.error(`❌ ${this.label} ${event} handler failed:`, error);
+      });
+  }
+
+  /**
+   * Job ID for a meeting's job in this queue
+   */
+  getJobId(meetingId: string): string {
+    return `${this.jobIdPrefix}-${meetingId}`;
+  }
+
+  /**
+   * Add a job to the queue
+   */
+  async addJob(data: T, options?: JobOptions): Promise<Job<T>> {
+    try {
+      const job = await this.queue.add(data, {
+        jobId: this.getJobId(data.meetingId),
+        priority: this.priority,
+        ...options,
+      });
+
+      console.log(`📋 ${this.label} job ${job.id} queued for meeting ${data.meetingId}`);
+      return job;
+    } catch (error) {
+      console.error(`Failed to add ${this.label.toLowerCase()} job:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get job status
+   */
+  async getJobStatus(jobId: string): Promise<any> {
+    const job = await this.queue.getJob(jobId);
+
+    if (!job) {
+      return null;
+    }
+
+    const state = await job.getState();
+    const progress = job.progress();
+
+    return {
+      id: job.id,
+      state,
+      progress,
+      data: job.data,
+      attemptsMade: job.attemptsMade,
+      failedReason: job.failedReason,
+      finishedOn: job.finishedOn,
+    };
+  }
+
+  /**
+   * Get status of a meeting's job in this queue
+   */
+  async getMeetingJobStatus(meetingId: string): Promise<any> {
+    return this.getJobStatus(this.getJobId(meetingId));
+  }
+
+  /**
+   * Get queue statistics
+   */
+  async getStats(): Promise<QueueStats> {
+    const [waiting, active, completed, failed, delayed] = await Promise.all([
+      this.queue.getWaitingCount(),
+      this.queue.getActiveCount(),
+      this.queue.getCompletedCount(),
+      this.queue.getFailedCount(),
+      this.queue.getDelayedCount(),
+    ]);
+
+    return {
+      queue: this.name,
+      waiting,
+      active,
+      completed,
+      failed,
+      delayed,
+      total: waiting + active + completed + failed + delayed,
+    };
+  }
+
+  /**
+   * Remove a meeting's finished job so its deterministic job ID can be reused
+   * Returns false when there was no job to remove
+   */
+  async removeMeetingJob(meetingId: string): Promise<boolean> {
+    return this.removeJob(this.getJobId(meetingId));
+  }
+
+  /**
+   * Remove a job that is not currently running
+   */
+  async removeJob(jobId: string): Promise<boolean> {
+    const job = await this.queue.getJob(jobId);
+
+    if (!job) {
+      return false;
+    }
+
+    if (await job.isActive()) {
+      throw new Error(`${this.label} job ${job.id} is still running`);
+    }
+
+    await job.remove();
+    return true;
+  }
+
+  /**
+   * Permanently failed jobs, most recently failed first
+   */
+  async getDeadLetterJobs(limit: number = 50): Promise<DeadLetterJob[]> {
+    const jobs = await this.queue.getFailed(0, limit - 1);
+
+    return jobs
+      .filter((job) => job)
+      .map((job) => this.toDeadLetterJob(job))
+      .sort((a, b) => (b.failedAt?.getTime() || 0) - (a.failedAt?.getTime() || 0));
+  }
+
+  /**
+   * Get a job from the failed set
+   */
+  async getFailedJob(jobId: string): Promise<Job<T>> {
+    const job = await this.queue.getJob(jobId);
+
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    if (!(await job.isFailed())) {
+      throw new Error('Job is not in the dead-letter queue');
+    }
+
+    return job;
+  }
+
+  /**
+   * Move a failed job back to waiting, optionally replacing part of its payload
+   * Bull keeps attemptsMade, so a retried job gets a single further attempt
+   * and its attempt history is preserved
+   */
+  async retryFailedJob(jobId: string, dataOverrides: Partial<T> = {}): Promise<Job<T>> {
+    const job = await this.getFailedJob(jobId);
+
+    if (Object.keys(dataOverrides).length > 0) {
+      await job.update({ ...job.data, ...dataOverrides });
+    }
+
+    await job.retry();
+
+    console.log(`🔁 ${this.label} job ${job.id} retried for meeting ${job.data.meetingId}`);
+    return job;
+  }
+
+  /**
+   * Drop a failed job for good
+   */
+  async discardFailedJob(jobId: string): Promise<void> {
+    const job = await this.getFailedJob(jobId);
+    await job.remove();
+
+    console.log(`🗑️  ${this.label} job ${job.id} discarded for meeting ${job.data.meetingId}`);
+  }
+
+  /**
+   * Dead-letter view of a failed job
+   */
+  toDeadLetterJob(job: Job<T>): DeadLetterJob {
+    return {
+      queue: this.name,
+      jobId: job.id.toString(),
+      meetingId: job.data.meetingId,
+      error: job.failedReason || 'Unknown error',
+      data: job.data,
+      attemptsMade: job.attemptsMade,
+      maxAttempts: job.opts.attempts || 1,
+      attemptErrors: job.stacktrace || [],
+      createdAt: new Date(job.timestamp),
+      failedAt: job.finishedOn ? new Date(job.finishedOn) : undefined,
+    };
+  }
+
+  getQueue(): Queue<T> {
+    return this.queue;
+  }
+
+  /**
+   * Clean up old jobs
+   */
+  async cleanup(): Promise<void> {
+    await this.queue.clean(24 * 60 * 60 * 1000); // Clean jobs older than 24 hours
+    console.log(`🧹 ${this.label} queue cleaned`);
+  }
+
+  /**
+   * Close queue gracefully
+   */
+  async close(): Promise<void> {
+    await this.queue.close();
+    console.log(`👋 ${this.label} queue closed`);
+  }
+}
@@ -0,0 +1,15 @@
+import { PromptExperimentJobData } from '../types/jobs';
+import { config } from '../config/config';
+import { PromptExperimentWorker } from '../worker/promptExperimentWorker';
+import { BaseQueue } from './baseQueue';
+
+// Export singleton instance
+export const promptExperimentQueue = new BaseQueue<PromptExperimentJobData>({
+  name: 'prompt-experiment',
+  label: 'Prompt experiment',
+  worker: PromptExperimentWorker,
+  concurrency: config.queues.concurrency.promptExperiment,
+  defaultJobOptions: {
+    attempts: 1, // Failures are recorded on the experiment
+  },
+});
@@ -0,0 +1,13 @@
+import { SummaryJobData } from '../types/jobs';
+import { config } from '../config/config';
+import { SummaryWorker } from '../worker/summaryWorker';
+import { BaseQueue } from './baseQueue';
+
+// Export singleton instance
+export const summaryQueue = new BaseQueue<SummaryJobData>({
+  name: 'summary',
+  label: 'Summary',
+  worker: SummaryWorker,
+  concurrency: config.queues.concurrency.summary,
+  priority: 3, // Same priority as timeline
+});
@@ -0,0 +1,13 @@
+import { TimelineJobData } from '../types/jobs';
+import { config } from '../config/config';
+import { TimelineWorker } from '../worker/timelineWorker';
+import { BaseQueue } from './baseQueue';
+
+// Export singleton instance
+export const timelineQueue = new BaseQueue<TimelineJobData>({
+  name: 'timeline',
+  label: 'Timeline',
+  worker: TimelineWorker,
+  concurrency: config.queues.concurrency.timeline,
+  priority: 3, // Same priority as sentiment
+});
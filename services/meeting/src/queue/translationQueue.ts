@@ -0,0 +1,13 @@
+import { TranslationJobData } from '../types/jobs';
+import { config } from '../config/config';
+import { TranslationWorker } from '../worker/translationWorker';
+import { BaseQueue } from './baseQueue';
+
+// Export singleton instance
+export const translationQueue = new BaseQueue<TranslationJobData>({
+  name: 'translation',
+  label: 'Translation',
+  worker: TranslationWorker,
+  concurrency: config.queues.concurrency.translation,
+  priority: 4, // Same priority as follow-up detection (optional feature)
+});
@@ -0,0 +1,189 @@
+import express, { Router } from 'express';
+import { authenticate } from '../middleware/authenticate';
+import { requireAdmin } from '../middleware/requireAdmin';
+import {
+  cancelBackfill,
+  createBackfill,
+  getBackfill,
+  listBackfills,
+  pauseBackfill,
+  resumeBackfill,
+} from '../controllers/backfillController';
+
+const router: Router = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/admin/backfills:
+ *   post:
+ *     summary: Start a bulk reprocessing backfill (or estimate one)
+ *     description: |
+ *       Selects meetings with a stored transcript using search-style filters and re-runs
+ *       the given stages for each of them, queueing at most ratePerMinute meetings per
+ *       minute. With dryRun the matching meetings are counted and the AI cost estimated
+ *       without queueing anything.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [stages]
+ *             properties:
+ *               stages:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [extraction, sentiment, follow-up, timeline, summary, translation]
+ *                 example: ["extraction"]
+ *               filters:
+ *                 type: object
+ *                 properties:
+ *                   query:
+ *                     type: string
+ *                   status:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                     example: ["completed"]
+ *                   projectId:
+ *                     type: string
+ *                   createdBy:
+ *                     type: string
+ *                   dateFrom:
+ *                     type: string
+ *                     format: date-time
+ *                   dateTo:
+ *                     type: string
+ *                     format: date-time
+ *               ratePerMinute:
+ *                 type: integer
+ *                 example: 10
+ *               preserveEditedActionItems:
+ *                 type: boolean
+ *                 default: true
+ *               dryRun:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       200:
+ *         description: Dry run estimate (matched meetings, estimated cost and duration)
+ *       201:
+ *         description: Backfill started
+ *       400:
+ *         description: Validation error or no meetings matched
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Admin access required
+ */
+router.post('/backfills', authenticate, requireAdmin, createBackfill);
+
+/**
+ * @swagger
+ * /api/v1/admin/backfills:
+ *   get:
+ *     summary: List recent backfills with progress
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Backfills
+ *       403:
+ *         description: Admin access required
+ */
+router.get('/backfills', authenticate, requireAdmin, listBackfills);
+
+/**
+ * @swagger
+ * /api/v1/admin/backfills/{id}:
+ *   get:
+ *     summary: Get backfill progress
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Backfill with processed/queued/skipped/failed counts and progress
+ *       404:
+ *         description: Backfill not found
+ */
+router.get('/backfills/:id', authenticate, requireAdmin, getBackfill);
+
+/**
+ * @swagger
+ * /api/v1/admin/backfills/{id}/pause:
+ *   post:
+ *     summary: Pause a running backfill
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Backfill paused
+ *       409:
+ *         description: Backfill is not running
+ */
+router.post('/backfills/:id/pause', authenticate, requireAdmin, pauseBackfill);
+
+/**
+ * @swagger
+ * /api/v1/admin/backfills/{id}/resume:
+ *   post:
+ *     summary: Resume a paused backfill from the last processed meeting
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Backfill resumed
+ *       409:
+ *         description: Backfill is completed or cancelled
+ */
+router.post('/backfills/:id/resume', authenticate, requireAdmin, resumeBackfill);
+
+/**
+ * @swagger
+ * /api/v1/admin/backfills/{id}/cancel:
+ *   post:
+ *     summary: Cancel a backfill
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Backfill cancelled
+ *       409:
+ *         description: Backfill already finished
+ */
+router.post('/backfills/:id/cancel', authenticate, requireAdmin, cancelBackfill);
+
+export default router;
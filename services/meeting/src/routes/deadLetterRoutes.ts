@@ -0,0 +1,150 @@
+import express, { Router } from 'express';
+import { authenticate } from '../middleware/authenticate';
+import { requireAdmin } from '../middleware/requireAdmin';
+import {
+  discardDeadLetter,
+  getDeadLetter,
+  listDeadLetters,
+  retryDeadLetter,
+} from '../controllers/deadLetterController';
+
+const router: Router = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/admin/dead-letters:
+ *   get:
+ *     summary: List permanently failed jobs across all queues
+ *     description: |
+ *       Jobs that exhausted their retry attempts, most recently failed first, with the
+ *       final error, the job payload and the error of every attempt.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: queue
+ *         schema:
+ *           type: string
+ *           example: extraction
+ *         description: Only list jobs of this queue
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Failed jobs
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Queue not found
+ */
+router.get('/dead-letters', authenticate, requireAdmin, listDeadLetters);
+
+/**
+ * @swagger
+ * /api/v1/admin/dead-letters/{queue}/{jobId}:
+ *   get:
+ *     summary: Get a failed job with its payload and attempt history
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: queue
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Failed job
+ *       404:
+ *         description: Queue or job not found
+ *       409:
+ *         description: Job has not failed
+ */
+router.get('/dead-letters/:queue/:jobId', authenticate, requireAdmin, getDeadLetter);
+
+/**
+ * @swagger
+ * /api/v1/admin/dead-letters/{queue}/{jobId}/retry:
+ *   post:
+ *     summary: Retry a failed job, optionally with overrides
+ *     description: |
+ *       Moves the job back to its queue for one more attempt. Pipeline stages are reopened
+ *       on the meeting, so stages skipped because of the failure run once it succeeds.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: queue
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               overrides:
+ *                 type: object
+ *                 properties:
+ *                   model:
+ *                     type: string
+ *                     example: gpt-4o
+ *     responses:
+ *       202:
+ *         description: Job queued for retry
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Queue, job or meeting not found
+ *       409:
+ *         description: Job has not failed or the meeting was cancelled
+ */
+router.post('/dead-letters/:queue/:jobId/retry', authenticate, requireAdmin, retryDeadLetter);
+
+/**
+ * @swagger
+ * /api/v1/admin/dead-letters/{queue}/{jobId}:
+ *   delete:
+ *     summary: Discard a failed job
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: queue
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Job discarded
+ *       404:
+ *         description: Queue or job not found
+ *       409:
+ *         description: Job has not failed
+ */
+router.delete('/dead-letters/:queue/:jobId', authenticate, requireAdmin, discardDeadLetter);
+
+export default router;
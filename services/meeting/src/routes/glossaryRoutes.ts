@@ -0,0 +1,273 @@
+import express, { Router } from 'express';
+import { authenticate } from '../middleware/authenticate';
+import { requireProjectAccess } from '../middleware/requireProjectAccess';
+import {
+  addGlossaryTerm,
+  deleteGlossary,
+  deleteGlossaryTerm,
+  getGlossary,
+  replaceGlossary,
+  updateGlossaryTerm,
+} from '../controllers/glossaryController';
+
+const router: Router = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/projects/{projectId}/glossary:
+ *   get:
+ *     summary: Get a project's transcription glossary
+ *     description: |
+ *       Terms, preferred spellings and speaker names of a project. Meetings of the project
+ *       pass the terms to the transcription engine as a hint and have known variants
+ *       corrected in their transcript.
+ *     tags: [Glossary]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Glossary (no terms if the project has none)
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin or member of the project
+ *       500:
+ *         description: Server error
+ *   put:
+ *     summary: Replace all terms of a project's glossary
+ *     tags: [Glossary]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [terms]
+ *             properties:
+ *               terms:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [term]
+ *                   properties:
+ *                     term:
+ *                       type: string
+ *                       example: "Kubernetes"
+ *                     variants:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: ["cooper netties", "kubernetis"]
+ *                     kind:
+ *                       type: string
+ *                       enum: [term, acronym, person]
+ *                       default: term
+ *                     description:
+ *                       type: string
+ *     responses:
+ *       200:
+ *         description: Glossary saved
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin or member of the project
+ *       409:
+ *         description: Duplicate term
+ *       500:
+ *         description: Server error
+ *   delete:
+ *     summary: Delete a project's glossary
+ *     tags: [Glossary]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Glossary deleted
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin or member of the project
+ *       404:
+ *         description: Glossary not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/projects/:projectId/glossary', authenticate, requireProjectAccess, getGlossary);
+router.put('/projects/:projectId/glossary', authenticate, requireProjectAccess, replaceGlossary);
+router.delete('/projects/:projectId/glossary', authenticate, requireProjectAccess, deleteGlossary);
+
+/**
+ * @swagger
+ * /api/v1/projects/{projectId}/glossary/terms:
+ *   post:
+ *     summary: Add a term to a project's glossary
+ *     description: Creates the glossary if the project has none yet.
+ *     tags: [Glossary]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [term]
+ *             properties:
+ *               term:
+ *                 type: string
+ *                 example: "Kubernetes"
+ *               variants:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["cooper netties", "kubernetis"]
+ *               kind:
+ *                 type: string
+ *                 enum: [term, acronym, person]
+ *                 default: term
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Term added
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin or member of the project
+ *       409:
+ *         description: Term already exists
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/projects/:projectId/glossary/terms',
+  authenticate,
+  requireProjectAccess,
+  addGlossaryTerm
+);
+
+/**
+ * @swagger
+ * /api/v1/projects/{projectId}/glossary/terms/{termId}:
+ *   patch:
+ *     summary: Update a glossary term
+ *     description: Only the given fields change.
+ *     tags: [Glossary]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: termId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               term:
+ *                 type: string
+ *               variants:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               kind:
+ *                 type: string
+ *                 enum: [term, acronym, person]
+ *               description:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Term updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin or member of the project
+ *       404:
+ *         description: Glossary or term not found
+ *       409:
+ *         description: Another term has the same spelling
+ *       500:
+ *         description: Server error
+ *   delete:
+ *     summary: Remove a glossary term
+ *     tags: [Glossary]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: termId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Term deleted
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin or member of the project
+ *       404:
+ *         description: Glossary or term not found
+ *       500:
+ *         description: Server error
+ */
+router.patch(
+  '/projects/:projectId/glossary/terms/:termId',
+  authenticate,
+  requireProjectAccess,
+  updateGlossaryTerm
+);
+router.delete(
+  '/projects/:projectId/glossary/terms/:termId',
+  authenticate,
+  requireProjectAccess,
+  deleteGlossaryTerm
+);
+
+export default router;
@@ -1,11 +1,27 @@
 import express, { Router } from 'express';
 import { authenticate } from '../middleware/authenticate';
+import { transcriptUpload, handleMulterError } from '../middleware/upload';
 import {
   createMeeting,
+  importMeeting,
   getMeetingById,
+  getMeetingTimeline,
+  getMeetingSummary,
+  getMeetingClip,
   listMeetings,
+  reprocessMeeting,
+  mapSpeakers,
 } from '../controllers/meetingController';
 import { getMeetingStatus } from '../controllers/jobController';
+import {
+  editTranscriptSegment,
+  getTranscriptReview,
+  getTranscriptRevisions,
+  mergeTranscriptSegments,
+  revertTranscriptRevision,
+  splitTranscriptSegment,
+  verifyTranscriptSegments,
+} from '../controllers/transcriptController';
 
 const router: Router = express.Router();
 
@@ -59,6 +75,93 @@ const router: Router = express.Router();
  */
 router.post('/meetings', authenticate, createMeeting);
 
+/**
+ * @swagger
+ * /api/meetings/import:
+ *   post:
+ *     summary: Create a meeting from an existing transcript
+ *     description: |
+ *       Imports a WebVTT, SRT, Zoom or Teams transcript export, or plain text with
+ *       "Name: text" lines, without a recording. Segments keep the speakers and timestamps
+ *       of the file and every speaker is added as a participant. Transcription is skipped
+ *       (no transcription cost) - the analysis stages are queued straight away.
+ *     tags: [Meetings]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [title, file]
+ *             properties:
+ *               title:
+ *                 type: string
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: .vtt, .srt or .txt file (max 5MB)
+ *               format:
+ *                 type: string
+ *                 enum: [vtt, srt, zoom, teams, text]
+ *                 description: Detected from the content when omitted
+ *               language:
+ *                 type: string
+ *                 example: "en"
+ *               projectId:
+ *                 type: string
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [title, content]
+ *             properties:
+ *               title:
+ *                 type: string
+ *                 example: "Sprint planning"
+ *               content:
+ *                 type: string
+ *                 example: "Jane Doe: Let's start with the backlog.\nJohn Smith: Sure."
+ *               format:
+ *                 type: string
+ *                 enum: [vtt, srt, zoom, teams, text]
+ *               language:
+ *                 type: string
+ *                 example: "en"
+ *               description:
+ *                 type: string
+ *               projectId:
+ *                 type: string
+ *               scheduledAt:
+ *                 type: string
+ *                 format: date-time
+ *               participants:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                     email:
+ *                       type: string
+ *     responses:
+ *       201:
+ *         description: Meeting created from the transcript, analysis queued
+ *       400:
+ *         description: Validation error, unsupported file or empty transcript
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.post(
+  '/meetings/import',
+  authenticate,
+  transcriptUpload.single('file'),
+  handleMulterError,
+  importMeeting
+);
+
 /**
  * @swagger
  * /api/meetings:
@@ -147,6 +250,12 @@ router.get('/meetings', authenticate, listMeetings);
  *         schema:
  *           type: string
  *         description: Meeting ID
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           example: en
+ *         description: Return the transcript translated into this language (ISO 639-1)
  *     responses:
  *       200:
  *         description: Meeting details
@@ -168,7 +277,7 @@ router.get('/meetings', authenticate, listMeetings);
  *       403:
  *         description: Forbidden - No access to this meeting
  *       404:
- *         description: Meeting not found
+ *         description: Meeting not found, or no translation into the requested language
  *       500:
  *         description: Server error
  */
@@ -233,4 +342,788 @@ router.get('/:id', authenticate, getMeetingById);
  */
 router.get('/:id/status', getMeetingStatus);
 
+/**
+ * @swagger
+ * /api/meetings/{id}/timeline:
+ *   get:
+ *     summary: Get meeting timeline
+ *     description: Returns the key moments (topic shifts, decisions, escalations) of a processed meeting with start/end times in seconds
+ *     tags: [Meetings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Meeting ID
+ *     responses:
+ *       200:
+ *         description: Meeting timeline
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     meetingId:
+ *                       type: string
+ *                     duration:
+ *                       type: number
+ *                       example: 1800
+ *                     total:
+ *                       type: integer
+ *                       example: 6
+ *                     timeline:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: string
+ *                           type:
+ *                             type: string
+ *                             enum: [topic_shift, decision, escalation]
+ *                           title:
+ *                             type: string
+ *                             example: "Agreed to delay the Stripe launch"
+ *                           summary:
+ *                             type: string
+ *                           startTime:
+ *                             type: number
+ *                             example: 312.4
+ *                           endTime:
+ *                             type: number
+ *                             example: 398
+ *                           speakers:
+ *                             type: array
+ *                             items:
+ *                               type: string
+ *                           importance:
+ *                             type: string
+ *                             enum: [high, medium, low]
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No access to this meeting
+ *       404:
+ *         description: Meeting not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/:id/timeline', authenticate, getMeetingTimeline);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/summary:
+ *   get:
+ *     summary: Get meeting summary
+ *     description: |
+ *       Returns the executive TL;DR, a summary per agenda topic and the questions left open.
+ *       Length and style follow the project's summary settings at the time the summary was generated.
+ *     tags: [Meetings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Meeting ID
+ *     responses:
+ *       200:
+ *         description: Meeting summary
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     meetingId:
+ *                       type: string
+ *                     summary:
+ *                       type: object
+ *                       properties:
+ *                         tldr:
+ *                           type: string
+ *                           example: "The team agreed to delay the Stripe launch by two weeks to finish the security review."
+ *                         topics:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               title:
+ *                                 type: string
+ *                                 example: "Stripe launch date"
+ *                               summary:
+ *                                 type: string
+ *                               keyPoints:
+ *                                 type: array
+ *                                 items:
+ *                                   type: string
+ *                               source:
+ *                                 type: object
+ *                                 description: Part of the recording the topic was discussed in (seconds)
+ *                                 properties:
+ *                                   startTime:
+ *                                     type: number
+ *                                   endTime:
+ *                                     type: number
+ *                         openQuestions:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               question:
+ *                                 type: string
+ *                               askedBy:
+ *                                 type: string
+ *                         length:
+ *                           type: string
+ *                           enum: [brief, standard, detailed]
+ *                         style:
+ *                           type: string
+ *                           enum: [narrative, bullets]
+ *                         model:
+ *                           type: string
+ *                         generatedAt:
+ *                           type: string
+ *                           format: date-time
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No access to this meeting
+ *       404:
+ *         description: Meeting not found, or summary not generated yet
+ *       500:
+ *         description: Server error
+ */
+router.get('/:id/summary', authenticate, getMeetingSummary);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/clip:
+ *   get:
+ *     summary: Stream an audio clip of the recording
+ *     description: |
+ *       Cuts start..end seconds out of the stored recording and streams it as mono mp3.
+ *       Use the startTime/endTime of a transcript segment, a timeline moment, or the
+ *       source of an action item or decision. The end is clamped to the recording length.
+ *     tags: [Meetings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Meeting ID
+ *       - in: query
+ *         name: start
+ *         required: true
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           example: 312.4
+ *         description: Clip start in seconds
+ *       - in: query
+ *         name: end
+ *         required: true
+ *         schema:
+ *           type: number
+ *           example: 330
+ *         description: Clip end in seconds - at most AUDIO_MAX_CLIP_SECONDS (default 300) after start
+ *     responses:
+ *       200:
+ *         description: Audio clip
+ *         content:
+ *           audio/mpeg:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Invalid range, clip too long, or meeting has no recording
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No access to this meeting
+ *       404:
+ *         description: Meeting not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/:id/clip', authenticate, getMeetingClip);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/reprocess:
+ *   post:
+ *     summary: Re-run pipeline stages for a meeting
+ *     description: |
+ *       Re-queues the selected stages against the stored transcript (transcription
+ *       re-downloads the recording). A requested stage that depends on another requested
+ *       stage runs once that stage completes. Action items added or edited by a user are
+ *       kept, and ones they deleted are not extracted again, unless preserveEditedActionItems
+ *       is false. A transcript corrected by a user is only re-transcribed when
+ *       discardTranscriptEdits is true.
+ *     tags: [Meetings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Meeting ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [stages]
+ *             properties:
+ *               stages:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [transcription, extraction, sentiment, follow-up, timeline, summary, translation]
+ *                 example: ["extraction", "sentiment"]
+ *               preserveEditedActionItems:
+ *                 type: boolean
+ *                 default: true
+ *               discardTranscriptEdits:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       202:
+ *         description: Reprocessing started
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Reprocessing started"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     meetingId:
+ *                       type: string
+ *                     stages:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       400:
+ *         description: Invalid stages, or the meeting has no transcript/recording
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Only the meeting creator can reprocess
+ *       404:
+ *         description: Meeting not found
+ *       409:
+ *         description: Meeting is still being processed, or its transcript has manual edits
+ *       500:
+ *         description: Server error
+ */
+router.post('/:id/reprocess', authenticate, reprocessMeeting);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/speakers:
+ *   put:
+ *     summary: Map diarized speakers to participants
+ *     description: |
+ *       Assigns detected speaker labels ("Speaker 1", "Speaker 2"...) to participant names.
+ *       Participant speaking time is recomputed from the mapped speakers, and names not
+ *       yet in the participant list are added. A null participantName removes a mapping.
+ *     tags: [Meetings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Meeting ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [mappings]
+ *             properties:
+ *               mappings:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [speaker, participantName]
+ *                   properties:
+ *                     speaker:
+ *                       type: string
+ *                       example: "Speaker 1"
+ *                     participantName:
+ *                       type: string
+ *                       nullable: true
+ *                       example: "Jane Doe"
+ *     responses:
+ *       200:
+ *         description: Speakers mapped
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     speakers:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           label:
+ *                             type: string
+ *                           participantName:
+ *                             type: string
+ *                           speakingTime:
+ *                             type: number
+ *                             description: Seconds
+ *                           segmentCount:
+ *                             type: number
+ *                     participants:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *       400:
+ *         description: Invalid mappings, unknown speaker, or the meeting has no speakers
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No access to this meeting
+ *       404:
+ *         description: Meeting not found
+ *       500:
+ *         description: Server error
+ */
+router.put('/:id/speakers', authenticate, mapSpeakers);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/transcript/segments/{index}:
+ *   patch:
+ *     summary: Correct a transcript segment
+ *     description: |
+ *       Changes the text and/or speaker of a segment. Every transcript edit is stored as a
+ *       revision, regenerates fullText and speaker statistics, and marks the transcript
+ *       as human-corrected. The segment is marked as reviewed (corrected). Translations are removed - reprocess the translation stage
+ *       to refresh them. Analysis stages that already ran are flagged stale (staleStages in the
+ *       response, stale in the pipeline status) until they are reprocessed.
+ *     tags: [Meetings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Meeting ID
+ *       - in: path
+ *         name: index
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *         description: Position of the segment in transcript.segments
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               text:
+ *                 type: string
+ *                 example: "We ship the Kubernetes migration on Friday."
+ *               speaker:
+ *                 type: string
+ *                 nullable: true
+ *                 example: "Speaker 2"
+ *     responses:
+ *       200:
+ *         description: Transcript updated - returns the transcript, the new revision and the stale stages
+ *       400:
+ *         description: Validation error, or the meeting has no transcript
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No access to this meeting
+ *       404:
+ *         description: Meeting or segment not found
+ *       409:
+ *         description: Meeting is being transcribed, or the transcript was edited concurrently
+ *       500:
+ *         description: Server error
+ */
+router.patch('/:id/transcript/segments/:index', authenticate, editTranscriptSegment);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/transcript/segments/{index}/merge:
+ *   patch:
+ *     summary: Merge a transcript segment with the segments after it
+ *     description: The merged segment keeps the start time and speaker of the first one.
+ *     tags: [Meetings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Meeting ID
+ *       - in: path
+ *         name: index
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *         description: Position of the segment in transcript.segments
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               count:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 50
+ *                 default: 1
+ *                 description: Number of following segments to merge in
+ *     responses:
+ *       200:
+ *         description: Transcript updated - returns the transcript and the new revision
+ *       400:
+ *         description: Validation error, or the meeting has no transcript
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No access to this meeting
+ *       404:
+ *         description: Meeting or segment not found
+ *       409:
+ *         description: Meeting is being transcribed, or the transcript was edited concurrently
+ *       500:
+ *         description: Server error
+ */
+router.patch('/:id/transcript/segments/:index/merge', authenticate, mergeTranscriptSegments);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/transcript/segments/{index}/split:
+ *   patch:
+ *     summary: Split a transcript segment in two
+ *     description: |
+ *       The second segment starts at the given character offset of the text. Its start time
+ *       is interpolated from the offset unless a timestamp is given.
+ *     tags: [Meetings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Meeting ID
+ *       - in: path
+ *         name: index
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *         description: Position of the segment in transcript.segments
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [offset]
+ *             properties:
+ *               offset:
+ *                 type: integer
+ *                 minimum: 1
+ *                 example: 42
+ *               timestamp:
+ *                 type: number
+ *                 description: Start of the second segment (seconds)
+ *               speaker:
+ *                 type: string
+ *                 description: Speaker of the second segment - defaults to the original speaker
+ *     responses:
+ *       200:
+ *         description: Transcript updated - returns the transcript and the new revision
+ *       400:
+ *         description: Validation error, or the meeting has no transcript
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No access to this meeting
+ *       404:
+ *         description: Meeting or segment not found
+ *       409:
+ *         description: Meeting is being transcribed, or the transcript was edited concurrently
+ *       500:
+ *         description: Server error
+ */
+router.patch('/:id/transcript/segments/:index/split', authenticate, splitTranscriptSegment);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/transcript/revisions:
+ *   get:
+ *     summary: Transcript edit history
+ *     description: Revisions newest first - each one with the segments it replaced and added.
+ *     tags: [Meetings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Meeting ID
+ *     responses:
+ *       200:
+ *         description: Revisions
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No access to this meeting
+ *       404:
+ *         description: Meeting not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/:id/transcript/revisions', authenticate, getTranscriptRevisions);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/transcript/revisions/{revision}/revert:
+ *   post:
+ *     summary: Revert a transcript revision
+ *     description: |
+ *       Restores the segments the revision replaced. The revert is recorded as a new
+ *       revision. Fails if a later edit changed the same segments.
+ *     tags: [Meetings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Meeting ID
+ *       - in: path
+ *         name: revision
+ *         required: true
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *     responses:
+ *       200:
+ *         description: Revision reverted
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No access to this meeting
+ *       404:
+ *         description: Meeting or revision not found
+ *       409:
+ *         description: Already reverted, or conflicts with later edits
+ *       500:
+ *         description: Server error
+ */
+router.post('/:id/transcript/revisions/:revision/revert', authenticate, revertTranscriptRevision);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/transcript/review:
+ *   get:
+ *     summary: Low-confidence transcript segments to review
+ *     description: |
+ *       Segments the transcription engine was unsure about, in transcript order, with the
+ *       part of the recording they cover. Check them against the audio, then verify them or
+ *       correct them with PATCH /api/meetings/{id}/transcript/segments/{index}.
+ *     tags: [Meetings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Meeting ID
+ *       - in: query
+ *         name: threshold
+ *         schema:
+ *           type: number
+ *           minimum: 0
+ *           maximum: 1
+ *         description: Confidence below which segments are listed (default TRANSCRIPT_REVIEW_THRESHOLD, 0.6)
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, verified, corrected, all]
+ *           default: pending
+ *     responses:
+ *       200:
+ *         description: Review queue
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     threshold:
+ *                       type: number
+ *                       example: 0.6
+ *                     segments:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           index:
+ *                             type: integer
+ *                           text:
+ *                             type: string
+ *                           speaker:
+ *                             type: string
+ *                           confidence:
+ *                             type: number
+ *                           startTime:
+ *                             type: number
+ *                           endTime:
+ *                             type: number
+ *                           review:
+ *                             type: object
+ *                             properties:
+ *                               status:
+ *                                 type: string
+ *                                 enum: [verified, corrected]
+ *                               reviewedBy:
+ *                                 type: string
+ *                               reviewedAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                     summary:
+ *                       type: object
+ *                       properties:
+ *                         flagged:
+ *                           type: integer
+ *                         pending:
+ *                           type: integer
+ *                         verified:
+ *                           type: integer
+ *                         corrected:
+ *                           type: integer
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No access to this meeting
+ *       404:
+ *         description: Meeting not found
+ *       500:
+ *         description: Server error
+ */
+router.get('/:id/transcript/review', authenticate, getTranscriptReview);
+
+/**
+ * @swagger
+ * /api/meetings/{id}/transcript/review/verify:
+ *   post:
+ *     summary: Mark transcript segments as verified
+ *     description: The segments were checked against the recording and are correct as they are.
+ *     tags: [Meetings]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Meeting ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [indexes]
+ *             properties:
+ *               indexes:
+ *                 type: array
+ *                 items:
+ *                   type: integer
+ *                 example: [3, 17, 42]
+ *     responses:
+ *       200:
+ *         description: Segments verified
+ *       400:
+ *         description: Validation error, or the meeting has no transcript
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - No access to this meeting
+ *       404:
+ *         description: Meeting or segment not found
+ *       409:
+ *         description: Meeting is being transcribed, or the transcript was edited concurrently
+ *       500:
+ *         description: Server error
+ */
+router.post('/:id/transcript/review/verify', authenticate, verifyTranscriptSegments);
+
 export default router;
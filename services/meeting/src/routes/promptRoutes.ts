@@ -0,0 +1,291 @@
+import express, { Router } from 'express';
+import { authenticate } from '../middleware/authenticate';
+import { requireAdmin } from '../middleware/requireAdmin';
+import {
+  activatePromptVersion,
+  cancelPromptExperiment,
+  createPromptExperiment,
+  createPromptVersion,
+  getPromptExperiment,
+  getPromptVersion,
+  listPromptExperiments,
+  listPromptVersions,
+} from '../controllers/promptController';
+
+const router: Router = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/admin/prompts/{name}/versions:
+ *   get:
+ *     summary: List the versions of a prompt
+ *     description: |
+ *       v1 is the built-in template. The active version is the one the pipeline uses;
+ *       extracted items, sentiment and follow-ups record the version that produced them.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [action-items, decisions, sentiment, follow-up]
+ *     responses:
+ *       200:
+ *         description: Versions, oldest first
+ *       400:
+ *         description: Unknown prompt
+ *       403:
+ *         description: Admin access required
+ */
+router.get('/prompts/:name/versions', authenticate, requireAdmin, listPromptVersions);
+
+/**
+ * @swagger
+ * /api/v1/admin/prompts/{name}/versions:
+ *   post:
+ *     summary: Add a prompt version
+ *     description: |
+ *       The template must contain every placeholder the stage fills in -
+ *       {transcript} for action-items and decisions, {transcript} and {participants}
+ *       for sentiment, {commitments} and {transcript} for follow-up.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [action-items, decisions, sentiment, follow-up]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [template]
+ *             properties:
+ *               version:
+ *                 type: string
+ *                 description: Defaults to the next "vN"
+ *                 example: v2
+ *               template:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *                 example: Ask for implicit action items explicitly
+ *               activate:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       201:
+ *         description: Prompt version created
+ *       400:
+ *         description: Validation error or missing placeholders
+ *       403:
+ *         description: Admin access required
+ *       409:
+ *         description: Version already exists
+ */
+router.post('/prompts/:name/versions', authenticate, requireAdmin, createPromptVersion);
+
+/**
+ * @swagger
+ * /api/v1/admin/prompts/{name}/versions/{version}:
+ *   get:
+ *     summary: Get the template of a prompt version
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [action-items, decisions, sentiment, follow-up]
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Prompt template
+ *       404:
+ *         description: Prompt version not found
+ */
+router.get('/prompts/:name/versions/:version', authenticate, requireAdmin, getPromptVersion);
+
+/**
+ * @swagger
+ * /api/v1/admin/prompts/{name}/versions/{version}/activate:
+ *   post:
+ *     summary: Use a prompt version in the pipeline
+ *     description: Activating v1 switches back to the built-in template.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [action-items, decisions, sentiment, follow-up]
+ *       - in: path
+ *         name: version
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Prompt version activated
+ *       404:
+ *         description: Prompt version not found
+ */
+router.post(
+  '/prompts/:name/versions/:version/activate',
+  authenticate,
+  requireAdmin,
+  activatePromptVersion
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/prompt-experiments:
+ *   post:
+ *     summary: Run two prompt versions side by side on a sample of meetings
+ *     description: |
+ *       Draws a random sample of meetings with a stored transcript (search-style filters,
+ *       or an explicit list of meetings) and runs the baseline and candidate version of the
+ *       prompt on each. Outputs are kept on the experiment only - meetings are not changed.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [prompt, candidate]
+ *             properties:
+ *               prompt:
+ *                 type: string
+ *                 enum: [action-items, decisions, sentiment, follow-up]
+ *               baseline:
+ *                 type: string
+ *                 description: Defaults to the active version
+ *               candidate:
+ *                 type: string
+ *                 example: v2
+ *               sampleSize:
+ *                 type: integer
+ *                 default: 20
+ *                 maximum: 100
+ *               filters:
+ *                 type: object
+ *                 properties:
+ *                   query:
+ *                     type: string
+ *                   status:
+ *                     type: array
+ *                     items:
+ *                       type: string
+ *                   projectId:
+ *                     type: string
+ *                   createdBy:
+ *                     type: string
+ *                   dateFrom:
+ *                     type: string
+ *                     format: date-time
+ *                   dateTo:
+ *                     type: string
+ *                     format: date-time
+ *               meetingIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       201:
+ *         description: Experiment started
+ *       400:
+ *         description: Validation error, same versions, or no meetings matched
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Prompt version not found
+ */
+router.post('/prompt-experiments', authenticate, requireAdmin, createPromptExperiment);
+
+/**
+ * @swagger
+ * /api/v1/admin/prompt-experiments:
+ *   get:
+ *     summary: List recent prompt experiments with progress
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Prompt experiments
+ *       403:
+ *         description: Admin access required
+ */
+router.get('/prompt-experiments', authenticate, requireAdmin, listPromptExperiments);
+
+/**
+ * @swagger
+ * /api/v1/admin/prompt-experiments/{id}:
+ *   get:
+ *     summary: Get a prompt experiment with its comparison report
+ *     description: |
+ *       The report compares the versions over the meetings run so far - cost, tokens and
+ *       repairs of each, plus items per meeting and grounding rate (action items, decisions),
+ *       average scores (sentiment) or detections (follow-up), and how often the two agree.
+ *       Meetings where the versions found different items are listed for review.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Experiment, per-meeting outputs and report
+ *       404:
+ *         description: Prompt experiment not found
+ */
+router.get('/prompt-experiments/:id', authenticate, requireAdmin, getPromptExperiment);
+
+/**
+ * @swagger
+ * /api/v1/admin/prompt-experiments/{id}/cancel:
+ *   post:
+ *     summary: Cancel a prompt experiment
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Experiment cancelled - meetings already run stay in the report
+ *       409:
+ *         description: Experiment already finished
+ */
+router.post('/prompt-experiments/:id/cancel', authenticate, requireAdmin, cancelPromptExperiment);
+
+export default router;
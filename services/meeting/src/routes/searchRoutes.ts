@@ -145,6 +145,12 @@ router.get('/meetings/recent', getRecentMeetingsController);
  *         schema:
  *           type: string
  *         description: Meeting ID
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           example: en
+ *         description: Use the transcript translated into this language (ISO 639-1)
  *     responses:
  *       200:
  *         description: PDF file download
@@ -153,8 +159,10 @@ router.get('/meetings/recent', getRecentMeetingsController);
  *             schema:
  *               type: string
  *               format: binary
+ *       400:
+ *         description: Invalid language code
  *       404:
- *         description: Meeting not found
+ *         description: Meeting not found, or no translation into the requested language
  *       500:
  *         description: Server error
  */
@@ -173,6 +181,12 @@ router.get('/meetings/:id/export/pdf', exportMeetingToPDF);
  *         schema:
  *           type: string
  *         description: Meeting ID
+ *       - in: query
+ *         name: lang
+ *         schema:
+ *           type: string
+ *           example: en
+ *         description: Use the transcript translated into this language (ISO 639-1)
  *     responses:
  *       200:
  *         description: Markdown file download
@@ -180,8 +194,10 @@ router.get('/meetings/:id/export/pdf', exportMeetingToPDF);
  *           text/markdown:
  *             schema:
  *               type: string
+ *       400:
+ *         description: Invalid language code
  *       404:
- *         description: Meeting not found
+ *         description: Meeting not found, or no translation into the requested language
  *       500:
  *         description: Server error
  */
@@ -0,0 +1,121 @@
+import express, { Router } from 'express';
+import { authenticate } from '../middleware/authenticate';
+import { requireProjectAccess } from '../middleware/requireProjectAccess';
+import {
+  deleteSummarySettings,
+  getSummarySettings,
+  saveSummarySettings,
+} from '../controllers/summaryController';
+
+const router: Router = express.Router();
+
+/**
+ * @swagger
+ * /api/v1/projects/{projectId}/summary-settings:
+ *   get:
+ *     summary: Get a project's meeting summary settings
+ *     description: |
+ *       Length and style of the summaries generated for meetings of the project.
+ *       Projects without settings get the service defaults (isDefault is true).
+ *     tags: [Summaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Summary settings
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin or member of the project
+ *       500:
+ *         description: Server error
+ *   put:
+ *     summary: Replace a project's meeting summary settings
+ *     description: Omitted fields use the service defaults. Applies to summaries generated from now on.
+ *     tags: [Summaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               length:
+ *                 type: string
+ *                 enum: [brief, standard, detailed]
+ *               style:
+ *                 type: string
+ *                 enum: [narrative, bullets]
+ *               instructions:
+ *                 type: string
+ *                 maxLength: 500
+ *                 example: "Call out any impact on the Q3 roadmap"
+ *     responses:
+ *       200:
+ *         description: Summary settings saved
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin or member of the project
+ *       500:
+ *         description: Server error
+ *   delete:
+ *     summary: Delete a project's meeting summary settings
+ *     description: The project goes back to the service defaults.
+ *     tags: [Summaries]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: projectId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Summary settings deleted
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Not an admin or member of the project
+ *       404:
+ *         description: Summary settings not found
+ *       500:
+ *         description: Server error
+ */
+router.get(
+  '/projects/:projectId/summary-settings',
+  authenticate,
+  requireProjectAccess,
+  getSummarySettings
+);
+router.put(
+  '/projects/:projectId/summary-settings',
+  authenticate,
+  requireProjectAccess,
+  saveSummarySettings
+);
+router.delete(
+  '/projects/:projectId/summary-settings',
+  authenticate,
+  requireProjectAccess,
+  deleteSummarySettings
+);
+
+export default router;
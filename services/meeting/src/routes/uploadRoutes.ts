@@ -29,6 +29,10 @@ const router: Router = express.Router();
  *                 type: string
  *                 description: Optional meeting title
  *                 example: "Weekly Team Standup"
+ *               transcriptionProvider:
+ *                 type: string
+ *                 enum: [openai, local, mock]
+ *                 description: Transcription engine for this meeting (defaults to the deployment's). "local" keeps audio on the self-hosted server.
  *     responses:
  *       201:
  *         description: File uploaded successfully and meeting created
@@ -197,5 +201,4 @@ router.post('/upload', upload.single('file'), handleMulterError, uploadFile);
  */
 router.patch('/:id/upload', upload.single('file'), handleMulterError, attachFile);
 
-
 export default router;
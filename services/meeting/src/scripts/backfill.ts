@@ -0,0 +1,151 @@
+import mongoose from 'mongoose';
+import { connectDatabase } from '../config/db';
+import { BaseQueue } from '../queue/baseQueue';
+import { BackfillService } from '../services/backfillService';
+import { IBackfill } from '../models/Backfill';
+import { backfillRequestSchema } from '../validators/backfillValidator';
+
+/**
+ * Backfill CLI
+ * Creates and controls backfills - the meeting service workers do the processing.
+ *
+ *   pnpm backfill start --stages extraction [--status completed] [--project p1]
+ *                       [--from 2024-01-01] [--to 2024-06-30] [--query text]
+ *                       [--created-by <userId>] [--rate 10] [--no-preserve] [--dry-run]
+ *   pnpm backfill list
+ *   pnpm backfill status|pause|resume|cancel <backfillId>
+ */
+
+const backfillService = new BackfillService();
+
+const USAGE = `Usage:
+  backfill start --stages <s1,s2> [--status <s1,s2>] [--project <id>] [--from <date>] [--to <date>]
+                 [--query <text>] [--created-by <userId>] [--rate <perMinute>] [--no-preserve] [--dry-run]
+  backfill list
+  backfill status|pause|resume|cancel <backfillId>`;
+
+/**
+ * Parse `--key value` and `--flag` arguments
+ */
+const parseFlags = (args: string[]): Record<string, string | boolean> => {
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) continue;
+
+    const key = args[i].slice(2);
+    const value = args[i + 1];
+    if (value && !value.startsWith('--')) {
+      flags[key] = value;
+      i++;
+    } else {
+      flags[key] = true;
+    }
+  }
+
+  return flags;
+};
+
+const list = (value: string | boolean | undefined): string[] | undefined =>
+  typeof value === 'string' ? value.split(',').map((item) => item.trim()) : undefined;
+
+const text = (value: string | boolean | undefined): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+const printBackfill = (backfill: IBackfill): void => {
+  const { progress } = backfillService.formatBackfill(backfill);
+
+  console.log(`\n📦 Backfill ${backfill._id}`);
+  console.log(`   Status: ${backfill.status}`);
+  console.log(`   Stages: ${backfill.stages.join(', ')}`);
+  console.log(
+    `   Progress: ${backfill.processed}/${backfill.total} (${progress}%) - ` +
+      `${backfill.queued} queued, ${backfill.skipped} skipped, ${backfill.failed} failed`
+  );
+  console.log(`   Rate: ${backfill.ratePerMinute}/min`);
+  console.log(`   Estimated cost: $${backfill.estimatedCost.toFixed(2)}`);
+};
+
+const run = async (): Promise<void> => {
+  const [command, ...args] = process.argv.slice(2);
+  const flags = parseFlags(args);
+  const backfillId = args.find((arg) => !arg.startsWith('--'));
+
+  switch (command) {
+    case 'start': {
+      const request = backfillRequestSchema.parse({
+        stages: list(flags.stages),
+        filters: {
+          query: text(flags.query),
+          status: list(flags.status),
+          projectId: text(flags.project),
+          createdBy: text(flags['created-by']),
+          dateFrom: text(flags.from),
+          dateTo: text(flags.to),
+        },
+        ratePerMinute: text(flags.rate) ? parseInt(text(flags.rate)!) : undefined,
+        preserveEditedActionItems: !flags['no-preserve'],
+        dryRun: flags['dry-run'] === true,
+      });
+      const { dryRun, ...backfillRequest } = request;
+
+      if (dryRun) {
+        const estimate = await backfillService.estimateBackfill(backfillRequest);
+        console.log('\n🧮 Dry run');
+        console.log(`   Meetings: ${estimate.matched}`);
+        console.log(`   Estimated cost: $${estimate.estimatedCost.toFixed(2)}`);
+        Object.entries(estimate.costByStage).forEach(([stage, cost]) => {
+          console.log(`     ${stage}: $${(cost || 0).toFixed(2)}`);
+        });
+        console.log(
+          `   Duration: ~${estimate.estimatedMinutes} min at ${estimate.ratePerMinute}/min`
+        );
+        return;
+      }
+
+      const backfill = await backfillService.createBackfill(backfillRequest, 'cli');
+      printBackfill(backfill);
+      return;
+    }
+
+    case 'list': {
+      const backfills = await backfillService.listBackfills();
+      backfills.forEach((backfill) => printBackfill(backfill));
+      return;
+    }
+
+    case 'status':
+    case 'pause':
+    case 'resume':
+    case 'cancel': {
+      if (!backfillId) {
+        throw new Error(USAGE);
+      }
+
+      const actions = {
+        status: () => backfillService.getBackfill(backfillId),
+        pause: () => backfillService.pauseBackfill(backfillId),
+        resume: () => backfillService.resumeBackfill(backfillId),
+        cancel: () => backfillService.cancelBackfill(backfillId),
+      };
+      const backfill = await actions[command]();
+      printBackfill(backfill);
+      return;
+    }
+
+    default:
+      throw new Error(USAGE);
+  }
+};
+
+connectDatabase()
+  .then(run)
+  .then(() => (process.exitCode = 0))
+  .catch((error) => {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await Promise.all(BaseQueue.getRegisteredQueues().map((queue) => queue.close()));
+    await mongoose.disconnect();
+  });
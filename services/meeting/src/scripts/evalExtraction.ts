@@ -0,0 +1,239 @@
+import fs from 'fs';
+import path from 'path';
+import mongoose from 'mongoose';
+import { connectDatabase } from '../config/db';
+import { PromptName, PromptVersions } from '../models/PromptVersion';
+import { BUILT_IN_PROMPT_VERSION } from '../prompts/registry';
+import {
+  ActionItemScores,
+  DecisionScores,
+  ExtractionEvalService,
+  ExtractionEvaluation,
+  createLabelResponder,
+} from '../services/extractionEvalService';
+import { FakeLLMProvider } from '../services/fakeLLMProvider';
+import { LLMService } from '../services/llmService';
+import { RecordedLLMProvider } from '../services/recordedLLMProvider';
+
+/**
+ * Extraction Evaluation CLI
+ * Scores action item and decision extraction against a golden dataset
+ * (format in validators/evaluationValidator.ts, example in eval/extraction/sample.json).
+ *
+ *   pnpm eval:extraction --dataset eval/extraction/sample.json            # fake LLM answering with the labels
+ *   pnpm eval:extraction --dataset <file> --provider live --record <file> # LLM_PROVIDER, answers recorded
+ *   pnpm eval:extraction --dataset <file> --provider recorded --recordings <file>
+ *
+ *   [--model <model>] [--prompt action-items=v2,decisions=v3] [--threshold 0.5]
+ *   [--out report.json] [--min-f1 0.8]
+ *
+ * Built-in prompts are used unless --prompt is given - stored versions need MONGODB_URI.
+ * Exits non-zero when a meeting fails or an F1 score is below --min-f1.
+ */
+
+const EXTRACTION_PROMPTS: PromptName[] = ['action-items', 'decisions'];
+
+const evalService = new ExtractionEvalService();
+
+const USAGE = `Usage:
+  eval:extraction --dataset <file> [--provider fake|recorded|live] [--recordings <file>] [--record <file>]
+                  [--model <model>] [--prompt <name=version,...>] [--threshold <0-1>] [--out <file>]
+                  [--min-f1 <0-1>]`;
+
+/**
+ * Parse `--key value` and `--flag` arguments
+ */
+const parseFlags = (args: string[]): Record<string, string | boolean> => {
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    if (!args[i].startsWith('--')) continue;
+
+    const key = args[i].slice(2);
+    const value = args[i + 1];
+    if (value && !value.startsWith('--')) {
+      flags[key] = value;
+      i++;
+    } else {
+      flags[key] = true;
+    }
+  }
+
+  return flags;
+};
+
+const text = (value: string | boolean | undefined): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+const ratio = (value: string | boolean | undefined, flag: string): number | undefined => {
+  if (value === undefined) return undefined;
+
+  const number = parseFloat(text(value) || '');
+  if (isNaN(number) || number < 0 || number > 1) {
+    throw new Error(`--${flag} must be between 0 and 1`);
+  }
+  return number;
+};
+
+/**
+ * "action-items=v2,decisions=v3" - prompts not given use the built-in version
+ */
+const parsePromptVersions = (value: string | undefined): PromptVersions => {
+  const versions: PromptVersions = {
+    'action-items': BUILT_IN_PROMPT_VERSION,
+    decisions: BUILT_IN_PROMPT_VERSION,
+  };
+
+  (value ? value.split(',') : []).forEach((entry) => {
+    const [name, version] = entry.split('=').map((part) => part.trim());
+    if (!EXTRACTION_PROMPTS.includes(name as PromptName) || !version) {
+      throw new Error(`Invalid --prompt entry "${entry}" - expected <prompt>=<version>`);
+    }
+    versions[name as PromptName] = version;
+  });
+
+  return versions;
+};
+
+const percent = (value: number): string => `${Math.round(value * 100)}%`;
+
+const printScores = (label: string, scores: ActionItemScores | DecisionScores): void => {
+  console.log(
+    `   ${label}: P ${scores.precision.toFixed(2)}  R ${scores.recall.toFixed(2)}  ` +
+      `F1 ${scores.f1.toFixed(2)}  (${scores.matched}/${scores.expected} found, ` +
+      `${scores.extracted} extracted, ${percent(scores.groundedRate)} grounded)`
+  );
+
+  const fields =
+    'madeBy' in scores
+      ? { 'Made by': scores.madeBy }
+      : { Assignee: scores.assignee, 'Due date': scores.dueDate };
+  Object.entries(fields).forEach(([name, accuracy]) => {
+    console.log(
+      `     ${name} accuracy: ${percent(accuracy.accuracy)} (${accuracy.correct}/${accuracy.scored})`
+    );
+  });
+};
+
+const printEvaluation = (evaluation: ExtractionEvaluation): void => {
+  const prompts = Object.entries(evaluation.promptVersions)
+    .map(([name, version]) => `${name} ${version}`)
+    .join(', ');
+
+  console.log(`\n📊 Extraction evaluation: ${evaluation.dataset}`);
+  console.log(`   Meetings: ${evaluation.meetings} scored, ${evaluation.failed} failed`);
+  console.log(`   Model: ${evaluation.model || 'default'} - prompts ${prompts}`);
+  console.log(`   Match threshold: ${evaluation.threshold}`);
+  printScores('Action items', evaluation.actionItems);
+  printScores('Decisions', evaluation.decisions);
+  console.log(
+    `   Cost: $${evaluation.cost.toFixed(4)} - ${evaluation.tokensUsed.input} input, ` +
+      `${evaluation.tokensUsed.output} output tokens, ${evaluation.repairs} repairs`
+  );
+
+  evaluation.results.forEach((result) => {
+    if (result.error) {
+      console.log(`\n❌ ${result.id}: ${result.error}`);
+      return;
+    }
+
+    const perfect =
+      result.missed.length === 0 &&
+      result.unexpected.length === 0 &&
+      result.wrongFields.length === 0;
+    console.log(
+      `\n${perfect ? '✅' : '⚠️ '} ${result.id}: action items F1 ${result.actionItems!.f1.toFixed(2)}, ` +
+        `decisions F1 ${result.decisions!.f1.toFixed(2)}`
+    );
+    result.missed.forEach((description) => console.log(`   - missed: ${description}`));
+    result.unexpected.forEach((description) => console.log(`   + unexpected: ${description}`));
+    result.wrongFields.forEach((mismatch) => console.log(`   ≠ ${mismatch}`));
+  });
+};
+
+const run = async (): Promise<void> => {
+  const flags = parseFlags(process.argv.slice(2));
+  const datasetPath = text(flags.dataset);
+  if (!datasetPath) {
+    throw new Error(USAGE);
+  }
+
+  const dataset = await evalService.loadDataset(datasetPath);
+  const promptVersions = parsePromptVersions(text(flags.prompt));
+  const threshold = ratio(flags.threshold, 'threshold');
+  const minF1 = ratio(flags['min-f1'], 'min-f1');
+
+  // Step 1: Pick the LLM - labels, recorded answers, or the configured provider
+  let recorder: RecordedLLMProvider | undefined;
+  switch (text(flags.provider) || 'fake') {
+    case 'fake':
+      LLMService.setProvider(new FakeLLMProvider(createLabelResponder(dataset)));
+      break;
+    case 'recorded': {
+      const recordings = text(flags.recordings);
+      if (!recordings) {
+        throw new Error('--recordings <file> is required for the recorded provider');
+      }
+      LLMService.setProvider(new RecordedLLMProvider(recordings));
+      break;
+    }
+    case 'live':
+      if (text(flags.record)) {
+        recorder = new RecordedLLMProvider(text(flags.record)!, LLMService.getProvider());
+        LLMService.setProvider(recorder);
+      }
+      break;
+    default:
+      throw new Error(USAGE);
+  }
+
+  // Step 2: Stored prompt versions live in Mongo - built-in ones don't need it
+  if (Object.values(promptVersions).some((version) => version !== BUILT_IN_PROMPT_VERSION)) {
+    await connectDatabase();
+  }
+
+  // Step 3: Evaluate, keeping whatever was recorded even when a meeting failed
+  let evaluation: ExtractionEvaluation;
+  try {
+    evaluation = await evalService.evaluate(dataset, {
+      model: text(flags.model),
+      promptVersions,
+      threshold,
+    });
+  } finally {
+    if (recorder) {
+      console.log(`📼 Recorded ${await recorder.save()} new responses to ${text(flags.record)}`);
+    }
+  }
+
+  printEvaluation(evaluation);
+
+  const out = text(flags.out);
+  if (out) {
+    await fs.promises.mkdir(path.dirname(out), { recursive: true });
+    await fs.promises.writeFile(out, JSON.stringify(evaluation, null, 2));
+    console.log(`\n📝 Report written to ${out}`);
+  }
+
+  // Step 4: Fail the run (e.g. in CI) when extraction regressed
+  if (evaluation.failed > 0) {
+    throw new Error(`${evaluation.failed} meeting(s) failed`);
+  }
+
+  const belowMin = (['actionItems', 'decisions'] as const).filter(
+    (kind) => minF1 !== undefined && evaluation[kind].f1 < minF1
+  );
+  if (belowMin.length > 0) {
+    throw new Error(`F1 below ${minF1} for ${belowMin.join(', ')}`);
+  }
+};
+
+run()
+  .then(() => (process.exitCode = 0))
+  .catch((error) => {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await mongoose.disconnect();
+  });
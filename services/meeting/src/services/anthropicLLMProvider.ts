@@ -0,0 +1,84 @@
+import axios from 'axios';
+import { calculateTokenCost } from '../config/llm';
+import { LLMCompletion, LLMCompletionRequest, LLMProvider, LLMTokenUsage } from '../types/llm';
+
+const API_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096; // The Messages API requires a limit
+const REQUEST_TIMEOUT = 5 * 60 * 1000; // 5 minutes - long transcripts take a while
+
+/**
+ * Anthropic Messages API Provider
+ * Claude has no JSON response mode - JSON answers are cut out of the reply text
+ */
+export class AnthropicLLMProvider implements LLMProvider {
+  readonly name = 'anthropic';
+
+  constructor(
+    private readonly url: string,
+    private readonly apiKey: string,
+    readonly defaultModel: string
+  ) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    // System prompts are a top-level field, not a message
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+    const messages = request.messages.filter((message) => message.role !== 'system');
+
+    try {
+      const response = await axios.post(
+        `${this.url.replace(/\/$/, '')}/v1/messages`,
+        {
+          model: request.model,
+          max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+          temperature: request.temperature,
+          system: request.json
+            ? `${system}\n\nRespond with the JSON only - no markdown, no explanation.`.trim()
+            : system || undefined,
+          messages,
+        },
+        {
+          headers: {
+            'x-api-key': this.apiKey,
+            'anthropic-version': API_VERSION,
+          },
+          timeout: REQUEST_TIMEOUT,
+        }
+      );
+
+      const text = (response.data?.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+
+      return {
+        content: request.json ? this.extractJson(text) : text,
+        model: response.data?.model || request.model,
+        tokensUsed: {
+          input: response.data?.usage?.input_tokens || 0,
+          output: response.data?.usage?.output_tokens || 0,
+        },
+      };
+    } catch (error: any) {
+      const message = error.response?.data?.error?.message || error.message;
+      throw new Error(`Anthropic request failed: ${message}`);
+    }
+  }
+
+  calculateCost(model: string, tokensUsed: LLMTokenUsage): number {
+    return calculateTokenCost(model, tokensUsed);
+  }
+
+  /**
+   * JSON value in a reply that may be wrapped in a ```json fence or prose
+   */
+  private extractJson(text: string): string {
+    const unfenced = text.replace(/```(?:json)?/g, '').trim();
+    const start = unfenced.search(/[[{]/);
+    const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+
+    return start !== -1 && end > start ? unfenced.slice(start, end + 1) : unfenced;
+  }
+}
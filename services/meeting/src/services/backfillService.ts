@@ -0,0 +1,209 @@
+import mongoose from 'mongoose';
+import { Backfill, IBackfill, IBackfillFilters } from '../models/Backfill';
+import { Meeting, ProcessingStageName } from '../models/Meeting';
+import { BackfillRunner } from '../orchestration/backfillRunner';
+import { config } from '../config/config';
+import { LLMService } from './llmService';
+
+const CHARS_PER_TOKEN = 4; // Rough average for English text
+
+// Backfills run against stored transcripts, so transcription is not available
+export type BackfillStageName = Exclude<ProcessingStageName, 'transcription'>;
+
+// Per-stage estimate when a meeting has no recorded cost for the stage yet
+const STAGE_ESTIMATES: Record<
+  BackfillStageName,
+  { calls: number; promptTokens: number; outputTokens: number }
+> = {
+  extraction: { calls: 2, promptTokens: 400, outputTokens: 600 }, // Action items + decisions
+  sentiment: { calls: 1, promptTokens: 500, outputTokens: 800 },
+  'follow-up': { calls: 1, promptTokens: 600, outputTokens: 400 },
+  timeline: { calls: 1, promptTokens: 500, outputTokens: 800 },
+  summary: { calls: 1, promptTokens: 600, outputTokens: 700 },
+  translation: { calls: 1, promptTokens: 300, outputTokens: 2000 }, // Per target language
+};
+
+export interface BackfillRequest {
+  stages: BackfillStageName[];
+  filters: IBackfillFilters;
+  ratePerMinute?: number;
+  preserveEditedActionItems: boolean;
+}
+
+export interface BackfillEstimate {
+  matched: number;
+  estimatedCost: number; // USD
+  costByStage: Partial<Record<BackfillStageName, number>>;
+  ratePerMinute: number;
+  estimatedMinutes: number;
+}
+
+export class BackfillService {
+  /**
+   * Dry run - count matching meetings and estimate the AI cost
+   * Uses the cost recorded for a stage's previous run when there is one
+   */
+  async estimateBackfill(request: BackfillRequest): Promise<BackfillEstimate> {
+    const ratePerMinute = request.ratePerMinute || config.backfill.defaultRatePerMinute;
+    const costByStage: Partial<Record<BackfillStageName, number>> = {};
+    request.stages.forEach((stage) => (costByStage[stage] = 0));
+
+    let matched = 0;
+    const cursor = Meeting.find(BackfillRunner.buildMeetingQuery(request.filters))
+      .select('transcript.fullText processing.stages')
+      .lean()
+      .cursor();
+
+    for await (const meeting of cursor) {
+      matched++;
+      const transcriptTokens = Math.ceil(
+        (meeting.transcript?.fullText.length || 0) / CHARS_PER_TOKEN
+      );
+
+      for (const stage of request.stages) {
+        const previousCost = meeting.processing?.stages?.[stage]?.cost;
+        costByStage[stage] =
+          (costByStage[stage] || 0) +
+          (previousCost ?? this.estimateStageCost(stage, transcriptTokens));
+      }
+    }
+
+    const estimatedCost = Object.values(costByStage).reduce((sum, cost) => sum + (cost || 0), 0);
+
+    return {
+      matched,
+      estimatedCost,
+      costByStage,
+      ratePerMinute,
+      estimatedMinutes: Math.ceil(matched / ratePerMinute),
+    };
+  }
+
+  /**
+   * Create a backfill and queue its first meeting
+   */
+  async createBackfill(request: BackfillRequest, createdBy: string): Promise<IBackfill> {
+    const estimate = await this.estimateBackfill(request);
+
+    if (estimate.matched === 0) {
+      throw new Error('No meetings match the backfill filters');
+    }
+
+    const backfill = await Backfill.create({
+      stages: request.stages,
+      filters: request.filters,
+      preserveEditedActionItems: request.preserveEditedActionItems,
+      ratePerMinute: estimate.ratePerMinute,
+      total: estimate.matched,
+      estimatedCost: estimate.estimatedCost,
+      createdBy,
+    });
+
+    console.log(
+      `📦 Backfill ${backfill._id} created: ${estimate.matched} meetings, ` +
+        `stages ${request.stages.join(', ')}, ~$${estimate.estimatedCost.toFixed(2)}`
+    );
+
+    await BackfillRunner.scheduleNext(backfill);
+    return backfill;
+  }
+
+  /**
+   * Most recent backfills
+   */
+  async listBackfills(limit: number = 20): Promise<IBackfill[]> {
+    return Backfill.find().sort({ createdAt: -1 }).limit(limit);
+  }
+
+  async getBackfill(backfillId: string): Promise<IBackfill> {
+    if (!mongoose.Types.ObjectId.isValid(backfillId)) {
+      throw new Error('Backfill not found');
+    }
+
+    const backfill = await Backfill.findById(backfillId);
+    if (!backfill) {
+      throw new Error('Backfill not found');
+    }
+
+    return backfill;
+  }
+
+  /**
+   * Stop queueing further meetings - stages already queued still run
+   */
+  async pauseBackfill(backfillId: string): Promise<IBackfill> {
+    const backfill = await this.getBackfill(backfillId);
+
+    if (backfill.status !== 'running') {
+      throw new Error(`Backfill is ${backfill.status}`);
+    }
+
+    backfill.status = 'paused';
+    backfill.pausedAt = new Date();
+    await backfill.save();
+
+    console.log(`⏸️  Backfill ${backfillId} paused at ${backfill.processed}/${backfill.total}`);
+    return backfill;
+  }
+
+  /**
+   * Continue from the last processed meeting
+   * Also restarts a running backfill whose chain was broken by a failed job
+   * A job still waiting or running carries on from where it is
+   */
+  async resumeBackfill(backfillId: string): Promise<IBackfill> {
+    const backfill = await this.getBackfill(backfillId);
+
+    if (backfill.status !== 'paused' && backfill.status !== 'running') {
+      throw new Error(`Backfill is ${backfill.status}`);
+    }
+
+    backfill.status = 'running';
+    backfill.pausedAt = undefined;
+    await backfill.save();
+
+    console.log(`▶️  Backfill ${backfillId} resumed at ${backfill.processed}/${backfill.total}`);
+
+    // The chain is only broken when none of its jobs is left to continue it
+    if (!(await BackfillRunner.hasPendingJob(backfillId))) {
+      await BackfillRunner.scheduleNext(backfill);
+    }
+    return backfill;
+  }
+
+  async cancelBackfill(backfillId: string): Promise<IBackfill> {
+    const backfill = await this.getBackfill(backfillId);
+
+    if (backfill.status === 'completed' || backfill.status === 'cancelled') {
+      throw new Error(`Backfill is ${backfill.status}`);
+    }
+
+    backfill.status = 'cancelled';
+    backfill.completedAt = new Date();
+    await backfill.save();
+
+    console.log(`🛑 Backfill ${backfillId} cancelled`);
+    return backfill;
+  }
+
+  /**
+   * Format backfill with progress percentage
+   */
+  formatBackfill(backfill: IBackfill) {
+    return {
+      ...backfill.toObject(),
+      progress: backfill.total > 0 ? Math.round((backfill.processed / backfill.total) * 100) : 0,
+    };
+  }
+
+  private estimateStageCost(stage: BackfillStageName, transcriptTokens: number): number {
+    const { calls, promptTokens, outputTokens } = STAGE_ESTIMATES[stage];
+    return (
+      calls *
+      LLMService.estimateCost(stage, {
+        input: transcriptTokens + promptTokens,
+        output: outputTokens,
+      })
+    );
+  }
+}
@@ -1,11 +1,11 @@
-import { openai } from '../config/openai';
+import { LLMService } from './llmService';
+import { PromptService } from './promptService';
 import { Commitment, ICommitment } from '../models/Commitment';
 import { Meeting } from '../models/Meeting';
 import mongoose from 'mongoose';
-
-// Cost tracking
-const GPT4_INPUT_COST = 0.03 / 1000;
-const GPT4_OUTPUT_COST = 0.06 / 1000;
+import { PromptVersions } from '../models/PromptVersion';
+import { followUpDetectionsOutputSchema } from '../validators/llmOutputValidator';
+import { renderPrompt } from '../prompts/registry';
 
 interface FollowUpDetection {
   commitmentId: string;
@@ -18,12 +18,17 @@ interface FollowUpDetection {
 interface FollowUpDetectionResult {
   detections: FollowUpDetection[];
   cost: number;
+  model?: string; // Unset when no LLM call was needed
   tokensUsed: {
     input: number;
     output: number;
   };
+  promptVersions: PromptVersions; // Empty when no LLM call was needed
+  repairs: number; // Answers that needed a re-prompt to pass validation
 }
 
+const promptService = new PromptService();
+
 export class CommitmentService {
   /**
    * Create commitment from action item
@@ -78,12 +83,14 @@ export class CommitmentService {
   }
 
   /**
-   * Detect commitment follow-ups in meeting transcript using GPT-4
+   * Detect commitment follow-ups in meeting transcript
    */
   async detectCommitmentFollowUps(
     meetingId: string,
     transcript: string,
-    userId: string
+    userId: string,
+    model?: string,
+    promptVersion?: string // Active version when omitted (prompt experiments)
   ): Promise<FollowUpDetectionResult> {
     console.log(`🔍 Detecting commitment follow-ups in meeting ${meetingId}...`);
 
@@ -99,10 +106,12 @@ export class CommitmentService {
         detections: [],
         cost: 0,
         tokensUsed: { input: 0, output: 0 },
+        promptVersions: {},
+        repairs: 0,
       };
     }
 
-    // Build GPT-4 prompt
+    // Build prompt
     const commitmentsList = activeCommitments
       .map(
         (c, index) =>
@@ -114,89 +123,48 @@ export class CommitmentService {
       )
       .join('\n\n');
 
-    const prompt = `
-You are analyzing a meeting transcript to detect follow-ups on existing commitments.
-
-ACTIVE COMMITMENTS:
-${commitmentsList}
-
-MEETING TRANSCRIPT:
-${transcript}
-
-For each commitment, determine if it was mentioned in the transcript. Return JSON array with:
-
-[
-  {
-    "commitmentId": "actual_mongodb_id",
-    "mentioned": true/false,
-    "status": "mentioned" | "updated" | "completed",
-    "notes": "Brief summary of what was discussed (1 sentence)",
-    "confidence": 0.0 to 1.0
-  }
-]
-
-Status guidelines:
-- "mentioned": Briefly referenced or discussed
-- "updated": Progress was reported or status changed
-- "completed": Explicitly marked as done or finished
-
-Only include commitments that were actually mentioned (mentioned: true).
-If no commitments were mentioned, return empty array: []
-
-Return ONLY valid JSON, no markdown, no explanation.
-`.trim();
+    const prompt = await promptService.resolve('follow-up', promptVersion);
+    const content = renderPrompt(prompt.template, {
+      commitments: commitmentsList,
+      transcript,
+    });
 
     try {
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are an expert at analyzing meeting transcripts to track commitment follow-ups. Always return valid JSON.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.3,
-        response_format: { type: 'json_object' },
-      });
-
-      const content = completion.choices[0].message.content || '[]';
-
-      // Parse response
-      let parsed;
-      try {
-        parsed = JSON.parse(content);
-      } catch (parseError) {
-        console.error('Failed to parse follow-up detection JSON:', content);
-        parsed = [];
-      }
-
-      // Extract array
-      const detections: FollowUpDetection[] = Array.isArray(parsed)
-        ? parsed
-        : parsed.detections || [];
+      const completion = await LLMService.completeJson(
+        'follow-up',
+        {
+          model,
+          messages: [
+            {
+              role: 'system',
+              content:
+                'You are an expert at analyzing meeting transcripts to track commitment follow-ups. Always return valid JSON.',
+            },
+            {
+              role: 'user',
+              content,
+            },
+          ],
+          temperature: 0.3,
+        },
+        followUpDetectionsOutputSchema(activeCommitments.map((c) => String(c._id)))
+      );
+
+      const detections: FollowUpDetection[] = completion.data;
 
       // Filter only mentioned commitments
       const mentionedDetections = detections.filter((d) => d.mentioned);
 
-      // Calculate cost
-      const tokensUsed = {
-        input: completion.usage?.prompt_tokens || 0,
-        output: completion.usage?.completion_tokens || 0,
-      };
-      const cost = tokensUsed.input * GPT4_INPUT_COST + tokensUsed.output * GPT4_OUTPUT_COST;
-
       console.log(`✅ Detected ${mentionedDetections.length} commitment follow-ups`);
-      console.log(`💰 Follow-up detection cost: $${cost.toFixed(4)}`);
+      console.log(`💰 Follow-up detection cost: $${completion.cost.toFixed(4)}`);
 
       return {
         detections: mentionedDetections,
-        cost,
-        tokensUsed,
+        cost: completion.cost,
+        model: completion.model,
+        tokensUsed: completion.tokensUsed,
+        promptVersions: { 'follow-up': prompt.version },
+        repairs: completion.repairs,
       };
     } catch (error: any) {
       console.error('Follow-up detection failed:', error.message);
@@ -209,7 +177,8 @@ Return ONLY valid JSON, no markdown, no explanation.
    */
   async processFollowUpDetections(
     meetingId: string,
-    detections: FollowUpDetection[]
+    detections: FollowUpDetection[],
+    promptVersion?: string
   ): Promise<void> {
     console.log(`📝 Processing ${detections.length} follow-up detections...`);
 
@@ -226,7 +195,8 @@ Return ONLY valid JSON, no markdown, no explanation.
           new mongoose.Types.ObjectId(meetingId),
           detection.status,
           detection.notes,
-          'gpt-4'
+          'gpt-4',
+          promptVersion
         );
 
         console.log(
@@ -0,0 +1,94 @@
+import { BaseQueue, DeadLetterJob } from '../queue/baseQueue';
+import { JobOrchestrator } from '../orchestration/jobOrchestrator';
+import { PIPELINE_STAGES } from '../orchestration/pipeline';
+import { Meeting } from '../models/Meeting';
+
+/**
+ * Payload fields an operator may change when retrying a failed job
+ */
+export interface DeadLetterOverrides {
+  model?: string;
+}
+
+/**
+ * Dead-letter Service
+ * Permanently failed jobs across every registered queue, with manual retry and discard
+ */
+export class DeadLetterService {
+  /**
+   * Failed jobs of one queue, or of all queues, most recently failed first
+   */
+  async listDeadLetters(queueName?: string, limit: number = 50): Promise<DeadLetterJob[]> {
+    const queues = queueName ? [this.getQueue(queueName)] : BaseQueue.getRegisteredQueues();
+    const jobs = await Promise.all(queues.map((queue) => queue.getDeadLetterJobs(limit)));
+
+    return jobs
+      .flat()
+      .sort((a, b) => (b.failedAt?.getTime() || 0) - (a.failedAt?.getTime() || 0))
+      .slice(0, limit);
+  }
+
+  async getDeadLetter(queueName: string, jobId: string): Promise<DeadLetterJob> {
+    const queue = this.getQueue(queueName);
+    const job = await queue.getFailedJob(jobId);
+    return queue.toDeadLetterJob(job);
+  }
+
+  /**
+   * Retry a failed job, optionally with overrides (e.g. a different model)
+   * Pipeline stages are reopened on the meeting first so the pipeline continues
+   * once the job succeeds, and get a payload built from the meeting as it is now
+   */
+  async retryDeadLetter(
+    queueName: string,
+    jobId: string,
+    overrides: DeadLetterOverrides = {}
+  ): Promise<void> {
+    const queue = this.getQueue(queueName);
+    const job = await queue.getFailedJob(jobId);
+    const stage = PIPELINE_STAGES.find((s) => s.queue === queue);
+
+    if (!stage && Object.keys(overrides).length > 0) {
+      throw new Error('Overrides are only supported for pipeline jobs');
+    }
+
+    if (!stage) {
+      await queue.retryFailedJob(jobId);
+      return;
+    }
+
+    await JobOrchestrator.reopenStage(stage.name, job.data.meetingId, job.id.toString());
+
+    // The payload copied the transcript when the job was first queued - rebuilt from the
+    // meeting so edits made since then are analysed
+    const meeting = await Meeting.findById(job.data.meetingId);
+    if (!meeting) {
+      throw new Error('Meeting not found');
+    }
+
+    const current = stage.buildJobData(meeting, {
+      userId: job.data.userId,
+      fileUrl: job.data.fileUrl,
+      fileSize: job.data.fileSize,
+      preserveEditedActionItems: job.data.preserveEditedActionItems,
+    });
+
+    await queue.retryFailedJob(jobId, { ...current, createdAt: job.data.createdAt, ...overrides });
+  }
+
+  /**
+   * Remove a failed job without retrying it
+   * The meeting keeps the failed stage state
+   */
+  async discardDeadLetter(queueName: string, jobId: string): Promise<void> {
+    await this.getQueue(queueName).discardFailedJob(jobId);
+  }
+
+  private getQueue(queueName: string): BaseQueue<any> {
+    const queue = BaseQueue.getRegisteredQueue(queueName);
+    if (!queue) {
+      throw new Error('Queue not found');
+    }
+    return queue;
+  }
+}
@@ -0,0 +1,161 @@
+import { config } from '../config/config';
+import { ITranscript, ITranscriptSegment, ITranscriptSpeaker } from '../models/Meeting';
+import { SpeakerClusterer } from '../processor/speakerClusterer';
+import { DiarizationProvider, SpeakerTurn } from '../types/diarization';
+import { HttpDiarizationProvider } from './httpDiarizationProvider';
+
+type SpeakerSegment = { timestamp: number; speaker?: string };
+
+/**
+ * Diarization Service
+ * Labels transcript segments with speakers and summarizes speaking time
+ */
+export class DiarizationService {
+  /**
+   * Provider selected by DIARIZATION_PROVIDER (local | http | none)
+   */
+  static getProvider(): DiarizationProvider | null {
+    switch (config.diarization.provider) {
+      case 'none':
+        return null;
+      case 'http':
+        if (!config.diarization.url) {
+          throw new Error('DIARIZATION_URL is required for the http diarization provider');
+        }
+        return new HttpDiarizationProvider(config.diarization.url, config.diarization.apiKey);
+      default:
+        return new SpeakerClusterer();
+    }
+  }
+
+  /**
+   * Assign a speaker to every segment
+   * Each segment takes the speaker of the turn it overlaps most; labels are
+   * renumbered "Speaker 1", "Speaker 2"... in order of first appearance
+   */
+  static async assignSpeakers<T extends SpeakerSegment>(
+    audioPath: string,
+    segments: T[],
+    duration: number,
+    expectedSpeakers?: number
+  ): Promise<T[]> {
+    const provider = this.getProvider();
+    if (!provider || segments.length === 0) {
+      return segments;
+    }
+
+    console.log(`🗣️  Diarizing ${segments.length} segments (${provider.name})...`);
+
+    const windows = this.getSegmentWindows(segments, duration);
+    const turns = await provider.diarize({
+      audioPath,
+      duration,
+      segments: windows,
+      expectedSpeakers,
+      maxSpeakers: config.diarization.maxSpeakers,
+    });
+
+    const labels = new Map<string, string>();
+    const labelled = segments.map((segment, index) => {
+      const speaker = this.findSpeaker(windows[index], turns);
+      if (!speaker) {
+        return segment;
+      }
+
+      if (!labels.has(speaker)) {
+        labels.set(speaker, `Speaker ${labels.size + 1}`);
+      }
+      return { ...segment, speaker: labels.get(speaker) };
+    });
+
+    console.log(`✅ Diarization complete: ${labels.size} speakers`);
+    return labelled;
+  }
+
+  /**
+   * Speaking time and segment count per speaker label
+   * Participant mappings of `previous` are kept for labels that still exist
+   */
+  static summarizeSpeakers(
+    segments: SpeakerSegment[],
+    duration: number,
+    previous: ITranscriptSpeaker[] = []
+  ): ITranscriptSpeaker[] {
+    const windows = this.getSegmentWindows(segments, duration);
+    const speakers = new Map<string, ITranscriptSpeaker>();
+
+    segments.forEach((segment, index) => {
+      if (!segment.speaker) return;
+
+      const speaker = speakers.get(segment.speaker) || {
+        label: segment.speaker,
+        participantName: previous.find((p) => p.label === segment.speaker)?.participantName,
+        speakingTime: 0,
+        segmentCount: 0,
+      };
+
+      speaker.speakingTime += windows[index].end - windows[index].start;
+      speaker.segmentCount++;
+      speakers.set(segment.speaker, speaker);
+    });
+
+    return Array.from(speakers.values()).map((speaker) => ({
+      ...speaker,
+      speakingTime: Math.round(speaker.speakingTime * 10) / 10,
+    }));
+  }
+
+  /**
+   * Transcript segments with speaker labels replaced by mapped participant names
+   */
+  static resolveSpeakerNames(transcript?: ITranscript): ITranscriptSegment[] {
+    const names = new Map(
+      (transcript?.speakers || [])
+        .filter((speaker) => speaker.participantName)
+        .map((speaker) => [speaker.label, speaker.participantName])
+    );
+
+    return (transcript?.segments || []).map((segment) => ({
+      text: segment.text,
+      timestamp: segment.timestamp,
+      confidence: segment.confidence,
+      sentiment: segment.sentiment,
+      language: segment.language,
+      speaker: (segment.speaker && names.get(segment.speaker)) || segment.speaker,
+    }));
+  }
+
+  /**
+   * Segments only carry a start time - each one lasts until the next starts
+   */
+  private static getSegmentWindows(
+    segments: SpeakerSegment[],
+    duration: number
+  ): { start: number; end: number }[] {
+    return segments.map((segment, index) => {
+      const next = segments[index + 1]?.timestamp ?? Math.max(duration, segment.timestamp);
+      return { start: segment.timestamp, end: Math.max(segment.timestamp, next) };
+    });
+  }
+
+  /**
+   * Speaker of the turn with the largest overlap with the window
+   */
+  private static findSpeaker(
+    window: { start: number; end: number },
+    turns: SpeakerTurn[]
+  ): string | undefined {
+    let best: string | undefined;
+    let bestOverlap = 0;
+
+    turns.forEach((turn) => {
+      const overlap = Math.min(window.end, turn.end) - Math.max(window.start, turn.start);
+      if (overlap > bestOverlap) {
+        best = turn.speaker;
+        bestOverlap = overlap;
+      }
+    });
+
+    return best;
+  }
+}
@@ -1,13 +1,18 @@
 import PDFDocument from 'pdfkit';
 import { stringify } from 'csv-stringify/sync';
 import { format } from 'date-fns';
-import { IMeeting } from '../models/Meeting';
+import { IMeeting, ITranscript } from '../models/Meeting';
+import { getLanguageName } from '../utils/language';
 
 export class ExportService {
   /**
    * Generate PDF export of meeting
+   * `transcript` may be a translation of the meeting's transcript
    */
-  async exportToPDF(meeting: IMeeting): Promise<Buffer> {
+  async exportToPDF(
+    meeting: IMeeting,
+    transcript: ITranscript | undefined = meeting.transcript
+  ): Promise<Buffer> {
     return new Promise((resolve, reject) => {
       try {
         const doc = new PDFDocument({ margin: 50 });
@@ -25,6 +30,37 @@ export class ExportService {
         doc.text(`Status: ${meeting.status}`, { align: 'center' });
         doc.moveDown(2);
 
+        // Summary - first, for readers who only skim the export
+        if (meeting.summary) {
+          doc.fontSize(14).text('Summary', { underline: true });
+          doc.moveDown(0.5);
+          doc.fontSize(10).text(meeting.summary.tldr);
+          doc.moveDown();
+
+          meeting.summary.topics.forEach((topic) => {
+            doc.fontSize(11).text(topic.title);
+            if (topic.summary) {
+              doc.fontSize(9).text(topic.summary);
+            }
+            topic.keyPoints.forEach((point) => {
+              doc.fontSize(9).text(`   • ${point}`);
+            });
+            doc.moveDown(0.5);
+          });
+
+          if (meeting.summary.openQuestions.length > 0) {
+            doc.fontSize(11).text('Open Questions');
+            meeting.summary.openQuestions.forEach((question) => {
+              doc
+                .fontSize(9)
+                .text(
+                  `   • ${question.question}${question.askedBy ? ` (${question.askedBy})` : ''}`
+                );
+            });
+          }
+          doc.moveDown();
+        }
+
         // Description
         if (meeting.description) {
           doc.fontSize(12).text('Description:', { underline: true });
@@ -116,11 +152,13 @@ export class ExportService {
         }
 
         // Transcript
-        if (meeting.transcript?.fullText) {
+        if (transcript?.fullText) {
           doc.addPage();
-          doc.fontSize(14).text('Transcript', { underline: true });
+          doc.fontSize(14).text(this.getTranscriptHeading(meeting, transcript), {
+            underline: true,
+          });
           doc.moveDown(0.5);
-          doc.fontSize(9).text(meeting.transcript.fullText, {
+          doc.fontSize(9).text(transcript.fullText, {
             align: 'left',
             lineGap: 2,
           });
@@ -136,8 +174,12 @@ export class ExportService {
 
   /**
    * Generate Markdown export of meeting
+   * `transcript` may be a translation of the meeting's transcript
    */
-  exportToMarkdown(meeting: IMeeting): string {
+  exportToMarkdown(
+    meeting: IMeeting,
+    transcript: ITranscript | undefined = meeting.transcript
+  ): string {
     let markdown = '';
 
     // Header
@@ -145,6 +187,30 @@ export class ExportService {
     markdown += `**Date:** ${format(meeting.createdAt, 'PPP')}\n`;
     markdown += `**Status:** ${meeting.status}\n\n`;
 
+    // Summary - first, for readers who only skim the export
+    if (meeting.summary) {
+      markdown += `## Summary\n\n${meeting.summary.tldr}\n\n`;
+
+      meeting.summary.topics.forEach((topic) => {
+        markdown += `### ${topic.title}\n\n`;
+        if (topic.summary) {
+          markdown += `${topic.summary}\n\n`;
+        }
+        topic.keyPoints.forEach((point) => {
+          markdown += `- ${point}\n`;
+        });
+        markdown += topic.keyPoints.length > 0 ? '\n' : '';
+      });
+
+      if (meeting.summary.openQuestions.length > 0) {
+        markdown += `### Open Questions\n\n`;
+        meeting.summary.openQuestions.forEach((question) => {
+          markdown += `- ${question.question}${question.askedBy ? ` _(${question.askedBy})_` : ''}\n`;
+        });
+        markdown += '\n';
+      }
+    }
+
     // Description
     if (meeting.description) {
       markdown += `## Description\n\n${meeting.description}\n\n`;
@@ -226,14 +292,24 @@ export class ExportService {
     }
 
     // Transcript
-    if (meeting.transcript?.fullText) {
-      markdown += `## Transcript\n\n`;
-      markdown += `${meeting.transcript.fullText}\n\n`;
+    if (transcript?.fullText) {
+      markdown += `## ${this.getTranscriptHeading(meeting, transcript)}\n\n`;
+      markdown += `${transcript.fullText}\n\n`;
     }
 
     return markdown;
   }
 
+  /**
+   * "Transcript", or "Transcript (English translation)" for a translated transcript
+   */
+  private getTranscriptHeading(meeting: IMeeting, transcript: ITranscript): string {
+    if (transcript.language === meeting.transcript?.language) {
+      return 'Transcript';
+    }
+    return `Transcript (${getLanguageName(transcript.language)} translation)`;
+  }
+
   /**
    * Generate CSV export of action items
    */
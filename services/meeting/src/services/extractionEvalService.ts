@@ -0,0 +1,418 @@
+import fs from 'fs';
+import { ExtractionSegments, ExtractionService } from './extractionService';
+import { FakeLLMResponder } from './fakeLLMProvider';
+import { PromptVersions } from '../models/PromptVersion';
+import { LLMTokenUsage } from '../types/llm';
+import { normalizeForMatch } from '../utils/evidence';
+import { matchByDescription } from '../utils/itemMatching';
+import {
+  GoldenDataset,
+  LabelledMeeting,
+  goldenDatasetSchema,
+} from '../validators/evaluationValidator';
+
+// An extracted item counts as a labelled one at this share of shared description words
+export const DEFAULT_MATCH_SIMILARITY = 0.5;
+
+// Transcript lines shorter than this are too generic to tell meetings apart
+const MIN_IDENTIFYING_LENGTH = 20;
+
+const extractionService = new ExtractionService();
+
+export interface EvaluationOptions {
+  model?: string;
+  promptVersions?: PromptVersions; // Active versions unless given
+  threshold?: number; // Description similarity for a match, 0-1
+}
+
+// Precision, recall and F1 are 0-1
+export interface ExtractionScores {
+  expected: number;
+  extracted: number;
+  matched: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  groundedRate: number; // Extracted items whose quote was found in the transcript, 0-1
+}
+
+// Scored on matched items whose label gives the field
+export interface FieldAccuracy {
+  scored: number;
+  correct: number;
+  accuracy: number; // 0-1, 1 when nothing was scored
+}
+
+export interface ActionItemScores extends ExtractionScores {
+  assignee: FieldAccuracy;
+  dueDate: FieldAccuracy;
+}
+
+export interface DecisionScores extends ExtractionScores {
+  madeBy: FieldAccuracy;
+}
+
+export interface MeetingEvaluation {
+  id: string;
+  title?: string;
+  actionItems?: ActionItemScores;
+  decisions?: DecisionScores;
+  missed: string[]; // Labelled items nothing matched
+  unexpected: string[]; // Extracted items no label matched
+  wrongFields: string[]; // Matched items with a wrong assignee, due date or decision maker
+  cost: number;
+  tokensUsed: LLMTokenUsage;
+  repairs: number;
+  error?: string;
+}
+
+export interface ExtractionEvaluation {
+  dataset: string;
+  model?: string;
+  promptVersions: PromptVersions;
+  threshold: number;
+  meetings: number; // Scored - failed meetings are left out of the totals
+  failed: number;
+  actionItems: ActionItemScores; // Micro-averaged over every item of every meeting
+  decisions: DecisionScores;
+  cost: number; // USD
+  tokensUsed: LLMTokenUsage;
+  repairs: number;
+  results: MeetingEvaluation[];
+}
+
+interface FieldCount {
+  scored: number;
+  correct: number;
+}
+
+interface ItemCount {
+  expected: number;
+  extracted: number;
+  matched: number;
+  grounded: number;
+}
+
+interface MeetingCounts {
+  actionItems: ItemCount;
+  decisions: ItemCount;
+  assignee: FieldCount;
+  dueDate: FieldCount;
+  madeBy: FieldCount;
+}
+
+/**
+ * Extraction Evaluation Service
+ * Runs extraction on labelled meetings (a golden dataset) and scores what it finds
+ * against the labels - no database, nothing is stored.
+ */
+export class ExtractionEvalService {
+  /**
+   * Read and validate a golden dataset file
+   */
+  async loadDataset(filePath: string): Promise<GoldenDataset> {
+    const raw = JSON.parse(await fs.promises.readFile(filePath, 'utf-8'));
+    const parsed = goldenDatasetSchema.safeParse(raw);
+
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map(
+        (issue) => `${issue.path.join('.') || 'dataset'}: ${issue.message}`
+      );
+      throw new Error(`Invalid dataset ${filePath} - ${issues.join('; ')}`);
+    }
+
+    return parsed.data;
+  }
+
+  /**
+   * Extract from every meeting of the dataset, one at a time, and score the results
+   */
+  async evaluate(
+    dataset: GoldenDataset,
+    options: EvaluationOptions = {}
+  ): Promise<ExtractionEvaluation> {
+    const threshold = options.threshold ?? DEFAULT_MATCH_SIMILARITY;
+    const results: MeetingEvaluation[] = [];
+    const counts: MeetingCounts[] = [];
+    let model = options.model;
+    let promptVersions = options.promptVersions || {};
+
+    // Step 1: One meeting at a time - a failed meeting is reported, not fatal
+    for (const meeting of dataset.meetings) {
+      console.log(`🧪 Evaluating ${meeting.id}...`);
+
+      try {
+        const result = await this.evaluateMeeting(meeting, options, threshold);
+        results.push(result.evaluation);
+        counts.push(result.counts);
+        model = result.model;
+        promptVersions = result.promptVersions;
+      } catch (error: any) {
+        console.warn(`⚠️ ${meeting.id} failed: ${error.message}`);
+        results.push({
+          id: meeting.id,
+          title: meeting.title,
+          missed: [],
+          unexpected: [],
+          wrongFields: [],
+          cost: 0,
+          tokensUsed: { input: 0, output: 0 },
+          repairs: 0,
+          error: error.message,
+        });
+      }
+    }
+
+    // Step 2: Add up every meeting that ran
+    const scored = results.filter((result) => !result.error);
+    const sum = (value: (result: MeetingEvaluation) => number) =>
+      scored.reduce((total, result) => total + value(result), 0);
+    const total = (value: (count: MeetingCounts) => number) =>
+      counts.reduce((subtotal, count) => subtotal + value(count), 0);
+    const items = (kind: 'actionItems' | 'decisions'): ItemCount => ({
+      expected: total((count) => count[kind].expected),
+      extracted: total((count) => count[kind].extracted),
+      matched: total((count) => count[kind].matched),
+      grounded: total((count) => count[kind].grounded),
+    });
+    const field = (name: 'assignee' | 'dueDate' | 'madeBy'): FieldCount => ({
+      scored: total((count) => count[name].scored),
+      correct: total((count) => count[name].correct),
+    });
+
+    return {
+      dataset: dataset.name,
+      model,
+      promptVersions,
+      threshold,
+      meetings: scored.length,
+      failed: results.length - scored.length,
+      actionItems: {
+        ...this.score(items('actionItems')),
+        assignee: this.accuracy(field('assignee')),
+        dueDate: this.accuracy(field('dueDate')),
+      },
+      decisions: { ...this.score(items('decisions')), madeBy: this.accuracy(field('madeBy')) },
+      cost: sum((result) => result.cost),
+      tokensUsed: {
+        input: sum((result) => result.tokensUsed.input),
+        output: sum((result) => result.tokensUsed.output),
+      },
+      repairs: sum((result) => result.repairs),
+      results,
+    };
+  }
+
+  private async evaluateMeeting(
+    meeting: LabelledMeeting,
+    options: EvaluationOptions,
+    threshold: number
+  ): Promise<{
+    evaluation: MeetingEvaluation;
+    counts: MeetingCounts;
+    model: string;
+    promptVersions: PromptVersions;
+  }> {
+    // Step 1: Extract the way the pipeline does - from segments when the meeting has them
+    const sources: ExtractionSegments | undefined = meeting.segments?.length
+      ? {
+          segments: meeting.segments,
+          duration: Math.max(...meeting.segments.map((segment) => segment.timestamp)),
+        }
+      : undefined;
+
+    const extraction = await extractionService.extractFromTranscript(
+      this.transcriptOf(meeting),
+      options.model,
+      meeting.language,
+      sources,
+      options.promptVersions
+    );
+
+    // Step 2: Pair extracted items with the labels
+    const actionItems = matchByDescription(
+      meeting.expected.actionItems,
+      extraction.actionItems,
+      threshold
+    );
+    const decisions = matchByDescription(
+      meeting.expected.decisions,
+      extraction.decisions,
+      threshold
+    );
+
+    // Step 3: Check the fields of each pair the label gives
+    const wrongFields: string[] = [];
+    const assignee: FieldCount = { scored: 0, correct: 0 };
+    const dueDate: FieldCount = { scored: 0, correct: 0 };
+    const madeBy: FieldCount = { scored: 0, correct: 0 };
+
+    const check = (
+      count: FieldCount,
+      field: string,
+      description: string,
+      expected: string | null | undefined,
+      actual: string | undefined,
+      same: (expected: string | null, actual: string | null) => boolean
+    ) => {
+      if (expected === undefined) return;
+
+      count.scored++;
+      if (same(expected, actual || null)) {
+        count.correct++;
+      } else {
+        wrongFields.push(
+          `"${description}": ${field} ${actual ? `"${actual}"` : 'missing'}, ` +
+            `expected ${expected ? `"${expected}"` : 'none'}`
+        );
+      }
+    };
+
+    actionItems.matches.forEach(({ left, right }) => {
+      check(
+        assignee,
+        'assignee',
+        left.description,
+        left.assignedTo,
+        right.assignedTo,
+        this.sameName
+      );
+      check(dueDate, 'due date', left.description, left.dueDate, right.dueDate, this.sameDay);
+    });
+    decisions.matches.forEach(({ left, right }) => {
+      check(madeBy, 'made by', left.description, left.madeBy, right.madeBy, this.sameName);
+    });
+
+    const counts: MeetingCounts = {
+      actionItems: {
+        expected: meeting.expected.actionItems.length,
+        extracted: extraction.actionItems.length,
+        matched: actionItems.matches.length,
+        grounded: extraction.actionItems.filter((item) => item.evidence?.verified).length,
+      },
+      decisions: {
+        expected: meeting.expected.decisions.length,
+        extracted: extraction.decisions.length,
+        matched: decisions.matches.length,
+        grounded: extraction.decisions.filter((item) => item.evidence?.verified).length,
+      },
+      assignee,
+      dueDate,
+      madeBy,
+    };
+
+    const evaluation: MeetingEvaluation = {
+      id: meeting.id,
+      title: meeting.title,
+      actionItems: {
+        ...this.score(counts.actionItems),
+        assignee: this.accuracy(assignee),
+        dueDate: this.accuracy(dueDate),
+      },
+      decisions: { ...this.score(counts.decisions), madeBy: this.accuracy(madeBy) },
+      missed: [...actionItems.onlyLeft, ...decisions.onlyLeft].map((item) => item.description),
+      unexpected: [...actionItems.onlyRight, ...decisions.onlyRight].map(
+        (item) => item.description
+      ),
+      wrongFields,
+      cost: extraction.cost,
+      tokensUsed: extraction.tokensUsed,
+      repairs: extraction.repairs,
+    };
+
+    return {
+      evaluation,
+      counts,
+      model: extraction.model,
+      promptVersions: extraction.promptVersions,
+    };
+  }
+
+  private transcriptOf(meeting: LabelledMeeting): string {
+    return meeting.transcript || meeting.segments!.map((segment) => segment.text).join(' ');
+  }
+
+  private score(count: ItemCount): ExtractionScores {
+    // Nothing expected and nothing found is a perfect score
+    const precision = count.extracted > 0 ? count.matched / count.extracted : 1;
+    const recall = count.expected > 0 ? count.matched / count.expected : 1;
+
+    return {
+      expected: count.expected,
+      extracted: count.extracted,
+      matched: count.matched,
+      precision,
+      recall,
+      f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+      groundedRate: count.extracted > 0 ? count.grounded / count.extracted : 1,
+    };
+  }
+
+  private accuracy(count: FieldCount): FieldAccuracy {
+    return { ...count, accuracy: count.scored > 0 ? count.correct / count.scored : 1 };
+  }
+
+  /**
+   * Same person - "Ann" matches "Ann Lee", the model often drops surnames
+   */
+  private sameName(expected: string | null, actual: string | null): boolean {
+    const left = normalizeForMatch(expected || '');
+    const right = normalizeForMatch(actual || '');
+
+    if (!left || !right) {
+      return left === right;
+    }
+    return left === right || left.split(' ')[0] === right.split(' ')[0];
+  }
+
+  /**
+   * Same calendar day - models answer with dates or full timestamps
+   */
+  private sameDay(expected: string | null, actual: string | null): boolean {
+    const toDay = (value: string | null) => {
+      if (!value) return null;
+      const date = new Date(value);
+      return isNaN(date.getTime()) ? value : date.toISOString().slice(0, 10);
+    };
+
+    return toDay(expected) === toDay(actual);
+  }
+}
+
+/**
+ * Fake LLM answers from the labels, to run the harness offline
+ * Each request gets the labelled items of the meeting it is about whose quote is in the
+ * request (all of them when unquoted) - scores below 1 come from grounding and chunk merging.
+ */
+export const createLabelResponder = (dataset: GoldenDataset): FakeLLMResponder => {
+  const meetings = dataset.meetings.map((meeting) => ({
+    meeting,
+    lines: (
+      meeting.segments?.map((segment) => segment.text) ||
+      meeting.transcript!.split(/\n|(?<=[.!?])\s+/)
+    )
+      .map((line) => normalizeForMatch(line))
+      .filter((line) => line.length >= MIN_IDENTIFYING_LENGTH),
+  }));
+
+  return (request) => {
+    const prompt = normalizeForMatch(request.messages.map((message) => message.content).join('\n'));
+    const kind = request.messages[0]?.content.includes('decisions') ? 'decisions' : 'actionItems';
+    const match = meetings.find(({ lines }) => lines.some((line) => prompt.includes(line)));
+
+    const labels: Array<{ description: string; quote?: string }> = match
+      ? match.meeting.expected[kind]
+      : [];
+
+    return {
+      [kind]: labels
+        .filter((label) => !label.quote || prompt.includes(normalizeForMatch(label.quote)))
+        .map((label) => ({
+          priority: 'medium',
+          impact: 'medium',
+          ...label,
+          quote: label.quote ?? null,
+        })),
+    };
+  };
+};
@@ -1,88 +1,134 @@
-import { ACTION_ITEMS_PROMPT } from '../prompts/actionItems';
-import { DECISIONS_PROMPT } from '../prompts/decisions';
-import { openai } from '../config/openai';
+import { renderPrompt } from '../prompts/registry';
+import { buildLanguageInstruction } from '../prompts/language';
+import { buildEvidenceInstruction } from '../prompts/evidence';
+import { LLMService } from './llmService';
+import { PromptService, ResolvedPrompt } from './promptService';
+import { actionItemsOutputSchema, decisionsOutputSchema } from '../validators/llmOutputValidator';
+import { config } from '../config/config';
+import {
+  IActionItem,
+  IDismissedActionItem,
+  IEvidence,
+  ISourceTimestamp,
+  ITranscriptChunking,
+  ITranscriptSegment,
+} from '../models/Meeting';
+import { PromptVersions } from '../models/PromptVersion';
+import { formatSegmentLines, getSegmentRange } from '../utils/transcriptSegments';
+import { findQuoteSegments, isQuoteInText, wordSimilarity } from '../utils/evidence';
+import { chunkByTokens, describeChunking, splitSentences } from '../utils/transcriptChunker';
 
+// Items from different chunks describing the same thing are merged
+const DUPLICATE_SIMILARITY = 0.6; // Shared words in the description
+const DUPLICATE_SIMILARITY_SAME_QUOTE = 0.3; // ...when both cite overlapping segments
 
-// Cost tracking (GPT-4 pricing as of 2024)
-const GPT4_INPUT_COST = 0.03 / 1000; // $0.03 per 1K input tokens
-const GPT4_OUTPUT_COST = 0.06 / 1000; // $0.06 per 1K output tokens
+const RANK = { high: 3, medium: 2, low: 1 };
+
+const promptService = new PromptService();
+
+// Evidence fields - the model returns quote/sourceSegments, grounding turns them into evidence/source
+interface GroundedItem {
+  quote?: string | null;
+  sourceSegments?: number[] | number | null; // Only when extracting from segments
+  evidence?: IEvidence;
+  source?: ISourceTimestamp;
+  promptVersion?: string;
+}
 
 // Raw extraction result (before database formatting)
-interface RawActionItem {
+interface RawActionItem extends GroundedItem {
   description: string;
   assignedTo?: string;
   priority: 'high' | 'medium' | 'low';
   dueDate?: string; // ISO date string or null
 }
 
-interface RawDecision {
+interface RawDecision extends GroundedItem {
   description: string;
   madeBy?: string;
   impact: 'high' | 'medium' | 'low';
   context?: string;
 }
 
+// Timestamped segments - lets extracted items carry their source timestamps
+export interface ExtractionSegments {
+  segments: ITranscriptSegment[];
+  duration: number;
+}
+
 export interface ExtractionServiceResult {
   actionItems: RawActionItem[];
   decisions: RawDecision[];
   cost: number;
+  model: string;
   tokensUsed: {
     input: number;
     output: number;
   };
+  chunking: ITranscriptChunking;
+  promptVersions: PromptVersions;
+  repairs: number; // Answers that needed a re-prompt to pass validation
 }
 
 export class ExtractionService {
   /**
-   * Extract action items from transcript using GPT-4
+   * Extract action items from transcript
    */
-  async extractActionItems(transcript: string): Promise<{
+  async extractActionItems(
+    transcript: string,
+    model?: string,
+    language?: string,
+    withSources: boolean = false,
+    prompt?: ResolvedPrompt // Active version when omitted
+  ): Promise<{
     actionItems: RawActionItem[];
+    cost: number;
+    model: string;
     tokensUsed: { input: number; output: number };
+    repairs: number;
+    promptVersion: string;
   }> {
     try {
-      const prompt = ACTION_ITEMS_PROMPT.replace('{transcript}', transcript);
-
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are an expert meeting assistant that extracts action items from transcripts. Always return valid JSON.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.3,
-        response_format: { type: 'json_object' },
-      });
-
-      const content = completion.choices[0].message.content || '[]';
-
-      // Parse response
-      let parsed;
-      try {
-        parsed = JSON.parse(content);
-      } catch (parseError) {
-        console.error('Failed to parse action items JSON:', content);
-        parsed = [];
-      }
+      const template = prompt || (await promptService.resolve('action-items'));
+      const content =
+        renderPrompt(template.template, { transcript }) +
+        buildLanguageInstruction(language) +
+        buildEvidenceInstruction(withSources);
 
-      // Extract array (handle both direct array and wrapped object)
-      const actionItems: RawActionItem[] = Array.isArray(parsed)
-        ? parsed
-        : parsed.actionItems || [];
+      const completion = await LLMService.completeJson(
+        'extraction',
+        {
+          model,
+          messages: [
+            {
+              role: 'system',
+              content:
+                'You are an expert meeting assistant that extracts action items from transcripts. Always return valid JSON.',
+            },
+            {
+              role: 'user',
+              content,
+            },
+          ],
+          temperature: 0.3,
+        },
+        actionItemsOutputSchema
+      );
 
-      const tokensUsed = {
-        input: completion.usage?.prompt_tokens || 0,
-        output: completion.usage?.completion_tokens || 0,
-      };
+      const actionItems: RawActionItem[] = completion.data.map((item) => ({
+        ...item,
+        promptVersion: template.version,
+      }));
 
       console.log(`✅ Extracted ${actionItems.length} action items`);
-      return { actionItems, tokensUsed };
+      return {
+        actionItems,
+        cost: completion.cost,
+        model: completion.model,
+        tokensUsed: completion.tokensUsed,
+        repairs: completion.repairs,
+        promptVersion: template.version,
+      };
     } catch (error: any) {
       console.error('Action items extraction failed:', error.message);
       throw new Error(`Action items extraction failed: ${error.message}`);
@@ -90,53 +136,63 @@ export class ExtractionService {
   }
 
   /**
-   * Extract key decisions from transcript using GPT-4
+   * Extract key decisions from transcript
    */
-  async extractDecisions(transcript: string): Promise<{
+  async extractDecisions(
+    transcript: string,
+    model?: string,
+    language?: string,
+    withSources: boolean = false,
+    prompt?: ResolvedPrompt // Active version when omitted
+  ): Promise<{
     decisions: RawDecision[];
+    cost: number;
+    model: string;
     tokensUsed: { input: number; output: number };
+    repairs: number;
+    promptVersion: string;
   }> {
     try {
-      const prompt = DECISIONS_PROMPT.replace('{transcript}', transcript);
-
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are an expert meeting assistant that extracts key decisions from transcripts. Always return valid JSON.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.3,
-        response_format: { type: 'json_object' },
-      });
-
-      const content = completion.choices[0].message.content || '[]';
-
-      // Parse response
-      let parsed;
-      try {
-        parsed = JSON.parse(content);
-      } catch (parseError) {
-        console.error('Failed to parse decisions JSON:', content);
-        parsed = [];
-      }
+      const template = prompt || (await promptService.resolve('decisions'));
+      const content =
+        renderPrompt(template.template, { transcript }) +
+        buildLanguageInstruction(language) +
+        buildEvidenceInstruction(withSources);
 
-      // Extract array
-      const decisions: RawDecision[] = Array.isArray(parsed) ? parsed : parsed.decisions || [];
+      const completion = await LLMService.completeJson(
+        'extraction',
+        {
+          model,
+          messages: [
+            {
+              role: 'system',
+              content:
+                'You are an expert meeting assistant that extracts key decisions from transcripts. Always return valid JSON.',
+            },
+            {
+              role: 'user',
+              content,
+            },
+          ],
+          temperature: 0.3,
+        },
+        decisionsOutputSchema
+      );
 
-      const tokensUsed = {
-        input: completion.usage?.prompt_tokens || 0,
-        output: completion.usage?.completion_tokens || 0,
-      };
+      const decisions: RawDecision[] = completion.data.map((item) => ({
+        ...item,
+        promptVersion: template.version,
+      }));
 
       console.log(`✅ Extracted ${decisions.length} decisions`);
-      return { decisions, tokensUsed };
+      return {
+        decisions,
+        cost: completion.cost,
+        model: completion.model,
+        tokensUsed: completion.tokensUsed,
+        repairs: completion.repairs,
+        promptVersion: template.version,
+      };
     } catch (error: any) {
       console.error('Decisions extraction failed:', error.message);
       throw new Error(`Decisions extraction failed: ${error.message}`);
@@ -144,39 +200,248 @@ export class ExtractionService {
   }
 
   /**
-   * Main extraction service - returns raw GPT-4 results
+   * Main extraction service - returns raw LLM results
    * No database operations - pure business logic
    */
-  async extractFromTranscript(transcript: string): Promise<ExtractionServiceResult> {
-    console.log('🔍 Starting GPT-4 extraction...');
+  async extractFromTranscript(
+    transcript: string,
+    model?: string,
+    language?: string,
+    sources?: ExtractionSegments,
+    promptVersions: PromptVersions = {} // Active versions unless given (prompt experiments)
+  ): Promise<ExtractionServiceResult> {
+    console.log('🔍 Starting extraction...');
 
     if (!transcript || transcript.trim().length === 0) {
       throw new Error('Transcript is empty or invalid');
     }
 
-    // Run both extractions in parallel for efficiency
-    const [actionItemsResult, decisionsResult] = await Promise.all([
-      this.extractActionItems(transcript),
-      this.extractDecisions(transcript),
+    // With segments the model sees indexed lines and also reports which segments each quote is from
+    const withSources = !!sources && sources.segments.length > 0;
+    const units = withSources ? sources.segments : splitSentences(transcript);
+
+    // Step 1: Split long transcripts on segment (or sentence) boundaries
+    const { maxTokens, overlapTokens } = config.llm.chunking;
+    const chunks = chunkByTokens(units, maxTokens, overlapTokens);
+    const chunking = describeChunking(
+      chunks,
+      units,
+      maxTokens,
+      overlapTokens,
+      withSources ? 'segment' : 'sentence'
+    );
+
+    if (chunks.length > 1) {
+      console.log(
+        `📚 Long transcript (~${chunking.transcriptTokens} tokens) - ${chunks.length} chunks`
+      );
+    }
+
+    // Step 2: Extract from each chunk - action items and decisions in parallel
+    // Prompts are resolved once so every chunk uses the same version
+    const [actionItemsPrompt, decisionsPrompt] = await Promise.all([
+      promptService.resolve('action-items', promptVersions['action-items']),
+      promptService.resolve('decisions', promptVersions.decisions),
     ]);
+    const actionItems: RawActionItem[] = [];
+    const decisions: RawDecision[] = [];
+    const calls: {
+      cost: number;
+      tokensUsed: { input: number; output: number };
+      repairs: number;
+    }[] = [];
+    let resolvedModel = model || LLMService.getModel('extraction');
+
+    for (const chunk of chunks) {
+      const chunkUnits = units.slice(chunk.start, chunk.end + 1);
+      const input = withSources
+        ? formatSegmentLines(sources.segments.slice(chunk.start, chunk.end + 1), chunk.start)
+        : chunks.length > 1
+          ? chunkUnits.map((unit) => unit.text).join(' ')
+          : transcript;
+
+      const [actionItemsResult, decisionsResult] = await Promise.all([
+        this.extractActionItems(input, model, language, withSources, actionItemsPrompt),
+        this.extractDecisions(input, model, language, withSources, decisionsPrompt),
+      ]);
+
+      actionItems.push(...actionItemsResult.actionItems);
+      decisions.push(...decisionsResult.decisions);
+      calls.push(actionItemsResult, decisionsResult);
+      resolvedModel = actionItemsResult.model;
+    }
 
     // Calculate total cost
-    const totalInputTokens = actionItemsResult.tokensUsed.input + decisionsResult.tokensUsed.input;
-    const totalOutputTokens =
-      actionItemsResult.tokensUsed.output + decisionsResult.tokensUsed.output;
-    const cost = totalInputTokens * GPT4_INPUT_COST + totalOutputTokens * GPT4_OUTPUT_COST;
+    const { cost, tokensUsed } = LLMService.combineUsage(calls);
 
     console.log(`💰 Extraction cost: $${cost.toFixed(4)}`);
-    console.log(`📊 Tokens used: ${totalInputTokens} input, ${totalOutputTokens} output`);
+    console.log(`📊 Tokens used: ${tokensUsed.input} input, ${tokensUsed.output} output`);
+
+    // Step 3: Ground every item, then reconcile what overlapping chunks both found
+    const groundedActionItems = this.groundItems(actionItems, transcript, sources, 'action items');
+    const groundedDecisions = this.groundItems(decisions, transcript, sources, 'decisions');
 
     return {
-      actionItems: actionItemsResult.actionItems,
-      decisions: decisionsResult.decisions,
+      actionItems:
+        chunks.length > 1
+          ? this.dedupeItems(groundedActionItems, 'action items', (kept, duplicate) => ({
+              ...kept,
+              assignedTo: kept.assignedTo || duplicate.assignedTo,
+              dueDate: kept.dueDate || duplicate.dueDate,
+              priority:
+                RANK[duplicate.priority] > RANK[kept.priority] ? duplicate.priority : kept.priority,
+            }))
+          : groundedActionItems,
+      decisions:
+        chunks.length > 1
+          ? this.dedupeItems(groundedDecisions, 'decisions', (kept, duplicate) => ({
+              ...kept,
+              madeBy: kept.madeBy || duplicate.madeBy,
+              context: kept.context || duplicate.context,
+              impact: RANK[duplicate.impact] > RANK[kept.impact] ? duplicate.impact : kept.impact,
+            }))
+          : groundedDecisions,
       cost,
-      tokensUsed: {
-        input: totalInputTokens,
-        output: totalOutputTokens,
+      model: resolvedModel,
+      tokensUsed,
+      chunking,
+      promptVersions: {
+        'action-items': actionItemsPrompt.version,
+        decisions: decisionsPrompt.version,
       },
+      repairs: calls.reduce((total, call) => total + call.repairs, 0),
     };
   }
+
+  /**
+   * Merge items found more than once - chunks overlap, and a topic may come up in several
+   * The first mention is kept; `merge` fills in what it lacks from the duplicate.
+   * A verified quote wins over an unverified one.
+   */
+  private dedupeItems<T extends GroundedItem & { description: string }>(
+    items: T[],
+    label: string,
+    merge: (kept: T, duplicate: T) => T
+  ): T[] {
+    const kept: T[] = [];
+
+    items.forEach((item) => {
+      const index = kept.findIndex((existing) => this.isDuplicate(existing, item));
+      if (index === -1) {
+        kept.push(item);
+        return;
+      }
+
+      const existing = kept[index];
+      const grounded =
+        !existing.evidence?.verified && item.evidence?.verified
+          ? { evidence: item.evidence, source: item.source }
+          : {};
+      kept[index] = { ...merge(existing, item), ...grounded };
+    });
+
+    if (kept.length < items.length) {
+      console.log(`🔗 Merged ${items.length - kept.length} duplicate ${label} across chunks`);
+    }
+    return kept;
+  }
+
+  /**
+   * Action items of a re-run extraction, keeping what users did to the previous ones
+   * Items a user added or edited are kept, and extracted items matching one of them or
+   * one the user deleted are dropped - matched like chunk duplicates, since a new
+   * extraction rarely words an item the same way
+   */
+  mergeUserActionItems(
+    existing: IActionItem[],
+    extracted: IActionItem[],
+    dismissed: IDismissedActionItem[] = []
+  ): IActionItem[] {
+    const kept = existing.filter((item) => item.manual || item.editedAt);
+    const fresh = extracted.filter(
+      (item) => ![...kept, ...dismissed].some((userItem) => this.isDuplicate(userItem, item))
+    );
+
+    console.log(`📌 Preserving ${kept.length} added or edited action items`);
+    return [...kept, ...fresh];
+  }
+
+  /**
+   * Same item if the descriptions mostly share words, or partly and the quotes overlap
+   */
+  isDuplicate(
+    a: Pick<GroundedItem, 'evidence'> & { description: string },
+    b: Pick<GroundedItem, 'evidence'> & { description: string }
+  ): boolean {
+    const similarity = wordSimilarity(a.description, b.description);
+    if (similarity >= DUPLICATE_SIMILARITY) {
+      return true;
+    }
+
+    const segmentsA = a.evidence?.segmentIndexes || [];
+    const sameQuote =
+      segmentsA.some((index) => b.evidence?.segmentIndexes.includes(index)) ||
+      (!!a.evidence?.quote &&
+        wordSimilarity(a.evidence.quote, b.evidence?.quote || '') >= DUPLICATE_SIMILARITY);
+
+    return sameQuote && similarity >= DUPLICATE_SIMILARITY_SAME_QUOTE;
+  }
+
+  /**
+   * Check each item's quote against the transcript and attach evidence
+   * Segment indices come from where the quote was found, falling back to the model's
+   * Items without a quote found in the transcript are flagged (verified: false) or dropped
+   */
+  private groundItems<T extends GroundedItem>(
+    items: T[],
+    transcript: string,
+    sources: ExtractionSegments | undefined,
+    label: string
+  ): T[] {
+    const segments = sources?.segments || [];
+
+    const grounded = items.map((item) => {
+      const { quote, sourceSegments, ...rest } = item;
+      const text = typeof quote === 'string' ? quote.trim() : '';
+      const verified = text.length > 0 && isQuoteInText(text, transcript);
+
+      const located = verified && segments.length > 0 ? findQuoteSegments(text, segments) : null;
+      const segmentIndexes =
+        located ||
+        [sourceSegments]
+          .flat()
+          .filter((index) => index !== null && index !== undefined)
+          .map(Number)
+          .filter((index) => Number.isInteger(index) && index >= 0 && index < segments.length);
+
+      const range =
+        segmentIndexes.length > 0
+          ? getSegmentRange(
+              segments,
+              Math.min(...segmentIndexes),
+              Math.max(...segmentIndexes),
+              sources?.duration || 0
+            )
+          : null;
+
+      return {
+        ...rest,
+        evidence: { quote: text, segmentIndexes, verified },
+        ...(range && { source: range }),
+      } as T;
+    });
+
+    const ungrounded = grounded.filter((item) => !item.evidence?.verified).length;
+    if (ungrounded === 0) {
+      return grounded;
+    }
+
+    if (config.extraction.ungroundedItems === 'drop') {
+      console.warn(`⚠️ Dropped ${ungrounded} ${label} without a quote found in the transcript`);
+      return grounded.filter((item) => item.evidence?.verified);
+    }
+
+    console.warn(`⚠️ Flagged ${ungrounded} ${label} without a quote found in the transcript`);
+    return grounded;
+  }
 }
@@ -0,0 +1,44 @@
+import { LLMCompletion, LLMCompletionRequest, LLMProvider } from '../types/llm';
+
+const CHARS_PER_TOKEN = 4; // Rough average for English text
+
+/**
+ * Answer for a request - a string is returned as is, anything else as JSON
+ */
+export type FakeLLMResponder = (request: LLMCompletionRequest) => unknown;
+
+/**
+ * Fake Provider
+ * Deterministic answers for tests and offline development - no network, no cost.
+ * Every request is recorded so tests can assert on prompts and models.
+ * Without a responder JSON requests get "{}" - extraction and follow-up detection read it as
+ * "nothing found"; sentiment and summary need a responder.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake';
+  readonly defaultModel = 'fake-llm';
+  readonly requests: LLMCompletionRequest[] = [];
+
+  constructor(private readonly responder?: FakeLLMResponder) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    this.requests.push(request);
+
+    const answer = this.responder ? this.responder(request) : request.json ? '{}' : '';
+    const content = typeof answer === 'string' ? answer : JSON.stringify(answer);
+    const prompt = request.messages.map((message) => message.content).join('\n');
+
+    return {
+      content,
+      model: request.model,
+      tokensUsed: {
+        input: Math.ceil(prompt.length / CHARS_PER_TOKEN),
+        output: Math.ceil(content.length / CHARS_PER_TOKEN),
+      },
+    };
+  }
+
+  calculateCost(): number {
+    return 0; // Fake is FREE
+  }
+}
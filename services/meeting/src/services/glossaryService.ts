@@ -0,0 +1,192 @@
+import { Glossary, IGlossary, IGlossaryTerm } from '../models/Glossary';
+import { TranscriptSegment } from '../types/transcription';
+
+const MAX_PROMPT_LENGTH = 800; // Whisper only reads the last ~224 tokens of a prompt
+
+export type GlossaryTermInput = Omit<IGlossaryTerm, '_id'>;
+
+export interface GlossaryCorrectionResult<T = TranscriptSegment> {
+  segments: T[];
+  fullText: string;
+  corrections: number; // Replaced occurrences
+}
+
+/**
+ * Glossary Service
+ * Per-project custom vocabulary - managed over the API, applied during transcription
+ */
+export class GlossaryService {
+  /**
+   * Glossary of a project, or null when the project has none
+   */
+  async getGlossary(projectId: string): Promise<IGlossary | null> {
+    return Glossary.findOne({ projectId });
+  }
+
+  /**
+   * Replace every term of a project's glossary (creates the glossary if needed)
+   */
+  async replaceGlossary(
+    projectId: string,
+    terms: GlossaryTermInput[],
+    userId: string
+  ): Promise<IGlossary> {
+    this.assertUniqueTerms(terms);
+
+    const glossary = (await this.getGlossary(projectId)) || new Glossary({ projectId });
+    glossary.set('terms', terms);
+    glossary.updatedBy = userId;
+
+    return glossary.save();
+  }
+
+  async deleteGlossary(projectId: string): Promise<void> {
+    const result = await Glossary.deleteOne({ projectId });
+    if (result.deletedCount === 0) {
+      throw new Error('Glossary not found');
+    }
+  }
+
+  async addTerm(projectId: string, term: GlossaryTermInput, userId: string): Promise<IGlossary> {
+    const glossary = (await this.getGlossary(projectId)) || new Glossary({ projectId });
+    this.assertUniqueTerms([...glossary.terms, term]);
+
+    glossary.terms.push(term);
+    glossary.updatedBy = userId;
+
+    return glossary.save();
+  }
+
+  async updateTerm(
+    projectId: string,
+    termId: string,
+    updates: Partial<GlossaryTermInput>,
+    userId: string
+  ): Promise<IGlossary> {
+    const glossary = await this.requireGlossary(projectId);
+    const term = glossary.terms.id(termId);
+    if (!term) {
+      throw new Error('Term not found');
+    }
+
+    term.set(updates);
+    this.assertUniqueTerms(glossary.terms);
+    glossary.updatedBy = userId;
+
+    return glossary.save();
+  }
+
+  async deleteTerm(projectId: string, termId: string, userId: string): Promise<IGlossary> {
+    const glossary = await this.requireGlossary(projectId);
+    const term = glossary.terms.id(termId);
+    if (!term) {
+      throw new Error('Term not found');
+    }
+
+    term.deleteOne();
+    glossary.updatedBy = userId;
+
+    return glossary.save();
+  }
+
+  /**
+   * Transcription hint - Whisper favours spellings it has seen in the prompt
+   * Names and acronyms first, they are mangled the most
+   */
+  buildPrompt(glossary: IGlossary): string | undefined {
+    const order = { person: 0, acronym: 1, term: 2 };
+    const terms = [...glossary.terms]
+      .sort((a, b) => order[a.kind] - order[b.kind])
+      .map((term) => term.term);
+
+    let prompt = '';
+    for (const term of terms) {
+      const next = prompt ? `${prompt}, ${term}` : term;
+      if (next.length > MAX_PROMPT_LENGTH) break;
+      prompt = next;
+    }
+
+    return prompt ? `Glossary: ${prompt}.` : undefined;
+  }
+
+  /**
+   * Correction pass - replace known variants (and mis-cased terms) with the preferred spelling
+   * Matches whole words only, case-insensitively
+   */
+  applyCorrections<T extends { text: string }>(
+    segments: T[],
+    fullText: string,
+    glossary: IGlossary
+  ): GlossaryCorrectionResult<T> {
+    const rules = glossary.terms.map((term) => ({
+      term: term.term,
+      pattern: new RegExp(
+        `(?<![\\p{L}\\p{N}])(?:${[term.term, ...term.variants]
+          .filter(Boolean)
+          .sort((a, b) => b.length - a.length) // Longest variant wins
+          .map((variant) => this.escapeRegExp(variant))
+          .join('|')})(?![\\p{L}\\p{N}])`,
+        'giu'
+      ),
+    }));
+
+    let corrections = 0;
+    const correct = (text: string, count: boolean): string =>
+      rules.reduce(
+        (result, rule) =>
+          result.replace(rule.pattern, (match) => {
+            if (match !== rule.term && count) corrections++;
+            return rule.term;
+          }),
+        text
+      );
+
+    return {
+      segments: segments.map((segment) => ({ ...segment, text: correct(segment.text, true) })),
+      fullText: correct(fullText, false),
+      corrections,
+    };
+  }
+
+  /**
+   * API representation of a glossary
+   */
+  formatGlossary(glossary: IGlossary) {
+    return {
+      projectId: glossary.projectId,
+      terms: glossary.terms.map((term) => ({
+        id: term._id.toString(),
+        term: term.term,
+        variants: term.variants,
+        kind: term.kind,
+        description: term.description,
+      })),
+      updatedBy: glossary.updatedBy,
+      createdAt: glossary.createdAt,
+      updatedAt: glossary.updatedAt,
+    };
+  }
+
+  private async requireGlossary(projectId: string): Promise<IGlossary> {
+    const glossary = await this.getGlossary(projectId);
+    if (!glossary) {
+      throw new Error('Glossary not found');
+    }
+    return glossary;
+  }
+
+  private assertUniqueTerms(terms: { term: string }[]): void {
+    const seen = new Set<string>();
+    for (const { term } of terms) {
+      const key = term.toLowerCase();
+      if (seen.has(key)) {
+        throw new Error(`Term already exists: ${term}`);
+      }
+      seen.add(key);
+    }
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,53 @@
+import axios from 'axios';
+import fs from 'fs';
+import { DiarizationProvider, DiarizationRequest, SpeakerTurn } from '../types/diarization';
+
+const REQUEST_TIMEOUT = 10 * 60 * 1000; // 10 minutes - long recordings take a while
+
+/**
+ * HTTP Diarization Provider
+ * Sends the recording to an external diarization service (e.g. a pyannote server)
+ *
+ * Contract: POST <url>?maxSpeakers=8[&numSpeakers=3] with the audio file as an
+ * application/octet-stream body, answered with { turns: [{ start, end, speaker }] }
+ */
+export class HttpDiarizationProvider implements DiarizationProvider {
+  readonly name = 'http';
+
+  constructor(
+    private readonly url: string,
+    private readonly apiKey?: string
+  ) {}
+
+  async diarize(request: DiarizationRequest): Promise<SpeakerTurn[]> {
+    try {
+      const response = await axios.post(this.url, fs.createReadStream(request.audioPath), {
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        },
+        params: {
+          maxSpeakers: request.maxSpeakers,
+          numSpeakers: request.expectedSpeakers,
+        },
+        maxBodyLength: Infinity,
+        timeout: REQUEST_TIMEOUT,
+      });
+
+      const turns = response.data?.turns;
+      if (!Array.isArray(turns)) {
+        throw new Error('Response has no turns array');
+      }
+
+      return turns
+        .filter((turn: any) => typeof turn.start === 'number' && typeof turn.end === 'number')
+        .map((turn: any) => ({
+          start: turn.start,
+          end: turn.end,
+          speaker: String(turn.speaker),
+        }));
+    } catch (error: any) {
+      throw new Error(`Diarization service failed: ${error.message}`);
+    }
+  }
+}
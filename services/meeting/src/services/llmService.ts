@@ -0,0 +1,211 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { z } from 'zod';
+import { openai, GPT_CONFIG } from '../config/openai';
+import { config } from '../config/config';
+import { buildRepairPrompt } from '../prompts/repair';
+import {
+  LLMCompletionRequest,
+  LLMJsonResult,
+  LLMProvider,
+  LLMProviderName,
+  LLMResult,
+  LLMStageName,
+  LLMTokenUsage,
+} from '../types/llm';
+import { OpenAILLMProvider } from './openAILLMProvider';
+import { AnthropicLLMProvider } from './anthropicLLMProvider';
+import { FakeLLMProvider } from './fakeLLMProvider';
+
+export type LLMRequest = Omit<LLMCompletionRequest, 'model'> & {
+  model?: string; // Defaults to the stage's model
+};
+
+/**
+ * LLM Service
+ * Single entry point for the analysis stages - picks the provider and the stage's
+ * model from config and prices every completion the same way
+ */
+export class LLMService {
+  private static provider: LLMProvider | null = null;
+
+  /**
+   * Send a chat completion for a pipeline stage
+   */
+  static async complete(stage: LLMStageName, request: LLMRequest): Promise<LLMResult> {
+    const provider = this.getProvider();
+    const model = request.model || this.getModel(stage);
+
+    const completion = await provider.complete({ ...request, model });
+
+    return {
+      ...completion,
+      cost: provider.calculateCost(completion.model, completion.tokensUsed),
+    };
+  }
+
+  /**
+   * Send a chat completion whose answer must match `schema`
+   * Invalid answers are sent back with the validation errors (up to LLM_MAX_REPAIR_ATTEMPTS
+   * times) - once they are used up the call fails rather than storing a guess
+   */
+  static async completeJson<T extends z.ZodType>(
+    stage: LLMStageName,
+    request: LLMRequest,
+    schema: T
+  ): Promise<LLMJsonResult<z.output<T>>> {
+    const messages = [...request.messages];
+    const attempts: LLMResult[] = [];
+
+    for (let repairs = 0; ; repairs++) {
+      const completion = await this.complete(stage, { ...request, messages, json: true });
+      attempts.push(completion);
+
+      const parsed = this.parseJson(completion.content, schema);
+      if (parsed.success) {
+        if (repairs > 0) {
+          console.log(`🔧 ${stage} output valid after ${repairs} repair(s)`);
+        }
+        return {
+          data: parsed.data,
+          model: completion.model,
+          ...this.combineUsage(attempts),
+          repairs,
+        };
+      }
+
+      if (repairs >= config.llm.maxRepairAttempts) {
+        throw new Error(
+          `Invalid ${stage} output after ${repairs} repair attempt(s): ${parsed.errors.replace(/\n/g, '; ')}`
+        );
+      }
+
+      console.warn(`⚠️ Invalid ${stage} output - asking for a repair:\n${parsed.errors}`);
+      messages.push(
+        { role: 'assistant', content: completion.content },
+        { role: 'user', content: buildRepairPrompt(parsed.errors) }
+      );
+    }
+  }
+
+  /**
+   * Model a stage runs with: LLM_MODEL_<STAGE>, then LLM_MODEL, then the provider's default
+   */
+  static getModel(stage: LLMStageName): string {
+    return config.llm.models[stage] || config.llm.model || this.getProvider().defaultModel;
+  }
+
+  /**
+   * Estimated cost of a stage's call before it is made
+   */
+  static estimateCost(stage: LLMStageName, tokensUsed: LLMTokenUsage): number {
+    return this.getProvider().calculateCost(this.getModel(stage), tokensUsed);
+  }
+
+  /**
+   * Total cost and tokens of several calls (e.g. batches of one stage)
+   */
+  static combineUsage(results: Pick<LLMResult, 'cost' | 'tokensUsed'>[]): {
+    cost: number;
+    tokensUsed: LLMTokenUsage;
+  } {
+    return results.reduce(
+      (total, result) => ({
+        cost: total.cost + result.cost,
+        tokensUsed: {
+          input: total.tokensUsed.input + result.tokensUsed.input,
+          output: total.tokensUsed.output + result.tokensUsed.output,
+        },
+      }),
+      { cost: 0, tokensUsed: { input: 0, output: 0 } }
+    );
+  }
+
+  /**
+   * Parse and validate an answer - errors are listed one per line for the repair prompt
+   */
+  private static parseJson<T extends z.ZodType>(
+    content: string,
+    schema: T
+  ): { success: true; data: z.output<T> } | { success: false; errors: string } {
+    let value: unknown;
+    try {
+      value = JSON.parse(content);
+    } catch (error: any) {
+      return { success: false, errors: `- Not valid JSON: ${error.message}` };
+    }
+
+    const result = schema.safeParse(value);
+    if (result.success) {
+      return { success: true, data: result.data };
+    }
+
+    return {
+      success: false,
+      errors: result.error.issues
+        .slice(0, 10)
+        .map((issue) => `- ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('\n'),
+    };
+  }
+
+  /**
+   * Provider for the deployment - created once
+   */
+  static getProvider(): LLMProvider {
+    if (!this.provider) {
+      this.provider = this.createProvider(config.llm.provider);
+    }
+    return this.provider;
+  }
+
+  /**
+   * Replace the provider, e.g. with a FakeLLMProvider in tests - null goes back to config
+   */
+  static setProvider(provider: LLMProvider | null): void {
+    this.provider = provider;
+  }
+
+  private static createProvider(name: LLMProviderName): LLMProvider {
+    switch (name) {
+      case 'fake':
+        return new FakeLLMProvider();
+      case 'local':
+        return new OpenAILLMProvider(
+          'local',
+          new OpenAI({
+            baseURL: config.llm.local.url,
+            apiKey: config.llm.local.apiKey || 'local', // Ollama and llama.cpp ignore it
+          }),
+          config.llm.local.model
+        );
+      case 'azure':
+        if (!config.llm.azure.endpoint || !config.llm.azure.apiKey) {
+          throw new Error(
+            'AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY are required for the azure LLM provider'
+          );
+        }
+        return new OpenAILLMProvider(
+          'azure',
+          new AzureOpenAI({
+            endpoint: config.llm.azure.endpoint,
+            apiKey: config.llm.azure.apiKey,
+            apiVersion: config.llm.azure.apiVersion,
+          }),
+          config.llm.azure.deployment || GPT_CONFIG.model
+        );
+      case 'anthropic':
+        if (!config.llm.anthropic.apiKey) {
+          throw new Error('ANTHROPIC_API_KEY is required for the anthropic LLM provider');
+        }
+        return new AnthropicLLMProvider(
+          config.llm.anthropic.url,
+          config.llm.anthropic.apiKey,
+          config.llm.anthropic.model
+        );
+      case 'openai':
+        return new OpenAILLMProvider('openai', openai, GPT_CONFIG.model);
+      default:
+        throw new Error(`Unknown LLM provider: ${name}`);
+    }
+  }
+}
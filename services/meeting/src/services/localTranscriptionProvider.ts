@@ -0,0 +1,68 @@
+import axios from 'axios';
+import fs from 'fs';
+import path from 'path';
+import { WHISPER_CONFIG } from '../config/openai';
+import { parseWhisperResponse } from '../utils/whisperResponse';
+import {
+  ProviderTranscribeOptions,
+  ProviderTranscription,
+  TranscriptionProvider,
+} from '../types/transcription';
+
+const REQUEST_TIMEOUT = 30 * 60 * 1000; // 30 minutes - CPU inference of long recordings is slow
+
+/**
+ * Local Transcription Provider
+ * Self-hosted Whisper server, so audio never leaves the deployment's network.
+ *
+ * Works with the whisper.cpp server (POST /inference) and OpenAI-compatible
+ * faster-whisper servers (POST /v1/audio/transcriptions) - both take a multipart
+ * `file` upload and answer with Whisper's verbose_json.
+ */
+export class LocalTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'local';
+  readonly chunked = false; // No upload limit - the server handles long recordings
+
+  constructor(
+    private readonly url: string,
+    readonly defaultModel: string,
+    private readonly apiKey?: string
+  ) {}
+
+  async transcribe(
+    audioPath: string,
+    options: ProviderTranscribeOptions
+  ): Promise<ProviderTranscription> {
+    const form = new FormData();
+    form.append('file', new Blob([fs.readFileSync(audioPath)]), path.basename(audioPath));
+    form.append('model', options.model);
+    if (options.prompt) {
+      form.append('prompt', options.prompt);
+    }
+    if (options.language) {
+      form.append('language', options.language); // whisper.cpp only auto-detects when started with -l auto
+    }
+    form.append('response_format', WHISPER_CONFIG.response_format);
+    form.append('temperature', String(WHISPER_CONFIG.temperature));
+
+    try {
+      const response = await axios.post(this.url, form, {
+        headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : undefined,
+        maxBodyLength: Infinity,
+        timeout: REQUEST_TIMEOUT,
+      });
+
+      if (typeof response.data?.text !== 'string') {
+        throw new Error('Response is not a Whisper verbose_json transcript');
+      }
+
+      return parseWhisperResponse(response.data);
+    } catch (error: any) {
+      throw new Error(`Local transcription server failed: ${error.message}`);
+    }
+  }
+
+  calculateCost(): number {
+    return 0; // Self-hosted
+  }
+}
@@ -1,5 +1,21 @@
-import { Meeting, IMeeting, ITranscript } from '../models/Meeting';
+import {
+  Meeting,
+  IMeeting,
+  ITranscript,
+  ITranscriptSpeaker,
+  IParticipant,
+  ITimelineMoment,
+  IMeetingSummary,
+  ProcessingStageName,
+} from '../models/Meeting';
 import mongoose from 'mongoose';
+import fs from 'fs';
+import { JobOrchestrator } from '../orchestration/jobOrchestrator';
+import { UploadService } from './uploadService';
+import { TranslationService } from './translationService';
+import { TranscriptImportService, ImportTranscriptDTO } from './transcriptImportService';
+import { TranscriptionProviderName } from '../types/transcription';
+import { config } from '../config/config';
 // import { getMeetingJobs } from '../queue/aiQueue';
 
 // DTOs (Data Transfer Objects)
@@ -16,6 +32,13 @@ export interface CreateMeetingDTO {
   }>;
   scheduledAt?: Date;
   projectId?: string;
+  transcriptionProvider?: TranscriptionProviderName;
+}
+
+export interface ReprocessMeetingDTO {
+  stages: ProcessingStageName[];
+  preserveEditedActionItems: boolean;
+  discardTranscriptEdits: boolean; // Re-transcribing replaces a user-corrected transcript
 }
 
 export interface MeetingResponse {
@@ -24,13 +47,17 @@ export interface MeetingResponse {
   description?: string;
   fileUrl?: string;
   transcript?: ITranscript;
+  translations?: string[]; // Languages the transcript is available in besides its own
   actionItems: any[];
   decisions: any[];
   participants: any[];
+  timeline?: ITimelineMoment[];
+  summary?: IMeetingSummary;
   status: string;
   sentiment?: any;
   relatedMeetings?: string[];
   projectId?: string;
+  transcriptionProvider?: TranscriptionProviderName;
   createdBy: string;
   scheduledAt?: Date;
   startedAt?: Date;
@@ -39,6 +66,11 @@ export interface MeetingResponse {
   updatedAt: Date;
 }
 
+export interface SpeakerMappingDTO {
+  speaker: string;
+  participantName: string | null; // null removes the mapping
+}
+
 export interface jobStatuses {
   id: string;
   type: string;
@@ -65,11 +97,27 @@ export interface MeetingStatusResponse {
   jobDetails: jobStatuses[];
 }
 
+const uploadService = new UploadService();
+const translationService = new TranslationService();
+const transcriptImportService = new TranscriptImportService();
+
 export class MeetingService {
   /**
    * Create a new meeting
    */
   async createMeeting(userId: string, meetingData: CreateMeetingDTO): Promise<MeetingResponse> {
+    // A meeting created with its transcript is processed like an imported one
+    if (meetingData.transcript) {
+      return this.importMeeting(userId, {
+        title: meetingData.title,
+        description: meetingData.description,
+        content: meetingData.transcript,
+        participants: meetingData.participants,
+        scheduledAt: meetingData.scheduledAt,
+        projectId: meetingData.projectId,
+      });
+    }
+
     try {
       // Validate userId is valid ObjectId
       if (!mongoose.Types.ObjectId.isValid(userId)) {
@@ -96,7 +144,20 @@ export class MeetingService {
     }
   }
 
-  async getMeetingById(meetingId: string, userId: string): Promise<MeetingResponse> {
+  /**
+   * Create a meeting from an existing transcript (WebVTT, SRT, Zoom/Teams export, "Name: text")
+   * Transcription is skipped - analysis stages are queued straight away
+   */
+  async importMeeting(userId: string, data: ImportTranscriptDTO): Promise<MeetingResponse> {
+    const meeting = await transcriptImportService.importTranscript(userId, data);
+    return this.formatMeetingResponse(meeting);
+  }
+
+  async getMeetingById(
+    meetingId: string,
+    userId: string,
+    language?: string
+  ): Promise<MeetingResponse> {
     try {
       // Validate IDs
       if (!mongoose.Types.ObjectId.isValid(meetingId)) {
@@ -119,13 +180,172 @@ export class MeetingService {
         throw new Error('Access denied to this meeting');
       }
 
-      return this.formatMeetingResponse(meeting);
+      // ?lang= swaps in a translated transcript
+      return {
+        ...this.formatMeetingResponse(meeting),
+        transcript: translationService.getTranscript(meeting, language),
+      };
     } catch (error) {
       console.error('Error fetching meeting:', error);
       throw error;
     }
   }
 
+  /**
+   * Get the key-moment timeline for a meeting
+   */
+  async getMeetingTimeline(
+    meetingId: string,
+    userId: string
+  ): Promise<{ timeline: ITimelineMoment[]; duration?: number }> {
+    const meeting = await this.getMeetingById(meetingId, userId);
+
+    return {
+      timeline: meeting.timeline || [],
+      duration: meeting.transcript?.duration,
+    };
+  }
+
+  /**
+   * Get the generated summary of a meeting - null until the summary stage has run
+   */
+  async getMeetingSummary(meetingId: string, userId: string): Promise<IMeetingSummary | null> {
+    const meeting = await this.getMeetingById(meetingId, userId);
+
+    return meeting.summary || null;
+  }
+
+  /**
+   * Resolve the part of a meeting's recording to cut for a clip
+   * The end is clamped to the recording length
+   */
+  async getClipSource(
+    meetingId: string,
+    userId: string,
+    start: number,
+    end: number
+  ): Promise<{ source: string; start: number; duration: number }> {
+    const meeting = await this.getMeetingById(meetingId, userId);
+
+    if (!meeting.fileUrl) {
+      throw new Error('Meeting has no recording');
+    }
+
+    const recordingEnd = meeting.transcript?.duration;
+    const clipEnd = recordingEnd ? Math.min(end, recordingEnd) : end;
+
+    if (clipEnd <= start) {
+      throw new Error('Clip starts after the end of the recording');
+    }
+    if (clipEnd - start > config.audio.maxClipSeconds) {
+      throw new Error(`Clip is too long (max ${config.audio.maxClipSeconds} seconds)`);
+    }
+
+    return { source: meeting.fileUrl, start, duration: clipEnd - start };
+  }
+
+  /**
+   * Re-run selected pipeline stages for a processed meeting
+   * Only the meeting creator can reprocess (it incurs AI cost)
+   */
+  async reprocessMeeting(
+    meetingId: string,
+    userId: string,
+    options: ReprocessMeetingDTO
+  ): Promise<{ meetingId: string; stages: ProcessingStageName[] }> {
+    const meeting = await this.getMeetingById(meetingId, userId);
+
+    if (meeting.createdBy !== userId) {
+      throw new Error('Access denied to this meeting');
+    }
+
+    // Transcription needs the recording again - everything else uses the stored transcript
+    let fileUrl: string | undefined;
+    let fileSize: number | undefined;
+
+    if (options.stages.includes('transcription')) {
+      if (!meeting.fileUrl) {
+        throw new Error('Meeting has no audio file to transcribe');
+      }
+      if (meeting.transcript?.humanCorrected && !options.discardTranscriptEdits) {
+        throw new Error('Transcript has manual edits');
+      }
+      fileUrl = await uploadService.downloadFileToTemp(meeting.fileUrl, meetingId);
+      fileSize = fs.statSync(fileUrl).size;
+    }
+
+    try {
+      const stages = await JobOrchestrator.reprocessStages(meetingId, options.stages, {
+        userId,
+        fileUrl,
+        fileSize,
+        preserveEditedActionItems: options.preserveEditedActionItems,
+      });
+
+      return { meetingId, stages };
+    } catch (error) {
+      // Rejected (e.g. still processing) - no job will pick up the downloaded recording
+      if (fileUrl && fs.existsSync(fileUrl)) {
+        fs.unlinkSync(fileUrl);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Map diarized speaker labels ("Speaker 1") to meeting participants
+   * Participant speaking time is recomputed from the mapped speakers
+   */
+  async mapSpeakers(
+    meetingId: string,
+    userId: string,
+    mappings: SpeakerMappingDTO[]
+  ): Promise<{ speakers: ITranscriptSpeaker[]; participants: IParticipant[] }> {
+    await this.getMeetingById(meetingId, userId);
+
+    const meeting = await Meeting.findById(meetingId);
+    const speakers = meeting?.transcript?.speakers;
+
+    if (!meeting || !meeting.transcript || !speakers?.length) {
+      throw new Error('Meeting has no speakers to map');
+    }
+
+    mappings.forEach((mapping) => {
+      const speaker = speakers.find((s) => s.label === mapping.speaker);
+      if (!speaker) {
+        throw new Error(`Unknown speaker: ${mapping.speaker}`);
+      }
+      speaker.participantName = mapping.participantName?.trim() || undefined;
+    });
+
+    // Speaking time per participant in minutes (a participant may own several labels)
+    const speakingTime = new Map<string, number>();
+    speakers.forEach((speaker) => {
+      if (!speaker.participantName) return;
+      speakingTime.set(
+        speaker.participantName,
+        (speakingTime.get(speaker.participantName) || 0) + speaker.speakingTime
+      );
+    });
+
+    meeting.participants.forEach((participant) => {
+      const seconds = speakingTime.get(participant.name);
+      participant.speakingTime =
+        seconds !== undefined ? Math.round((seconds / 60) * 10) / 10 : undefined;
+      speakingTime.delete(participant.name);
+    });
+
+    // Speakers mapped to someone not yet listed become participants
+    speakingTime.forEach((seconds, name) => {
+      meeting.participants.push({ name, speakingTime: Math.round((seconds / 60) * 10) / 10 });
+    });
+
+    meeting.markModified('transcript.speakers');
+    await meeting.save();
+
+    return { speakers: meeting.transcript.speakers || [], participants: meeting.participants };
+  }
+
   /**
    * List all meetings for a user
    */
@@ -190,13 +410,17 @@ export class MeetingService {
       description: meeting.description,
       fileUrl: meeting.fileUrl,
       transcript: meeting.transcript,
+      translations: meeting.translations?.map((translation) => translation.language),
       actionItems: meeting.actionItems,
       decisions: meeting.decisions,
       participants: meeting.participants,
+      timeline: meeting.timeline,
+      summary: meeting.summary,
       status: meeting.status,
       sentiment: meeting.sentiment,
       relatedMeetings: meeting.relatedMeetings?.map((id) => id.toString()),
       projectId: meeting.projectId,
+      transcriptionProvider: meeting.transcriptionProvider,
       createdBy: meeting.createdBy.toString(),
       scheduledAt: meeting.scheduledAt,
       startedAt: meeting.startedAt,
@@ -0,0 +1,37 @@
+import { MockTranscription } from '../utils/mockTranscription';
+import {
+  ProviderTranscribeOptions,
+  ProviderTranscription,
+  TranscriptionProvider,
+} from '../types/transcription';
+
+/**
+ * Mock Provider
+ * Canned transcript for development and tests - no network, no cost
+ */
+export class MockTranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'mock';
+  readonly defaultModel = 'mock-whisper';
+  readonly chunked = false;
+
+  constructor(private readonly delay: number = 2000) {}
+
+  async transcribe(
+    _audioPath: string,
+    options: ProviderTranscribeOptions
+  ): Promise<ProviderTranscription> {
+    await new Promise((resolve) => setTimeout(resolve, this.delay)); // Simulate API delay
+
+    const mock = MockTranscription.generate(Math.floor(options.duration));
+    return {
+      text: mock.fullText,
+      segments: mock.segments,
+      language: mock.language,
+      duration: mock.duration,
+    };
+  }
+
+  calculateCost(): number {
+    return 0; // Mock is FREE
+  }
+}
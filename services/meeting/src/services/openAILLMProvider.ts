@@ -0,0 +1,45 @@
+import OpenAI from 'openai';
+import { calculateTokenCost } from '../config/llm';
+import {
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMProvider,
+  LLMProviderName,
+  LLMTokenUsage,
+} from '../types/llm';
+
+/**
+ * OpenAI Chat Completions Provider
+ * Also serves Azure OpenAI (AzureOpenAI client - the model is the deployment name)
+ * and self-hosted OpenAI-compatible servers such as Ollama and llama.cpp
+ */
+export class OpenAILLMProvider implements LLMProvider {
+  constructor(
+    readonly name: Extract<LLMProviderName, 'openai' | 'azure' | 'local'>,
+    private readonly client: OpenAI,
+    readonly defaultModel: string
+  ) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const completion = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json && { response_format: { type: 'json_object' as const } }),
+    });
+
+    return {
+      content: completion.choices[0]?.message.content || '',
+      model: completion.model || request.model,
+      tokensUsed: {
+        input: completion.usage?.prompt_tokens || 0,
+        output: completion.usage?.completion_tokens || 0,
+      },
+    };
+  }
+
+  calculateCost(model: string, tokensUsed: LLMTokenUsage): number {
+    return this.name === 'local' ? 0 : calculateTokenCost(model, tokensUsed); // Self-hosted is free
+  }
+}
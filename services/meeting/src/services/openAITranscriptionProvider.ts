@@ -0,0 +1,39 @@
+import fs from 'fs';
+import { openai, WHISPER_CONFIG } from '../config/openai';
+import { CostCalculator } from '../utils/costCalculator';
+import { parseWhisperResponse } from '../utils/whisperResponse';
+import {
+  ProviderTranscribeOptions,
+  ProviderTranscription,
+  TranscriptionProvider,
+} from '../types/transcription';
+
+/**
+ * OpenAI Whisper Provider
+ * Hosted Whisper API - uploads are capped at 25MB, so long recordings are chunked
+ */
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = 'openai';
+  readonly defaultModel = WHISPER_CONFIG.model;
+  readonly chunked = true;
+
+  async transcribe(
+    audioPath: string,
+    options: ProviderTranscribeOptions
+  ): Promise<ProviderTranscription> {
+    const response = await openai.audio.transcriptions.create({
+      file: fs.createReadStream(audioPath),
+      model: options.model,
+      language: options.language,
+      prompt: options.prompt,
+      response_format: WHISPER_CONFIG.response_format,
+      temperature: WHISPER_CONFIG.temperature,
+    });
+
+    return parseWhisperResponse(response);
+  }
+
+  calculateCost(duration: number): number {
+    return CostCalculator.calculateCost(duration);
+  }
+}
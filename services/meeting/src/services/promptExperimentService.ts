@@ -0,0 +1,344 @@
+import mongoose from 'mongoose';
+import {
+  IPromptExperiment,
+  IPromptExperimentOutput,
+  IPromptExperimentRun,
+  PromptExperiment,
+} from '../models/PromptExperiment';
+import { IBackfillFilters } from '../models/Backfill';
+import { Meeting } from '../models/Meeting';
+import { PromptName } from '../models/PromptVersion';
+import { BackfillRunner } from '../orchestration/backfillRunner';
+import { promptExperimentQueue } from '../queue/promptExperimentQueue';
+import { matchByDescription } from '../utils/itemMatching';
+import { PromptService } from './promptService';
+
+// Items of the two versions describing the same thing (shared words in the description)
+const ITEM_MATCH_SIMILARITY = 0.6;
+
+const promptService = new PromptService();
+
+export interface PromptExperimentRequest {
+  prompt: PromptName;
+  baseline?: string; // Active version when omitted
+  candidate: string;
+  sampleSize: number;
+  filters: IBackfillFilters;
+  meetingIds?: string[]; // Instead of a random sample
+}
+
+// Totals of one version across the sample
+interface VersionSummary {
+  version: string;
+  cost: number; // USD
+  tokensUsed: { input: number; output: number };
+  repairs: number;
+  items?: number;
+  itemsPerMeeting?: number;
+  groundedRate?: number; // % of items whose quote was found in the transcript
+  averageScore?: number;
+  averageBurnout?: number;
+  detections?: number;
+}
+
+export interface PromptExperimentReport {
+  meetings: number; // Compared - failed meetings are left out
+  baseline: VersionSummary;
+  candidate: VersionSummary;
+  agreement: {
+    matched?: number; // Items/detections both versions found
+    onlyBaseline?: number;
+    onlyCandidate?: number;
+    rate: number; // % - matched of all distinct items, or meetings with the same overall sentiment
+    statusAgreement?: number; // % of matched follow-ups with the same status
+    meanScoreDifference?: number; // Candidate - baseline
+    meanBurnoutDifference?: number;
+  };
+  differences: Array<{
+    meetingId: mongoose.Types.ObjectId;
+    onlyBaseline: string[];
+    onlyCandidate: string[];
+  }>; // Meetings where the versions disagree, for review
+}
+
+export class PromptExperimentService {
+  /**
+   * Sample meetings and queue both versions for each of them
+   */
+  async createExperiment(
+    request: PromptExperimentRequest,
+    createdBy: string
+  ): Promise<IPromptExperiment> {
+    // Step 1: Both versions must exist - the baseline defaults to the active one
+    const [baseline, candidate] = await Promise.all([
+      promptService.resolve(request.prompt, request.baseline),
+      promptService.resolve(request.prompt, request.candidate),
+    ]);
+
+    if (baseline.version === candidate.version) {
+      throw new Error('Baseline and candidate must be different versions');
+    }
+
+    // Step 2: Sample meetings with a stored transcript
+    const query = BackfillRunner.buildMeetingQuery(request.filters);
+    if (request.meetingIds) {
+      query._id = {
+        $in: request.meetingIds
+          .filter((id) => mongoose.Types.ObjectId.isValid(id))
+          .map((id) => new mongoose.Types.ObjectId(id)),
+      };
+    }
+
+    const sample: { _id: mongoose.Types.ObjectId }[] = await Meeting.aggregate([
+      { $match: query },
+      { $sample: { size: request.sampleSize } },
+      { $project: { _id: 1 } },
+    ]);
+
+    if (sample.length === 0) {
+      throw new Error('No meetings match the experiment filters');
+    }
+
+    // Step 3: Create the experiment and queue its meetings
+    const experiment = await PromptExperiment.create({
+      prompt: request.prompt,
+      baseline: baseline.version,
+      candidate: candidate.version,
+      filters: request.filters,
+      meetingIds: sample.map((meeting) => meeting._id),
+      total: sample.length,
+      createdBy,
+    });
+    const experimentId = experiment._id.toString();
+
+    for (const meeting of sample) {
+      const meetingId = meeting._id.toString();
+      await promptExperimentQueue.addJob(
+        { experimentId, meetingId },
+        { jobId: `prompt-experiment-${experimentId}-${meetingId}` }
+      );
+    }
+
+    console.log(
+      `🧪 Prompt experiment ${experimentId} created: ${request.prompt} ` +
+        `${baseline.version} vs ${candidate.version} on ${sample.length} meetings`
+    );
+
+    return experiment;
+  }
+
+  /**
+   * Most recent experiments, without their per-meeting outputs
+   */
+  async listExperiments(limit: number = 20): Promise<IPromptExperiment[]> {
+    return PromptExperiment.find().select('-runs').sort({ createdAt: -1 }).limit(limit);
+  }
+
+  async getExperiment(experimentId: string): Promise<IPromptExperiment> {
+    if (!mongoose.Types.ObjectId.isValid(experimentId)) {
+      throw new Error('Prompt experiment not found');
+    }
+
+    const experiment = await PromptExperiment.findById(experimentId);
+    if (!experiment) {
+      throw new Error('Prompt experiment not found');
+    }
+
+    return experiment;
+  }
+
+  /**
+   * Skip the meetings not yet run - runs already recorded stay in the report
+   */
+  async cancelExperiment(experimentId: string): Promise<IPromptExperiment> {
+    const experiment = await this.getExperiment(experimentId);
+
+    if (experiment.status !== 'running') {
+      throw new Error(`Prompt experiment is ${experiment.status}`);
+    }
+
+    experiment.status = 'cancelled';
+    experiment.completedAt = new Date();
+    await experiment.save();
+
+    console.log(`🛑 Prompt experiment ${experimentId} cancelled`);
+    return experiment;
+  }
+
+  /**
+   * Format experiment with progress percentage (and the comparison when runs are loaded)
+   */
+  formatExperiment(experiment: IPromptExperiment) {
+    const { runs, ...rest } = experiment.toObject();
+
+    return {
+      ...rest,
+      progress:
+        experiment.total > 0 ? Math.round((experiment.processed / experiment.total) * 100) : 0,
+      ...(runs ? { runs, report: this.buildReport(experiment) } : {}),
+    };
+  }
+
+  /**
+   * Compare the two versions over every meeting run so far
+   */
+  buildReport(experiment: IPromptExperiment): PromptExperimentReport {
+    const runs = experiment.runs;
+    const report: PromptExperimentReport = {
+      meetings: runs.length,
+      baseline: this.summarizeVersion(experiment.baseline, runs, 'baseline'),
+      candidate: this.summarizeVersion(experiment.candidate, runs, 'candidate'),
+      agreement: { rate: 0 },
+      differences: [],
+    };
+
+    if (runs.length === 0) {
+      return report;
+    }
+
+    // Sentiment - a single answer per meeting
+    if (experiment.prompt === 'sentiment') {
+      const scores = runs.filter((run) => run.baseline.sentiment && run.candidate.sentiment);
+      const mean = (value: (run: IPromptExperimentRun) => number) =>
+        scores.length > 0
+          ? scores.reduce((total, run) => total + value(run), 0) / scores.length
+          : 0;
+
+      report.agreement = {
+        rate:
+          mean((run) =>
+            run.baseline.sentiment!.overall === run.candidate.sentiment!.overall ? 1 : 0
+          ) * 100,
+        meanScoreDifference: mean(
+          (run) => run.candidate.sentiment!.score - run.baseline.sentiment!.score
+        ),
+        meanBurnoutDifference: mean(
+          (run) => run.candidate.sentiment!.burnoutScore - run.baseline.sentiment!.burnoutScore
+        ),
+      };
+      return report;
+    }
+
+    // Lists - pair up what both versions found in each meeting
+    let matched = 0;
+    let sameStatus = 0;
+    let onlyBaseline = 0;
+    let onlyCandidate = 0;
+
+    runs.forEach((run) => {
+      const comparison =
+        experiment.prompt === 'follow-up'
+          ? this.matchDetections(run.baseline, run.candidate)
+          : this.matchItems(run.baseline, run.candidate);
+
+      matched += comparison.matched;
+      sameStatus += comparison.sameStatus;
+      onlyBaseline += comparison.onlyBaseline.length;
+      onlyCandidate += comparison.onlyCandidate.length;
+
+      if (comparison.onlyBaseline.length > 0 || comparison.onlyCandidate.length > 0) {
+        report.differences.push({
+          meetingId: run.meetingId,
+          onlyBaseline: comparison.onlyBaseline,
+          onlyCandidate: comparison.onlyCandidate,
+        });
+      }
+    });
+
+    const distinct = matched + onlyBaseline + onlyCandidate;
+    report.agreement = {
+      matched,
+      onlyBaseline,
+      onlyCandidate,
+      rate: distinct > 0 ? (matched / distinct) * 100 : 100,
+      ...(experiment.prompt === 'follow-up'
+        ? { statusAgreement: matched > 0 ? (sameStatus / matched) * 100 : 100 }
+        : {}),
+    };
+
+    return report;
+  }
+
+  private summarizeVersion(
+    version: string,
+    runs: IPromptExperimentRun[],
+    side: 'baseline' | 'candidate'
+  ): VersionSummary {
+    const outputs = runs.map((run) => run[side]);
+    const sum = (value: (output: IPromptExperimentOutput) => number) =>
+      outputs.reduce((total, output) => total + value(output), 0);
+
+    const summary: VersionSummary = {
+      version,
+      cost: sum((output) => output.cost),
+      tokensUsed: {
+        input: sum((output) => output.tokensUsed.input),
+        output: sum((output) => output.tokensUsed.output),
+      },
+      repairs: sum((output) => output.repairs),
+    };
+
+    if (outputs.some((output) => output.sentiment)) {
+      const withSentiment = outputs.filter((output) => output.sentiment);
+      summary.averageScore =
+        withSentiment.reduce((total, output) => total + output.sentiment!.score, 0) /
+        withSentiment.length;
+      summary.averageBurnout =
+        withSentiment.reduce((total, output) => total + output.sentiment!.burnoutScore, 0) /
+        withSentiment.length;
+    } else if (outputs.some((output) => output.detections)) {
+      summary.detections = sum((output) => output.detections?.length || 0);
+    } else {
+      const items = outputs.flatMap((output) => output.items || []);
+      summary.items = items.length;
+      summary.itemsPerMeeting = outputs.length > 0 ? items.length / outputs.length : 0;
+      summary.groundedRate =
+        items.length > 0 ? (items.filter((item) => item.verified).length / items.length) * 100 : 0;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Pair up the items both versions found
+   */
+  private matchItems(baseline: IPromptExperimentOutput, candidate: IPromptExperimentOutput) {
+    const { matches, onlyLeft, onlyRight } = matchByDescription(
+      baseline.items || [],
+      candidate.items || [],
+      ITEM_MATCH_SIMILARITY
+    );
+
+    return {
+      matched: matches.length,
+      sameStatus: 0,
+      onlyBaseline: onlyLeft.map((item) => item.description),
+      onlyCandidate: onlyRight.map((item) => item.description),
+    };
+  }
+
+  /**
+   * Follow-ups match on the commitment they refer to
+   */
+  private matchDetections(baseline: IPromptExperimentOutput, candidate: IPromptExperimentOutput) {
+    const candidates = new Map(
+      (candidate.detections || []).map((detection) => [detection.commitmentId, detection.status])
+    );
+    const onlyBaseline: string[] = [];
+    let matched = 0;
+    let sameStatus = 0;
+
+    (baseline.detections || []).forEach((detection) => {
+      if (!candidates.has(detection.commitmentId)) {
+        onlyBaseline.push(detection.commitmentId);
+        return;
+      }
+
+      matched++;
+      if (candidates.get(detection.commitmentId) === detection.status) sameStatus++;
+      candidates.delete(detection.commitmentId);
+    });
+
+    return { matched, sameStatus, onlyBaseline, onlyCandidate: [...candidates.keys()] };
+  }
+}
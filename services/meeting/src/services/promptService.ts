@@ -0,0 +1,174 @@
+import { IPromptVersion, PromptName, PromptVersion } from '../models/PromptVersion';
+import {
+  BUILT_IN_PROMPTS,
+  BUILT_IN_PROMPT_VERSION,
+  PROMPT_PLACEHOLDERS,
+} from '../prompts/registry';
+
+// A template ready to render - `version` is recorded on everything it produces
+export interface ResolvedPrompt {
+  name: PromptName;
+  version: string;
+  template: string;
+}
+
+export interface PromptVersionSummary {
+  name: PromptName;
+  version: string;
+  description?: string;
+  builtIn: boolean;
+  active: boolean;
+  createdBy?: string;
+  createdAt?: Date;
+  activatedAt?: Date;
+}
+
+export interface CreatePromptVersionDTO {
+  version?: string; // Next "vN" when omitted
+  template: string;
+  description?: string;
+  activate?: boolean;
+}
+
+/**
+ * Prompt Service
+ * Versioned prompt templates - the built-in version ships in src/prompts, further
+ * versions are stored in Mongo. The pipeline uses the active version of each prompt.
+ */
+export class PromptService {
+  /**
+   * Template for a prompt - the given version, or the active one
+   */
+  async resolve(name: PromptName, version?: string): Promise<ResolvedPrompt> {
+    if (version === BUILT_IN_PROMPT_VERSION) {
+      return this.builtIn(name);
+    }
+
+    const stored = await PromptVersion.findOne(version ? { name, version } : { name, active: true })
+      .select('version template')
+      .lean();
+
+    if (!stored) {
+      if (version) {
+        throw new Error(`Prompt version not found: ${name} ${version}`);
+      }
+      return this.builtIn(name);
+    }
+
+    return { name, version: stored.version, template: stored.template };
+  }
+
+  /**
+   * Every version of a prompt, oldest first
+   */
+  async listVersions(name: PromptName): Promise<PromptVersionSummary[]> {
+    const stored = await PromptVersion.find({ name }).sort({ createdAt: 1 });
+    const hasActive = stored.some((prompt) => prompt.active);
+
+    return [
+      {
+        name,
+        version: BUILT_IN_PROMPT_VERSION,
+        description: 'Built-in template',
+        builtIn: true,
+        active: !hasActive,
+      },
+      ...stored.map((prompt) => this.formatVersion(prompt)),
+    ];
+  }
+
+  /**
+   * Add a version of a prompt - it must keep every placeholder the stage fills in
+   */
+  async createVersion(
+    name: PromptName,
+    data: CreatePromptVersionDTO,
+    userId: string
+  ): Promise<PromptVersionSummary> {
+    const missing = PROMPT_PLACEHOLDERS[name].filter(
+      (placeholder) => !data.template.includes(`{${placeholder}}`)
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `Template is missing placeholders: ${missing.map((p) => `{${p}}`).join(', ')}`
+      );
+    }
+
+    const version = data.version || (await this.nextVersion(name));
+    if (
+      version === BUILT_IN_PROMPT_VERSION ||
+      (await PromptVersion.exists({ name, version })) !== null
+    ) {
+      throw new Error('Prompt version already exists');
+    }
+
+    const prompt = await PromptVersion.create({
+      name,
+      version,
+      template: data.template,
+      description: data.description,
+      createdBy: userId,
+    });
+
+    console.log(`📝 Prompt ${name} ${version} created`);
+
+    return data.activate ? this.activateVersion(name, version) : this.formatVersion(prompt);
+  }
+
+  /**
+   * Make a version the one the pipeline uses
+   * Activating the built-in version deactivates every stored one
+   */
+  async activateVersion(name: PromptName, version: string): Promise<PromptVersionSummary> {
+    if (version === BUILT_IN_PROMPT_VERSION) {
+      await PromptVersion.updateMany({ name, active: true }, { active: false });
+      console.log(`📝 Prompt ${name} reset to the built-in version`);
+      return { name, version, description: 'Built-in template', builtIn: true, active: true };
+    }
+
+    const prompt = await PromptVersion.findOne({ name, version });
+    if (!prompt) {
+      throw new Error(`Prompt version not found: ${name} ${version}`);
+    }
+
+    await PromptVersion.updateMany(
+      { name, active: true, _id: { $ne: prompt._id } },
+      { active: false }
+    );
+    prompt.active = true;
+    prompt.activatedAt = new Date();
+    await prompt.save();
+
+    console.log(`📝 Prompt ${name} ${version} activated`);
+    return this.formatVersion(prompt);
+  }
+
+  private builtIn(name: PromptName): ResolvedPrompt {
+    return { name, version: BUILT_IN_PROMPT_VERSION, template: BUILT_IN_PROMPTS[name] };
+  }
+
+  /**
+   * "v<N+1>" after the highest numbered version of a prompt
+   */
+  private async nextVersion(name: PromptName): Promise<string> {
+    const versions = await PromptVersion.find({ name }).select('version').lean();
+    const highest = [BUILT_IN_PROMPT_VERSION, ...versions.map((prompt) => prompt.version)]
+      .map((version) => parseInt(version.match(/^v(\d+)$/)?.[1] || '0'))
+      .reduce((max, number) => Math.max(max, number), 0);
+
+    return `v${highest + 1}`;
+  }
+
+  private formatVersion(prompt: IPromptVersion): PromptVersionSummary {
+    return {
+      name: prompt.name,
+      version: prompt.version,
+      description: prompt.description,
+      builtIn: false,
+      active: prompt.active,
+      createdBy: prompt.createdBy,
+      createdAt: prompt.createdAt,
+      activatedAt: prompt.activatedAt,
+    };
+  }
+}
@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import {
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMProvider,
+  LLMProviderName,
+  LLMTokenUsage,
+} from '../types/llm';
+
+// On disk - answers keyed by a hash of the request
+interface Recordings {
+  provider: LLMProviderName;
+  defaultModel: string;
+  responses: Record<string, LLMCompletion>;
+}
+
+/**
+ * Recorded Provider
+ * Replays answers recorded from a real provider, so evaluations are repeatable offline
+ * and cost nothing. Wrapping a provider records its answers to requests not seen before;
+ * without one, a request that wasn't recorded is an error.
+ */
+export class RecordedLLMProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  private readonly recordings: Recordings;
+  private recorded = 0;
+  replayed = 0;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly inner?: LLMProvider
+  ) {
+    if (fs.existsSync(filePath)) {
+      this.recordings = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } else if (inner) {
+      this.recordings = { provider: inner.name, defaultModel: inner.defaultModel, responses: {} };
+    } else {
+      throw new Error(`No recordings at ${filePath} - record them first`);
+    }
+
+    // Recordings keep the default model they were made with, so requests hash the same on replay
+    this.name = this.recordings.provider;
+    this.defaultModel = this.recordings.defaultModel;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const key = this.key(request);
+    const recorded = this.recordings.responses[key];
+    if (recorded) {
+      this.replayed++;
+      return recorded;
+    }
+
+    if (!this.inner) {
+      throw new Error(
+        `No recorded response for this request (${key.slice(0, 12)}, ${request.model})`
+      );
+    }
+
+    const completion = await this.inner.complete(request);
+    this.recordings.responses[key] = completion;
+    this.recorded++;
+    return completion;
+  }
+
+  /**
+   * Replayed answers were paid for when they were recorded
+   */
+  calculateCost(model: string, tokensUsed: LLMTokenUsage): number {
+    return this.inner ? this.inner.calculateCost(model, tokensUsed) : 0;
+  }
+
+  /**
+   * Write new recordings to disk - returns how many were added
+   */
+  async save(): Promise<number> {
+    if (this.recorded > 0) {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(this.filePath, JSON.stringify(this.recordings, null, 2));
+    }
+    return this.recorded;
+  }
+
+  private key(request: LLMCompletionRequest): string {
+    return crypto
+      .createHash('sha256')
+      .update(
+        JSON.stringify([
+          request.model,
+          request.messages,
+          request.temperature,
+          request.maxTokens,
+          !!request.json,
+        ])
+      )
+      .digest('hex');
+  }
+}
@@ -1,7 +1,7 @@
 import { Meeting, IMeeting } from '../models/Meeting';
 import mongoose from 'mongoose';
 
-interface SearchFilters {
+export interface SearchFilters {
   query?: string; // Full-text search in title, description, transcript
   status?: string[]; // Filter by status
   dateFrom?: Date; // Filter by date range
@@ -29,22 +29,44 @@ export class SearchService {
    * Search meetings with advanced filters
    */
   async searchMeetings(filters: SearchFilters): Promise<SearchResult> {
-    const {
-      query,
-      status,
-      dateFrom,
-      dateTo,
-      sentiment,
-      createdBy,
-      projectId,
-      hasActionItems,
-      page = 1,
-      limit = 20,
-      sortBy = 'createdAt',
-      sortOrder = 'desc',
-    } = filters;
+    const { page = 1, limit = 20, sortBy = 'createdAt', sortOrder = 'desc' } = filters;
 
     // Build query
+    const searchQuery = this.buildSearchQuery(filters);
+
+    // Execute query with pagination
+    const skip = (page - 1) * limit;
+    const sortOptions: any = { [sortBy]: sortOrder === 'asc' ? 1 : -1 };
+
+    const [meetings, total] = await Promise.all([
+      Meeting.find(searchQuery)
+        .sort(sortOptions)
+        .skip(skip)
+        .limit(limit)
+        .populate('createdBy', 'name email')
+        .lean(),
+      Meeting.countDocuments(searchQuery),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      meetings: meetings as unknown as IMeeting[],
+      total,
+      page,
+      totalPages,
+      hasMore: page < totalPages,
+    };
+  }
+
+  /**
+   * Build the MongoDB query for a set of search filters
+   * Shared with bulk operations (e.g. backfills) that select meetings the same way
+   */
+  buildSearchQuery(filters: SearchFilters): any {
+    const { query, status, dateFrom, dateTo, sentiment, createdBy, projectId, hasActionItems } =
+      filters;
+
     const searchQuery: any = {};
 
     // Full-text search (title, description, transcript)
@@ -92,29 +114,7 @@ export class SearchService {
       searchQuery['actionItems.0'] = { $exists: true };
     }
 
-    // Execute query with pagination
-    const skip = (page - 1) * limit;
-    const sortOptions: any = { [sortBy]: sortOrder === 'asc' ? 1 : -1 };
-
-    const [meetings, total] = await Promise.all([
-      Meeting.find(searchQuery)
-        .sort(sortOptions)
-        .skip(skip)
-        .limit(limit)
-        .populate('createdBy', 'name email')
-        .lean(),
-      Meeting.countDocuments(searchQuery),
-    ]);
-
-    const totalPages = Math.ceil(total / limit);
-
-    return {
-      meetings: meetings as unknown as IMeeting[],
-      total,
-      page,
-      totalPages,
-      hasMore: page < totalPages,
-    };
+    return searchQuery;
   }
 
   /**
@@ -174,6 +174,22 @@ export class SearchService {
       },
     ]);
 
+    // How often LLM stages needed a re-prompt to produce a valid answer
+    const llmOutputs = await Meeting.aggregate([
+      { $match: { ...query, 'processing.stages': { $exists: true } } },
+      { $project: { stages: { $objectToArray: '$processing.stages' } } },
+      { $unwind: '$stages' },
+      { $match: { 'stages.v.repairs': { $exists: true } } },
+      {
+        $group: {
+          _id: '$stages.k',
+          outputs: { $sum: 1 },
+          repaired: { $sum: { $cond: [{ $gt: ['$stages.v.repairs', 0] }, 1, 0] } },
+          repairs: { $sum: '$stages.v.repairs' },
+        },
+      },
+    ]);
+
     return {
       totalMeetings,
       completedMeetings,
@@ -193,6 +209,15 @@ export class SearchService {
       burnout: {
         averageScore: avgBurnout[0]?.avgScore || 0,
       },
+      llmOutputs: llmOutputs.reduce((acc: any, item: any) => {
+        acc[item._id] = {
+          outputs: item.outputs,
+          repaired: item.repaired,
+          repairs: item.repairs,
+          repairRate: (item.repaired / item.outputs) * 100,
+        };
+        return acc;
+      }, {}),
     };
   }
 
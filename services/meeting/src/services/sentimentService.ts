@@ -1,11 +1,12 @@
-import { openai } from '../config/openai';
-import { SENTIMENT_PROMPT } from '../prompts/sentiment';
-
-
-
-// Cost tracking (GPT-4 pricing)
-const GPT4_INPUT_COST = 0.03 / 1000;
-const GPT4_OUTPUT_COST = 0.06 / 1000;
+import { LLMService } from './llmService';
+import { PromptService, ResolvedPrompt } from './promptService';
+import { renderPrompt } from '../prompts/registry';
+import { buildLanguageInstruction } from '../prompts/language';
+import { config } from '../config/config';
+import { sentimentOutputSchema } from '../validators/llmOutputValidator';
+import { ITranscriptChunking, ITranscriptSegment } from '../models/Meeting';
+import { PromptVersions } from '../models/PromptVersion';
+import { chunkByTokens, describeChunking, splitSentences } from '../utils/transcriptChunker';
 
 // Raw sentiment result (before database formatting)
 export interface RawEmotionScores {
@@ -35,20 +36,34 @@ export interface SentimentServiceResult {
   burnoutIndicators: RawBurnoutIndicators;
   participants: RawParticipantSentiment[];
   cost: number;
+  model: string;
   tokensUsed: {
     input: number;
     output: number;
   };
+  chunking?: ITranscriptChunking;
+  promptVersions: PromptVersions;
+  repairs: number; // Answers that needed a re-prompt to pass validation
 }
 
+const promptService = new PromptService();
+
 /**
- * Analyze sentiment from transcript using GPT-4
+ * Analyze sentiment from transcript
  * Pure business logic - no database operations
  */
 export class SentimentService {
+  /**
+   * Long transcripts are analysed chunk by chunk (on segment boundaries) and the
+   * results averaged, weighted by how much of the meeting each chunk covers
+   */
   async analyzeSentiment(
     transcript: string,
-    participantNames: string[]
+    participantNames: string[],
+    model?: string,
+    language?: string,
+    segments?: ITranscriptSegment[],
+    promptVersion?: string // Active version when omitted (prompt experiments)
   ): Promise<SentimentServiceResult> {
     console.log('🎭 Starting sentiment analysis...');
 
@@ -56,78 +71,102 @@ export class SentimentService {
       throw new Error('Transcript is empty or invalid');
     }
 
-    try {
-      // Prepare prompt with transcript and participants
-      const prompt = SENTIMENT_PROMPT.replace('{transcript}', transcript).replace(
-        '{participants}',
-        participantNames.join(', ') || 'Unknown participants'
-      );
+    const units = segments && segments.length > 0 ? segments : splitSentences(transcript);
+    const { maxTokens, overlapTokens } = config.llm.chunking;
+    const chunks = chunkByTokens(units, maxTokens, overlapTokens);
+    const chunking = describeChunking(
+      chunks,
+      units,
+      maxTokens,
+      overlapTokens,
+      segments && segments.length > 0 ? 'segment' : 'sentence'
+    );
 
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are an expert organizational psychologist analyzing team dynamics and sentiment. Always return valid JSON with all required fields.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.4, // Slightly higher for nuanced analysis
-        response_format: { type: 'json_object' },
-      });
+    // Resolved once so every chunk uses the same version
+    const prompt = await promptService.resolve('sentiment', promptVersion);
 
-      const content = completion.choices[0].message.content || '{}';
+    if (chunks.length === 1) {
+      return {
+        ...(await this.analyzeChunk(transcript, participantNames, prompt, model, language)),
+        chunking,
+      };
+    }
 
-      // Parse response
-      let parsed;
-      try {
-        parsed = JSON.parse(content);
-      } catch (parseError) {
-        console.error('Failed to parse sentiment JSON:', content);
-        throw new Error('Invalid JSON response from GPT-4');
-      }
+    console.log(
+      `📚 Long transcript (~${chunking.transcriptTokens} tokens) - ${chunks.length} chunks`
+    );
 
-      // Validate and extract data with defaults
-      const result: SentimentServiceResult = {
-        overall: parsed.overall || 'neutral',
-        score: typeof parsed.score === 'number' ? parsed.score : 0,
-        emotions: {
-          joy: parsed.emotions?.joy ?? 0.5,
-          frustration: parsed.emotions?.frustration ?? 0.5,
-          stress: parsed.emotions?.stress ?? 0.5,
-          engagement: parsed.emotions?.engagement ?? 0.5,
-        },
-        burnoutIndicators: {
-          score: parsed.burnoutIndicators?.score ?? 0,
-          factors: Array.isArray(parsed.burnoutIndicators?.factors)
-            ? parsed.burnoutIndicators.factors
-            : [],
-          recommendations: Array.isArray(parsed.burnoutIndicators?.recommendations)
-            ? parsed.burnoutIndicators.recommendations
-            : [],
-        },
-        participants: Array.isArray(parsed.participants)
-          ? parsed.participants.map((p: any) => ({
-              name: p.name || 'Unknown',
-              sentimentScore: typeof p.sentimentScore === 'number' ? p.sentimentScore : 0,
-              engagementLevel: typeof p.engagementLevel === 'number' ? p.engagementLevel : 0.5,
-              concerns: Array.isArray(p.concerns) ? p.concerns : [],
-            }))
-          : [],
-        cost: 0, // Will calculate below
-        tokensUsed: {
-          input: completion.usage?.prompt_tokens || 0,
-          output: completion.usage?.completion_tokens || 0,
+    const results: SentimentServiceResult[] = [];
+    for (const chunk of chunks) {
+      const text = units
+        .slice(chunk.start, chunk.end + 1)
+        .map((unit) => unit.text)
+        .join(' ');
+      results.push(await this.analyzeChunk(text, participantNames, prompt, model, language));
+    }
+
+    const result = {
+      ...this.mergeResults(
+        results,
+        chunks.map((chunk) => chunk.tokens)
+      ),
+      chunking,
+    };
+
+    console.log(`✅ Merged sentiment of ${results.length} chunks`);
+    console.log(`   Overall: ${result.overall} (${result.score.toFixed(2)})`);
+    console.log(`💰 Sentiment cost: $${result.cost.toFixed(4)}`);
+
+    return result;
+  }
+
+  /**
+   * Analyze one prompt's worth of transcript
+   */
+  private async analyzeChunk(
+    transcript: string,
+    participantNames: string[],
+    prompt: ResolvedPrompt,
+    model?: string,
+    language?: string
+  ): Promise<SentimentServiceResult> {
+    try {
+      // Prepare prompt with transcript, participants and source language
+      const content =
+        renderPrompt(prompt.template, {
+          transcript,
+          participants: participantNames.join(', ') || 'Unknown participants',
+        }) + buildLanguageInstruction(language);
+
+      const completion = await LLMService.completeJson(
+        'sentiment',
+        {
+          model,
+          messages: [
+            {
+              role: 'system',
+              content:
+                'You are an expert organizational psychologist analyzing team dynamics and sentiment. Always return valid JSON with all required fields.',
+            },
+            {
+              role: 'user',
+              content,
+            },
+          ],
+          temperature: 0.4, // Slightly higher for nuanced analysis
         },
-      };
+        sentimentOutputSchema
+      );
 
-      // Calculate cost
-      result.cost =
-        result.tokensUsed.input * GPT4_INPUT_COST + result.tokensUsed.output * GPT4_OUTPUT_COST;
+      // Scores outside their range were clamped by the schema
+      const result: SentimentServiceResult = {
+        ...completion.data,
+        cost: completion.cost,
+        model: completion.model,
+        tokensUsed: completion.tokensUsed,
+        promptVersions: { sentiment: prompt.version },
+        repairs: completion.repairs,
+      };
 
       console.log(`✅ Sentiment analysis complete`);
       console.log(`   Overall: ${result.overall} (${result.score.toFixed(2)})`);
@@ -145,6 +184,80 @@ export class SentimentService {
     }
   }
 
+  /**
+   * Combine per-chunk results - scores are averaged weighted by chunk length,
+   * lists are de-duplicated and participants matched by name
+   */
+  private mergeResults(
+    results: SentimentServiceResult[],
+    weights: number[]
+  ): SentimentServiceResult {
+    const totalWeight = weights.reduce((total, weight) => total + weight, 0);
+    const average = (value: (result: SentimentServiceResult) => number) =>
+      results.reduce((total, result, index) => total + value(result) * weights[index], 0) /
+      totalWeight;
+    const unique = (values: string[]) => [
+      ...new Map(values.map((value) => [value.trim().toLowerCase(), value.trim()])).values(),
+    ];
+
+    const score = average((result) => result.score);
+
+    // Participants only count in the chunks they spoke in
+    const participants = new Map<
+      string,
+      { name: string; chunks: RawParticipantSentiment[]; weights: number[] }
+    >();
+    results.forEach((result, index) => {
+      result.participants.forEach((participant) => {
+        const key = participant.name.toLowerCase();
+        const entry = participants.get(key) || { name: participant.name, chunks: [], weights: [] };
+        entry.chunks.push(participant);
+        entry.weights.push(weights[index]);
+        participants.set(key, entry);
+      });
+    });
+
+    const { cost, tokensUsed } = LLMService.combineUsage(results);
+
+    return {
+      overall: score > 0.2 ? 'positive' : score < -0.2 ? 'negative' : 'neutral',
+      score,
+      emotions: {
+        joy: average((result) => result.emotions.joy),
+        frustration: average((result) => result.emotions.frustration),
+        stress: average((result) => result.emotions.stress),
+        engagement: average((result) => result.emotions.engagement),
+      },
+      burnoutIndicators: {
+        score: Math.round(average((result) => result.burnoutIndicators.score)),
+        factors: unique(results.flatMap((result) => result.burnoutIndicators.factors)),
+        recommendations: unique(
+          results.flatMap((result) => result.burnoutIndicators.recommendations)
+        ),
+      },
+      participants: [...participants.values()].map((entry) => {
+        const weight = entry.weights.reduce((total, value) => total + value, 0);
+        const weighted = (value: (participant: RawParticipantSentiment) => number) =>
+          entry.chunks.reduce(
+            (total, participant, index) => total + value(participant) * entry.weights[index],
+            0
+          ) / weight;
+
+        return {
+          name: entry.name,
+          sentimentScore: weighted((participant) => participant.sentimentScore),
+          engagementLevel: weighted((participant) => participant.engagementLevel),
+          concerns: unique(entry.chunks.flatMap((participant) => participant.concerns)),
+        };
+      }),
+      cost,
+      model: results[results.length - 1].model,
+      tokensUsed,
+      promptVersions: results[0].promptVersions,
+      repairs: results.reduce((total, result) => total + result.repairs, 0),
+    };
+  }
+
   /**
    * Helper: Validate emotion scores are in valid range (0-1)
    */
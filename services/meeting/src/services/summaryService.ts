@@ -0,0 +1,282 @@
+import { LLMService } from './llmService';
+import {
+  SUMMARY_MERGE_PROMPT,
+  SUMMARY_PROMPT,
+  SUMMARY_SEGMENTS_NOTE,
+  buildSummaryPreferences,
+  buildSummarySources,
+} from '../prompts/summary';
+import { renderPrompt } from '../prompts/registry';
+import { buildLanguageInstruction } from '../prompts/language';
+import { config } from '../config/config';
+import { summaryMergeOutputSchema, summaryOutputSchema } from '../validators/llmOutputValidator';
+import {
+  IOpenQuestion,
+  ISummaryTopic,
+  ITranscriptChunking,
+  ITranscriptSegment,
+} from '../models/Meeting';
+import { ISummaryPreferences } from '../models/SummarySettings';
+import { getSegmentRange, formatSegmentLines } from '../utils/transcriptSegments';
+import { normalizeForMatch, wordSimilarity } from '../utils/evidence';
+import { chunkByTokens, describeChunking, splitSentences } from '../utils/transcriptChunker';
+
+// The same topic seen at the end of one part and the start of the next (shared title words)
+const CONTINUED_TOPIC_SIMILARITY = 0.5;
+
+const SYSTEM_MESSAGE =
+  'You are an expert meeting assistant that writes clear, factual meeting summaries. Always return valid JSON.';
+
+export interface SummaryServiceResult {
+  tldr: string;
+  topics: ISummaryTopic[];
+  openQuestions: IOpenQuestion[];
+  preferences: ISummaryPreferences;
+  cost: number;
+  model: string;
+  tokensUsed: {
+    input: number;
+    output: number;
+  };
+  chunking: ITranscriptChunking;
+  repairs: number; // Answers that needed a re-prompt to pass validation
+}
+
+/**
+ * Write a meeting summary - executive TL;DR, per-topic summaries and open questions
+ * Pure business logic - no database operations
+ */
+export class SummaryService {
+  /**
+   * Long transcripts are summarised part by part (on segment boundaries), then the
+   * parts' topics are joined and one more call writes the TL;DR of the whole meeting
+   */
+  async generateSummary(
+    transcript: string,
+    participantNames: string[],
+    preferences: ISummaryPreferences,
+    model?: string,
+    language?: string,
+    segments?: ITranscriptSegment[],
+    duration: number = 0
+  ): Promise<SummaryServiceResult> {
+    console.log('📝 Starting summary generation...');
+
+    if (!transcript || transcript.trim().length === 0) {
+      throw new Error('Transcript is empty or invalid');
+    }
+
+    try {
+      // With segments each topic is located in the recording
+      const withSegments = !!segments && segments.length > 0;
+      const units = withSegments ? segments : splitSentences(transcript);
+
+      // Step 1: Split long transcripts on segment (or sentence) boundaries
+      const { maxTokens, overlapTokens } = config.llm.chunking;
+      const chunks = chunkByTokens(units, maxTokens, overlapTokens);
+      const chunking = describeChunking(
+        chunks,
+        units,
+        maxTokens,
+        overlapTokens,
+        withSegments ? 'segment' : 'sentence'
+      );
+
+      if (chunks.length > 1) {
+        console.log(
+          `📚 Long transcript (~${chunking.transcriptTokens} tokens) - ${chunks.length} chunks`
+        );
+      }
+
+      // Step 2: Summarise each part
+      const parts = [];
+      for (const chunk of chunks) {
+        const input = withSegments
+          ? formatSegmentLines(segments.slice(chunk.start, chunk.end + 1), chunk.start)
+          : chunks.length > 1
+            ? units
+                .slice(chunk.start, chunk.end + 1)
+                .map((unit) => unit.text)
+                .join(' ')
+            : transcript;
+
+        const content =
+          renderPrompt(SUMMARY_PROMPT, {
+            transcript: input,
+            participants: participantNames.join(', ') || 'Unknown participants',
+            preferences: buildSummaryPreferences(preferences),
+            sources: buildSummarySources(withSegments),
+          }) +
+          (withSegments ? SUMMARY_SEGMENTS_NOTE : '') +
+          buildLanguageInstruction(language);
+
+        parts.push(
+          await LLMService.completeJson(
+            'summary',
+            {
+              model,
+              messages: [
+                { role: 'system', content: SYSTEM_MESSAGE },
+                { role: 'user', content },
+              ],
+              temperature: 0.3,
+            },
+            summaryOutputSchema
+          )
+        );
+      }
+
+      // Step 3: Locate topics in the recording and join topics split across parts
+      const topics = this.joinTopics(
+        parts.map((part) =>
+          part.data.topics.map((topic) => {
+            const range =
+              withSegments && typeof topic.startSegment === 'number'
+                ? getSegmentRange(
+                    segments,
+                    topic.startSegment,
+                    topic.endSegment ?? topic.startSegment,
+                    duration
+                  )
+                : null;
+
+            return {
+              title: topic.title,
+              summary: topic.summary,
+              keyPoints: topic.keyPoints,
+              ...(range && { source: range }),
+            };
+          })
+        )
+      );
+
+      // Step 4: One TL;DR and the questions still open at the end, for long meetings
+      let { tldr, openQuestions } = parts[0].data;
+      const calls: { cost: number; tokensUsed: { input: number; output: number } }[] = [...parts];
+      let repairs = parts.reduce((total, part) => total + part.repairs, 0);
+
+      if (parts.length > 1) {
+        const merged = await this.mergeParts(
+          parts.map((part) => part.data),
+          preferences,
+          model,
+          language
+        );
+        ({ tldr, openQuestions } = merged.data);
+        calls.push(merged);
+        repairs += merged.repairs;
+      }
+
+      const { cost, tokensUsed } = LLMService.combineUsage(calls);
+
+      console.log(`✅ Summary: ${topics.length} topics, ${openQuestions.length} open questions`);
+      console.log(`💰 Summary cost: $${cost.toFixed(4)}`);
+      console.log(`📊 Tokens used: ${tokensUsed.input} input, ${tokensUsed.output} output`);
+
+      return {
+        tldr,
+        topics,
+        openQuestions,
+        preferences,
+        cost,
+        model: parts[parts.length - 1].model,
+        tokensUsed,
+        chunking,
+        repairs,
+      };
+    } catch (error: any) {
+      console.error('Summary generation failed:', error.message);
+      throw new Error(`Summary generation failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Write one TL;DR from the part summaries and keep the questions no later part answered
+   */
+  private async mergeParts(
+    parts: {
+      tldr: string;
+      topics: { title: string; summary: string }[];
+      openQuestions: IOpenQuestion[];
+    }[],
+    preferences: ISummaryPreferences,
+    model?: string,
+    language?: string
+  ) {
+    const content =
+      renderPrompt(SUMMARY_MERGE_PROMPT, {
+        parts: JSON.stringify(
+          parts.map((part, index) => ({
+            part: index + 1,
+            tldr: part.tldr,
+            topics: part.topics.map((topic) => ({ title: topic.title, summary: topic.summary })),
+            openQuestions: part.openQuestions,
+          })),
+          null,
+          2
+        ),
+        preferences: buildSummaryPreferences(preferences),
+      }) + buildLanguageInstruction(language);
+
+    return LLMService.completeJson(
+      'summary',
+      {
+        model,
+        messages: [
+          { role: 'system', content: SYSTEM_MESSAGE },
+          { role: 'user', content },
+        ],
+        temperature: 0.3,
+      },
+      summaryMergeOutputSchema
+    );
+  }
+
+  /**
+   * Concatenate the topics of consecutive parts
+   * Parts overlap, so a topic ending one part and starting the next is merged into one
+   */
+  private joinTopics(parts: ISummaryTopic[][]): ISummaryTopic[] {
+    const topics: ISummaryTopic[] = [];
+
+    parts.forEach((partTopics, index) => {
+      const [first, ...rest] = partTopics;
+      const previous = topics[topics.length - 1];
+
+      if (
+        index > 0 &&
+        first &&
+        previous &&
+        wordSimilarity(previous.title, first.title) >= CONTINUED_TOPIC_SIMILARITY
+      ) {
+        topics[topics.length - 1] = this.mergeTopic(previous, first);
+        topics.push(...rest);
+        return;
+      }
+
+      topics.push(...partTopics);
+    });
+
+    return topics;
+  }
+
+  private mergeTopic(earlier: ISummaryTopic, later: ISummaryTopic): ISummaryTopic {
+    const keyPoints = new Map(
+      [...earlier.keyPoints, ...later.keyPoints].map((point) => [normalizeForMatch(point), point])
+    );
+    const source =
+      earlier.source && later.source
+        ? {
+            startTime: Math.min(earlier.source.startTime, later.source.startTime),
+            endTime: Math.max(earlier.source.endTime, later.source.endTime),
+          }
+        : earlier.source || later.source;
+
+    return {
+      title: earlier.title,
+      summary: [earlier.summary, later.summary].filter(Boolean).join(' '),
+      keyPoints: [...keyPoints.values()],
+      ...(source && { source }),
+    };
+  }
+}
@@ -0,0 +1,73 @@
+import { config } from '../config/config';
+import { ISummaryPreferences, ISummarySettings, SummarySettings } from '../models/SummarySettings';
+
+/**
+ * Summary Settings Service
+ * Per-project length and style of meeting summaries - managed over the API,
+ * applied by the summary stage
+ */
+export class SummarySettingsService {
+  /**
+   * Settings of a project, or null when the project uses the defaults
+   */
+  async getSettings(projectId: string): Promise<ISummarySettings | null> {
+    return SummarySettings.findOne({ projectId });
+  }
+
+  /**
+   * Preferences to summarise a meeting of the project with
+   */
+  async resolvePreferences(projectId?: string): Promise<ISummaryPreferences> {
+    const settings = projectId ? await this.getSettings(projectId) : null;
+
+    return settings
+      ? { length: settings.length, style: settings.style, instructions: settings.instructions }
+      : this.getDefaults();
+  }
+
+  /**
+   * Replace a project's settings (creates them if needed) - omitted fields use the defaults
+   */
+  async saveSettings(
+    projectId: string,
+    preferences: Partial<ISummaryPreferences>,
+    userId: string
+  ): Promise<ISummarySettings> {
+    const defaults = this.getDefaults();
+    const settings = (await this.getSettings(projectId)) || new SummarySettings({ projectId });
+
+    settings.length = preferences.length || defaults.length;
+    settings.style = preferences.style || defaults.style;
+    settings.instructions = preferences.instructions || undefined;
+    settings.updatedBy = userId;
+
+    return settings.save();
+  }
+
+  async deleteSettings(projectId: string): Promise<void> {
+    const result = await SummarySettings.deleteOne({ projectId });
+    if (result.deletedCount === 0) {
+      throw new Error('Summary settings not found');
+    }
+  }
+
+  getDefaults(): ISummaryPreferences {
+    return { length: config.summary.length, style: config.summary.style };
+  }
+
+  /**
+   * API representation of a project's settings
+   */
+  formatSettings(settings: ISummarySettings) {
+    return {
+      projectId: settings.projectId,
+      length: settings.length,
+      style: settings.style,
+      instructions: settings.instructions,
+      isDefault: false,
+      updatedBy: settings.updatedBy,
+      createdAt: settings.createdAt,
+      updatedAt: settings.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { LLMService } from './llmService';
+import { TIMELINE_PROMPT } from '../prompts/timeline';
+import { renderPrompt } from '../prompts/registry';
+import { ITranscriptSegment } from '../models/Meeting';
+import { formatSegmentLines, getSegmentRange } from '../utils/transcriptSegments';
+import { timelineOutputSchema } from '../validators/llmOutputValidator';
+
+export type TimelineMomentType = 'topic_shift' | 'decision' | 'escalation';
+
+// Moment resolved to audio time (before database formatting)
+export interface TimelineMoment {
+  type: TimelineMomentType;
+  title: string;
+  summary?: string;
+  startTime: number; // Seconds from start
+  endTime: number; // Seconds from start
+  speakers: string[];
+  importance: 'high' | 'medium' | 'low';
+}
+
+export interface TimelineServiceResult {
+  moments: TimelineMoment[];
+  cost: number;
+  model: string;
+  tokensUsed: {
+    input: number;
+    output: number;
+  };
+}
+
+// Moment as returned by the LLM (segment indices, not seconds)
+type RawTimelineMoment = z.output<ReturnType<typeof timelineOutputSchema>>[number];
+
+/**
+ * Generate a timeline of key moments from transcript segments
+ * Pure business logic - no database operations
+ */
+export class TimelineService {
+  async generateTimeline(
+    segments: ITranscriptSegment[],
+    duration: number,
+    model?: string
+  ): Promise<TimelineServiceResult> {
+    console.log('🕒 Starting timeline generation...');
+
+    if (!segments || segments.length === 0) {
+      throw new Error('Transcript has no segments to build a timeline from');
+    }
+
+    try {
+      const prompt = renderPrompt(TIMELINE_PROMPT, {
+        duration: duration.toFixed(0),
+        segments: formatSegmentLines(segments),
+      });
+
+      const completion = await LLMService.completeJson(
+        'timeline',
+        {
+          model,
+          messages: [
+            {
+              role: 'system',
+              content:
+                'You are an expert meeting assistant that identifies key moments in timestamped transcripts. Always return valid JSON.',
+            },
+            {
+              role: 'user',
+              content: prompt,
+            },
+          ],
+          temperature: 0.3,
+        },
+        timelineOutputSchema(segments.length)
+      );
+
+      const moments = completion.data
+        .map((moment) => this.resolveMoment(moment, segments, duration))
+        .filter((moment): moment is TimelineMoment => moment !== null)
+        .sort((a, b) => a.startTime - b.startTime);
+
+      console.log(`✅ Generated ${moments.length} timeline moments`);
+      console.log(`💰 Timeline cost: $${completion.cost.toFixed(4)}`);
+
+      return {
+        moments,
+        cost: completion.cost,
+        model: completion.model,
+        tokensUsed: completion.tokensUsed,
+      };
+    } catch (error: any) {
+      console.error('Timeline generation failed:', error.message);
+      throw new Error(`Timeline generation failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Convert segment indices into start/end seconds
+   * A moment ends where the segment after its last segment begins
+   * Returns null for moments that reference segments that don't exist
+   */
+  private resolveMoment(
+    moment: RawTimelineMoment,
+    segments: ITranscriptSegment[],
+    duration: number
+  ): TimelineMoment | null {
+    const range = getSegmentRange(
+      segments,
+      moment.startSegment,
+      moment.endSegment ?? moment.startSegment,
+      duration
+    );
+
+    if (!range) {
+      console.warn(
+        `⚠️ Skipping timeline moment with invalid segment range: ${moment.startSegment}`
+      );
+      return null;
+    }
+
+    return {
+      type: moment.type,
+      title: moment.title,
+      summary: moment.summary,
+      startTime: range.startTime,
+      endTime: range.endTime,
+      speakers: moment.speakers,
+      importance: moment.importance,
+    };
+  }
+}
@@ -0,0 +1,489 @@
+import {
+  Meeting,
+  IMeeting,
+  ISegmentReview,
+  ITranscript,
+  ITranscriptSegment,
+  ProcessingStageName,
+} from '../models/Meeting';
+import {
+  TranscriptRevision,
+  ITranscriptRevision,
+  TranscriptRevisionAction,
+} from '../models/TranscriptRevision';
+import { StageTracker } from '../orchestration/stageTracker';
+import { getDownstreamStages } from '../orchestration/pipeline';
+import { config } from '../config/config';
+import { DiarizationService } from './diarizationService';
+import { MeetingService } from './meetingService';
+
+export interface SegmentEditDTO {
+  text?: string;
+  speaker?: string | null; // null removes the speaker label
+}
+
+export interface SegmentSplitDTO {
+  offset: number; // Character in the segment text where the second segment starts
+  timestamp?: number; // Start of the second segment - interpolated when omitted
+  speaker?: string; // Speaker of the second segment - defaults to the original speaker
+}
+
+export interface TranscriptRevisionResponse {
+  revision: number;
+  action: TranscriptRevisionAction;
+  index: number;
+  before: ITranscriptSegment[];
+  after: ITranscriptSegment[];
+  revertOf?: number;
+  revertedBy?: number;
+  userId: string;
+  createdAt: Date;
+}
+
+export interface ReviewQueueOptions {
+  threshold?: number; // 0-1, defaults to TRANSCRIPT_REVIEW_THRESHOLD
+  status?: 'pending' | 'verified' | 'corrected' | 'all';
+}
+
+// Low-confidence segment with the part of the recording it covers
+export interface ReviewSegmentResponse {
+  index: number;
+  text: string;
+  speaker?: string;
+  confidence: number;
+  startTime: number; // Seconds
+  endTime: number; // Seconds
+  review?: ISegmentReview;
+}
+
+export interface ReviewQueueResponse {
+  threshold: number;
+  segments: ReviewSegmentResponse[];
+  summary: {
+    flagged: number; // Segments below the threshold
+    pending: number;
+    verified: number;
+    corrected: number;
+  };
+}
+
+export interface TranscriptEditResult {
+  transcript: ITranscript;
+  revision: TranscriptRevisionResponse;
+  staleStages: ProcessingStageName[]; // Ran on the previous text - reprocess them to update
+}
+
+// Meeting whose transcript was checked to exist
+type EditableMeeting = IMeeting & { transcript: ITranscript };
+
+const meetingService = new MeetingService();
+
+/**
+ * Manual transcript corrections and review of low-confidence segments
+ * Every change is stored as a TranscriptRevision diff so it can be reverted
+ */
+export class TranscriptEditService {
+  /**
+   * Change the text and/or speaker of one segment
+   */
+  async editSegment(
+    meetingId: string,
+    userId: string,
+    index: number,
+    changes: SegmentEditDTO
+  ): Promise<TranscriptEditResult> {
+    const meeting = await this.getEditableMeeting(meetingId, userId);
+    const segment = this.getSegment(meeting, index);
+
+    const edited: ITranscriptSegment = { ...segment };
+    if (changes.text !== undefined) {
+      edited.text = changes.text.trim();
+    }
+    if (changes.speaker !== undefined) {
+      edited.speaker = changes.speaker?.trim() || undefined;
+    }
+    // An edited segment counts as reviewed
+    edited.review = { status: 'corrected', reviewedBy: userId, reviewedAt: new Date() };
+
+    return this.applyRevision(meeting, userId, 'edit', index, 1, [edited]);
+  }
+
+  /**
+   * Merge a segment with the `count` segments that follow it
+   * The merged segment keeps the first segment's start time and speaker
+   */
+  async mergeSegments(
+    meetingId: string,
+    userId: string,
+    index: number,
+    count: number = 1
+  ): Promise<TranscriptEditResult> {
+    const meeting = await this.getEditableMeeting(meetingId, userId);
+    const first = this.getSegment(meeting, index);
+    this.getSegment(meeting, index + count); // The last merged segment must exist too
+
+    const merging = this.getSegments(meeting).slice(index, index + count + 1);
+    const confidences = merging
+      .map((segment) => segment.confidence)
+      .filter((confidence): confidence is number => confidence !== undefined);
+
+    const merged: ITranscriptSegment = {
+      ...first,
+      text: merging.map((segment) => segment.text).join(' '),
+      // The least certain part decides - a merged segment is no better than its parts
+      confidence: confidences.length > 0 ? Math.min(...confidences) : undefined,
+      sentiment: merging.every((segment) => segment.sentiment === first.sentiment)
+        ? first.sentiment
+        : undefined,
+      review: merging.every((segment) => segment.review) ? first.review : undefined,
+    };
+
+    return this.applyRevision(meeting, userId, 'merge', index, count + 1, [merged]);
+  }
+
+  /**
+   * Split a segment in two at a character offset of its text
+   */
+  async splitSegment(
+    meetingId: string,
+    userId: string,
+    index: number,
+    split: SegmentSplitDTO
+  ): Promise<TranscriptEditResult> {
+    const meeting = await this.getEditableMeeting(meetingId, userId);
+    const segment = this.getSegment(meeting, index);
+
+    const head = segment.text.slice(0, split.offset).trim();
+    const tail = segment.text.slice(split.offset).trim();
+    if (!head || !tail) {
+      throw new Error('Split offset must fall inside the segment text');
+    }
+
+    // A segment lasts until the next one starts
+    const end =
+      this.getSegments(meeting)[index + 1]?.timestamp ??
+      Math.max(meeting.transcript.duration || 0, segment.timestamp);
+    const timestamp =
+      split.timestamp ??
+      Math.round(
+        (segment.timestamp + (end - segment.timestamp) * (split.offset / segment.text.length)) * 100
+      ) / 100;
+
+    if (timestamp <= segment.timestamp || timestamp >= end) {
+      throw new Error('Split timestamp must fall inside the segment');
+    }
+
+    return this.applyRevision(meeting, userId, 'split', index, 1, [
+      { ...segment, text: head },
+      { ...segment, text: tail, timestamp, speaker: split.speaker?.trim() || segment.speaker },
+    ]);
+  }
+
+  /**
+   * Segments below the confidence threshold, in transcript order
+   * Segments without a confidence (e.g. imported transcripts) are never listed
+   */
+  async getReviewQueue(
+    meetingId: string,
+    userId: string,
+    options: ReviewQueueOptions = {}
+  ): Promise<ReviewQueueResponse> {
+    const { transcript } = await meetingService.getMeetingById(meetingId, userId);
+    const threshold = options.threshold ?? config.transcription.reviewThreshold;
+    const status = options.status || 'pending';
+
+    const segments = transcript?.segments || [];
+    const flagged = segments
+      .map((segment, index) => ({ segment, index }))
+      .filter(({ segment }) => segment.confidence !== undefined && segment.confidence < threshold);
+
+    const summary = { flagged: flagged.length, pending: 0, verified: 0, corrected: 0 };
+    flagged.forEach(({ segment }) => summary[segment.review?.status || 'pending']++);
+
+    return {
+      threshold,
+      segments: flagged
+        .filter(
+          ({ segment }) => status === 'all' || (segment.review?.status || 'pending') === status
+        )
+        .map(({ segment, index }) => ({
+          index,
+          text: segment.text,
+          speaker: segment.speaker,
+          confidence: segment.confidence!,
+          startTime: segment.timestamp,
+          // A segment lasts until the next one starts
+          endTime: Math.max(
+            segment.timestamp,
+            segments[index + 1]?.timestamp ?? transcript?.duration ?? segment.timestamp
+          ),
+          review: segment.review,
+        })),
+      summary,
+    };
+  }
+
+  /**
+   * Mark segments as checked against the recording without changing them
+   */
+  async verifySegments(
+    meetingId: string,
+    userId: string,
+    indexes: number[]
+  ): Promise<{ verified: number[] }> {
+    const meeting = await this.getEditableMeeting(meetingId, userId);
+    indexes.forEach((index) => this.getSegment(meeting, index));
+
+    const review: ISegmentReview = {
+      status: 'verified',
+      reviewedBy: userId,
+      reviewedAt: new Date(),
+    };
+    const update: Record<string, ISegmentReview> = {};
+    indexes.forEach((index) => (update[`transcript.segments.${index}.review`] = review));
+
+    // Indexes shift when segments are merged or split - only apply to the transcript that was read
+    const updated = await Meeting.findOneAndUpdate(
+      { _id: meeting._id, 'transcript.revision': meeting.transcript.revision ?? null },
+      { $set: update }
+    );
+    if (!updated) {
+      throw new Error('Transcript was changed by another edit');
+    }
+
+    return { verified: indexes };
+  }
+
+  /**
+   * Revision history, newest first
+   */
+  async listRevisions(meetingId: string, userId: string): Promise<TranscriptRevisionResponse[]> {
+    const meeting = await meetingService.getMeetingById(meetingId, userId);
+
+    const revisions = await TranscriptRevision.find({ meetingId: meeting.id }).sort({
+      revision: -1,
+    });
+
+    return revisions.map((revision) => this.formatRevision(revision));
+  }
+
+  /**
+   * Undo a revision by applying its diff backwards
+   * Fails if a later edit changed the same segments
+   */
+  async revertRevision(
+    meetingId: string,
+    userId: string,
+    revisionNumber: number
+  ): Promise<TranscriptEditResult> {
+    const meeting = await this.getEditableMeeting(meetingId, userId);
+
+    const revision = await TranscriptRevision.findOne({
+      meetingId: meeting._id,
+      revision: revisionNumber,
+    });
+    if (!revision) {
+      throw new Error('Revision not found');
+    }
+    if (revision.revertedBy) {
+      throw new Error('Revision already reverted');
+    }
+
+    const current = this.getSegments(meeting).slice(
+      revision.index,
+      revision.index + revision.after.length
+    );
+    const unchanged =
+      current.length === revision.after.length &&
+      current.every((segment, i) =>
+        this.isSameSegment(segment, this.toPlainSegment(revision.after[i]))
+      );
+    if (!unchanged) {
+      throw new Error('Revision conflicts with later edits');
+    }
+
+    const result = await this.applyRevision(
+      meeting,
+      userId,
+      'revert',
+      revision.index,
+      revision.after.length,
+      revision.before.map((segment) => this.toPlainSegment(segment)),
+      revision.revision
+    );
+
+    revision.revertedBy = result.revision.revision;
+    await revision.save();
+
+    return result;
+  }
+
+  /**
+   * Replace `removeCount` segments at `index`, regenerate the derived transcript
+   * fields and record the change as a new revision
+   */
+  private async applyRevision(
+    meeting: EditableMeeting,
+    userId: string,
+    action: TranscriptRevisionAction,
+    index: number,
+    removeCount: number,
+    replacement: ITranscriptSegment[],
+    revertOf?: number
+  ): Promise<TranscriptEditResult> {
+    const segments = this.getSegments(meeting);
+    const before = segments.slice(index, index + removeCount);
+    segments.splice(index, removeCount, ...replacement);
+
+    const latest = await TranscriptRevision.findOne({ meetingId: meeting._id })
+      .sort({ revision: -1 })
+      .select('revision');
+    const revisionNumber = (latest?.revision || 0) + 1;
+
+    const duration = meeting.transcript.duration || 0;
+    const transcript: ITranscript = {
+      ...this.formatTranscript(meeting.transcript),
+      segments,
+      fullText: segments.map((segment) => segment.text).join(' '),
+      speakers: DiarizationService.summarizeSpeakers(
+        segments,
+        duration,
+        meeting.transcript.speakers || []
+      ),
+      humanCorrected: true,
+      revision: revisionNumber,
+      editedAt: new Date(),
+      editedBy: userId,
+    };
+
+    // Analysis stages already run on the previous text are flagged until they are reprocessed
+    const stale = StageTracker.staleUpdate(
+      meeting,
+      getDownstreamStages('transcription').map((stage) => stage.name)
+    );
+
+    // Only applies if nobody else edited the transcript since it was read
+    // Translations are segment-aligned with the old transcript - they are dropped
+    const updated = await Meeting.findOneAndUpdate(
+      { _id: meeting._id, 'transcript.revision': meeting.transcript.revision ?? null },
+      { $set: { transcript, translations: [], ...stale } },
+      { new: true }
+    );
+    if (!updated) {
+      throw new Error('Transcript was changed by another edit');
+    }
+
+    const revision = await TranscriptRevision.create({
+      meetingId: meeting._id,
+      revision: revisionNumber,
+      action,
+      index,
+      before,
+      after: replacement,
+      revertOf,
+      userId,
+    });
+
+    console.log(
+      `✏️  Transcript of meeting ${meeting._id} revised (#${revisionNumber} ${action} at segment ${index})`
+    );
+
+    return {
+      transcript,
+      revision: this.formatRevision(revision),
+      staleStages: StageTracker.getStaleStages(updated),
+    };
+  }
+
+  /**
+   * Load a meeting the user can access, with a transcript that is not being rewritten
+   */
+  private async getEditableMeeting(meetingId: string, userId: string): Promise<EditableMeeting> {
+    await meetingService.getMeetingById(meetingId, userId);
+
+    const meeting = await Meeting.findById(meetingId);
+    if (!meeting || !meeting.transcript?.segments?.length) {
+      throw new Error('Meeting has no transcript');
+    }
+
+    // The transcription stage overwrites the transcript when it completes
+    const state = StageTracker.getStates(meeting).transcription;
+    if (state && ['pending', 'queued', 'running', 'retrying'].includes(state)) {
+      throw new Error('Meeting is still being processed');
+    }
+
+    return meeting as EditableMeeting;
+  }
+
+  private getSegments(meeting: EditableMeeting): ITranscriptSegment[] {
+    return meeting.transcript.segments.map((segment) => this.toPlainSegment(segment));
+  }
+
+  private getSegment(meeting: EditableMeeting, index: number): ITranscriptSegment {
+    const segment = this.getSegments(meeting)[index];
+    if (!segment) {
+      throw new Error('Segment not found');
+    }
+    return segment;
+  }
+
+  private isSameSegment(a: ITranscriptSegment, b: ITranscriptSegment): boolean {
+    return a.text === b.text && a.speaker === b.speaker && a.timestamp === b.timestamp;
+  }
+
+  /**
+   * Segment fields without the subdocument _id
+   */
+  private toPlainSegment(segment: ITranscriptSegment): ITranscriptSegment {
+    return {
+      text: segment.text,
+      speaker: segment.speaker || undefined,
+      timestamp: segment.timestamp,
+      confidence: segment.confidence,
+      sentiment: segment.sentiment,
+      language: segment.language,
+      review: segment.review
+        ? {
+            status: segment.review.status,
+            reviewedBy: segment.review.reviewedBy,
+            reviewedAt: segment.review.reviewedAt,
+          }
+        : undefined,
+    };
+  }
+
+  private formatTranscript(transcript: ITranscript): ITranscript {
+    return {
+      segments: transcript.segments.map((segment) => this.toPlainSegment(segment)),
+      fullText: transcript.fullText,
+      language: transcript.language,
+      languages: transcript.languages,
+      duration: transcript.duration,
+      speakers: (transcript.speakers || []).map((speaker) => ({
+        label: speaker.label,
+        participantName: speaker.participantName,
+        speakingTime: speaker.speakingTime,
+        segmentCount: speaker.segmentCount,
+      })),
+      importedFrom: transcript.importedFrom,
+      humanCorrected: transcript.humanCorrected,
+      revision: transcript.revision,
+      editedAt: transcript.editedAt,
+      editedBy: transcript.editedBy,
+    };
+  }
+
+  private formatRevision(revision: ITranscriptRevision): TranscriptRevisionResponse {
+    return {
+      revision: revision.revision,
+      action: revision.action,
+      index: revision.index,
+      before: revision.before.map((segment) => this.toPlainSegment(segment)),
+      after: revision.after.map((segment) => this.toPlainSegment(segment)),
+      revertOf: revision.revertOf,
+      revertedBy: revision.revertedBy,
+      userId: revision.userId,
+      createdAt: revision.createdAt,
+    };
+  }
+}
@@ -0,0 +1,114 @@
+import mongoose from 'mongoose';
+import { Meeting, IMeeting, IParticipant } from '../models/Meeting';
+import { JobOrchestrator } from '../orchestration/jobOrchestrator';
+import { TranscriptImportFormat } from '../types/transcription';
+import { parseTranscript } from '../utils/transcriptParser';
+import { config } from '../config/config';
+import { DiarizationService } from './diarizationService';
+import { GlossaryService } from './glossaryService';
+
+export interface ImportTranscriptDTO {
+  title: string;
+  description?: string;
+  content: string; // Raw WebVTT / SRT / Zoom / Teams / "Name: text" transcript
+  format?: TranscriptImportFormat; // Detected from the content when omitted
+  language?: string; // ISO 639-1
+  participants?: Array<{
+    userId?: string;
+    name: string;
+    email?: string;
+    role?: string;
+  }>;
+  scheduledAt?: Date;
+  projectId?: string;
+}
+
+const glossaryService = new GlossaryService();
+
+/**
+ * Transcript Import Service
+ * Creates meetings from existing transcripts - the pipeline starts after transcription
+ */
+export class TranscriptImportService {
+  async importTranscript(userId: string, data: ImportTranscriptDTO): Promise<IMeeting> {
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      throw new Error('Invalid user ID');
+    }
+
+    // Step 1: Parse segments, speakers and timestamps out of the file
+    const parsed = parseTranscript(data.content, data.format);
+    if (parsed.segments.length === 0) {
+      throw new Error('Transcript has no content to import');
+    }
+
+    let segments = parsed.segments;
+    let fullText = segments.map((segment) => segment.text).join(' ');
+
+    // Step 2: Project glossary corrections, as for transcribed meetings
+    const glossary = data.projectId ? await glossaryService.getGlossary(data.projectId) : null;
+    if (glossary) {
+      const corrected = glossaryService.applyCorrections(segments, fullText, glossary);
+      segments = corrected.segments;
+      fullText = corrected.fullText;
+    }
+
+    // Step 3: Speakers are named in the file - each one maps to a participant of that name
+    const speakers = DiarizationService.summarizeSpeakers(segments, parsed.duration).map(
+      (speaker) => ({ ...speaker, participantName: speaker.label })
+    );
+    const participants: IParticipant[] = (data.participants || []).map((participant) => ({
+      ...participant,
+    }));
+
+    speakers.forEach((speaker) => {
+      const speakingTime = Math.round((speaker.speakingTime / 60) * 10) / 10;
+      const participant = participants.find(
+        (p) => p.name.toLowerCase() === speaker.label.toLowerCase()
+      );
+
+      if (participant) {
+        participant.speakingTime = (participant.speakingTime || 0) + speakingTime;
+      } else {
+        participants.push({ name: speaker.label, speakingTime });
+      }
+    });
+
+    const language = data.language || config.openai.language || 'en';
+
+    // Step 4: Save the meeting as already transcribed
+    const meeting = new Meeting({
+      title: data.title,
+      description: data.description,
+      participants,
+      scheduledAt: data.scheduledAt,
+      projectId: data.projectId,
+      createdBy: new mongoose.Types.ObjectId(userId),
+      actionItems: [],
+      decisions: [],
+      status: 'transcribed',
+      transcript: {
+        segments,
+        fullText,
+        language,
+        languages: [language],
+        duration: parsed.duration,
+        speakers,
+        importedFrom: parsed.format,
+      },
+      processing: {
+        startedAt: new Date(),
+        cost: 0,
+      },
+    });
+    await meeting.save();
+
+    console.log(
+      `📄 Imported ${parsed.format} transcript for meeting ${meeting._id}: ${segments.length} segments, ${speakers.length} speakers`
+    );
+
+    // Step 5: Queue the stages that follow transcription
+    await JobOrchestrator.startFromTranscript(meeting._id.toString(), userId);
+
+    return meeting;
+  }
+}
@@ -1,22 +1,59 @@
-import { openai, WHISPER_CONFIG, USE_MOCK_MODE } from '../config/openai';
+import { config } from '../config/config';
+import { WHISPER_CONFIG } from '../config/openai';
+import { normalizeLanguageCode } from '../utils/language';
 import { CostCalculator } from '../utils/costCalculator';
-import { MockTranscription } from '../utils/mockTranscription';
-import { TranscriptionResult } from '../types/transcription';
+import {
+  ProviderTranscription,
+  TranscriptionProvider,
+  TranscriptionProviderName,
+  TranscriptionResult,
+  TranscriptSegment,
+} from '../types/transcription';
 import fs from 'fs';
 import { AudioProcessor } from '../processor/audioProcessor';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { stitchChunks } from '../utils/transcriptStitching';
+import { OpenAITranscriptionProvider } from './openAITranscriptionProvider';
+import { LocalTranscriptionProvider } from './localTranscriptionProvider';
+import { MockTranscriptionProvider } from './mockTranscriptionProvider';
+
+/**
+ * Called after each chunk of a long recording is transcribed
+ */
+export type TranscriptionProgressCallback = (
+  completedChunks: number,
+  totalChunks: number
+) => void | Promise<void>;
+
+export interface TranscribeOptions {
+  provider?: TranscriptionProviderName; // Defaults to TRANSCRIPTION_PROVIDER
+  model?: string; // Defaults to the provider's model
+  language?: string; // ISO 639-1 - defaults to WHISPER_LANGUAGE, else auto-detected
+  prompt?: string; // Vocabulary hint, e.g. the project glossary
+  onProgress?: TranscriptionProgressCallback;
+  signal?: AbortSignal; // Aborted when the job times out - no further chunks are sent
+}
 
 /**
  * Transcription Service
- * Business logic for audio transcription using OpenAI Whisper
+ * Business logic for audio transcription - the engine itself is a TranscriptionProvider
  */
 export class TranscriptionService {
-  static async transcribe(audioPath: string, meetingId: string): Promise<TranscriptionResult> {
+  static async transcribe(
+    audioPath: string,
+    meetingId: string,
+    options: TranscribeOptions = {}
+  ): Promise<TranscriptionResult> {
     const startTime = Date.now();
+    const provider = this.getProvider(options.provider);
+    const model = options.model || provider.defaultModel;
+    const language = options.language || WHISPER_CONFIG.language;
 
     console.log(`🎤 TranscriptionService: Starting transcription`);
     console.log(`   Meeting ID: ${meetingId}`);
     console.log(`   Audio Path: ${audioPath}`);
-    console.log(`   Mode: ${USE_MOCK_MODE ? 'MOCK (Free)' : 'REAL (OpenAI API)'}`);
+    console.log(`   Provider: ${provider.name} (${model})`);
+    console.log(`   Language: ${language || 'auto-detect'}`);
 
     // Step 1: Validate audio file
     console.log(`   🔍 Validating audio file...`);
@@ -30,43 +67,103 @@ export class TranscriptionService {
     console.log(`   ℹ️  Format: ${metadata.format}`);
 
     // Step 3: Calculate estimated cost
-    const estimatedCost = AudioProcessor.calculateEstimatedCost(metadata.duration);
+    const estimatedCost = provider.calculateCost(metadata.duration);
     console.log(`   💰 Estimated cost: $${estimatedCost.toFixed(4)}`);
 
-    // Step 4: Transcribe (Mock or Real)
+    if (provider.name !== 'mock' && !fs.existsSync(audioPath)) {
+      throw new Error(`Audio file not found: ${audioPath}`);
+    }
+
+    // Step 4: Transcribe - long recordings in overlapping chunks if the provider needs it
+    const chunks = provider.chunked
+      ? await AudioProcessor.splitIntoChunks(
+          audioPath,
+          config.audio.chunkDuration,
+          config.audio.chunkOverlap
+        )
+      : [];
+
     let result: TranscriptionResult;
 
-    if (USE_MOCK_MODE) {
-      // Mock transcription (FREE)
-      console.log(`   🎭 Generating mock transcription...`);
-      await this.simulateDelay(2000); // Simulate API delay
-      result = MockTranscription.generate(Math.floor(metadata.duration));
-      result.processingTime = Date.now() - startTime;
-    } else {
-      // Real Whisper API call
-      console.log(`   🤖 Calling OpenAI Whisper API...`);
-
-      if (!fs.existsSync(audioPath)) {
-        throw new Error(`Audio file not found: ${audioPath}`);
-      }
+    try {
+      if (chunks.length <= 1) {
+        // A short recording over the size limit still comes back as one re-encoded chunk
+        const inputPath = chunks[0]?.path || audioPath;
+
+        console.log(`   🤖 Calling ${provider.name} transcription provider...`);
+        const transcription = await provider.transcribe(inputPath, {
+          model,
+          duration: metadata.duration,
+          language,
+          prompt: options.prompt,
+        });
+        const duration = transcription.duration || metadata.duration;
+        const segments = this.tagLanguage(transcription, language);
+
+        result = {
+          segments,
+          fullText: transcription.text,
+          duration,
+          ...this.summarizeLanguages(segments, language),
+          cost: provider.calculateCost(duration),
+          model,
+          processingTime: Date.now() - startTime,
+        };
+      } else {
+        console.log(
+          `   🤖 Transcribing ${chunks.length} chunks (concurrency: ${config.audio.chunkConcurrency})...`
+        );
 
-      const response = await openai.audio.transcriptions.create({
-        file: fs.createReadStream(audioPath),
-        model: WHISPER_CONFIG.model,
-        language: WHISPER_CONFIG.language,
-        response_format: WHISPER_CONFIG.response_format,
-        temperature: WHISPER_CONFIG.temperature,
-      });
+        let completed = 0;
+        const transcriptions = await mapWithConcurrency(
+          chunks,
+          config.audio.chunkConcurrency,
+          async (chunk) => {
+            options.signal?.throwIfAborted();
+            const transcription = await provider.transcribe(chunk.path, {
+              model,
+              duration: chunk.duration,
+              language,
+              prompt: options.prompt,
+            });
+            completed++;
+            console.log(`   ✓ Chunk ${chunk.index + 1}/${chunks.length} transcribed`);
+            await options.onProgress?.(completed, chunks.length);
+            return transcription;
+          }
+        );
 
-      // Parse Whisper response
-      result = this.parseWhisperResponse(response, Date.now() - startTime, meetingId);
+        // Each chunk is detected separately, so code-switching meetings keep every language
+        const segments = stitchChunks(
+          chunks,
+          transcriptions.map((transcription) => this.tagLanguage(transcription, language))
+        );
+        console.log(`   🧵 Stitched ${chunks.length} chunks: ${segments.length} segments`);
+
+        result = {
+          segments,
+          fullText: segments.map((segment) => segment.text).join(' '),
+          ...this.summarizeLanguages(segments, language),
+          duration: metadata.duration,
+          cost: provider.calculateCost(metadata.duration),
+          model,
+          processingTime: Date.now() - startTime,
+        };
+      }
+    } finally {
+      if (chunks.some((chunk) => chunk.path !== audioPath)) {
+        AudioProcessor.cleanupChunks(chunks);
+      }
+    }
 
-      // Log cost
-      await CostCalculator.logCost(meetingId, result.duration, WHISPER_CONFIG.model);
+    // Log cost of paid providers
+    if (result.cost > 0) {
+      await CostCalculator.logCost(meetingId, result.duration, model);
     }
 
     console.log(`   ✅ Transcription complete`);
     console.log(`   📊 Segments: ${result.segments.length}`);
+    console.log(`   🌐 Languages: ${result.languages.join(', ')}`);
     console.log(`   📝 Words: ${result.fullText.split(' ').length}`);
     console.log(`   💰 Cost: $${result.cost.toFixed(4)}`);
     console.log(`   ⏱️  Processing time: ${result.processingTime}ms`);
@@ -75,33 +172,71 @@ export class TranscriptionService {
   }
 
   /**
-   * Parse Whisper API response into our format
+   * Provider for a meeting, or the deployment default
    */
-  private static parseWhisperResponse(
-    response: any,
-    processingTime: number,
-    meetingId: string
-  ): TranscriptionResult {
-    const segments = (response.segments || []).map((segment: any) => ({
-      text: segment.text.trim(),
-      timestamp: segment.start,
-      confidence: segment.no_speech_prob ? 1 - segment.no_speech_prob : 0.95,
-      speaker: undefined, // Whisper doesn't provide speaker diarization
-      sentiment: undefined, // Will be added in Day 12
+  static getProvider(
+    name: TranscriptionProviderName = config.transcription.provider
+  ): TranscriptionProvider {
+    switch (name) {
+      case 'mock':
+        return new MockTranscriptionProvider();
+      case 'local':
+        if (!config.transcription.localUrl) {
+          throw new Error(
+            'TRANSCRIPTION_LOCAL_URL is required for the local transcription provider'
+          );
+        }
+        return new LocalTranscriptionProvider(
+          config.transcription.localUrl,
+          config.transcription.localModel,
+          config.transcription.localApiKey
+        );
+      case 'openai':
+        return new OpenAITranscriptionProvider();
+      default:
+        throw new Error(`Unknown transcription provider: ${name}`);
+    }
+  }
+
+  /**
+   * Segments of one provider transcription, tagged with its language
+   */
+  private static tagLanguage(
+    transcription: ProviderTranscription,
+    requested?: string
+  ): TranscriptSegment[] {
+    const language = normalizeLanguageCode(transcription.language) || requested;
+    return transcription.segments.map((segment) => ({
+      ...segment,
+      language: segment.language || language,
     }));
+  }
+
+  /**
+   * Primary language (most transcribed text) and every detected language
+   */
+  private static summarizeLanguages(
+    segments: TranscriptSegment[],
+    requested?: string
+  ): Pick<TranscriptionResult, 'language' | 'languages'> {
+    const characters = new Map<string, number>();
+    segments.forEach((segment) => {
+      if (!segment.language) return;
+      characters.set(
+        segment.language,
+        (characters.get(segment.language) || 0) + segment.text.length
+      );
+    });
+
+    const languages = Array.from(characters.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([language]) => language);
+
+    if (languages.length === 0) {
+      languages.push(requested || 'en');
+    }
 
-    const duration = response.duration || 0;
-    const cost = CostCalculator.calculateCost(duration);
-
-    return {
-      segments,
-      fullText: response.text,
-      duration,
-      language: response.language || 'en',
-      cost,
-      model: WHISPER_CONFIG.model,
-      processingTime,
-    };
+    return { language: languages[0], languages };
   }
 
   /**
@@ -131,13 +266,6 @@ export class TranscriptionService {
     return await AudioProcessor.getMetadata(audioPath);
   }
 
-  /**
-   * Simulate API delay in mock mode
-   */
-  private static simulateDelay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
   static getCostSummary() {
     return CostCalculator.getCostSummary();
   }
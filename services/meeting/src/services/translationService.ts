@@ -0,0 +1,181 @@
+import { config } from '../config/config';
+import { LLMService } from './llmService';
+import { TRANSLATION_PROMPT } from '../prompts/translation';
+import { renderPrompt } from '../prompts/registry';
+import { IMeeting, ITranscript, ITranscriptSegment } from '../models/Meeting';
+import { getLanguageName } from '../utils/language';
+import { translationOutputSchema } from '../validators/llmOutputValidator';
+
+export interface TranslationServiceResult {
+  segments: ITranscriptSegment[]; // Aligned 1:1 with the input segments
+  fullText: string;
+  untranslatedSegments: number[]; // Missing from the LLM's answers - kept in the source language
+  cost: number;
+  model: string;
+  tokensUsed: {
+    input: number;
+    output: number;
+  };
+}
+
+/**
+ * Translate transcripts segment by segment
+ * Pure business logic - no database operations
+ */
+export class TranslationService {
+  async translateSegments(
+    segments: ITranscriptSegment[],
+    sourceLanguage: string,
+    targetLanguage: string,
+    model?: string
+  ): Promise<TranslationServiceResult> {
+    console.log(
+      `🌐 Translating ${segments.length} segments (${sourceLanguage} → ${targetLanguage})...`
+    );
+
+    if (!segments || segments.length === 0) {
+      throw new Error('Transcript has no segments to translate');
+    }
+
+    const translated: string[] = segments.map((segment) => segment.text);
+    const batches: { cost: number; tokensUsed: { input: number; output: number } }[] = [];
+    let resolvedModel = model || LLMService.getModel('translation');
+    let untranslated: number[] = [];
+
+    // Segments already in the target language (code-switching) are kept as they are
+    const pending = segments
+      .map((segment, index) => ({ index, text: segment.text, language: segment.language }))
+      .filter((segment) => segment.language !== targetLanguage);
+
+    try {
+      // Segments left out of an answer are sent once more on their own
+      let missing = pending;
+      for (let pass = 0; pass < 2 && missing.length > 0; pass++) {
+        const done = new Set<number>();
+
+        // Batches keep responses small enough to stay segment-aligned
+        for (let start = 0; start < missing.length; start += config.translation.batchSize) {
+          const batch = missing.slice(start, start + config.translation.batchSize);
+          const result = await this.translateBatch(batch, sourceLanguage, targetLanguage, model);
+
+          result.texts.forEach((text, index) => {
+            translated[index] = text;
+            done.add(index);
+          });
+          batches.push(result);
+          resolvedModel = result.model;
+        }
+
+        missing = missing.filter((segment) => !done.has(segment.index));
+        if (missing.length > 0) {
+          console.warn(`⚠️  ${missing.length} segments came back untranslated`);
+        }
+      }
+      untranslated = missing.map((segment) => segment.index);
+    } catch (error: any) {
+      console.error('Translation failed:', error.message);
+      throw new Error(`Translation failed: ${error.message}`);
+    }
+
+    const { cost, tokensUsed } = LLMService.combineUsage(batches);
+    console.log(`💰 Translation cost: $${cost.toFixed(4)}`);
+
+    const translatedSegments = segments.map((segment, index) => ({
+      text: translated[index],
+      speaker: segment.speaker,
+      timestamp: segment.timestamp,
+      confidence: segment.confidence,
+      sentiment: segment.sentiment,
+      language: targetLanguage,
+    }));
+
+    return {
+      segments: translatedSegments,
+      fullText: translatedSegments.map((segment) => segment.text).join(' '),
+      untranslatedSegments: untranslated,
+      cost,
+      model: resolvedModel,
+      tokensUsed,
+    };
+  }
+
+  /**
+   * Meeting transcript in the requested language
+   * The original when no language is given or it is the transcript's language
+   */
+  getTranscript(meeting: IMeeting, language?: string): ITranscript | undefined {
+    const transcript = meeting.transcript;
+    if (!language || !transcript || transcript.language === language) {
+      return transcript;
+    }
+
+    const translation = meeting.translations?.find((t) => t.language === language);
+    if (!translation) {
+      throw new Error('Translation not available');
+    }
+
+    return {
+      segments: translation.segments,
+      fullText: translation.fullText,
+      language: translation.language,
+      languages: [translation.language],
+      duration: transcript.duration,
+      speakers: transcript.speakers,
+    };
+  }
+
+  /**
+   * Translate one batch - returns translations keyed by segment index
+   * Segments missing from the response are left out
+   */
+  private async translateBatch(
+    batch: { index: number; text: string }[],
+    sourceLanguage: string,
+    targetLanguage: string,
+    model?: string
+  ): Promise<{
+    texts: Map<number, string>;
+    cost: number;
+    model: string;
+    tokensUsed: { input: number; output: number };
+  }> {
+    const prompt = renderPrompt(TRANSLATION_PROMPT, {
+      sourceLanguage: getLanguageName(sourceLanguage),
+      targetLanguage: getLanguageName(targetLanguage),
+      segments: JSON.stringify(
+        batch.map((segment) => ({ index: segment.index, text: segment.text }))
+      ),
+    });
+
+    const completion = await LLMService.completeJson(
+      'translation',
+      {
+        model,
+        messages: [
+          {
+            role: 'system',
+            content:
+              'You are a professional interpreter that translates meeting transcripts segment by segment. Always return valid JSON.',
+          },
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+        temperature: 0.2,
+      },
+      translationOutputSchema(batch.map((segment) => segment.index))
+    );
+
+    const texts = new Map(
+      completion.data.segments.map((segment) => [segment.index, segment.text] as const)
+    );
+
+    return {
+      texts,
+      cost: completion.cost,
+      model: completion.model,
+      tokensUsed: completion.tokensUsed,
+    };
+  }
+}
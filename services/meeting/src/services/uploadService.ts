@@ -6,11 +6,13 @@ import { JobOrchestrator } from '../orchestration/jobOrchestrator'; // ← ADD T
 import axios from 'axios'; // ← ADD THIS
 import fs from 'fs'; // ← ADD THIS
 import path from 'path'; // ← ADD THIS
+import { TranscriptionProviderName } from '../types/transcription';
 
 interface UploadFileParams {
   file: Express.Multer.File;
   title?: string;
   userId?: string;
+  transcriptionProvider?: TranscriptionProviderName;
 }
 
 interface AttachFileParams {
@@ -94,7 +96,7 @@ export class UploadService {
     });
   }
   async uploadFileToCloud(params: UploadFileParams): Promise<UploadResult> {
-    const { file, title, userId } = params;
+    const { file, title, userId, transcriptionProvider } = params;
 
     console.log(`\n📤 Starting file upload flow...`);
 
@@ -109,6 +111,7 @@ export class UploadService {
       title: title || `Meeting - ${new Date().toLocaleDateString()}`,
       fileUrl: audioPath,
       status: 'pending',
+      transcriptionProvider,
       createdBy: userId || new mongoose.Types.ObjectId('000000000000000000000000'),
     });
 
@@ -0,0 +1,29 @@
+/**
+ * A stretch of audio attributed to one speaker
+ */
+export interface SpeakerTurn {
+  start: number; // Seconds from start
+  end: number; // Seconds from start
+  speaker: string;
+}
+
+/**
+ * Audio and transcript windows handed to a diarization provider
+ */
+export interface DiarizationRequest {
+  audioPath: string;
+  duration: number; // Seconds
+  segments: { start: number; end: number }[]; // Transcript segment windows
+  expectedSpeakers?: number; // Known participant count, if any
+  maxSpeakers: number;
+}
+
+/**
+ * Diarization Provider
+ * Assigns speakers to audio - implementations live next to the audio processor
+ * (local clustering) or call an external service
+ */
+export interface DiarizationProvider {
+  readonly name: string;
+  diarize(request: DiarizationRequest): Promise<SpeakerTurn[]>;
+}
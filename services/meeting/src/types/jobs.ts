@@ -1,4 +1,5 @@
 import { Job } from 'bull';
+import { TranscriptionProviderName } from './transcription';
 
 /**
  * Job Types - Different AI processing tasks
@@ -8,6 +9,9 @@ export enum JobType {
   EXTRACTION = 'extraction',
   SENTIMENT_ANALYSIS = 'sentiment_analysis',
   TIMELINE_GENERATION = 'timeline_generation',
+  FOLLOW_UP_DETECTION = 'follow_up_detection',
+  TRANSLATION = 'translation',
+  SUMMARY_GENERATION = 'summary_generation',
 }
 
 /**
@@ -18,6 +22,8 @@ interface BaseJobData {
   userId?: string;
   priority?: number;
   createdAt: Date;
+  preserveEditedActionItems?: boolean; // Reprocessing flag, carried to downstream stages
+  model?: string; // Model override, set when a dead-letter job is retried with overrides
 }
 
 /**
@@ -26,6 +32,7 @@ interface BaseJobData {
 export interface TranscriptionJobData extends BaseJobData {
   fileUrl: string;
   fileSize: number;
+  provider?: TranscriptionProviderName; // Meeting's transcription provider, if not the default
   duration?: number;
 }
 
@@ -35,6 +42,7 @@ export interface TranscriptionJobData extends BaseJobData {
 export interface ExtractionJobData extends BaseJobData {
   transcript: string;
   meetingTitle?: string;
+  language?: string; // Transcript's primary language (ISO 639-1)
 }
 
 /**
@@ -43,6 +51,30 @@ export interface ExtractionJobData extends BaseJobData {
 export interface SentimentAnalysisJobData extends BaseJobData {
   transcript: string;
   participants?: string[];
+  language?: string; // Transcript's primary language (ISO 639-1)
+}
+
+/**
+ * Follow-up Detection Job - Find updates on existing commitments
+ */
+export interface FollowUpDetectionJobData extends BaseJobData {
+  transcript: string;
+}
+
+/**
+ * Backfill Job - Reprocess one meeting of a bulk backfill, then schedule the next
+ */
+export interface BackfillJobData {
+  backfillId: string;
+  meetingId: string;
+}
+
+/**
+ * Prompt Experiment Job - Run both prompt versions of an experiment on one meeting
+ */
+export interface PromptExperimentJobData {
+  experimentId: string;
+  meetingId: string;
 }
 
 /**
@@ -53,6 +85,21 @@ export interface TimelineJobData extends BaseJobData {
   duration: number;
 }
 
+/**
+ * Translation Job - Translate the transcript into the configured target languages
+ */
+export interface TranslationJobData extends BaseJobData {
+  targetLanguages: string[]; // ISO 639-1
+}
+
+/**
+ * Summary Generation Job - Write the executive summary, topic summaries and open questions
+ */
+export interface SummaryJobData extends BaseJobData {
+  transcript: string;
+  language?: string; // Transcript's primary language (ISO 639-1)
+}
+
 /**
  * Union type for all job data
  */
@@ -60,7 +107,10 @@ export type AnyJobData =
   | TranscriptionJobData
   | ExtractionJobData
   | SentimentAnalysisJobData
-  | TimelineJobData;
+  | FollowUpDetectionJobData
+  | TimelineJobData
+  | TranslationJobData
+  | SummaryJobData;
 
 /**
  * Job with typed data
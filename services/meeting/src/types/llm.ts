@@ -0,0 +1,76 @@
+/**
+ * LLM engines for the analysis stages - selected per deployment (LLM_PROVIDER)
+ * `local` is any OpenAI-compatible server (Ollama, llama.cpp); `fake` answers deterministically for tests
+ */
+export const LLM_PROVIDER_NAMES = ['openai', 'azure', 'anthropic', 'local', 'fake'] as const;
+export type LLMProviderName = (typeof LLM_PROVIDER_NAMES)[number];
+
+/**
+ * Pipeline stages that call an LLM - each can use its own model (LLM_MODEL_<STAGE>)
+ */
+export const LLM_STAGE_NAMES = [
+  'extraction',
+  'sentiment',
+  'follow-up',
+  'timeline',
+  'translation',
+  'summary',
+] as const;
+export type LLMStageName = (typeof LLM_STAGE_NAMES)[number];
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMTokenUsage {
+  input: number;
+  output: number;
+}
+
+export interface LLMCompletionRequest {
+  model: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a single JSON value as the answer
+}
+
+/**
+ * Answer as returned by a provider
+ */
+export interface LLMCompletion {
+  content: string;
+  model: string; // Model that answered, as reported by the provider
+  tokensUsed: LLMTokenUsage;
+}
+
+/**
+ * Answer with its cost - what services get back from LLMService
+ */
+export interface LLMResult extends LLMCompletion {
+  cost: number; // USD
+}
+
+/**
+ * JSON answer that passed its schema - after `repairs` re-prompts with validation errors
+ */
+export interface LLMJsonResult<T> {
+  data: T;
+  model: string;
+  cost: number; // USD, every attempt
+  tokensUsed: LLMTokenUsage; // Every attempt
+  repairs: number;
+}
+
+/**
+ * LLM Provider
+ * Sends one chat completion. Model selection and cost accounting are handled
+ * by LLMService for every provider.
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly defaultModel: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+  calculateCost(model: string, tokensUsed: LLMTokenUsage): number; // USD
+}
@@ -1,8 +1,9 @@
 export interface TranscriptSegment {
   text: string;
-  speaker?: string; // Speaker diarization (future)
+  speaker?: string; // Diarization label, e.g. "Speaker 1"
   timestamp: number; // Seconds from start
   confidence: number; // 0.0 to 1.0
+  language?: string; // ISO 639-1, detected per chunk
   sentiment?: 'positive' | 'negative' | 'neutral'; // Future feature
 }
 
@@ -10,12 +11,55 @@ export interface TranscriptionResult {
   segments: TranscriptSegment[];
   fullText: string;
   duration: number; // Total audio duration in seconds
-  language: string;
+  language: string; // Primary language (ISO 639-1)
+  languages: string[]; // Every detected language, primary first
   cost: number; // Cost in USD
   model: string; // whisper-1
   processingTime: number; // Time taken to process (ms)
 }
 
+/**
+ * Transcription engines - selected per deployment (TRANSCRIPTION_PROVIDER) or per meeting
+ */
+export const TRANSCRIPTION_PROVIDER_NAMES = ['openai', 'local', 'mock'] as const;
+export type TranscriptionProviderName = (typeof TRANSCRIPTION_PROVIDER_NAMES)[number];
+
+/**
+ * Transcript files that can be imported instead of transcribing a recording
+ */
+export const TRANSCRIPT_IMPORT_FORMATS = ['vtt', 'srt', 'zoom', 'teams', 'text'] as const;
+export type TranscriptImportFormat = (typeof TRANSCRIPT_IMPORT_FORMATS)[number];
+
+/**
+ * Transcript of a single audio file as returned by a provider
+ */
+export interface ProviderTranscription {
+  text: string;
+  segments: TranscriptSegment[];
+  language?: string; // Detected or requested language, as reported by the engine
+  duration?: number; // Seconds, if the engine reports it
+}
+
+export interface ProviderTranscribeOptions {
+  model: string;
+  duration: number; // Seconds
+  language?: string; // ISO 639-1 - detected by the engine when omitted
+  prompt?: string; // Vocabulary hint (project glossary)
+}
+
+/**
+ * Transcription Provider
+ * Turns one audio file into a transcript. Chunking, stitching and cost logging
+ * are handled by TranscriptionService for every provider.
+ */
+export interface TranscriptionProvider {
+  readonly name: TranscriptionProviderName;
+  readonly defaultModel: string;
+  readonly chunked: boolean; // Long recordings are split before being sent (upload limits)
+  transcribe(audioPath: string, options: ProviderTranscribeOptions): Promise<ProviderTranscription>;
+  calculateCost(duration: number): number; // USD for `duration` seconds of audio
+}
+
 export interface TranscriptionJob {
   meetingId: string;
   fileUrl: string;
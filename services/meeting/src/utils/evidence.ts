@@ -0,0 +1,109 @@
+import { ITranscriptSegment } from '../models/Meeting';
+
+/**
+ * Lowercase, strip punctuation and collapse whitespace
+ * Quotes are compared on words only - the model rarely keeps punctuation exactly
+ */
+export const normalizeForMatch = (text: string): string =>
+  text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+/**
+ * Words of a quote, split where the model skipped words with "..."
+ */
+const quoteParts = (quote: string): string[] =>
+  quote
+    .split(/\.{3}|…/)
+    .map(normalizeForMatch)
+    .filter(Boolean);
+
+/**
+ * Find every part of a quote, in order, in normalized text
+ * Returns the [start, end) character range it spans, or null
+ */
+const matchParts = (parts: string[], text: string): { start: number; end: number } | null => {
+  if (parts.length === 0) {
+    return null;
+  }
+
+  // Match whole words only - "plan" must not match inside "planning"
+  const padded = ` ${text} `;
+  let start = -1;
+  let position = 0;
+
+  for (const part of parts) {
+    const index = padded.indexOf(` ${part} `, position);
+    if (index === -1) {
+      return null;
+    }
+
+    if (start === -1) {
+      start = index;
+    }
+    position = index + part.length + 1;
+  }
+
+  return { start, end: position };
+};
+
+/**
+ * Whether a quote appears in the transcript text
+ */
+export const isQuoteInText = (quote: string, text: string): boolean =>
+  matchParts(quoteParts(quote), normalizeForMatch(text)) !== null;
+
+/**
+ * Indices of the segments a quote spans, or null when it isn't in them
+ * Quotes may run across segment boundaries
+ */
+export const findQuoteSegments = (
+  quote: string,
+  segments: Pick<ITranscriptSegment, 'text'>[]
+): number[] | null => {
+  const offsets: number[] = [];
+  let joined = '';
+
+  segments.forEach((segment) => {
+    const text = normalizeForMatch(segment.text);
+    if (joined && text) {
+      joined += ' ';
+    }
+    offsets.push(joined.length);
+    joined += text;
+  });
+
+  const match = matchParts(quoteParts(quote), joined);
+  if (!match) {
+    return null;
+  }
+
+  const segmentAt = (position: number) => {
+    let index = 0;
+    while (index + 1 < offsets.length && offsets[index + 1] <= position) {
+      index++;
+    }
+    return index;
+  };
+
+  const first = segmentAt(match.start);
+  const last = segmentAt(Math.max(match.start, match.end - 2));
+
+  return Array.from({ length: last - first + 1 }, (_, offset) => first + offset);
+};
+
+/**
+ * Share of distinct words two texts have in common (Jaccard, 0-1)
+ */
+export const wordSimilarity = (a: string, b: string): number => {
+  const wordsA = new Set(normalizeForMatch(a).split(' ').filter(Boolean));
+  const wordsB = new Set(normalizeForMatch(b).split(' ').filter(Boolean));
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return 0;
+  }
+
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+};
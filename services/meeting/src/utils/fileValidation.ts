@@ -17,6 +17,10 @@ const ALLOWED_EXTENSIONS = ['.mp3', '.mp4', '.wav', '.m4a', '.webm'];
 // Max file size: 500MB in bytes
 const MAX_FILE_SIZE = 500 * 1024 * 1024; // 500MB
 
+// Imported transcripts (WebVTT, SRT, Zoom/Teams text exports)
+const TRANSCRIPT_EXTENSIONS = ['.vtt', '.srt', '.txt'];
+export const MAX_TRANSCRIPT_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+
 /**
  * Validates file type based on mimetype and extension
  */
@@ -41,6 +45,26 @@ export const fileFilter = (
   }
 };
 
+/**
+ * Validates imported transcript files by extension
+ * Mimetypes of subtitle files vary between clients, so they are not checked
+ */
+export const transcriptFileFilter = (
+  _req: Request,
+  file: Express.Multer.File,
+  cb: multer.FileFilterCallback
+): void => {
+  const fileExtension = file.originalname.toLowerCase().slice(file.originalname.lastIndexOf('.'));
+
+  if (TRANSCRIPT_EXTENSIONS.includes(fileExtension)) {
+    cb(null, true);
+  } else {
+    cb(
+      new Error(`Invalid transcript file type. Allowed types: ${TRANSCRIPT_EXTENSIONS.join(', ')}`)
+    );
+  }
+};
+
 /**
  * Validates file size
  */
@@ -0,0 +1,57 @@
+import { wordSimilarity } from './evidence';
+
+export interface ItemMatch<A, B> {
+  left: A;
+  right: B;
+  similarity: number;
+}
+
+export interface ItemMatching<A, B> {
+  matches: ItemMatch<A, B>[];
+  onlyLeft: A[];
+  onlyRight: B[];
+}
+
+/**
+ * Pair up items of two lists that describe the same thing (shared words in the description)
+ * Most similar pairs are taken first, so one loose match can't take an item's better partner
+ */
+export const matchByDescription = <
+  A extends { description: string },
+  B extends { description: string },
+>(
+  left: A[],
+  right: B[],
+  threshold: number
+): ItemMatching<A, B> => {
+  const candidates: { leftIndex: number; rightIndex: number; similarity: number }[] = [];
+
+  left.forEach((leftItem, leftIndex) => {
+    right.forEach((rightItem, rightIndex) => {
+      const similarity = wordSimilarity(leftItem.description, rightItem.description);
+      if (similarity >= threshold) {
+        candidates.push({ leftIndex, rightIndex, similarity });
+      }
+    });
+  });
+
+  const pairedLeft = new Set<number>();
+  const pairedRight = new Set<number>();
+  const matches: ItemMatch<A, B>[] = [];
+
+  candidates
+    .sort((a, b) => b.similarity - a.similarity)
+    .forEach(({ leftIndex, rightIndex, similarity }) => {
+      if (pairedLeft.has(leftIndex) || pairedRight.has(rightIndex)) return;
+
+      pairedLeft.add(leftIndex);
+      pairedRight.add(rightIndex);
+      matches.push({ left: left[leftIndex], right: right[rightIndex], similarity });
+    });
+
+  return {
+    matches,
+    onlyLeft: left.filter((_, index) => !pairedLeft.has(index)),
+    onlyRight: right.filter((_, index) => !pairedRight.has(index)),
+  };
+};
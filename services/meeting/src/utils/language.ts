@@ -0,0 +1,74 @@
+/**
+ * ISO 639-1 codes of common Whisper languages
+ * The OpenAI API reports detected languages by name ("german"), self-hosted
+ * servers by code ("de") - transcripts always store the code
+ */
+const LANGUAGE_NAMES: Record<string, string> = {
+  ar: 'Arabic',
+  bg: 'Bulgarian',
+  ca: 'Catalan',
+  cs: 'Czech',
+  da: 'Danish',
+  de: 'German',
+  el: 'Greek',
+  en: 'English',
+  es: 'Spanish',
+  et: 'Estonian',
+  fa: 'Persian',
+  fi: 'Finnish',
+  fr: 'French',
+  he: 'Hebrew',
+  hi: 'Hindi',
+  hr: 'Croatian',
+  hu: 'Hungarian',
+  id: 'Indonesian',
+  it: 'Italian',
+  ja: 'Japanese',
+  ko: 'Korean',
+  lt: 'Lithuanian',
+  lv: 'Latvian',
+  ms: 'Malay',
+  nl: 'Dutch',
+  no: 'Norwegian',
+  pl: 'Polish',
+  pt: 'Portuguese',
+  ro: 'Romanian',
+  ru: 'Russian',
+  sk: 'Slovak',
+  sl: 'Slovenian',
+  sr: 'Serbian',
+  sv: 'Swedish',
+  sw: 'Swahili',
+  ta: 'Tamil',
+  th: 'Thai',
+  tl: 'Tagalog',
+  tr: 'Turkish',
+  uk: 'Ukrainian',
+  ur: 'Urdu',
+  vi: 'Vietnamese',
+  zh: 'Chinese',
+};
+
+/**
+ * Language code for a Whisper language name or code (undefined if unknown)
+ */
+export const normalizeLanguageCode = (language?: string): string | undefined => {
+  const value = language?.trim().toLowerCase();
+  if (!value) {
+    return undefined;
+  }
+
+  if (/^[a-z]{2}$/.test(value)) {
+    return value;
+  }
+
+  const code = Object.keys(LANGUAGE_NAMES).find(
+    (key) => LANGUAGE_NAMES[key].toLowerCase() === value
+  );
+  return code || undefined;
+};
+
+/**
+ * English name of a language code, for prompts and logs
+ */
+export const getLanguageName = (code: string): string => LANGUAGE_NAMES[code] || code;
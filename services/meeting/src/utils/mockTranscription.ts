@@ -58,6 +58,7 @@ export class MockTranscription {
       fullText,
       duration,
       language: 'en',
+      languages: ['en'],
       cost: 0, // Mock is FREE
       model: 'mock-whisper',
       processingTime: 150, // Simulated processing time
@@ -83,6 +84,7 @@ export class MockTranscription {
       fullText: text,
       duration,
       language: 'en',
+      languages: ['en'],
       cost: 0,
       model: 'mock-whisper',
       processingTime: 100,
@@ -0,0 +1,85 @@
+import { ITranscriptChunking } from '../models/Meeting';
+
+const CHARS_PER_TOKEN = 4; // Rough average for English text
+
+// Part of the transcript a chunk covers - indices into the units it was built from (inclusive)
+export interface ChunkRange {
+  index: number;
+  start: number;
+  end: number;
+  tokens: number;
+}
+
+/**
+ * Approximate token count of a text
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Split a transcript without segments into sentences, so chunks still end on a boundary
+ */
+export const splitSentences = (text: string): { text: string }[] =>
+  (text.match(/[^.!?\n]+(?:[.!?]+["')\]]*|\n|$)/g) || [])
+    .map((sentence) => sentence.trim())
+    .filter(Boolean)
+    .map((sentence) => ({ text: sentence }));
+
+/**
+ * Group segments (or sentences) into chunks of at most `maxTokens`
+ * Chunks never split a segment - one longer than the limit becomes a chunk of its own.
+ * Each chunk after the first repeats up to `overlapTokens` of the previous chunk's last
+ * segments, so something said across a boundary is seen whole by one of them.
+ */
+export const chunkByTokens = (
+  units: { text: string }[],
+  maxTokens: number,
+  overlapTokens: number = 0
+): ChunkRange[] => {
+  const tokens = units.map((unit) => estimateTokens(unit.text));
+  const chunks: ChunkRange[] = [];
+  let start = 0;
+
+  while (start < units.length) {
+    let end = start;
+    let size = tokens[start];
+
+    while (end + 1 < units.length && size + tokens[end + 1] <= maxTokens) {
+      end++;
+      size += tokens[end];
+    }
+
+    chunks.push({ index: chunks.length, start, end, tokens: size });
+    if (end === units.length - 1) {
+      break;
+    }
+
+    // Step back into the chunk for the overlap - always moving forward at least one unit
+    let next = end + 1;
+    let overlap = 0;
+    while (next - 1 > start && overlap + tokens[next - 1] <= overlapTokens) {
+      next--;
+      overlap += tokens[next];
+    }
+    start = next;
+  }
+
+  return chunks;
+};
+
+/**
+ * Chunking metadata recorded on the stage (processing.stages.<stage>.chunking)
+ */
+export const describeChunking = (
+  chunks: ChunkRange[],
+  units: { text: string }[],
+  maxTokens: number,
+  overlapTokens: number,
+  unit: ITranscriptChunking['unit']
+): ITranscriptChunking => ({
+  strategy: chunks.length > 1 ? 'map-reduce' : 'single',
+  unit,
+  chunks: chunks.length,
+  transcriptTokens: units.reduce((total, item) => total + estimateTokens(item.text), 0),
+  maxChunkTokens: maxTokens,
+  overlapTokens: chunks.length > 1 ? overlapTokens : 0,
+});
@@ -0,0 +1,240 @@
+import { ITranscriptSegment } from '../models/Meeting';
+import { TranscriptImportFormat } from '../types/transcription';
+
+export interface ParsedTranscript {
+  format: TranscriptImportFormat;
+  segments: ITranscriptSegment[];
+  duration: number; // Seconds - end of the last cue, or estimated from its length
+}
+
+// Speaking rate used to estimate times that the file doesn't carry (~150 words per minute)
+const WORDS_PER_SECOND = 2.5;
+
+const TIME = String.raw`(?:\d+:)?\d+:\d+(?:[.,]\d+)?`;
+
+// "00:00:01.000 --> 00:00:04.000" (WebVTT), "00:00:01,000 --> ..." (SRT), "0:0:1.0 --> ..." (Teams)
+const CUE_TIMING = new RegExp(`^(${TIME})\\s*-->\\s*(${TIME})`);
+
+// "[Jane Doe] 14:23:05" - Zoom live transcript
+const ZOOM_HEADER = /^\[(.+?)\]\s+(\d{1,2}:\d{2}(?::\d{2})?)$/;
+
+// "Jane Doe   0:03" - Teams transcript copied out of Teams/Word
+const TEAMS_HEADER = /^([^\d\s:][^:\s]*(?: [^:\s]+){0,4})\s+(\d{1,2}:\d{2}(?::\d{2})?)$/;
+
+// "[00:01:02] Jane Doe: ..." / "00:01:02 Jane Doe: ..." - optional time prefix of text lines
+const LINE_TIME = /^\[?(\d{1,2}:\d{2}(?::\d{2})?)\]?\s+/;
+
+// "Jane Doe: ..." - a name of at most five words before the colon
+const SPEAKER_PREFIX = /^([\p{L}][\p{L}\p{M}'.-]*(?: [\p{L}\p{M}'.-]+){0,4})\s*:\s+(.+)$/u;
+
+// <v Jane Doe> / <v.loud Jane Doe> - WebVTT voice span
+const VOICE_TAG = /<v(?:\.[^\s>]+)?\s+([^>]+)>/;
+
+/**
+ * Parse an exported transcript into segments with speakers and timestamps
+ * The format is detected from the content unless given
+ */
+export const parseTranscript = (
+  content: string,
+  format?: TranscriptImportFormat
+): ParsedTranscript => {
+  const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const resolved = format || detectTranscriptFormat(text);
+
+  switch (resolved) {
+    case 'vtt':
+    case 'srt':
+      return { format: resolved, ...parseCues(text, false) };
+    case 'teams':
+      return {
+        format: resolved,
+        ...(/-->/.test(text) ? parseCues(text, true) : parseHeaders(text, TEAMS_HEADER, false)),
+      };
+    case 'zoom':
+      return { format: resolved, ...parseHeaders(text, ZOOM_HEADER, true) };
+    default:
+      return { format: 'text', ...parseLines(text) };
+  }
+};
+
+/**
+ * Guess the format of an exported transcript
+ */
+export const detectTranscriptFormat = (content: string): TranscriptImportFormat => {
+  const text = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const first = firstLine(text);
+
+  if (/^WEBVTT/.test(first)) return 'vtt';
+  if (/^\d+$/.test(first) && /^\d+:\d+:\d+,\d+\s*-->/m.test(text)) return 'srt';
+  if (CUE_TIMING.test(first)) return 'teams';
+  if (ZOOM_HEADER.test(first)) return 'zoom';
+  if (TEAMS_HEADER.test(first)) return 'teams';
+  return 'text';
+};
+
+/**
+ * Timed cues separated by blank lines (WebVTT, SRT, older Teams exports)
+ * Teams puts the speaker on the line after the timing
+ */
+const parseCues = (text: string, speakerLine: boolean): Omit<ParsedTranscript, 'format'> => {
+  const segments: ITranscriptSegment[] = [];
+  let duration = 0;
+
+  text.split(/\n\s*\n/).forEach((block) => {
+    const lines = block
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+
+    // Headers, NOTE and STYLE blocks have no timing line
+    const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line));
+    if (timingIndex === -1) return;
+
+    const [, start, end] = lines[timingIndex].match(CUE_TIMING)!;
+    let body = lines.slice(timingIndex + 1);
+    let speaker: string | undefined;
+
+    if (speakerLine && body.length > 1) {
+      speaker = body[0];
+      body = body.slice(1);
+    }
+
+    const raw = body.join(' ');
+    speaker = speaker || raw.match(VOICE_TAG)?.[1]?.trim();
+
+    const parsed = splitSpeaker(stripMarkup(raw));
+    if (!parsed.text) return;
+
+    segments.push({
+      text: parsed.text,
+      speaker: speaker || parsed.speaker,
+      timestamp: parseTime(start),
+    });
+    duration = Math.max(duration, parseTime(end));
+  });
+
+  return { segments, duration };
+};
+
+/**
+ * "Speaker + time" header lines each followed by what was said (Zoom, newer Teams exports)
+ * Zoom uses wall-clock times - they are made relative to the first header
+ */
+const parseHeaders = (
+  text: string,
+  header: RegExp,
+  relative: boolean
+): Omit<ParsedTranscript, 'format'> => {
+  const segments: ITranscriptSegment[] = [];
+  let current: ITranscriptSegment | undefined;
+
+  text.split('\n').forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const match = line.match(header);
+    if (match) {
+      current = { text: '', speaker: match[1].trim(), timestamp: parseTime(match[2]) };
+      segments.push(current);
+      return;
+    }
+
+    const spoken = stripMarkup(line);
+    if (current) {
+      current.text = current.text ? `${current.text} ${spoken}` : spoken;
+    } else {
+      current = { text: spoken, timestamp: 0 };
+      segments.push(current);
+    }
+  });
+
+  const withText = segments.filter((segment) => segment.text);
+  const offset = relative && withText.length > 0 ? withText[0].timestamp : 0;
+  withText.forEach((segment) => (segment.timestamp = Math.max(0, segment.timestamp - offset)));
+
+  return { segments: withText, duration: estimateEnd(withText) };
+};
+
+/**
+ * Plain text - "Name: text" lines, optionally prefixed with a time
+ * Lines without a speaker continue the previous segment; missing times are estimated
+ */
+const parseLines = (text: string): Omit<ParsedTranscript, 'format'> => {
+  const segments: ITranscriptSegment[] = [];
+
+  text.split('\n').forEach((rawLine) => {
+    let line = stripMarkup(rawLine.trim());
+    if (!line) return;
+
+    const time = line.match(LINE_TIME);
+    if (time) {
+      line = line.slice(time[0].length);
+    }
+
+    const parsed = splitSpeaker(line);
+    const previous = segments[segments.length - 1];
+
+    if (previous && !parsed.speaker && !time) {
+      previous.text = `${previous.text} ${parsed.text}`;
+      return;
+    }
+
+    segments.push({
+      text: parsed.text,
+      speaker: parsed.speaker,
+      timestamp: time ? parseTime(time[1]) : previous ? estimateEnd([previous]) : 0,
+    });
+  });
+
+  return { segments, duration: estimateEnd(segments) };
+};
+
+/**
+ * Split a "Name: text" line into speaker and text
+ */
+const splitSpeaker = (line: string): { speaker?: string; text: string } => {
+  const match = line.match(SPEAKER_PREFIX);
+  return match ? { speaker: match[1].trim(), text: match[2].trim() } : { text: line.trim() };
+};
+
+/**
+ * Remove WebVTT/SRT tags and entities
+ */
+const stripMarkup = (text: string): string =>
+  text
+    .replace(/<[^>]+>/g, '')
+    .replace(/\{\\[^}]*\}/g, '') // SRT positioning, e.g. {\an8}
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * "01:02:03.500", "02:03,5", "0:0:3.5" → seconds
+ */
+const parseTime = (value: string): number => {
+  const seconds = value
+    .replace(',', '.')
+    .split(':')
+    .reduce((total, part) => total * 60 + parseFloat(part), 0);
+  return Math.round(seconds * 1000) / 1000;
+};
+
+/**
+ * End of the last segment, estimated from its word count
+ */
+const estimateEnd = (segments: ITranscriptSegment[]): number => {
+  const last = segments[segments.length - 1];
+  if (!last) return 0;
+
+  const words = last.text.split(/\s+/).filter(Boolean).length;
+  return Math.round((last.timestamp + words / WORDS_PER_SECOND) * 10) / 10;
+};
+
+const firstLine = (text: string): string =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .find(Boolean) || '';
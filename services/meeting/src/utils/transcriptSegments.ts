@@ -0,0 +1,46 @@
+import { ITranscriptSegment } from '../models/Meeting';
+
+/**
+ * Render segments as indexed, timestamped lines for a prompt
+ * Format: [segment index] [start seconds] speaker: text
+ * `firstIndex` keeps transcript-wide indices when rendering a chunk
+ */
+export const formatSegmentLines = (
+  segments: ITranscriptSegment[],
+  firstIndex: number = 0
+): string =>
+  segments
+    .map(
+      (segment, index) =>
+        `[${firstIndex + index}] [${segment.timestamp.toFixed(1)}] ${segment.speaker || 'Unknown'}: ${segment.text}`
+    )
+    .join('\n');
+
+/**
+ * Audio time covered by a range of segments (inclusive)
+ * Segments only carry a start time - the range ends where the segment after it begins
+ * Returns null when the start index doesn't exist
+ */
+export const getSegmentRange = (
+  segments: Pick<ITranscriptSegment, 'timestamp'>[],
+  startIndex: number,
+  endIndex: number,
+  duration: number
+): { startTime: number; endTime: number } | null => {
+  if (!Number.isInteger(startIndex) || startIndex < 0 || startIndex >= segments.length) {
+    return null;
+  }
+
+  const lastIndex = Math.min(
+    Math.max(Number.isInteger(endIndex) ? endIndex : startIndex, startIndex),
+    segments.length - 1
+  );
+  const nextSegment = segments[lastIndex + 1];
+
+  return {
+    startTime: segments[startIndex].timestamp,
+    endTime: nextSegment
+      ? nextSegment.timestamp
+      : Math.max(duration, segments[lastIndex].timestamp),
+  };
+};
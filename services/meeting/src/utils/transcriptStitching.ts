@@ -0,0 +1,66 @@
+import { AudioChunk } from '../processor/audioProcessor';
+import { TranscriptSegment } from '../types/transcription';
+import { normalizeForMatch } from './evidence';
+
+// Fewer shared words than this at a boundary is more likely coincidence ("the", "okay") than a repeat
+const MIN_REPEATED_WORDS = 2;
+
+/**
+ * Number of leading words of `words` that repeat the end of `previous`
+ */
+const repeatedWords = (previous: string, words: string[]): number => {
+  const before = ` ${normalizeForMatch(previous)}`;
+
+  for (let count = words.length; count > 0; count--) {
+    const head = normalizeForMatch(words.slice(0, count).join(' '));
+    if (head && before.endsWith(` ${head}`)) {
+      return count;
+    }
+  }
+  return 0;
+};
+
+/**
+ * Merge chunk transcripts into a single transcript
+ * Timestamps are shifted by each chunk's offset. Speech in the overlap at the start of
+ * a chunk was heard by both chunks: the later chunk's copy is kept, since the earlier
+ * one is cut off at its end. Words the later chunk repeats from an utterance that
+ * started before the overlap are trimmed from its first segment.
+ */
+export const stitchChunks = (
+  chunks: Pick<AudioChunk, 'offset' | 'overlap'>[],
+  chunkSegments: TranscriptSegment[][]
+): TranscriptSegment[] => {
+  let segments: TranscriptSegment[] = [];
+
+  chunks.forEach((chunk, index) => {
+    const shifted = chunkSegments[index].map((segment) => ({
+      ...segment,
+      timestamp: segment.timestamp + chunk.offset,
+    }));
+
+    // Only when the later chunk heard something in the overlap - after silence the earlier copy is all there is
+    if (
+      chunk.overlap > 0 &&
+      shifted.length > 0 &&
+      shifted[0].timestamp < chunk.offset + chunk.overlap
+    ) {
+      segments = segments.filter((segment) => segment.timestamp < chunk.offset);
+
+      const previous = segments[segments.length - 1];
+      const first = shifted[0];
+      const words = first.text.split(/\s+/).filter(Boolean);
+      const repeated = previous ? repeatedWords(previous.text, words) : 0;
+
+      if (repeated === words.length) {
+        shifted.shift();
+      } else if (repeated >= MIN_REPEATED_WORDS) {
+        shifted[0] = { ...first, text: words.slice(repeated).join(' ') };
+      }
+    }
+
+    segments.push(...shifted);
+  });
+
+  return segments;
+};
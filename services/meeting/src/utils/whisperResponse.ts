@@ -0,0 +1,26 @@
+import { ProviderTranscription, TranscriptSegment } from '../types/transcription';
+
+/**
+ * Parse a Whisper `verbose_json` response
+ * OpenAI, whisper.cpp and faster-whisper servers all answer in this format
+ */
+export const parseWhisperResponse = (response: any): ProviderTranscription => ({
+  text: (response.text || '').trim(),
+  segments: parseWhisperSegments(response),
+  language: response.language,
+  duration: response.duration,
+});
+
+/**
+ * Map Whisper segments to transcript segments
+ * Confidence is the average token probability - no_speech_prob only says whether there was speech
+ */
+const parseWhisperSegments = (response: any): TranscriptSegment[] =>
+  (response.segments || []).map((segment: any) => ({
+    text: segment.text.trim(),
+    timestamp: segment.start,
+    confidence:
+      typeof segment.avg_logprob === 'number' ? Math.exp(Math.min(0, segment.avg_logprob)) : 0.95,
+    speaker: undefined, // Whisper doesn't provide speaker diarization
+    sentiment: undefined, // Will be added in Day 12
+  }));
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+// Validation schemas using Zod
+export const backfillRequestSchema = z.object({
+  stages: z
+    .array(z.enum(['extraction', 'sentiment', 'follow-up', 'timeline', 'summary', 'translation']))
+    .min(1, 'At least one stage required'),
+  filters: z
+    .object({
+      query: z.string().optional(),
+      status: z.array(z.string()).optional(),
+      projectId: z.string().optional(),
+      createdBy: z.string().optional(),
+      dateFrom: z.coerce.date().optional(),
+      dateTo: z.coerce.date().optional(),
+    })
+    .default({}),
+  ratePerMinute: z.number().int().min(1).max(600).optional(),
+  preserveEditedActionItems: z.boolean().default(true),
+  dryRun: z.boolean().default(false),
+});
+
+export const backfillParamsSchema = z.object({
+  id: z.string().min(1, 'Backfill ID required'),
+});
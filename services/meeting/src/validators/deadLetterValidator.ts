@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+// Validation schemas using Zod
+export const deadLetterQuerySchema = z.object({
+  queue: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const deadLetterParamsSchema = z.object({
+  queue: z.string().min(1, 'Queue name required'),
+  jobId: z.string().min(1, 'Job ID required'),
+});
+
+export const retryDeadLetterSchema = z.object({
+  overrides: z
+    .object({
+      model: z.string().min(1).optional(),
+    })
+    .strict()
+    .default({}),
+});
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+// Labels - a field left out is not scored, null means "none expected"
+const expectedActionItemSchema = z.object({
+  description: z.string().min(1),
+  assignedTo: z.string().nullable().optional(),
+  dueDate: isoDate.nullable().optional(),
+  quote: z.string().optional(), // Transcript words the item comes from
+});
+
+const expectedDecisionSchema = z.object({
+  description: z.string().min(1),
+  madeBy: z.string().nullable().optional(),
+  quote: z.string().optional(),
+});
+
+const labelledMeetingSchema = z
+  .object({
+    id: z.string().min(1),
+    title: z.string().optional(),
+    language: z.string().optional(),
+    transcript: z.string().optional(), // Joined from segments when omitted
+    segments: z
+      .array(
+        z.object({
+          text: z.string(),
+          speaker: z.string().optional(),
+          timestamp: z.number().min(0),
+        })
+      )
+      .optional(),
+    expected: z.object({
+      actionItems: z.array(expectedActionItemSchema).default([]),
+      decisions: z.array(expectedDecisionSchema).default([]),
+    }),
+  })
+  .refine((meeting) => meeting.transcript || meeting.segments?.length, {
+    message: 'A meeting needs a transcript or segments',
+  });
+
+// Golden dataset for the extraction evaluation (pnpm eval:extraction)
+export const goldenDatasetSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    meetings: z.array(labelledMeetingSchema).min(1, 'At least one meeting required'),
+  })
+  .refine(
+    (dataset) =>
+      new Set(dataset.meetings.map((meeting) => meeting.id)).size === dataset.meetings.length,
+    { message: 'Meeting ids must be unique' }
+  );
+
+export type GoldenDataset = z.infer<typeof goldenDatasetSchema>;
+export type LabelledMeeting = GoldenDataset['meetings'][number];
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { GLOSSARY_TERM_KINDS } from '../models/Glossary';
+
+// Validation schemas using Zod
+export const glossaryTermSchema = z.object({
+  term: z.string().trim().min(1, 'Term is required').max(100, 'Term too long'),
+  variants: z.array(z.string().trim().min(1).max(100)).max(20, 'Too many variants').default([]),
+  kind: z.enum(GLOSSARY_TERM_KINDS).default('term'),
+  description: z.string().max(300, 'Description too long').optional(),
+});
+
+// No defaults - omitted fields keep their current value
+export const updateGlossaryTermSchema = z.object({
+  term: z.string().trim().min(1, 'Term is required').max(100, 'Term too long').optional(),
+  variants: z.array(z.string().trim().min(1).max(100)).max(20, 'Too many variants').optional(),
+  kind: z.enum(GLOSSARY_TERM_KINDS).optional(),
+  description: z.string().max(300, 'Description too long').optional(),
+});
+
+export const replaceGlossarySchema = z.object({
+  terms: z.array(glossaryTermSchema).max(500, 'A glossary can hold at most 500 terms'),
+});
+
+export const glossaryParamsSchema = z.object({
+  projectId: z.string().min(1, 'Project ID required'),
+});
+
+export const glossaryTermParamsSchema = glossaryParamsSchema.extend({
+  termId: z.string().min(1, 'Term ID required'),
+});
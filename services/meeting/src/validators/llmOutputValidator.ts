@@ -0,0 +1,187 @@
+import { z } from 'zod';
+
+// Schemas for what the LLM answers - parsed by LLMService.completeJson, which re-prompts
+// with the validation errors when an answer doesn't match
+
+const level = z.preprocess(
+  (value) => (typeof value === 'string' ? value.trim().toLowerCase() : value),
+  z.enum(['high', 'medium', 'low'])
+);
+
+// Out-of-range numbers are clamped - the intent is clear, only the scale is off
+const clamped = (min: number, max: number) =>
+  z.number().transform((value) => Math.min(max, Math.max(min, value)));
+
+const optionalText = z
+  .string()
+  .nullish()
+  .transform((value) => value?.trim() || undefined);
+
+const textList = z.array(z.string().trim().min(1));
+
+// Quote and segment indices asked for by prompts/evidence.ts
+const evidenceFields = {
+  quote: z.string().nullish(),
+  sourceSegments: z.union([z.array(z.number()), z.number()]).nullish(),
+};
+
+/**
+ * A list answered as a bare array or wrapped in an object (JSON mode only allows objects)
+ * An empty object means nothing was found
+ */
+const listOf = <T extends z.ZodType>(item: T, key: string) =>
+  z.preprocess(
+    (value) =>
+      Array.isArray(value) || typeof value !== 'object' || value === null
+        ? value
+        : Object.keys(value).length === 0
+          ? []
+          : (value as Record<string, unknown>)[key],
+    z.array(item, { error: `Expected {"${key}": [...]}` })
+  );
+
+export const actionItemsOutputSchema = listOf(
+  z.object({
+    description: z.string().trim().min(1),
+    assignedTo: optionalText,
+    priority: level,
+    dueDate: z
+      .string()
+      .nullish()
+      .refine((value) => !value || !isNaN(Date.parse(value)), 'Must be YYYY-MM-DD or null')
+      .transform((value) => value || undefined),
+    ...evidenceFields,
+  }),
+  'actionItems'
+);
+
+export const decisionsOutputSchema = listOf(
+  z.object({
+    description: z.string().trim().min(1),
+    madeBy: optionalText,
+    impact: level,
+    context: optionalText,
+    ...evidenceFields,
+  }),
+  'decisions'
+);
+
+export const sentimentOutputSchema = z.object({
+  overall: z.preprocess(
+    (value) => (typeof value === 'string' ? value.trim().toLowerCase() : value),
+    z.enum(['positive', 'neutral', 'negative'])
+  ),
+  score: clamped(-1, 1),
+  emotions: z.object({
+    joy: clamped(0, 1),
+    frustration: clamped(0, 1),
+    stress: clamped(0, 1),
+    engagement: clamped(0, 1),
+  }),
+  burnoutIndicators: z.object({
+    score: clamped(0, 100),
+    factors: textList.default([]),
+    recommendations: textList.default([]),
+  }),
+  participants: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1),
+        sentimentScore: clamped(-1, 1),
+        engagementLevel: clamped(0, 1),
+        concerns: textList.default([]),
+      })
+    )
+    .default([]),
+});
+
+/**
+ * Follow-up detections may only reference the commitments that were listed in the prompt
+ */
+export const followUpDetectionsOutputSchema = (commitmentIds: string[]) =>
+  listOf(
+    z.object({
+      commitmentId: z
+        .string()
+        .refine((id) => commitmentIds.includes(id), 'Must be one of the listed commitment IDs'),
+      mentioned: z.boolean(),
+      status: z.enum(['mentioned', 'updated', 'completed']),
+      notes: optionalText,
+      confidence: clamped(0, 1),
+    }),
+    'detections'
+  );
+
+// Models often answer a question as a bare string
+const openQuestions = z
+  .array(
+    z.preprocess(
+      (value) => (typeof value === 'string' ? { question: value } : value),
+      z.object({ question: z.string().trim().min(1), askedBy: optionalText })
+    )
+  )
+  .default([]);
+
+export const summaryOutputSchema = z.object({
+  tldr: z.string().trim().min(1),
+  topics: z
+    .array(
+      z.object({
+        title: z.string().trim().min(1),
+        summary: z.string().trim().default(''),
+        keyPoints: textList.default([]),
+        startSegment: z.number().nullish(),
+        endSegment: z.number().nullish(),
+      })
+    )
+    .default([]),
+  openQuestions,
+});
+
+// Merge of the part summaries of a long meeting
+export const summaryMergeOutputSchema = z.object({
+  tldr: z.string().trim().min(1),
+  openQuestions,
+});
+
+// Segment indices must be ones shown in the prompt
+const segmentIndex = (segmentCount: number) =>
+  z
+    .number()
+    .int()
+    .refine(
+      (index) => index >= 0 && index < segmentCount,
+      `Must be a segment index from 0 to ${segmentCount - 1}`
+    );
+
+export const timelineOutputSchema = (segmentCount: number) =>
+  listOf(
+    z.object({
+      type: z.preprocess(
+        (value) => (typeof value === 'string' ? value.trim().toLowerCase() : value),
+        z.enum(['topic_shift', 'decision', 'escalation'])
+      ),
+      title: z.string().trim().min(1),
+      summary: optionalText,
+      startSegment: segmentIndex(segmentCount),
+      endSegment: segmentIndex(segmentCount).nullish(),
+      speakers: textList.default([]),
+      importance: level,
+    }),
+    'moments'
+  );
+
+/**
+ * Translations may only reference the segments of the batch - missing ones are retried by the stage
+ */
+export const translationOutputSchema = (segmentIndices: number[]) =>
+  z.object({
+    segments: z.array(
+      z.object({
+        index: z
+          .number()
+          .refine((index) => segmentIndices.includes(index), 'Must be one of the listed indices'),
+        text: z.string().trim().min(1),
+      })
+    ),
+  });
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { PROCESSING_STAGE_NAMES } from '../models/Meeting';
+import { TRANSCRIPT_IMPORT_FORMATS, TRANSCRIPTION_PROVIDER_NAMES } from '../types/transcription';
 
 // Validation schemas using Zod
 export const createMeetingSchema = z.object({
@@ -18,15 +20,109 @@ export const createMeetingSchema = z.object({
     .optional(),
   scheduledAt: z.string().datetime().optional(),
   projectId: z.string().optional(),
+  transcriptionProvider: z.enum(TRANSCRIPTION_PROVIDER_NAMES).optional(),
 });
 
+// Transcript comes as a multipart "file" or as `content` in a JSON body
+export const importMeetingSchema = createMeetingSchema
+  .omit({ fileUrl: true, transcript: true, transcriptionProvider: true })
+  .extend({
+    content: z.string().min(1, 'Transcript content required').optional(),
+    format: z.enum(TRANSCRIPT_IMPORT_FORMATS).optional(),
+    language: z
+      .string()
+      .toLowerCase()
+      .regex(/^[a-z]{2}$/, 'language must be an ISO 639-1 code, e.g. "en"')
+      .optional(),
+  });
+
 export const getMeetingParamsSchema = z.object({
   id: z.string().min(1, 'Meeting ID required'),
 });
 
+// ?lang= - serve the transcript translated into this language (ISO 639-1)
+export const transcriptLanguageQuerySchema = z.object({
+  lang: z
+    .string()
+    .toLowerCase()
+    .regex(/^[a-z]{2}$/, 'lang must be an ISO 639-1 code, e.g. "en"')
+    .optional(),
+});
+
+// ?start=&end= - seconds from the start of the recording
+export const clipQuerySchema = z
+  .object({
+    start: z.coerce.number().min(0),
+    end: z.coerce.number().positive(),
+  })
+  .refine((query) => query.end > query.start, {
+    message: 'end must be after start',
+    path: ['end'],
+  });
+
 export const listMeetingsQuerySchema = z.object({
   status: z.enum(['scheduled', 'in-progress', 'completed', 'cancelled']).optional(),
   projectId: z.string().optional(),
   limit: z.string().transform(Number).pipe(z.number().min(1).max(100)).optional(),
   skip: z.string().transform(Number).pipe(z.number().min(0)).optional(),
 });
+
+export const reprocessMeetingSchema = z.object({
+  stages: z.array(z.enum(PROCESSING_STAGE_NAMES)).min(1, 'At least one stage required'),
+  preserveEditedActionItems: z.boolean().default(true),
+  discardTranscriptEdits: z.boolean().default(false),
+});
+
+export const mapSpeakersSchema = z.object({
+  mappings: z
+    .array(
+      z.object({
+        speaker: z.string().min(1, 'Speaker label required'),
+        participantName: z.string().min(1, 'Participant name required').nullable(),
+      })
+    )
+    .min(1, 'At least one mapping required'),
+});
+
+export const transcriptSegmentParamsSchema = z.object({
+  id: z.string().min(1, 'Meeting ID required'),
+  index: z.coerce.number().int().min(0, 'Segment index must be 0 or greater'),
+});
+
+export const transcriptRevisionParamsSchema = z.object({
+  id: z.string().min(1, 'Meeting ID required'),
+  revision: z.coerce.number().int().min(1, 'Revision must be 1 or greater'),
+});
+
+export const editSegmentSchema = z
+  .object({
+    text: z.string().trim().min(1, 'Segment text required').max(5000, 'Segment text too long'),
+    speaker: z.string().max(100, 'Speaker too long').nullable(),
+  })
+  .partial()
+  .refine((changes) => changes.text !== undefined || changes.speaker !== undefined, {
+    message: 'Nothing to change - provide text or speaker',
+  });
+
+export const mergeSegmentsSchema = z.object({
+  count: z.number().int().min(1).max(50).default(1), // Following segments merged into this one
+});
+
+export const splitSegmentSchema = z.object({
+  offset: z.number().int().min(1, 'Offset must be inside the segment text'),
+  timestamp: z.number().min(0).optional(),
+  speaker: z.string().min(1).max(100, 'Speaker too long').optional(),
+});
+
+export const reviewQueueQuerySchema = z.object({
+  threshold: z.coerce.number().min(0).max(1).optional(),
+  status: z.enum(['pending', 'verified', 'corrected', 'all']).default('pending'),
+});
+
+export const verifySegmentsSchema = z.object({
+  indexes: z
+    .array(z.number().int().min(0))
+    .min(1, 'At least one segment index required')
+    .max(500, 'Too many segments')
+    .transform((indexes) => [...new Set(indexes)]),
+});
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { PROMPT_NAMES } from '../models/PromptVersion';
+import { backfillRequestSchema } from './backfillValidator';
+
+// Validation schemas using Zod
+export const promptParamsSchema = z.object({
+  name: z.enum(PROMPT_NAMES),
+});
+
+export const promptVersionParamsSchema = promptParamsSchema.extend({
+  version: z.string().min(1, 'Version required'),
+});
+
+export const createPromptVersionSchema = z.object({
+  version: z
+    .string()
+    .trim()
+    .regex(/^[\w.-]{1,50}$/, 'Version may only contain letters, digits, ".", "-" and "_"')
+    .optional(),
+  template: z.string().min(1, 'Template is required').max(20000, 'Template too long'),
+  description: z.string().max(1000, 'Description too long').optional(),
+  activate: z.boolean().default(false),
+});
+
+export const promptExperimentRequestSchema = z.object({
+  prompt: z.enum(PROMPT_NAMES),
+  baseline: z.string().min(1).optional(),
+  candidate: z.string().min(1, 'Candidate version required'),
+  sampleSize: z.number().int().min(1).max(100).default(20),
+  filters: backfillRequestSchema.shape.filters, // Same meeting selection as backfills
+  meetingIds: z.array(z.string()).min(1).max(100).optional(),
+});
+
+export const promptExperimentParamsSchema = z.object({
+  id: z.string().min(1, 'Experiment ID required'),
+});
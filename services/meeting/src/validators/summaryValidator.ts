@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { SUMMARY_LENGTHS, SUMMARY_STYLES } from '../models/SummarySettings';
+
+// Validation schemas using Zod
+// Omitted fields fall back to the service defaults
+export const summarySettingsSchema = z.object({
+  length: z.enum(SUMMARY_LENGTHS).optional(),
+  style: z.enum(SUMMARY_STYLES).optional(),
+  instructions: z.string().trim().max(500, 'Instructions too long').optional(),
+});
+
+export const summarySettingsParamsSchema = z.object({
+  projectId: z.string().min(1, 'Project ID required'),
+});
@@ -1,8 +1,5 @@
-// TODO (Day 13): import { timelineQueue } from '../queues/timelineQueue';
-
-import { extractionQueue } from '../queue/extractionQueue';
-import { sentimentQueue } from '../queue/sentimentQueue';
-import { transcriptionQueue } from '../queue/transcriptionQueue';
+import { BaseQueue } from '../queue/baseQueue';
+import { JobOrchestrator } from '../orchestration/jobOrchestrator';
 
 /**
  * Worker Manager
@@ -17,11 +14,11 @@ export class WorkerManager {
     console.log('\n🚀 Starting all queue workers...\n');
 
     try {
-      // Start all workers by calling startWorker() on each queue
-      transcriptionQueue.StartWorker();
-      extractionQueue.StartWorker();
-      sentimentQueue.StartWorker();
-      // TODO (Day 13): timelineQueue.startWorker();
+      // Start all workers by calling startWorker() on each registered queue
+      BaseQueue.getRegisteredQueues().forEach((queue) => queue.startWorker());
+
+      // Drive the pipeline from queue completion/failure events
+      JobOrchestrator.registerStageListeners();
 
       console.log('\n✅ All workers started successfully');
       console.log('📊 Workers are now processing jobs from their queues...\n');
@@ -41,12 +38,7 @@ export class WorkerManager {
     console.log('\n🛑 Stopping all queue workers...\n');
 
     try {
-      await Promise.all([
-        transcriptionQueue.close(),
-        extractionQueue.close(),
-        sentimentQueue.close(),
-        // TODO (Day 13): timelineQueue.close(),
-      ]);
+      await Promise.all(BaseQueue.getRegisteredQueues().map((queue) => queue.close()));
 
       console.log('✅ All workers stopped\n');
     } catch (error: any) {
@@ -90,19 +82,17 @@ export class WorkerManager {
    */
   static async getWorkersStatus(): Promise<any> {
     try {
-      const [transcriptionStats, extractionStats, sentimentStats] = await Promise.all([
-        transcriptionQueue.getStats(),
-        extractionQueue.getStats(),
-        sentimentQueue.getStats(),
-      ]);
+      const queues = BaseQueue.getRegisteredQueues();
+      const stats = await Promise.all(queues.map((queue) => queue.getStats()));
+
+      const workers: Record<string, any> = {};
+      queues.forEach((queue, index) => {
+        workers[queue.name] = stats[index];
+      });
 
       return {
         healthy: true,
-        workers: {
-          transcription: transcriptionStats,
-          extraction: extractionStats,
-          sentiment: sentimentStats,
-        },
+        workers,
         timestamp: new Date().toISOString(),
       };
     } catch (error: any) {
@@ -0,0 +1,85 @@
+import { Job } from 'bull';
+import { Backfill } from '../models/Backfill';
+import { Meeting } from '../models/Meeting';
+import { BackfillJobData } from '../types/jobs';
+import { JobOrchestrator } from '../orchestration/jobOrchestrator';
+import { BackfillRunner } from '../orchestration/backfillRunner';
+
+const MAX_RECORDED_FAILURES = 100;
+
+export class BackfillWorker {
+  /**
+   * Reprocess one meeting of a backfill, then schedule the next one
+   */
+  static async processJob(job: Job<BackfillJobData>): Promise<void> {
+    const { backfillId, meetingId } = job.data;
+
+    // Step 1: Make sure the backfill is still running
+    const backfill = await Backfill.findById(backfillId);
+    if (!backfill) {
+      throw new Error(`Backfill ${backfillId} not found`);
+    }
+
+    if (backfill.status !== 'running') {
+      console.log(`⏸️  Backfill ${backfillId} is ${backfill.status}, not continuing`);
+      return;
+    }
+
+    // Step 2: Re-run the requested stages for this meeting
+    let outcome: 'queued' | 'skipped' | 'failed';
+    let errorMessage: string | undefined;
+
+    try {
+      const meeting = await Meeting.findById(meetingId).select('createdBy');
+      if (!meeting) {
+        throw new Error('Meeting not found');
+      }
+
+      await JobOrchestrator.reprocessStages(meetingId, backfill.stages, {
+        userId: meeting.createdBy.toString(),
+        preserveEditedActionItems: backfill.preserveEditedActionItems,
+      });
+      outcome = 'queued';
+    } catch (error: any) {
+      // Meetings already in the pipeline are left alone rather than failed
+      outcome = error.message === 'Meeting is still being processed' ? 'skipped' : 'failed';
+      errorMessage = error.message;
+      console.warn(`⚠️ Backfill ${backfillId}: meeting ${meetingId} ${outcome}: ${error.message}`);
+    }
+
+    // Step 3: Record progress and move the cursor past this meeting
+    const update: any = {
+      $inc: { processed: 1, [outcome]: 1 },
+      $set: { lastMeetingId: meetingId },
+    };
+
+    if (outcome === 'failed') {
+      update.$push = {
+        failures: {
+          $each: [{ meetingId, error: errorMessage, at: new Date() }],
+          $slice: -MAX_RECORDED_FAILURES,
+        },
+      };
+    }
+
+    const updated = await Backfill.findByIdAndUpdate(backfillId, update, { new: true });
+
+    console.log(
+      `📦 Backfill ${backfillId}: ${updated?.processed}/${updated?.total} meetings (${outcome})`
+    );
+
+    // Step 4: Schedule the next meeting at the backfill's rate
+    if (updated?.status === 'running') {
+      await BackfillRunner.scheduleNext(updated, BackfillRunner.getInterval(updated));
+    }
+  }
+
+  /**
+   * Handle job failure
+   * A failing tick breaks the chain - resuming the backfill restarts it
+   */
+  static onFailed(job: Job<BackfillJobData>, error: Error): void {
+    console.error(`❌ Backfill job ${job.id} failed for backfill ${job.data.backfillId}`);
+    console.error(`   Error: ${error.message}`);
+  }
+}
@@ -1,19 +1,25 @@
 import { Job } from 'bull';
-import { extractFromTranscript } from '../services/extractionService';
+import { ExtractionService } from '../services/extractionService';
 import { Meeting } from '../models/Meeting';
 import { v4 as uuidv4 } from 'uuid';
-import { ExtractionJobData } from '../queue/extractionQueue';
+import { ExtractionJobData } from '../types/jobs';
+import { StageTracker } from '../orchestration/stageTracker';
+import { DiarizationService } from '../services/diarizationService';
+
+const extractionService = new ExtractionService();
 
 class ExtractionWorker {
   /**
    * Process a single extraction job
    */
   static async processJob(job: Job<ExtractionJobData>): Promise<void> {
-    const { meetingId, transcript, userId } = job.data;
+    const { meetingId, transcript, preserveEditedActionItems, model, language } = job.data;
 
     console.log(`\n🔍 Processing extraction job ${job.id} for meeting ${meetingId}`);
 
     try {
+      await StageTracker.started('extraction', job);
+
       // Step 1: Validate meeting exists
       const meeting = await Meeting.findById(meetingId);
       if (!meeting) {
@@ -28,7 +34,19 @@ class ExtractionWorker {
 
       // Step 3: Call extraction service (GPT-4)
       console.log('🤖 Calling GPT-4 for extraction...');
-      const extractionResult = await extractFromTranscript(transcript);
+      // Non-English meetings are analysed (and answered) in their own language
+      // Stored segments let each item point back at the moment it was said
+      const extractionResult = await extractionService.extractFromTranscript(
+        transcript,
+        model,
+        language || meeting.transcript?.language,
+        meeting.transcript?.segments?.length
+          ? {
+              segments: DiarizationService.resolveSpeakerNames(meeting.transcript),
+              duration: meeting.transcript.duration,
+            }
+          : undefined
+      );
 
       // Step 4: Transform action items (add IDs and timestamps)
       const actionItems = extractionResult.actionItems.map((item) => ({
@@ -39,6 +57,9 @@ class ExtractionWorker {
         dueDate: item.dueDate ? new Date(item.dueDate) : undefined,
         status: 'pending' as const,
         extractedAt: new Date(),
+        source: item.source,
+        evidence: item.evidence,
+        promptVersion: item.promptVersion,
       }));
 
       // Step 5: Transform decisions (add IDs and timestamps)
@@ -50,19 +71,23 @@ class ExtractionWorker {
         context: item.context,
         timestamp: new Date(),
         extractedAt: new Date(),
+        source: item.source,
+        evidence: item.evidence,
+        promptVersion: item.promptVersion,
       }));
 
       // Step 6: Save to database
-      meeting.actionItems = actionItems;
+      meeting.actionItems = preserveEditedActionItems
+        ? extractionService.mergeUserActionItems(
+            meeting.actionItems,
+            actionItems,
+            meeting.dismissedActionItems
+          )
+        : actionItems;
       meeting.decisions = decisions;
 
-      // Update processing metadata
-      if (!meeting.processing) {
-        meeting.processing = {};
-      }
-      meeting.processing.cost = (meeting.processing.cost || 0) + extractionResult.cost;
-
       await meeting.save();
+      await StageTracker.completed(meetingId, 'extraction', extractionResult);
 
       console.log(`✅ Extraction complete for meeting ${meetingId}`);
       console.log(`   Action Items: ${actionItems.length}`);
@@ -74,12 +99,12 @@ class ExtractionWorker {
     } catch (error: any) {
       console.error(`❌ Extraction failed for meeting ${meetingId}:`, error.message);
 
-      // Save error to meeting
+      // Save latest error - the orchestrator fails the meeting once retries are exhausted
       try {
         await Meeting.findByIdAndUpdate(meetingId, {
-          status: 'failed',
           'processing.error': `Extraction failed: ${error.message}`,
         });
+        await StageTracker.failedAttempt('extraction', job, error.message);
       } catch (dbError) {
         console.error('Failed to update meeting with error:', dbError);
       }
@@ -105,6 +130,9 @@ class ExtractionWorker {
 
     actionItems.forEach((item, index) => {
       console.log(`  ${index + 1}. [${item.priority.toUpperCase()}] ${item.description}`);
+      if (item.evidence && !item.evidence.verified) {
+        console.log(`     ⚠️ Quote not found in transcript`);
+      }
       if (item.assignedTo) {
         console.log(`     → Assigned to: ${item.assignedTo}`);
       }
@@ -116,6 +144,9 @@ class ExtractionWorker {
     console.log(`\n🎯 Key Decisions (${decisions.length}):`);
     decisions.forEach((decision, index) => {
       console.log(`  ${index + 1}. [${decision.impact.toUpperCase()}] ${decision.description}`);
+      if (decision.evidence && !decision.evidence.verified) {
+        console.log(`     ⚠️ Quote not found in transcript`);
+      }
       if (decision.madeBy) {
         console.log(`     → Made by: ${decision.madeBy}`);
       }
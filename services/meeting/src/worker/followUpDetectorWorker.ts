@@ -1,12 +1,8 @@
 import { Job } from 'bull';
 import { Meeting } from '../models/Meeting';
 import { CommitmentService } from '../services/commitmentService';
-
-export interface FollowUpDetectionJobData {
-  meetingId: string;
-  transcript: string;
-  userId: string;
-}
+import { FollowUpDetectionJobData } from '../types/jobs';
+import { StageTracker } from '../orchestration/stageTracker';
 
 const commitmentService = new CommitmentService();
 
@@ -15,11 +11,13 @@ class FollowUpDetectorWorker {
    * Process follow-up detection job
    */
   static async processJob(job: Job<FollowUpDetectionJobData>): Promise<void> {
-    const { meetingId, transcript, userId } = job.data;
+    const { meetingId, transcript, userId, model } = job.data;
 
     console.log(`\n🔍 Processing follow-up detection job ${job.id} for meeting ${meetingId}`);
 
     try {
+      await StageTracker.started('follow-up', job);
+
       // Step 1: Validate meeting exists
       const meeting = await Meeting.findById(meetingId);
       if (!meeting) {
@@ -33,23 +31,26 @@ class FollowUpDetectorWorker {
       const detectionResult = await commitmentService.detectCommitmentFollowUps(
         meetingId,
         transcript,
-        userId
+        userId || meeting.createdBy.toString(),
+        model
       );
 
       if (detectionResult.detections.length === 0) {
+        await StageTracker.completed(meetingId, 'follow-up', detectionResult);
         console.log('✅ No commitment follow-ups detected in this meeting');
         return;
       }
 
       // Step 3: Process detections and update commitments
       console.log(`📝 Found ${detectionResult.detections.length} commitment mentions`);
-      await commitmentService.processFollowUpDetections(meetingId, detectionResult.detections);
+      await commitmentService.processFollowUpDetections(
+        meetingId,
+        detectionResult.detections,
+        detectionResult.promptVersions['follow-up']
+      );
 
-      // Step 4: Update meeting processing metadata with cost
-      if (meeting.processing) {
-        meeting.processing.cost = (meeting.processing.cost || 0) + detectionResult.cost;
-        await meeting.save();
-      }
+      // Step 4: Record the stage and its cost
+      await StageTracker.completed(meetingId, 'follow-up', detectionResult);
 
       console.log(`✅ Follow-up detection complete for meeting ${meetingId}`);
       console.log(`   Commitments updated: ${detectionResult.detections.length}`);
@@ -60,18 +61,15 @@ class FollowUpDetectorWorker {
     } catch (error: any) {
       console.error(`❌ Follow-up detection failed for meeting ${meetingId}:`, error.message);
 
-      // Don't fail the whole meeting - follow-up detection is optional
-      // Just log the error
+      // Follow-up detection is optional - once retries are exhausted the orchestrator
+      // records the error without failing the meeting, and the job lands in the dead-letter view
       try {
-        await Meeting.findByIdAndUpdate(meetingId, {
-          'processing.error': `Follow-up detection failed: ${error.message}`,
-        });
+        await StageTracker.failedAttempt('follow-up', job, error.message);
       } catch (dbError) {
         console.error('Failed to update meeting with error:', dbError);
       }
 
-      // Don't re-throw - we don't want to retry this job
-      console.log('⚠️ Skipping follow-up detection for this meeting');
+      throw error; // Re-throw for Bull retry mechanism
     }
   }
 
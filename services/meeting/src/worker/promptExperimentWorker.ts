@@ -0,0 +1,176 @@
+import { Job } from 'bull';
+import { IMeeting, Meeting } from '../models/Meeting';
+import { IPromptExperimentOutput, PromptExperiment } from '../models/PromptExperiment';
+import { PromptName } from '../models/PromptVersion';
+import { PromptExperimentJobData } from '../types/jobs';
+import { ExtractionService } from '../services/extractionService';
+import { SentimentService } from '../services/sentimentService';
+import { CommitmentService } from '../services/commitmentService';
+import { DiarizationService } from '../services/diarizationService';
+
+const MAX_RECORDED_FAILURES = 100;
+
+const extractionService = new ExtractionService();
+const sentimentService = new SentimentService();
+const commitmentService = new CommitmentService();
+
+export class PromptExperimentWorker {
+  /**
+   * Run the baseline and candidate prompt on one meeting of an experiment
+   * Nothing is written to the meeting - outputs are kept on the experiment
+   */
+  static async processJob(job: Job<PromptExperimentJobData>): Promise<void> {
+    const { experimentId, meetingId } = job.data;
+
+    // Step 1: Make sure the experiment is still running
+    const experiment = await PromptExperiment.findById(experimentId).select('-runs');
+    if (!experiment) {
+      throw new Error(`Prompt experiment ${experimentId} not found`);
+    }
+
+    if (experiment.status !== 'running') {
+      console.log(`⏸️  Prompt experiment ${experimentId} is ${experiment.status}, skipping`);
+      return;
+    }
+
+    // Step 2: Run both versions - one after the other, so they see the same provider load
+    let update: any;
+    try {
+      const meeting = await Meeting.findById(meetingId).select('transcript participants createdBy');
+      if (!meeting?.transcript?.fullText) {
+        throw new Error('Meeting has no transcript');
+      }
+
+      const baseline = await this.runVersion(experiment.prompt, experiment.baseline, meeting);
+      const candidate = await this.runVersion(experiment.prompt, experiment.candidate, meeting);
+
+      update = {
+        $inc: { processed: 1 },
+        $push: { runs: { meetingId, baseline, candidate, at: new Date() } },
+      };
+    } catch (error: any) {
+      console.warn(
+        `⚠️ Prompt experiment ${experimentId}: meeting ${meetingId} failed: ${error.message}`
+      );
+      update = {
+        $inc: { processed: 1, failed: 1 },
+        $push: {
+          failures: {
+            $each: [{ meetingId, error: error.message, at: new Date() }],
+            $slice: -MAX_RECORDED_FAILURES,
+          },
+        },
+      };
+    }
+
+    // Step 3: Record progress - the last meeting completes the experiment
+    const updated = await PromptExperiment.findByIdAndUpdate(experimentId, update, {
+      new: true,
+      projection: { runs: 0 },
+    });
+
+    console.log(
+      `🧪 Prompt experiment ${experimentId}: ${updated?.processed}/${updated?.total} meetings`
+    );
+
+    if (updated && updated.processed >= updated.total) {
+      await PromptExperiment.findOneAndUpdate(
+        { _id: experimentId, status: 'running' },
+        { status: 'completed', completedAt: new Date() }
+      );
+      console.log(`🏁 Prompt experiment ${experimentId} complete`);
+    }
+  }
+
+  /**
+   * Run the stage a prompt belongs to with one version of it
+   * Extraction always runs both of its prompts - cost covers the whole stage
+   */
+  private static async runVersion(
+    prompt: PromptName,
+    version: string,
+    meeting: IMeeting
+  ): Promise<IPromptExperimentOutput> {
+    const transcript = meeting.transcript!;
+    const meetingId = meeting._id.toString();
+
+    switch (prompt) {
+      case 'action-items':
+      case 'decisions': {
+        const result = await extractionService.extractFromTranscript(
+          transcript.fullText,
+          undefined,
+          transcript.language,
+          transcript.segments?.length
+            ? {
+                segments: DiarizationService.resolveSpeakerNames(transcript),
+                duration: transcript.duration,
+              }
+            : undefined,
+          { [prompt]: version }
+        );
+        const items = prompt === 'action-items' ? result.actionItems : result.decisions;
+
+        return {
+          items: items.map((item) => ({
+            description: item.description,
+            verified: item.evidence?.verified,
+          })),
+          cost: result.cost,
+          tokensUsed: result.tokensUsed,
+          repairs: result.repairs,
+        };
+      }
+
+      case 'sentiment': {
+        const result = await sentimentService.analyzeSentiment(
+          transcript.fullText,
+          meeting.participants.map((participant) => participant.name),
+          undefined,
+          transcript.language,
+          transcript.segments,
+          version
+        );
+
+        return {
+          sentiment: {
+            overall: result.overall,
+            score: result.score,
+            burnoutScore: result.burnoutIndicators.score,
+          },
+          cost: result.cost,
+          tokensUsed: result.tokensUsed,
+          repairs: result.repairs,
+        };
+      }
+
+      case 'follow-up': {
+        const result = await commitmentService.detectCommitmentFollowUps(
+          meetingId,
+          transcript.fullText,
+          meeting.createdBy.toString(),
+          undefined,
+          version
+        );
+
+        return {
+          detections: result.detections.map((detection) => ({
+            commitmentId: detection.commitmentId,
+            status: detection.status,
+          })),
+          cost: result.cost,
+          tokensUsed: result.tokensUsed,
+          repairs: result.repairs,
+        };
+      }
+    }
+  }
+
+  /**
+   * Handle job failure
+   */
+  static onFailed(job: Job<PromptExperimentJobData>, error: Error): void {
+    console.error(`❌ Prompt experiment job ${job.id} failed for ${job.data.experimentId}`);
+    console.error(`   Error: ${error.message}`);
+  }
+}
@@ -1,18 +1,23 @@
 import { Job } from 'bull';
-import { analyzeSentiment, getBurnoutRiskLevel } from '../services/sentimentService';
+import { SentimentService } from '../services/sentimentService';
 import { Meeting } from '../models/Meeting';
-import { SentimentJobData } from '../queue/sentimentQueue';
+import { SentimentAnalysisJobData } from '../types/jobs';
+import { StageTracker } from '../orchestration/stageTracker';
+
+const sentimentService = new SentimentService();
 
 class SentimentWorker {
   /**
    * Process a single sentiment analysis job
    */
-  static async processJob(job: Job<SentimentJobData>): Promise<void> {
-    const { meetingId, transcript, participants, userId } = job.data;
+  static async processJob(job: Job<SentimentAnalysisJobData>): Promise<void> {
+    const { meetingId, transcript, participants, model, language } = job.data;
 
     console.log(`\n🎭 Processing sentiment job ${job.id} for meeting ${meetingId}`);
 
     try {
+      await StageTracker.started('sentiment', job);
+
       // Step 1: Validate meeting exists
       const meeting = await Meeting.findById(meetingId);
       if (!meeting) {
@@ -23,7 +28,13 @@ class SentimentWorker {
 
       // Step 2: Call sentiment service (GPT-4)
       console.log('🤖 Calling GPT-4 for sentiment analysis...');
-      const sentimentResult = await analyzeSentiment(transcript, participants);
+      const sentimentResult = await sentimentService.analyzeSentiment(
+        transcript,
+        participants || meeting.participants.map((p) => p.name),
+        model,
+        language || meeting.transcript?.language,
+        meeting.transcript?.segments // Chunk boundaries for long meetings
+      );
 
       // Step 3: Save sentiment analysis to database
       meeting.sentiment = {
@@ -32,6 +43,7 @@ class SentimentWorker {
         emotions: sentimentResult.emotions,
         burnoutIndicators: sentimentResult.burnoutIndicators,
         analyzedAt: new Date(),
+        promptVersion: sentimentResult.promptVersions.sentiment,
       };
 
       // Step 4: Update participants with sentiment data
@@ -70,17 +82,9 @@ class SentimentWorker {
         });
       }
 
-      // Step 5: Update processing metadata
-      if (!meeting.processing) {
-        meeting.processing = {};
-      }
-      meeting.processing.cost = (meeting.processing.cost || 0) + sentimentResult.cost;
-      meeting.processing.completedAt = new Date();
-
-      // Step 6: Update meeting status to completed
-      meeting.status = 'completed';
-
+      // Meeting is marked completed by the orchestrator once all required stages finish
       await meeting.save();
+      await StageTracker.completed(meetingId, 'sentiment', sentimentResult);
 
       console.log(`✅ Sentiment analysis complete for meeting ${meetingId}`);
       console.log(`   Overall: ${sentimentResult.overall} (${sentimentResult.score.toFixed(2)})`);
@@ -88,17 +92,17 @@ class SentimentWorker {
       console.log(`   Participants Analyzed: ${sentimentResult.participants.length}`);
       console.log(`   Cost: $${sentimentResult.cost.toFixed(4)}`);
 
-      // Step 7: Log detailed sentiment results
+      // Step 5: Log detailed sentiment results
       this.logSentimentResults(meetingId, sentimentResult);
     } catch (error: any) {
       console.error(`❌ Sentiment analysis failed for meeting ${meetingId}:`, error.message);
 
-      // Save error to meeting
+      // Save latest error - the orchestrator fails the meeting once retries are exhausted
       try {
         await Meeting.findByIdAndUpdate(meetingId, {
-          status: 'failed',
           'processing.error': `Sentiment analysis failed: ${error.message}`,
         });
+        await StageTracker.failedAttempt('sentiment', job, error.message);
       } catch (dbError) {
         console.error('Failed to update meeting with error:', dbError);
       }
@@ -128,7 +132,9 @@ class SentimentWorker {
 
     console.log(`\n🔥 Burnout Assessment:`);
     console.log(`  Score: ${result.burnoutIndicators.score}/100`);
-    console.log(`  Risk Level: ${getBurnoutRiskLevel(result.burnoutIndicators.score)}`);
+    console.log(
+      `  Risk Level: ${sentimentService.getBurnoutRiskLevel(result.burnoutIndicators.score)}`
+    );
 
     if (result.burnoutIndicators.factors.length > 0) {
       console.log(`\n  ⚠️  Concerning Factors:`);
@@ -163,6 +169,3 @@ class SentimentWorker {
 }
 
 export default SentimentWorker;
-
-
-
@@ -0,0 +1,90 @@
+import { Job } from 'bull';
+import { Meeting } from '../models/Meeting';
+import { SummaryJobData } from '../types/jobs';
+import { StageTracker } from '../orchestration/stageTracker';
+import { SummaryService } from '../services/summaryService';
+import { SummarySettingsService } from '../services/summarySettingsService';
+import { DiarizationService } from '../services/diarizationService';
+
+const summaryService = new SummaryService();
+const summarySettingsService = new SummarySettingsService();
+
+export class SummaryWorker {
+  /**
+   * Process a single summary generation job
+   */
+  static async processJob(job: Job<SummaryJobData>): Promise<void> {
+    const { meetingId, transcript, language, model } = job.data;
+
+    console.log(`\n📝 Processing summary job ${job.id} for meeting ${meetingId}`);
+
+    try {
+      await StageTracker.started('summary', job);
+
+      // Step 1: Validate meeting exists
+      const meeting = await Meeting.findById(meetingId);
+      if (!meeting) {
+        throw new Error(`Meeting ${meetingId} not found`);
+      }
+
+      console.log(`✅ Meeting found: "${meeting.title}"`);
+      await job.progress(10);
+
+      // Step 2: Length and style come from the meeting's project
+      const preferences = await summarySettingsService.resolvePreferences(meeting.projectId);
+
+      // Step 3: Call summary service - speaker labels are replaced by the participants they were mapped to
+      const summaryResult = await summaryService.generateSummary(
+        transcript,
+        meeting.participants.map((participant) => participant.name),
+        preferences,
+        model,
+        language || meeting.transcript?.language,
+        meeting.transcript?.segments?.length
+          ? DiarizationService.resolveSpeakerNames(meeting.transcript)
+          : undefined,
+        meeting.transcript?.duration
+      );
+      await job.progress(80);
+
+      // Step 4: Save to database
+      meeting.summary = {
+        tldr: summaryResult.tldr,
+        topics: summaryResult.topics,
+        openQuestions: summaryResult.openQuestions,
+        length: preferences.length,
+        style: preferences.style,
+        model: summaryResult.model,
+        generatedAt: new Date(),
+      };
+
+      await meeting.save();
+      await StageTracker.completed(meetingId, 'summary', summaryResult);
+      await job.progress(100);
+
+      console.log(`✅ Summary generation complete for meeting ${meetingId}`);
+      console.log(`   Topics: ${summaryResult.topics.length}`);
+      console.log(`   Open questions: ${summaryResult.openQuestions.length}`);
+      console.log(`   Cost: $${summaryResult.cost.toFixed(4)}`);
+    } catch (error: any) {
+      console.error(`❌ Summary generation failed for meeting ${meetingId}:`, error.message);
+
+      try {
+        await StageTracker.failedAttempt('summary', job, error.message);
+      } catch (dbError) {
+        console.error('Failed to record summary stage error:', dbError);
+      }
+      throw error; // Re-throw for Bull retry mechanism
+    }
+  }
+
+  /**
+   * Handle job failure
+   * Summary is optional - the orchestrator records the error once retries are exhausted
+   */
+  static onFailed(job: Job<SummaryJobData>, error: Error): void {
+    console.error(`❌ Summary job ${job.id} failed for meeting ${job.data.meetingId}`);
+    console.error(`   Error: ${error.message}`);
+    console.error(`   Attempt: ${job.attemptsMade}/${job.opts.attempts}`);
+  }
+}
@@ -0,0 +1,107 @@
+import { Job } from 'bull';
+import { v4 as uuidv4 } from 'uuid';
+import { Meeting } from '../models/Meeting';
+import { TimelineJobData } from '../types/jobs';
+import { StageTracker } from '../orchestration/stageTracker';
+import { TimelineService, TimelineMoment } from '../services/timelineService';
+import { DiarizationService } from '../services/diarizationService';
+
+const timelineService = new TimelineService();
+
+export class TimelineWorker {
+  /**
+   * Process a single timeline generation job
+   */
+  static async processJob(job: Job<TimelineJobData>): Promise<void> {
+    const { meetingId, duration, model } = job.data;
+
+    console.log(`\n🕒 Processing timeline job ${job.id} for meeting ${meetingId}`);
+
+    try {
+      await StageTracker.started('timeline', job);
+
+      // Step 1: Validate meeting exists and has a segmented transcript
+      const meeting = await Meeting.findById(meetingId);
+      if (!meeting) {
+        throw new Error(`Meeting ${meetingId} not found`);
+      }
+
+      // Speaker labels are replaced by the participants they were mapped to
+      const segments = DiarizationService.resolveSpeakerNames(meeting.transcript);
+      console.log(`✅ Meeting found: "${meeting.title}" (${segments.length} segments)`);
+      await job.progress(20);
+
+      // Step 2: Call timeline service (GPT-4)
+      console.log('🤖 Calling GPT-4 for timeline generation...');
+      const timelineResult = await timelineService.generateTimeline(
+        segments,
+        duration || meeting.transcript?.duration || 0,
+        model
+      );
+      await job.progress(80);
+
+      // Step 3: Transform moments (add IDs and timestamps)
+      const timeline = timelineResult.moments.map((moment) => ({
+        id: uuidv4(),
+        ...moment,
+        extractedAt: new Date(),
+      }));
+
+      // Step 4: Save to database
+      meeting.timeline = timeline;
+
+      await meeting.save();
+      await StageTracker.completed(meetingId, 'timeline', timelineResult);
+      await job.progress(100);
+
+      console.log(`✅ Timeline generation complete for meeting ${meetingId}`);
+      console.log(`   Moments: ${timeline.length}`);
+      console.log(`   Cost: $${timelineResult.cost.toFixed(4)}`);
+
+      this.logTimeline(meetingId, timelineResult.moments);
+    } catch (error: any) {
+      console.error(`❌ Timeline generation failed for meeting ${meetingId}:`, error.message);
+
+      try {
+        await StageTracker.failedAttempt('timeline', job, error.message);
+      } catch (dbError) {
+        console.error('Failed to record timeline stage error:', dbError);
+      }
+      throw error; // Re-throw for Bull retry mechanism
+    }
+  }
+
+  /**
+   * Handle job failure
+   * Timeline is optional - the orchestrator records the error once retries are exhausted
+   */
+  static onFailed(job: Job<TimelineJobData>, error: Error): void {
+    console.error(`❌ Timeline job ${job.id} failed for meeting ${job.data.meetingId}`);
+    console.error(`   Error: ${error.message}`);
+    console.error(`   Attempt: ${job.attemptsMade}/${job.opts.attempts}`);
+  }
+
+  /**
+   * Log timeline for monitoring
+   */
+  private static logTimeline(meetingId: string, moments: TimelineMoment[]): void {
+    console.log('\n🕒 TIMELINE SUMMARY');
+    console.log('='.repeat(60));
+    console.log(`Meeting ID: ${meetingId}`);
+
+    moments.forEach((moment, index) => {
+      console.log(
+        `  ${index + 1}. [${this.formatTime(moment.startTime)} - ${this.formatTime(moment.endTime)}] ` +
+          `[${moment.type.toUpperCase()}] ${moment.title}`
+      );
+    });
+
+    console.log('='.repeat(60) + '\n');
+  }
+
+  private static formatTime(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const remainder = Math.floor(seconds % 60);
+    return `${minutes}:${remainder.toString().padStart(2, '0')}`;
+  }
+}
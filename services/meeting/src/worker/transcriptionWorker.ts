@@ -1,29 +1,51 @@
 import { Job } from 'bull';
 import { TranscriptionResult } from '../types/transcription';
 import { Meeting } from '../models/Meeting';
-import { JobOrchestrator } from '../orchestration/jobOrchestrator'; // ← ADD THIS
 import { TranscriptionJobData } from '../types/jobs';
-import { AudioProcessor } from '../processor/audioProcessor';
+import { AudioProcessor, NormalizedAudio } from '../processor/audioProcessor';
 import { TranscriptionService } from '../services/transcriptionService';
+import { DiarizationService } from '../services/diarizationService';
+import { GlossaryService } from '../services/glossaryService';
+import { StageTracker } from '../orchestration/stageTracker';
+import { config } from '../config/config';
+
+const glossaryService = new GlossaryService();
 
 export class TranscriptionWorker {
   static async processJob(job: Job<TranscriptionJobData>): Promise<TranscriptionResult> {
-    const { meetingId, fileUrl, userId } = job.data;
+    const { meetingId, fileUrl, model, provider } = job.data;
 
     console.log(`\n🎬 Processing transcription job for meeting: ${meetingId}`);
     console.log(`📁 Audio file: ${fileUrl}`);
 
+    let normalized: NormalizedAudio | undefined;
+
+    // Bull fails a timed-out job but doesn't stop it - stop here too, so a late run
+    // can't keep paying for chunks or overwrite what the retry saves
+    const timeout = new AbortController();
+    const timer = job.opts.timeout
+      ? setTimeout(
+          () =>
+            timeout.abort(
+              new Error(`Transcription timed out after ${Math.round(job.opts.timeout! / 1000)}s`)
+            ),
+          job.opts.timeout
+        )
+      : undefined;
+
     try {
+      await StageTracker.started('transcription', job);
+
       // Update job progress - 10%
       await job.progress(10);
 
       // Step 1: Validate audio file
-      console.log('🔍 Step 1/4: Validating audio file...');
+      console.log('🔍 Step 1/5: Validating audio file...');
       await AudioProcessor.validate(fileUrl);
       await job.progress(25);
 
       // Step 2: Get audio metadata
-      console.log('📊 Step 2/4: Reading audio metadata...');
+      console.log('📊 Step 2/5: Reading audio metadata...');
       const metadata = await AudioProcessor.getMetadata(fileUrl);
       console.log(`   Duration: ${metadata.duration.toFixed(0)}s`);
       console.log(`   Size: ${metadata.sizeMB.toFixed(2)}MB`);
@@ -32,35 +54,119 @@ export class TranscriptionWorker {
       const estimatedCost = AudioProcessor.calculateEstimatedCost(metadata.duration);
       console.log(`   Estimated cost: $${estimatedCost.toFixed(4)}`);
 
+      await job.progress(30);
+
+      // Step 3: Normalize audio (audio track only, mono, 16kHz, loudness)
+      if (config.audio.normalize) {
+        console.log('🎚️  Step 3/5: Normalizing audio...');
+        normalized = await AudioProcessor.normalize(fileUrl, {
+          trimSilence: config.audio.trimSilence,
+        });
+      }
+      timeout.signal.throwIfAborted();
       await job.progress(40);
 
-      // Step 3: Update meeting status to processing
-      console.log('💾 Step 3/4: Updating meeting status...');
+      // Step 4: Update meeting status to processing
+      console.log('💾 Step 4/5: Updating meeting status...');
       await Meeting.findByIdAndUpdate(meetingId, {
         status: 'processing',
         'processing.startedAt': new Date(),
+        'processing.audio': {
+          original: metadata,
+          normalized: normalized?.normalized,
+          trimmedStart: normalized?.trimmedStart || 0,
+          trimmedEnd: normalized?.trimmedEnd || 0,
+          processedAt: new Date(),
+        },
       });
       await job.progress(50);
 
-      // Step 4: Transcribe audio
-      console.log('🤖 Step 4/4: Transcribing audio...');
-      const result = await TranscriptionService.transcribe(fileUrl, meetingId);
+      // Project glossary - a vocabulary hint for the engine and a correction pass afterwards
+      const meeting = await Meeting.findById(meetingId).select(
+        'projectId participants transcript.speakers'
+      );
+      const glossary = meeting?.projectId
+        ? await glossaryService.getGlossary(meeting.projectId)
+        : null;
+
+      // Step 5: Transcribe audio
+      console.log('🤖 Step 5/5: Transcribing audio...');
+      // Long recordings are transcribed in chunks - report progress between 50% and 90%
+      const result = await TranscriptionService.transcribe(normalized?.path || fileUrl, meetingId, {
+        provider,
+        model,
+        prompt: glossary ? glossaryService.buildPrompt(glossary) : undefined,
+        onProgress: (completedChunks, totalChunks) =>
+          job.progress(50 + Math.round((completedChunks / totalChunks) * 40)),
+        signal: timeout.signal,
+      });
       await job.progress(90);
 
-      // Step 5: Save transcription to database
+      if (glossary) {
+        const corrected = glossaryService.applyCorrections(
+          result.segments,
+          result.fullText,
+          glossary
+        );
+        result.segments = corrected.segments;
+        result.fullText = corrected.fullText;
+        console.log(`📖 Glossary: ${corrected.corrections} corrections`);
+      }
+
+      // Label speakers unless the transcription provider already did
+      // Diarization runs on the transcribed audio, before timestamps are shifted
+      if (!result.segments.some((segment) => segment.speaker)) {
+        const participantCount = meeting?.participants?.length || 0;
+
+        try {
+          result.segments = await DiarizationService.assignSpeakers(
+            normalized?.path || fileUrl,
+            result.segments,
+            result.duration,
+            participantCount > 1 ? participantCount : undefined
+          );
+        } catch (diarizationError: any) {
+          // Speaker labels are a nice-to-have - keep the transcript without them
+          console.warn(`⚠️  Diarization failed: ${diarizationError.message}`);
+        }
+      }
+
+      // Timestamps of trimmed audio are shifted back onto the original recording
+      if (normalized) {
+        const trimmedStart = normalized.trimmedStart;
+        result.segments = result.segments.map((segment) => ({
+          ...segment,
+          timestamp: segment.timestamp + trimmedStart,
+        }));
+        result.duration = metadata.duration;
+      }
+
+      // Save transcription to database
+      timeout.signal.throwIfAborted();
       console.log('💾 Saving transcription to database...');
+      // Translations are segment-aligned with the old transcript - they are dropped
       await Meeting.findByIdAndUpdate(meetingId, {
         status: 'transcribed',
+        translations: [],
         transcript: {
           segments: result.segments,
           fullText: result.fullText,
           language: result.language,
+          languages: result.languages,
           duration: result.duration,
+          // Speaker labels mapped to participants on a previous run keep their mapping
+          speakers: DiarizationService.summarizeSpeakers(
+            result.segments,
+            result.duration,
+            meeting?.transcript?.speakers || []
+          ),
         },
-        'processing.completedAt': new Date(),
-        'processing.cost': result.cost,
         'processing.model': result.model,
       });
+      await StageTracker.completed(meetingId, 'transcription', {
+        cost: result.cost,
+        model: result.model,
+      });
 
       await job.progress(100);
 
@@ -70,30 +176,28 @@ export class TranscriptionWorker {
       console.log(`   Cost: $${result.cost.toFixed(4)}`);
       console.log(`   Processing time: ${result.processingTime}ms\n`);
 
-      // ← ADD THIS: Trigger next steps in pipeline via orchestrator
-      console.log(`🔗 Triggering next pipeline steps via orchestrator...`);
-      await JobOrchestrator.onTranscriptionComplete(
-        meetingId,
-        {
-          fullText: result.fullText,
-          segments: result.segments,
-          duration: result.duration,
-          language: result.language,
-        },
-        userId
-      );
+      // Next stages are queued by the orchestrator when this job completes
       return result;
     } catch (error: any) {
       console.error(`❌ Transcription failed for meeting ${meetingId}:`, error.message);
 
-      // Update meeting status to failed
+      // Bull already failed the attempt - a retry may be running and owns the meeting now
+      if (timeout.signal.aborted) {
+        throw error;
+      }
+
+      // Record the latest error - the orchestrator fails the meeting once retries are exhausted
       await Meeting.findByIdAndUpdate(meetingId, {
-        status: 'failed',
         'processing.error': error.message,
-        'processing.completedAt': new Date(),
       });
+      await StageTracker.failedAttempt('transcription', job, error.message);
 
       throw error; // Re-throw for Bull's retry mechanism
+    } finally {
+      clearTimeout(timer);
+      if (normalized) {
+        AudioProcessor.cleanupNormalized(normalized);
+      }
     }
   }
 
@@ -120,22 +224,12 @@ export class TranscriptionWorker {
 
   /**
    * Handle job failure
+   * Marking the meeting failed after the last attempt is left to the orchestrator
    */
-  static async onFailed(job: Job<TranscriptionJobData>, error: Error): Promise<void> {
+  static onFailed(job: Job<TranscriptionJobData>, error: Error): void {
     console.error(`❌ Job ${job.id} failed for meeting ${job.data.meetingId}`);
     console.error(`   Error: ${error.message}`);
     console.error(`   Attempt: ${job.attemptsMade}/${job.opts.attempts}`);
-
-    // If all retries exhausted, mark as permanently failed
-    if (job.attemptsMade >= (job.opts.attempts || 3)) {
-      console.error(`💀 All retries exhausted for meeting ${job.data.meetingId}`);
-
-      await Meeting.findByIdAndUpdate(job.data.meetingId, {
-        status: 'failed',
-        'processing.error': `Failed after ${job.attemptsMade} attempts: ${error.message}`,
-        'processing.completedAt': new Date(),
-      });
-    }
   }
 
   /**
@@ -0,0 +1,105 @@
+import { Job } from 'bull';
+import { Meeting, ITranscriptTranslation } from '../models/Meeting';
+import { TranslationJobData } from '../types/jobs';
+import { StageTracker } from '../orchestration/stageTracker';
+import { TranslationService } from '../services/translationService';
+
+const translationService = new TranslationService();
+
+export class TranslationWorker {
+  /**
+   * Process a single translation job
+   */
+  static async processJob(job: Job<TranslationJobData>): Promise<void> {
+    const { meetingId, targetLanguages, model } = job.data;
+
+    console.log(`\n🌐 Processing translation job ${job.id} for meeting ${meetingId}`);
+
+    try {
+      await StageTracker.started('translation', job);
+
+      // Step 1: Validate meeting exists and has a segmented transcript
+      const meeting = await Meeting.findById(meetingId);
+      if (!meeting) {
+        throw new Error(`Meeting ${meetingId} not found`);
+      }
+
+      const transcript = meeting.transcript;
+      const sourceLanguage = transcript?.language || 'en';
+      const languages = targetLanguages.filter((language) => language !== sourceLanguage);
+
+      console.log(
+        `✅ Meeting found: "${meeting.title}" (${sourceLanguage} → ${languages.join(', ') || 'nothing to translate'})`
+      );
+      await job.progress(10);
+
+      // Step 2: Translate into every target language (GPT-4)
+      const translations: ITranscriptTranslation[] = [];
+      const tokensUsed = { input: 0, output: 0 };
+      let cost = 0;
+      let resolvedModel: string | undefined;
+
+      for (const [index, language] of languages.entries()) {
+        const result = await translationService.translateSegments(
+          transcript?.segments || [],
+          sourceLanguage,
+          language,
+          model
+        );
+
+        translations.push({
+          language,
+          sourceLanguage,
+          segments: result.segments,
+          fullText: result.fullText,
+          ...(result.untranslatedSegments.length > 0 && {
+            untranslatedSegments: result.untranslatedSegments,
+          }),
+          model: result.model,
+          translatedAt: new Date(),
+        });
+
+        cost += result.cost;
+        tokensUsed.input += result.tokensUsed.input;
+        tokensUsed.output += result.tokensUsed.output;
+        resolvedModel = result.model;
+
+        await job.progress(10 + Math.round(((index + 1) / languages.length) * 80));
+      }
+
+      // Step 3: Save to database - translations of the previous transcript are replaced
+      meeting.translations = translations;
+
+      await meeting.save();
+      await StageTracker.completed(meetingId, 'translation', {
+        cost,
+        model: resolvedModel,
+        tokensUsed,
+      });
+      await job.progress(100);
+
+      console.log(`✅ Translation complete for meeting ${meetingId}`);
+      console.log(`   Languages: ${languages.join(', ') || 'none'}`);
+      console.log(`   Cost: $${cost.toFixed(4)}`);
+    } catch (error: any) {
+      console.error(`❌ Translation failed for meeting ${meetingId}:`, error.message);
+
+      try {
+        await StageTracker.failedAttempt('translation', job, error.message);
+      } catch (dbError) {
+        console.error('Failed to record translation stage error:', dbError);
+      }
+      throw error; // Re-throw for Bull retry mechanism
+    }
+  }
+
+  /**
+   * Handle job failure
+   * Translation is optional - the orchestrator records the error once retries are exhausted
+   */
+  static onFailed(job: Job<TranslationJobData>, error: Error): void {
+    console.error(`❌ Translation job ${job.id} failed for meeting ${job.data.meetingId}`);
+    console.error(`   Error: ${error.message}`);
+    console.error(`   Attempt: ${job.attemptsMade}/${job.opts.attempts}`);
+  }
+}